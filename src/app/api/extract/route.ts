@@ -0,0 +1,4 @@
+import { jsonRoute, parseExtractionInput, extractFromInput } from "@/lib/api";
+
+// POST /api/extract - recover a private key from two signatures sharing a nonce (ExtractionInput)
+export const POST = jsonRoute(parseExtractionInput, extractFromInput, "extraction_failed");
@@ -0,0 +1,4 @@
+import { jsonRoute, parseKeyGenInput, generateKeys } from "@/lib/api";
+
+// POST /api/keys - generate a key pair and its Taproot address
+export const POST = jsonRoute(parseKeyGenInput, generateKeys, "keygen_failed");
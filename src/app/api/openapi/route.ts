@@ -0,0 +1,238 @@
+// GET /api/openapi - OpenAPI 3.0 description of the EOTS HTTP API
+
+const hex32 = { type: "string", pattern: "^(0x)?[0-9a-fA-F]{64}$", description: "32 bytes, hex encoded" };
+const scheme = { type: "string", enum: ["ecdsa", "schnorr"], default: "ecdsa" };
+
+const signature = {
+  type: "object",
+  required: ["r", "s"],
+  properties: { r: hex32, s: hex32, scheme },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/ApiErrorResponse" } } },
+});
+
+const jsonBody = (schema: string) => ({
+  required: true,
+  content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } },
+});
+
+const jsonResult = (description: string, schema: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } },
+});
+
+const document = {
+  openapi: "3.0.3",
+  info: {
+    title: "EOTS API",
+    version: "1.0.0",
+    description: "Extractable One-Time Signatures over secp256k1. All byte fields are hex encoded. Private keys travel in request and response bodies, so only expose this API to trusted callers over TLS.",
+  },
+  paths: {
+    "/api/keys": {
+      post: {
+        summary: "Generate a key pair",
+        requestBody: { required: false, content: { "application/json": { schema: { $ref: "#/components/schemas/KeyGenInput" } } } },
+        responses: {
+          "200": jsonResult("Generated key pair", "KeyGenResponse"),
+          "400": errorResponse("Invalid request body"),
+        },
+      },
+    },
+    "/api/sign": {
+      post: {
+        summary: "Sign a 32-byte message hash",
+        description: "Without a nonce, one is derived with RFC 6979 (optionally mixed with auxRand). Signing two different messages with the same nonce reveals the private key.",
+        requestBody: jsonBody("SignatureInput"),
+        responses: {
+          "200": jsonResult("Signature", "SignResponse"),
+          "400": errorResponse("Invalid request body"),
+          "422": errorResponse("Signing failed"),
+        },
+      },
+    },
+    "/api/verify": {
+      post: {
+        summary: "Verify a signature",
+        description: "A well-formed but invalid signature returns 200 with valid: false and a reason.",
+        requestBody: jsonBody("VerificationInput"),
+        responses: {
+          "200": jsonResult("Verification result", "VerificationResult"),
+          "400": errorResponse("Invalid request body"),
+        },
+      },
+    },
+    "/api/extract": {
+      post: {
+        summary: "Extract a private key from two signatures that share a nonce",
+        description: "publicKey is required for Schnorr signatures. For ECDSA it lets extraction handle low-S normalized signatures and reports which sign combination matched.",
+        requestBody: jsonBody("ExtractionInput"),
+        responses: {
+          "200": jsonResult("Extracted key", "ExtractionResponse"),
+          "400": errorResponse("Invalid request body"),
+          "422": errorResponse("The signatures do not allow extraction (different nonces, identical signatures, or no key matches)"),
+        },
+      },
+    },
+    "/api/simulate": {
+      post: {
+        summary: "Run a seeded finality simulation",
+        description: "Finality providers commit randomness, vote on every simulated block with EOTS signatures and are slashed when a scripted double sign reveals their key. The result is deterministic: the same body always returns the same timeline.",
+        requestBody: jsonBody("SimulationConfig"),
+        responses: {
+          "200": jsonResult("Simulation timeline", "SimulationResult"),
+          "400": errorResponse("Invalid request body"),
+          "422": errorResponse("Simulation failed"),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      KeyGenInput: {
+        type: "object",
+        properties: { scheme, network: { type: "string", enum: ["mainnet", "testnet", "signet", "regtest"], default: "mainnet" } },
+      },
+      KeyGenResponse: {
+        type: "object",
+        required: ["privateKey", "publicKey", "scheme", "network", "taprootAddress"],
+        properties: {
+          privateKey: hex32,
+          publicKey: { type: "string", description: "33-byte compressed (ecdsa) or 32-byte x-only (schnorr) key, hex encoded" },
+          scheme,
+          network: { type: "string" },
+          taprootAddress: { type: "string" },
+        },
+      },
+      SignatureInput: {
+        type: "object",
+        required: ["privateKey", "messageHash"],
+        properties: { privateKey: hex32, messageHash: hex32, nonce: hex32, scheme, auxRand: hex32 },
+      },
+      SignResponse: {
+        type: "object",
+        required: ["signature", "publicKey"],
+        properties: { signature: { $ref: "#/components/schemas/Signature" }, publicKey: { type: "string" } },
+      },
+      VerificationInput: {
+        type: "object",
+        required: ["publicKey", "messageHash", "signature"],
+        properties: {
+          publicKey: { type: "string", description: "Compressed or uncompressed key (ecdsa), x-only or compressed key (schnorr)" },
+          messageHash: hex32,
+          signature: { $ref: "#/components/schemas/Signature" },
+        },
+      },
+      VerificationResult: {
+        type: "object",
+        required: ["valid"],
+        properties: {
+          valid: { type: "boolean" },
+          reason: { type: "string", enum: ["r_out_of_range", "s_out_of_range", "invalid_public_key", "point_at_infinity", "mismatch", "not_committed"] },
+          message: { type: "string" },
+        },
+      },
+      ExtractionInput: {
+        type: "object",
+        required: ["signature1", "signature2", "messageHash1", "messageHash2"],
+        properties: {
+          signature1: { $ref: "#/components/schemas/Signature" },
+          signature2: { $ref: "#/components/schemas/Signature" },
+          messageHash1: hex32,
+          messageHash2: hex32,
+          publicKey: { type: "string" },
+          scheme,
+        },
+      },
+      ExtractionResponse: {
+        type: "object",
+        required: ["privateKey", "publicKey", "combination"],
+        properties: {
+          privateKey: hex32,
+          publicKey: { type: "string" },
+          combination: { type: "string", nullable: true, enum: ["s1,s2", "s1,-s2"] },
+        },
+      },
+      SimulationConfig: {
+        type: "object",
+        required: ["seed", "providers", "heights"],
+        properties: {
+          seed: { type: "string" },
+          providers: {
+            type: "array",
+            minItems: 1,
+            maxItems: 16,
+            items: { type: "object", required: ["votingPower"], properties: { name: { type: "string" }, votingPower: { type: "integer", minimum: 1 } } },
+          },
+          heights: { type: "integer", minimum: 1, maximum: 64 },
+          startHeight: { type: "integer", minimum: 0, default: 1 },
+          chainId: { type: "string", default: "sim-chain" },
+          quorum: { type: "number", exclusiveMaximum: true, minimum: 0, maximum: 1, description: "Fraction of voting power a block must exceed, defaults to 2/3" },
+          participation: { type: "number", minimum: 0, maximum: 1, default: 1 },
+          faults: {
+            type: "array",
+            items: { type: "object", required: ["type", "provider", "height"], properties: { type: { type: "string", enum: ["double_sign", "offline"] }, provider: { type: "integer", minimum: 0 }, height: { type: "integer" } } },
+          },
+          network: { type: "string", enum: ["mainnet", "testnet", "signet", "regtest"], default: "mainnet" },
+        },
+      },
+      SimulationResult: {
+        type: "object",
+        required: ["seed", "chainId", "quorum", "providers", "blocks", "events", "evidence", "finalizedHeight"],
+        properties: {
+          seed: { type: "string" },
+          chainId: { type: "string" },
+          quorum: { type: "number" },
+          providers: { type: "array", items: { type: "object", description: "name, x-only publicKey, votingPower, randomnessRoot and, once slashed, slashedAtHeight" } },
+          blocks: { type: "array", items: { type: "object", description: "height, hash, forkHash, votedPower, totalPower and finalized" } },
+          events: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["step", "height", "type", "message"],
+              properties: {
+                step: { type: "integer" },
+                height: { type: "integer" },
+                type: { type: "string", enum: ["commit_randomness", "propose", "vote", "missed_vote", "equivocation", "slash", "finalize", "stall"] },
+                provider: { type: "string" },
+                blockHash: hex32,
+                fork: { type: "boolean" },
+                r: hex32,
+                votingPower: { type: "integer" },
+                privateKey: hex32,
+                taprootAddress: { type: "string" },
+                evidenceId: hex32,
+                message: { type: "string" },
+              },
+            },
+          },
+          evidence: { type: "array", items: { type: "object", description: "Equivocation evidence in its JSON form" } },
+          finalizedHeight: { type: "integer" },
+        },
+      },
+      Signature: signature,
+      ApiErrorResponse: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["code", "message"],
+            properties: {
+              code: { type: "string", description: "missing, invalid_type, invalid_hex, invalid_length, out_of_range, invalid_point, invalid_json, an operation failure code, or internal_error" },
+              message: { type: "string" },
+              field: { type: "string", description: "Offending request field, e.g. signature1.r" },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+export function GET() {
+  return Response.json(document);
+}
@@ -0,0 +1,4 @@
+import { jsonRoute, parseSignatureInput, signFromInput } from "@/lib/api";
+
+// POST /api/sign - sign a message hash (SignatureInput)
+export const POST = jsonRoute(parseSignatureInput, signFromInput, "signing_failed");
@@ -0,0 +1,5 @@
+import { jsonRoute } from "@/lib/api";
+import { parseSimulationConfig, runFinalitySimulation } from "@/lib/simulation";
+
+// POST /api/simulate - run a seeded finality simulation (SimulationConfig); the same body always returns the same timeline
+export const POST = jsonRoute(parseSimulationConfig, runFinalitySimulation, "simulation_failed");
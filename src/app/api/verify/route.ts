@@ -0,0 +1,4 @@
+import { jsonRoute, parseVerificationInput, verifyFromInput } from "@/lib/api";
+
+// POST /api/verify - verify a signature (VerificationInput); invalid signatures are a 200 with valid: false
+export const POST = jsonRoute(parseVerificationInput, verifyFromInput, "verification_failed");
@@ -1,58 +1,134 @@
 "use client";
 
 import { useState } from "react";
-import { generateEOTSKeyPair, signEOTS, verifyEOTS, extractPrivateKey, deriveTaprootAddress, getPublicKey, signatureToFullHex, bytesToHex, hexToBytes, generateRandomPrivateKey, generateRandomNonce, generateRandomMessageHash, isValidHex } from "@/lib";
+import { generateEOTSKeyPair, signEOTS, verifyEOTSDetailed, verifyCommittedSignature, merkleProofFromJSON, createEquivocationWatcher, createEvidence, verifyEvidence, encodeEvidence, decodeEvidence, evidenceToJSON, evidenceFromJSON, extractPrivateKey, extractPrivateKeyDetailed, deriveTaprootAddress, getPublicKey, signatureToFullHex, signatureToDER, signatureToBase64, signatureToJSON, parseSignature, parseBytes, parseHash32, parseScalar, parsePrivateKey, parsePublicKey, ParseError, MissingInputError, generateMnemonic, mnemonicToSeed, hdKeyFromSeed, parseDerivationPath, deriveEOTSKeys, DEFAULT_EOTS_DERIVATION_PATH, encryptKeystore, decryptKeystore, parseUTXOList, buildSweepTransaction, taprootScriptPubKey, encodeFinalityVote, runFinalitySimulation, finalityVoteHash, DEFAULT_FINALITY_VOTE_TAG, bytesToHex, generateRandomPrivateKey, generateRandomNonce, generateRandomMessageHash } from "@/lib";
 import { sha256 } from "@noble/hashes/sha256";
-import type { EOTSSignature } from "@/lib";
-// import { runEOTSTests } from "@/lib/test";
+import type { EOTSSignature, EOTSScheme, VerificationResult, BitcoinNetwork, SignCombination, EquivocationAlert, EquivocationEvidence, EvidenceVerificationResult, SignatureFormat, SweepResult, FinalityVoteKind, SimulationFault, SimulationResult } from "@/lib";
 
 interface FormData {
+  mnemonic: string;
+  mnemonicPassphrase: string;
+  derivationPath: string;
+  keystorePassword: string;
   privateKey: string;
   nonce: string;
   messageText: string;
+  voteChainId: string;
+  voteHeight: string;
+  voteHash: string;
+  voteKind: string;
+  voteTag: string;
   messageHash: string;
   publicKey: string;
   signatureR: string;
   signatureS: string;
+  encodedSignature: string;
+  commitmentRoot: string;
+  commitmentProof: string;
+  commitmentStartHeight: string;
+  commitmentCount: string;
+  commitmentHeight: string;
   signature1R: string;
   signature1S: string;
   signature2R: string;
   signature2S: string;
   messageHash1: string;
   messageHash2: string;
+  sweepUTXOs: string;
+  sweepDestination: string;
+  sweepFeeRate: string;
+  signatureFeed: string;
+  simSeed: string;
+  simPowers: string;
+  simHeights: string;
+  simQuorum: string;
+  simParticipation: string;
+  simFaults: string;
 }
 
+// Errors are keyed by form field, or by section for failures that are not tied to one input
+type ErrorKey = keyof FormData | "keyDerivation" | "keystore" | "vote" | "signing" | "verification" | "extraction" | "evidence" | "sweep" | "watcher" | "simulation";
+
 export default function Home() {
   const [formData, setFormData] = useState<FormData>({
+    mnemonic: "",
+    mnemonicPassphrase: "",
+    derivationPath: DEFAULT_EOTS_DERIVATION_PATH,
+    keystorePassword: "",
     privateKey: "",
     nonce: "",
     messageText: "",
+    voteChainId: "",
+    voteHeight: "",
+    voteHash: "",
+    voteKind: "block",
+    voteTag: DEFAULT_FINALITY_VOTE_TAG,
     messageHash: "",
     publicKey: "",
     signatureR: "",
     signatureS: "",
+    encodedSignature: "",
+    commitmentRoot: "",
+    commitmentProof: "",
+    commitmentStartHeight: "",
+    commitmentCount: "",
+    commitmentHeight: "",
     signature1R: "",
     signature1S: "",
     signature2R: "",
     signature2S: "",
     messageHash1: "",
     messageHash2: "",
+    sweepUTXOs: "",
+    sweepDestination: "",
+    sweepFeeRate: "",
+    signatureFeed: "",
+    simSeed: "",
+    simPowers: "40, 30, 20, 10",
+    simHeights: "6",
+    simQuorum: "",
+    simParticipation: "",
+    simFaults: "double_sign 3 3",
   });
 
   const [results, setResults] = useState({
+    encodedVote: "",
     generatedSignature: null as EOTSSignature | null,
-    verificationResult: null as boolean | null,
+    verificationResult: null as VerificationResult | null,
     extractedPrivateKey: "",
+    extractionCombination: null as SignCombination | null,
     taprootAddress: "",
     generatedPublicKey: "",
+    derivedKeyInfo: null as { path: string; randomnessSeed: string; extendedPublicKey: string } | null,
+    importedKeystore: null as { createdAt: string; randomnessSeed?: string } | null,
+    equivocationAlerts: null as EquivocationAlert[] | null,
+    evidence: null as EquivocationEvidence | null,
+    evidenceCheck: null as EvidenceVerificationResult | null,
+    sweepScriptPubKey: "",
+    sweep: null as SweepResult | null,
+    simulation: null as SimulationResult | null,
   });
 
-  const [errors, setErrors] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Partial<Record<ErrorKey, string>>>({});
+  const [scheme, setScheme] = useState<EOTSScheme>("ecdsa");
+  const [network, setNetwork] = useState<BitcoinNetwork>("mainnet");
+  const [useAuxRand, setUseAuxRand] = useState(false);
+  const [keystoreBusy, setKeystoreBusy] = useState(false);
+  const [signatureFormat, setSignatureFormat] = useState<SignatureFormat | null>(null);
+  const [showVotes, setShowVotes] = useState(false);
 
   const updateFormData = (field: keyof FormData, value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  // Show parse errors next to the offending field, anything else under the section
+  const reportError = (section: ErrorKey, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    setErrors(error instanceof ParseError && error.field in formData ? { [error.field]: message } : { [section]: message });
+  };
+
+  const errorText = (key: ErrorKey) => errors[key] && <p className="text-xs text-red-600 mt-1">{errors[key]}</p>;
+
   const generateRandom = (field: keyof FormData) => {
     let value = "";
     switch (field) {
@@ -84,34 +160,61 @@ export default function Home() {
     }
   };
 
-  const handleGenerateSignature = () => {
+  const handleEncodedSignatureChange = (text: string) => {
+    updateFormData("encodedSignature", text);
+    setErrors((prev) => ({ ...prev, encodedSignature: undefined }));
+    setSignatureFormat(null);
+    if (!text.trim()) {
+      return;
+    }
     try {
-      setErrors([]);
-
-      if (!formData.privateKey || !formData.messageHash) {
-        setErrors(["Private key and message hash are required"]);
-        return;
+      const { signature, format } = parseSignature(text, scheme);
+      updateFormData("signatureR", bytesToHex(signature.r));
+      updateFormData("signatureS", bytesToHex(signature.s));
+      if (signature.scheme && signature.scheme !== scheme) {
+        setScheme(signature.scheme);
       }
+      setSignatureFormat(format);
+    } catch (error) {
+      setErrors((prev) => ({ ...prev, encodedSignature: error instanceof Error ? error.message : String(error) }));
+    }
+  };
 
-      if (!isValidHex(formData.privateKey, 32)) {
-        setErrors(["Invalid private key format (must be 64 hex characters)"]);
-        return;
-      }
+  // Finality votes are hashed with a domain tag, so the resulting hash cannot collide with another application's message
+  const handleBuildVote = () => {
+    try {
+      setErrors({});
 
-      if (!isValidHex(formData.messageHash, 32)) {
-        setErrors(["Invalid message hash format (must be 64 hex characters)"]);
+      const height = Number(formData.voteHeight);
+      if (!formData.voteHeight.trim() || !Number.isInteger(height)) {
+        setErrors({ voteHeight: "Block height must be an integer" });
         return;
       }
+      const vote = { chainId: formData.voteChainId.trim(), height, hash: formData.voteHash.trim(), kind: formData.voteKind as FinalityVoteKind, tag: formData.voteTag };
 
-      if (formData.nonce && !isValidHex(formData.nonce, 32)) {
-        setErrors(["Invalid nonce format (must be 64 hex characters)"]);
-        return;
-      }
+      const encodedVote = bytesToHex(encodeFinalityVote(vote));
+      setFormData((prev) => ({ ...prev, messageText: "", messageHash: bytesToHex(finalityVoteHash(vote)) }));
+      setResults((prev) => ({
+        ...prev,
+        encodedVote,
+      }));
+    } catch (error) {
+      reportError("vote", error);
+    }
+  };
 
-      const signature = signEOTS(formData.privateKey, formData.messageHash, formData.nonce || undefined);
+  const handleGenerateSignature = () => {
+    try {
+      setErrors({});
+
+      const privateKey = parsePrivateKey(formData.privateKey, "privateKey");
+      const messageHash = parseHash32(formData.messageHash, "messageHash");
+      const nonce = formData.nonce ? parseScalar(formData.nonce, "nonce") : undefined;
+
+      const signature = signEOTS(privateKey, messageHash, nonce, scheme, useAuxRand ? generateRandomNonce() : undefined);
 
-      const publicKey = getPublicKey(formData.privateKey);
-      const taprootAddress = deriveTaprootAddress(formData.privateKey);
+      const publicKey = getPublicKey(privateKey, scheme);
+      const taprootAddress = deriveTaprootAddress(privateKey, network);
 
       setResults((prev) => ({
         ...prev,
@@ -125,137 +228,428 @@ export default function Home() {
       updateFormData("signatureR", bytesToHex(signature.r));
       updateFormData("signatureS", bytesToHex(signature.s));
     } catch (error) {
-      setErrors([`Error generating signature: ${error}`]);
+      reportError("signing", error);
     }
   };
 
   const handleVerifySignature = () => {
     try {
-      setErrors([]);
-
-      if (!formData.publicKey || !formData.messageHash || !formData.signatureR || !formData.signatureS) {
-        setErrors(["Public key, message hash, and signature (r, s) are required"]);
-        return;
-      }
-
-      if (!isValidHex(formData.publicKey, 33)) {
-        setErrors(["Invalid public key format (must be 66 hex characters for compressed key)"]);
-        return;
-      }
+      setErrors({});
 
+      const publicKey = parsePublicKey(formData.publicKey, "publicKey", scheme === "schnorr" ? ["xonly", "compressed"] : ["compressed", "uncompressed"]);
+      const messageHash = parseHash32(formData.messageHash, "messageHash");
       const signature: EOTSSignature = {
-        r: hexToBytes(formData.signatureR),
-        s: hexToBytes(formData.signatureS),
+        r: parseBytes(formData.signatureR, "signatureR", 32),
+        s: parseBytes(formData.signatureS, "signatureS", 32),
+        scheme,
       };
 
-      const isValid = verifyEOTS(formData.publicKey, formData.messageHash, signature);
+      let verification: VerificationResult;
+      if (formData.commitmentRoot) {
+        const root = parseHash32(formData.commitmentRoot, "commitmentRoot");
+        if (!formData.commitmentProof.trim()) {
+          throw new MissingInputError("commitmentProof");
+        }
+        let proof;
+        try {
+          proof = merkleProofFromJSON(formData.commitmentProof);
+        } catch (error) {
+          setErrors({ commitmentProof: error instanceof Error ? error.message : String(error) });
+          return;
+        }
+        // The proof must be for the slot of the height being voted on, not just anywhere in the batch
+        const integer = (field: "commitmentStartHeight" | "commitmentCount" | "commitmentHeight") => (formData[field].trim() && Number.isInteger(Number(formData[field])) ? Number(formData[field]) : undefined);
+        const startHeight = integer("commitmentStartHeight");
+        const count = integer("commitmentCount");
+        const height = integer("commitmentHeight");
+        if (startHeight === undefined || count === undefined || height === undefined) {
+          setErrors({
+            commitmentStartHeight: startHeight === undefined ? "Start height must be an integer" : undefined,
+            commitmentCount: count === undefined ? "Batch size must be an integer" : undefined,
+            commitmentHeight: height === undefined ? "Height must be an integer" : undefined,
+          });
+          return;
+        }
+        verification = verifyCommittedSignature(publicKey, messageHash, signature, root, proof, { startHeight, count }, height);
+      } else {
+        verification = verifyEOTSDetailed(publicKey, messageHash, signature);
+      }
 
       setResults((prev) => ({
         ...prev,
-        verificationResult: isValid,
+        verificationResult: verification,
       }));
     } catch (error) {
-      setErrors([`Error verifying signature: ${error}`]);
+      reportError("verification", error);
     }
   };
 
   const handleExtractPrivateKey = () => {
     try {
-      setErrors([]);
-
-      if (!formData.signature1R || !formData.signature1S || !formData.signature2R || !formData.signature2S || !formData.messageHash1 || !formData.messageHash2) {
-        setErrors(["All signature components and message hashes are required"]);
-        return;
-      }
+      setErrors({});
 
       const sig1: EOTSSignature = {
-        r: hexToBytes(formData.signature1R),
-        s: hexToBytes(formData.signature1S),
+        r: parseBytes(formData.signature1R, "signature1R", 32),
+        s: parseBytes(formData.signature1S, "signature1S", 32),
+        scheme,
       };
+      const messageHash1 = parseHash32(formData.messageHash1, "messageHash1");
 
       const sig2: EOTSSignature = {
-        r: hexToBytes(formData.signature2R),
-        s: hexToBytes(formData.signature2S),
+        r: parseBytes(formData.signature2R, "signature2R", 32),
+        s: parseBytes(formData.signature2S, "signature2S", 32),
+        scheme,
       };
+      const messageHash2 = parseHash32(formData.messageHash2, "messageHash2");
+
+      // The public key lives in the verification section; Schnorr extraction cannot work without it
+      if (scheme === "schnorr" && !formData.publicKey.trim()) {
+        setErrors({ extraction: "Public key (verification section) is required to extract a Schnorr private key" });
+        return;
+      }
+      const publicKey = formData.publicKey.trim() ? parsePublicKey(formData.publicKey, "publicKey", scheme === "schnorr" ? ["xonly", "compressed"] : ["compressed", "uncompressed"]) : undefined;
 
-      const extractedKey = extractPrivateKey(sig1, sig2, formData.messageHash1, formData.messageHash2);
+      // With a public key, s1,s2 and s1,-s2 are tried so low-S normalized signatures still extract
+      const extraction = publicKey ? extractPrivateKeyDetailed(sig1, sig2, messageHash1, messageHash2, publicKey) : { privateKey: extractPrivateKey(sig1, sig2, messageHash1, messageHash2), combination: null };
+      const extractedKey = extraction.privateKey;
       const extractedKeyHex = bytesToHex(extractedKey);
-      const taprootAddress = deriveTaprootAddress(extractedKey);
+      const taprootAddress = deriveTaprootAddress(extractedKey, network);
+
+      // Evidence needs both signatures to verify; extraction alone does not guarantee that
+      let evidence: EquivocationEvidence | null = null;
+      try {
+        evidence = createEvidence(publicKey && scheme === "schnorr" ? publicKey : getPublicKey(extractedKey, scheme), messageHash1, sig1, messageHash2, sig2);
+      } catch {
+        evidence = null;
+      }
+
+      // Only offer a sweep for a key that verified evidence ties to the signer
+      const evidenceCheck = evidence ? verifyEvidence(evidence) : null;
 
       setResults((prev) => ({
         ...prev,
         extractedPrivateKey: extractedKeyHex,
+        extractionCombination: extraction.combination,
         taprootAddress,
+        evidence,
+        evidenceCheck,
+        sweepScriptPubKey: evidenceCheck?.valid ? bytesToHex(taprootScriptPubKey(extractedKey)) : "",
+        sweep: null,
+      }));
+    } catch (error) {
+      reportError("extraction", error);
+    }
+  };
+
+  const downloadFile = (filename: string, data: BlobPart, type: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportEvidence = (format: "json" | "binary") => {
+    if (!results.evidence) return;
+    if (format === "json") {
+      downloadFile("eots-evidence.json", JSON.stringify(evidenceToJSON(results.evidence), null, 2), "application/json");
+    } else {
+      downloadFile("eots-evidence.bin", encodeEvidence(results.evidence), "application/octet-stream");
+    }
+  };
+
+  const handleLoadEvidence = async (file: File) => {
+    try {
+      setErrors({});
+
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const text = new TextDecoder().decode(bytes).trim();
+      const evidence = text.startsWith("{") ? evidenceFromJSON(text) : decodeEvidence(bytes);
+      const evidenceCheck = verifyEvidence(evidence);
+
+      setScheme(evidence.scheme);
+      setFormData((prev) => ({
+        ...prev,
+        publicKey: bytesToHex(evidence.publicKey),
+        signature1R: bytesToHex(evidence.signature1.r),
+        signature1S: bytesToHex(evidence.signature1.s),
+        messageHash1: bytesToHex(evidence.messageHash1),
+        signature2R: bytesToHex(evidence.signature2.r),
+        signature2S: bytesToHex(evidence.signature2.s),
+        messageHash2: bytesToHex(evidence.messageHash2),
+      }));
+      // The file's key is only trusted once the evidence verifies; it may not even be a valid scalar
+      setResults((prev) => ({
+        ...prev,
+        extractedPrivateKey: evidenceCheck.valid ? bytesToHex(evidence.extractedPrivateKey) : "",
+        extractionCombination: null,
+        taprootAddress: evidenceCheck.valid ? deriveTaprootAddress(evidence.extractedPrivateKey, network) : "",
+        evidence,
+        evidenceCheck,
+        sweepScriptPubKey: evidenceCheck.valid ? bytesToHex(taprootScriptPubKey(evidence.extractedPrivateKey)) : "",
+        sweep: null,
       }));
     } catch (error) {
-      setErrors([`Error extracting private key: ${error}`]);
+      reportError("evidence", error);
+    }
+  };
+
+  const handleBuildSweep = () => {
+    try {
+      setErrors({});
+
+      if (!formData.sweepUTXOs.trim()) {
+        setErrors({ sweepUTXOs: "Paste the UTXOs of the extracted key as a JSON array or CSV" });
+        return;
+      }
+      const feeRate = Number(formData.sweepFeeRate);
+      if (!formData.sweepFeeRate.trim() || !Number.isFinite(feeRate)) {
+        setErrors({ sweepFeeRate: "Fee rate must be a number of sat/vB" });
+        return;
+      }
+
+      const sweep = buildSweepTransaction(results.extractedPrivateKey, parseUTXOList(formData.sweepUTXOs), formData.sweepDestination, feeRate, { network });
+
+      setResults((prev) => ({
+        ...prev,
+        sweep,
+      }));
+    } catch (error) {
+      reportError("sweep", error);
+    }
+  };
+
+  const handleScanSignatureFeed = () => {
+    try {
+      setErrors({});
+
+      const feed = formData.signatureFeed.trim();
+      if (!feed) {
+        setErrors({ signatureFeed: "Paste a JSON array or CSV of signatures to scan" });
+        return;
+      }
+
+      const watcher = createEquivocationWatcher(network);
+      const alerts = feed.startsWith("[") ? watcher.importJSON(feed) : watcher.importCSV(feed);
+
+      setResults((prev) => ({
+        ...prev,
+        equivocationAlerts: alerts,
+      }));
+    } catch (error) {
+      reportError("watcher", error);
+    }
+  };
+
+  const handleRunSimulation = () => {
+    try {
+      setErrors({});
+
+      const powers = formData.simPowers.split(/[\s,]+/).filter((power) => power !== "");
+      if (powers.length === 0 || powers.some((power) => !/^\d+$/.test(power))) {
+        setErrors({ simPowers: "Enter one whole-number voting power per provider, separated by commas" });
+        return;
+      }
+
+      const faults: SimulationFault[] = [];
+      for (const line of formData.simFaults.split(/\r?\n/).map((l) => l.trim()).filter((l) => l !== "")) {
+        const [type, provider, height, ...rest] = line.split(/\s+/);
+        if ((type !== "double_sign" && type !== "offline") || rest.length > 0 || !/^\d+$/.test(provider ?? "") || !/^\d+$/.test(height ?? "")) {
+          setErrors({ simFaults: `Cannot read fault "${line}": expected "double_sign <provider> <height>" or "offline <provider> <height>"` });
+          return;
+        }
+        faults.push({ type, provider: Number(provider), height: Number(height) });
+      }
+
+      const seed = formData.simSeed.trim() || generateRandomNonce().slice(0, 16);
+      const simulation = runFinalitySimulation({
+        seed,
+        providers: powers.map((power) => ({ votingPower: Number(power) })),
+        heights: Number(formData.simHeights),
+        quorum: formData.simQuorum.trim() ? Number(formData.simQuorum) : undefined,
+        participation: formData.simParticipation.trim() ? Number(formData.simParticipation) : undefined,
+        faults,
+        network,
+      });
+
+      updateFormData("simSeed", seed);
+      setResults((prev) => ({
+        ...prev,
+        simulation,
+      }));
+    } catch (error) {
+      reportError("simulation", error);
     }
   };
 
   const handleGenerateKeyPair = () => {
-    const keyPair = generateEOTSKeyPair();
+    const keyPair = generateEOTSKeyPair(scheme);
     updateFormData("privateKey", bytesToHex(keyPair.privateKey));
     updateFormData("publicKey", bytesToHex(keyPair.publicKey));
 
-    const taprootAddress = deriveTaprootAddress(keyPair.privateKey);
+    const taprootAddress = deriveTaprootAddress(keyPair.privateKey, network);
     setResults((prev) => ({
       ...prev,
       generatedPublicKey: bytesToHex(keyPair.publicKey),
       taprootAddress,
+      derivedKeyInfo: null,
+      importedKeystore: null,
     }));
   };
 
+  const handleDeriveFromMnemonic = () => {
+    try {
+      setErrors({});
+
+      const seed = mnemonicToSeed(formData.mnemonic, formData.mnemonicPassphrase, "mnemonic");
+      parseDerivationPath(formData.derivationPath, "derivationPath");
+      const derived = deriveEOTSKeys(hdKeyFromSeed(seed), formData.derivationPath, scheme, network);
+
+      updateFormData("privateKey", bytesToHex(derived.keyPair.privateKey));
+      updateFormData("publicKey", bytesToHex(derived.keyPair.publicKey));
+      setResults((prev) => ({
+        ...prev,
+        generatedPublicKey: bytesToHex(derived.keyPair.publicKey),
+        taprootAddress: derived.taprootAddress,
+        derivedKeyInfo: { path: derived.path, randomnessSeed: bytesToHex(derived.randomnessSeed), extendedPublicKey: derived.extendedPublicKey },
+        importedKeystore: null,
+      }));
+    } catch (error) {
+      reportError("keyDerivation", error);
+    }
+  };
+
+  const handleExportKeystore = async () => {
+    try {
+      setErrors({});
+      setKeystoreBusy(true);
+
+      // The randomness seed shown for a derived or imported key is stored with it, as long as the key is unchanged
+      const publicKey = bytesToHex(getPublicKey(parsePrivateKey(formData.privateKey), scheme));
+      const randomnessSeed = publicKey === results.generatedPublicKey ? (results.derivedKeyInfo?.randomnessSeed ?? results.importedKeystore?.randomnessSeed) : undefined;
+
+      const keystore = await encryptKeystore(formData.privateKey, formData.keystorePassword, { scheme, randomnessSeed });
+      downloadFile(`eots-keystore-${keystore.publicKey.slice(0, 16)}.json`, JSON.stringify(keystore, null, 2), "application/json");
+    } catch (error) {
+      reportError("keystore", error);
+    } finally {
+      setKeystoreBusy(false);
+    }
+  };
+
+  const handleImportKeystore = async (file: File) => {
+    try {
+      setErrors({});
+      setKeystoreBusy(true);
+
+      const { keyPair, randomnessSeed, createdAt } = await decryptKeystore(await file.text(), formData.keystorePassword);
+      const keyScheme = keyPair.scheme ?? "ecdsa";
+
+      setScheme(keyScheme);
+      updateFormData("privateKey", bytesToHex(keyPair.privateKey));
+      updateFormData("publicKey", bytesToHex(keyPair.publicKey));
+      setResults((prev) => ({
+        ...prev,
+        generatedPublicKey: bytesToHex(keyPair.publicKey),
+        taprootAddress: deriveTaprootAddress(keyPair.privateKey, network),
+        derivedKeyInfo: null,
+        importedKeystore: { createdAt, randomnessSeed: randomnessSeed && bytesToHex(randomnessSeed) },
+      }));
+    } catch (error) {
+      reportError("keystore", error);
+    } finally {
+      setKeystoreBusy(false);
+    }
+  };
+
   const handleRefresh = () => {
     setFormData({
+      mnemonic: "",
+      mnemonicPassphrase: "",
+      derivationPath: DEFAULT_EOTS_DERIVATION_PATH,
+      keystorePassword: "",
       privateKey: "",
       nonce: "",
       messageText: "",
+      voteChainId: "",
+      voteHeight: "",
+      voteHash: "",
+      voteKind: "block",
+      voteTag: DEFAULT_FINALITY_VOTE_TAG,
       messageHash: "",
       publicKey: "",
       signatureR: "",
       signatureS: "",
+      encodedSignature: "",
+      commitmentRoot: "",
+      commitmentProof: "",
+      commitmentStartHeight: "",
+      commitmentCount: "",
+      commitmentHeight: "",
       signature1R: "",
       signature1S: "",
       signature2R: "",
       signature2S: "",
       messageHash1: "",
       messageHash2: "",
+      sweepUTXOs: "",
+      sweepDestination: "",
+      sweepFeeRate: "",
+      signatureFeed: "",
+      simSeed: "",
+      simPowers: "40, 30, 20, 10",
+      simHeights: "6",
+      simQuorum: "",
+      simParticipation: "",
+      simFaults: "double_sign 3 3",
     });
     setResults({
+      encodedVote: "",
       generatedSignature: null,
       verificationResult: null,
       extractedPrivateKey: "",
+      extractionCombination: null,
       taprootAddress: "",
       generatedPublicKey: "",
+      derivedKeyInfo: null,
+      importedKeystore: null,
+      equivocationAlerts: null,
+      evidence: null,
+      evidenceCheck: null,
+      sweepScriptPubKey: "",
+      sweep: null,
+      simulation: null,
     });
-    setErrors([]);
+    setErrors({});
+    setSignatureFormat(null);
   };
 
-  // const handleRunTests = () => {
-  //   try {
-  //     runEOTSTests();
-  //     alert("✅ All tests passed! Check the browser console for detailed results.");
-  //   } catch (error) {
-  //     alert("❌ Tests failed! Check the browser console for details.");
-  //     console.error("Test error:", error);
-  //   }
-  // };
-
   return (
     <div className="container mx-auto p-6 max-w-4xl">
       <h1 className="text-3xl font-bold text-center mb-8">Extractable One-Time Signatures (EOTS) Algorithm Demo</h1>
 
-      {errors.length > 0 && (
-        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
-          {errors.map((error, index) => (
-            <p key={index}>{error}</p>
-          ))}
-        </div>
-      )}
-
       {/* Key Generation Section */}
       <div className="bg-white shadow-lg rounded-lg p-6 mb-6">
         <h2 className="text-xl font-semibold mb-4">1. Key Generation</h2>
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Signature Scheme</label>
+          <select value={scheme} onChange={(e) => setScheme(e.target.value as EOTSScheme)} className="border border-gray-300 rounded-md px-3 py-2 text-sm">
+            <option value="ecdsa">ECDSA-style (s = k⁻¹(h + r·x))</option>
+            <option value="schnorr">Schnorr / BIP-340 (s = k + e·x, x-only keys)</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-1">Applies to key generation, signing, verification and extraction below.</p>
+        </div>
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Bitcoin Network</label>
+          <select value={network} onChange={(e) => setNetwork(e.target.value as BitcoinNetwork)} className="border border-gray-300 rounded-md px-3 py-2 text-sm">
+            <option value="mainnet">Mainnet (bc1p…)</option>
+            <option value="testnet">Testnet (tb1p…)</option>
+            <option value="signet">Signet (tb1p…)</option>
+            <option value="regtest">Regtest (bcrt1p…)</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-1">Taproot addresses are BIP-341 tweaked output keys encoded with bech32m.</p>
+        </div>
         <div className="mb-4">
           <button onClick={handleGenerateKeyPair} className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded">
             Generate New Key Pair
@@ -263,6 +657,56 @@ export default function Home() {
           <p className="text-sm text-gray-600 mt-2">This will generate a new private/public key pair and populate the private key field below for signing.</p>
         </div>
 
+        <div className="mb-4 border-t pt-4">
+          <h3 className="font-semibold mb-2">Derive from a Mnemonic (BIP-39 / BIP-32)</h3>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Mnemonic</label>
+          <div className="flex gap-2">
+            <textarea value={formData.mnemonic} onChange={(e) => updateFormData("mnemonic", e.target.value)} className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="12 to 24 words from the BIP-39 English wordlist" rows={2} />
+            <button onClick={() => updateFormData("mnemonic", generateMnemonic())} className="bg-gray-500 hover:bg-gray-700 text-white text-xs px-3 py-2 rounded">
+              Generate Mnemonic
+            </button>
+          </div>
+          {errorText("mnemonic")}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Passphrase - Optional</label>
+              <input type="password" value={formData.mnemonicPassphrase} onChange={(e) => updateFormData("mnemonicPassphrase", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm" placeholder="BIP-39 passphrase" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Derivation Path</label>
+              <input type="text" value={formData.derivationPath} onChange={(e) => updateFormData("derivationPath", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder={DEFAULT_EOTS_DERIVATION_PATH} />
+              {errorText("derivationPath")}
+            </div>
+          </div>
+          <button onClick={handleDeriveFromMnemonic} className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded mt-2">
+            Derive Key Pair
+          </button>
+          {errorText("keyDerivation")}
+          <p className="text-sm text-gray-600 mt-2">The signing key, randomness seed and Taproot address all come from the mnemonic, so writing it down backs up all three. The default path is BIP-86 (use m/86&apos;/1&apos;/0&apos;/0/0 on test networks).</p>
+        </div>
+
+        <div className="mb-4 border-t pt-4">
+          <h3 className="font-semibold mb-2">Encrypted Keystore</h3>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Keystore Password</label>
+          <input type="password" value={formData.keystorePassword} onChange={(e) => updateFormData("keystorePassword", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm" placeholder="Password used to encrypt or decrypt the keystore" />
+          {errorText("keystorePassword")}
+          <div className="flex flex-wrap items-center gap-4 mt-2">
+            <button onClick={handleExportKeystore} disabled={keystoreBusy} className="bg-gray-500 hover:bg-gray-700 disabled:opacity-50 text-white text-xs px-3 py-2 rounded">
+              Export Keystore
+            </button>
+            <label className="text-sm text-gray-700">
+              Import Keystore: <input type="file" accept=".json,application/json" disabled={keystoreBusy} onChange={(e) => {
+                  // Clear the input so the same file can be picked again after a wrong password
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) handleImportKeystore(file);
+                }} className="text-sm" />
+            </label>
+          </div>
+          {errorText("keystore")}
+          <p className="text-xs text-gray-500 mt-1">Export encrypts the private key below (and the randomness seed of a derived key) with AES-256-GCM under a scrypt-derived key. Import fills in the private key and scheme.</p>
+        </div>
+
         {results.generatedPublicKey && (
           <div className="mt-4">
             <h3 className="font-semibold">Generated Public Key:</h3>
@@ -273,6 +717,28 @@ export default function Home() {
                 <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.taprootAddress}</p>
               </>
             )}
+            {results.derivedKeyInfo && (
+              <>
+                <h3 className="font-semibold mt-2">Derivation Path:</h3>
+                <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.derivedKeyInfo.path}</p>
+                <h3 className="font-semibold mt-2">Extended Public Key:</h3>
+                <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.derivedKeyInfo.extendedPublicKey}</p>
+                <h3 className="font-semibold mt-2">Randomness Seed:</h3>
+                <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.derivedKeyInfo.randomnessSeed}</p>
+              </>
+            )}
+            {results.importedKeystore && (
+              <>
+                <h3 className="font-semibold mt-2">Keystore Created:</h3>
+                <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.importedKeystore.createdAt}</p>
+                {results.importedKeystore.randomnessSeed && (
+                  <>
+                    <h3 className="font-semibold mt-2">Randomness Seed:</h3>
+                    <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.importedKeystore.randomnessSeed}</p>
+                  </>
+                )}
+              </>
+            )}
           </div>
         )}
       </div>
@@ -290,6 +756,7 @@ export default function Home() {
                 Generate Random
               </button>
             </div>
+            {errorText("privateKey")}
             {formData.privateKey && <p className="text-xs text-green-600 mt-1">✓ Private key populated. You can edit it or use it to generate signatures.</p>}
           </div>
 
@@ -299,6 +766,46 @@ export default function Home() {
             <p className="text-xs text-gray-500 mt-1">Or use the message hash field below for direct hash input</p>
           </div>
 
+          <div className="border-t pt-4">
+            <h3 className="font-semibold mb-2">Finality Vote</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Chain ID</label>
+                <input type="text" value={formData.voteChainId} onChange={(e) => updateFormData("voteChainId", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="bbn-1" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Block Height</label>
+                <input type="text" value={formData.voteHeight} onChange={(e) => updateFormData("voteHeight", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="1234567" />
+                {errorText("voteHeight")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Domain Tag</label>
+                <input type="text" value={formData.voteTag} onChange={(e) => updateFormData("voteTag", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" />
+              </div>
+            </div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 mt-2">Block Hash (32 bytes hex)</label>
+            <div className="flex gap-2">
+              <select value={formData.voteKind} onChange={(e) => updateFormData("voteKind", e.target.value)} className="border border-gray-300 rounded-md px-2 py-2 text-sm">
+                <option value="block">Block hash</option>
+                <option value="app">App hash</option>
+              </select>
+              <input type="text" value={formData.voteHash} onChange={(e) => updateFormData("voteHash", e.target.value)} className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Hash of the block being voted for" />
+              <button onClick={() => updateFormData("voteHash", generateRandomMessageHash())} className="bg-gray-500 hover:bg-gray-700 text-white text-xs px-3 py-2 rounded">
+                Generate Random
+              </button>
+            </div>
+            <button onClick={handleBuildVote} className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded mt-2">
+              Build Vote Message
+            </button>
+            {errorText("vote")}
+            {results.encodedVote && (
+              <p className="text-xs text-gray-600 mt-1 break-all">
+                Encoded vote: <span className="font-mono">{results.encodedVote}</span>
+              </p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">The message hash becomes taggedHash(domain tag, version | kind | chain ID | height | hash), so votes for different chains, heights or applications never share a hash.</p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Message Hash (32 bytes hex)</label>
             <div className="flex gap-2">
@@ -307,23 +814,32 @@ export default function Home() {
                 Generate Random
               </button>
             </div>
+            {errorText("messageHash")}
             {formData.messageText && <p className="text-xs text-gray-500 mt-1">Auto-generated from message text above</p>}
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Nonce (32 bytes hex) - Optional</label>
             <div className="flex gap-2">
-              <input type="text" value={formData.nonce} onChange={(e) => updateFormData("nonce", e.target.value)} className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Leave empty for deterministic nonce or generate random" />
+              <input type="text" value={formData.nonce} onChange={(e) => updateFormData("nonce", e.target.value)} className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Leave empty for an RFC 6979 deterministic nonce or generate random" />
               <button onClick={() => generateRandom("nonce")} className="bg-gray-500 hover:bg-gray-700 text-white text-xs px-3 py-2 rounded">
                 Generate Random
               </button>
             </div>
+            {errorText("nonce")}
+            {!formData.nonce && (
+              <label className="flex items-center gap-2 text-xs text-gray-600 mt-1">
+                <input type="checkbox" checked={useAuxRand} onChange={(e) => setUseAuxRand(e.target.checked)} />
+                Mix auxiliary randomness into the derived nonce (BIP-340 style)
+              </label>
+            )}
           </div>
         </div>
 
         <button onClick={handleGenerateSignature} className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded mt-4">
           Generate Signature
         </button>
+        {errorText("signing")}
 
         {results.generatedSignature && (
           <div className="mt-4">
@@ -338,6 +854,15 @@ export default function Home() {
               <p className="mt-2">
                 <strong>Full Signature (r+s):</strong> <span className="break-all">{signatureToFullHex(results.generatedSignature)}</span>
               </p>
+              <p className="mt-2">
+                <strong>DER:</strong> <span className="break-all">{bytesToHex(signatureToDER(results.generatedSignature))}</span>
+              </p>
+              <p>
+                <strong>Base64:</strong> <span className="break-all">{signatureToBase64(results.generatedSignature)}</span>
+              </p>
+              <p>
+                <strong>JSON:</strong> <span className="break-all">{JSON.stringify(signatureToJSON(results.generatedSignature))}</span>
+              </p>
             </div>
           </div>
         )}
@@ -349,29 +874,80 @@ export default function Home() {
 
         <div className="grid grid-cols-1 gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Public Key (33 bytes hex - compressed)</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{scheme === "schnorr" ? "Public Key (32 bytes hex - x-only)" : "Public Key (33 bytes hex - compressed)"}</label>
             <input type="text" value={formData.publicKey} onChange={(e) => updateFormData("publicKey", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Enter public key" />
+            {errorText("publicKey")}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Paste Signature (DER, compact, base64 or JSON) - Optional</label>
+            <textarea value={formData.encodedSignature} onChange={(e) => handleEncodedSignatureChange(e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder='3044022... / r||s hex / base64 / {"r": "...", "s": "..."}' rows={2} />
+            {signatureFormat && <p className="text-xs text-green-600 mt-1">✓ Detected {signatureFormat} signature, R and S filled in below.</p>}
+            {errorText("encodedSignature")}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Signature R (32 bytes hex)</label>
               <input type="text" value={formData.signatureR} onChange={(e) => updateFormData("signatureR", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Enter signature R value" />
+              {errorText("signatureR")}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Signature S (32 bytes hex)</label>
               <input type="text" value={formData.signatureS} onChange={(e) => updateFormData("signatureS", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Enter signature S value" />
+              {errorText("signatureS")}
             </div>
           </div>
         </div>
 
+        <div className="grid grid-cols-1 gap-4 mt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Randomness Commitment Root (32 bytes hex) - Optional</label>
+            <input type="text" value={formData.commitmentRoot} onChange={(e) => updateFormData("commitmentRoot", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Merkle root over the published public nonces" />
+            {errorText("commitmentRoot")}
+          </div>
+          {formData.commitmentRoot && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Inclusion Proof (JSON)</label>
+              <textarea value={formData.commitmentProof} onChange={(e) => updateFormData("commitmentProof", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder='{"index": 0, "total": 100, "aunts": ["..."]}' rows={3} />
+              {errorText("commitmentProof")}
+              <p className="text-xs text-gray-500 mt-1">Proves that signature R was committed before signing.</p>
+            </div>
+          )}
+          {formData.commitmentRoot && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Commitment Start Height</label>
+                <input type="text" value={formData.commitmentStartHeight} onChange={(e) => updateFormData("commitmentStartHeight", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm" placeholder="100" />
+                {errorText("commitmentStartHeight")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Committed Nonces</label>
+                <input type="text" value={formData.commitmentCount} onChange={(e) => updateFormData("commitmentCount", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm" placeholder="100" />
+                {errorText("commitmentCount")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Height Voted On</label>
+                <input type="text" value={formData.commitmentHeight} onChange={(e) => updateFormData("commitmentHeight", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm" placeholder="142" />
+                {errorText("commitmentHeight")}
+              </div>
+            </div>
+          )}
+        </div>
+
         <button onClick={handleVerifySignature} className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded mt-4">
           Verify Signature
         </button>
+        {errorText("verification")}
 
         {results.verificationResult !== null && (
-          <div className={`mt-4 p-3 rounded ${results.verificationResult ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
-            <p className="font-semibold">Verification Result: {results.verificationResult ? "VALID" : "INVALID"}</p>
+          <div className={`mt-4 p-3 rounded ${results.verificationResult.valid ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
+            <p className="font-semibold">Verification Result: {results.verificationResult.valid ? "VALID" : "INVALID"}</p>
+            {!results.verificationResult.valid && (
+              <p className="text-sm mt-1">
+                Reason: <span className="font-mono">{results.verificationResult.reason}</span> — {results.verificationResult.message}
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -387,10 +963,12 @@ export default function Home() {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">R1</label>
                 <input type="text" value={formData.signature1R} onChange={(e) => updateFormData("signature1R", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Enter R value for signature 1" />
+                {errorText("signature1R")}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">S1</label>
                 <input type="text" value={formData.signature1S} onChange={(e) => updateFormData("signature1S", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Enter S value for signature 1" />
+                {errorText("signature1S")}
               </div>
             </div>
             <div className="mt-2">
@@ -401,6 +979,7 @@ export default function Home() {
                   Generate Random
                 </button>
               </div>
+              {errorText("messageHash1")}
             </div>
           </div>
 
@@ -410,10 +989,12 @@ export default function Home() {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">R2</label>
                 <input type="text" value={formData.signature2R} onChange={(e) => updateFormData("signature2R", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Enter R value for signature 2" />
+                {errorText("signature2R")}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">S2</label>
                 <input type="text" value={formData.signature2S} onChange={(e) => updateFormData("signature2S", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Enter S value for signature 2" />
+                {errorText("signature2S")}
               </div>
             </div>
             <div className="mt-2">
@@ -424,6 +1005,7 @@ export default function Home() {
                   Generate Random
                 </button>
               </div>
+              {errorText("messageHash2")}
             </div>
           </div>
         </div>
@@ -431,26 +1013,239 @@ export default function Home() {
         <button onClick={handleExtractPrivateKey} className="bg-red-500 hover:bg-red-700 text-white font-bold py-2 px-4 rounded mt-4">
           Extract Private Key
         </button>
+        {errorText("extraction")}
 
-        {results.extractedPrivateKey && (
+        {(results.extractedPrivateKey || results.evidenceCheck) && (
           <div className="mt-4">
-            <h3 className="font-semibold">Extracted Private Key:</h3>
-            <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.extractedPrivateKey}</p>
+            {results.extractedPrivateKey && (
+              <>
+                <h3 className="font-semibold">Extracted Private Key:</h3>
+                <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.extractedPrivateKey}</p>
+              </>
+            )}
+            {results.extractionCombination && (
+              <p className="text-xs text-gray-600 mt-1">
+                Matched the public key with sign combination <span className="font-mono">({results.extractionCombination})</span>
+                {results.extractionCombination !== "s1,s2" && " — one signature was low-S normalized"}
+              </p>
+            )}
             {results.taprootAddress && (
               <>
                 <h3 className="font-semibold mt-2">Taproot Address:</h3>
                 <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.taprootAddress}</p>
               </>
             )}
+            {results.evidenceCheck && (
+              <div className={`mt-2 p-3 rounded text-sm ${results.evidenceCheck.valid ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
+                <p className="font-semibold">Evidence: {results.evidenceCheck.valid ? "VERIFIED" : "INVALID"}</p>
+                {!results.evidenceCheck.valid && (
+                  <p>
+                    Reason: <span className="font-mono">{results.evidenceCheck.reason}</span> — {results.evidenceCheck.message}
+                  </p>
+                )}
+              </div>
+            )}
+            {results.evidence && (
+              <div className="mt-2 space-x-2">
+                <button onClick={() => handleExportEvidence("json")} className="bg-gray-500 hover:bg-gray-700 text-white text-xs px-3 py-2 rounded">
+                  Export Evidence (JSON)
+                </button>
+                <button onClick={() => handleExportEvidence("binary")} className="bg-gray-500 hover:bg-gray-700 text-white text-xs px-3 py-2 rounded">
+                  Export Evidence (binary)
+                </button>
+              </div>
+            )}
+
+            {results.sweepScriptPubKey && (
+              <div className="mt-4 border-t pt-4">
+                <h3 className="font-semibold mb-2">Sweep Funds</h3>
+                <p className="text-xs text-gray-500 mb-2">
+                  UTXOs of the extracted key are locked to scriptPubKey <span className="font-mono break-all">{results.sweepScriptPubKey}</span>
+                </p>
+                <label className="block text-sm font-medium text-gray-700 mb-1">UTXOs (JSON array or CSV)</label>
+                <textarea value={formData.sweepUTXOs} onChange={(e) => updateFormData("sweepUTXOs", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder={"txid,vout,amount,scriptPubKey\n4a5e...,0,150000,5120..."} rows={4} />
+                {errorText("sweepUTXOs")}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Destination Address ({network})</label>
+                    <input type="text" value={formData.sweepDestination} onChange={(e) => updateFormData("sweepDestination", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="bc1p..." />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Fee Rate (sat/vB)</label>
+                    <input type="text" value={formData.sweepFeeRate} onChange={(e) => updateFormData("sweepFeeRate", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="10" />
+                    {errorText("sweepFeeRate")}
+                  </div>
+                </div>
+                <button onClick={handleBuildSweep} className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded mt-2">
+                  Build Sweep Transaction
+                </button>
+                {errorText("sweep")}
+
+                {results.sweep && (
+                  <div className="mt-2 text-sm">
+                    <p>
+                      Swept <span className="font-mono">{results.sweep.outputAmount}</span> sat from <span className="font-mono">{results.sweep.inputAmount}</span> sat, paying a fee of <span className="font-mono">{results.sweep.fee}</span> sat for <span className="font-mono">{results.sweep.vsize}</span> vB
+                    </p>
+                    <h3 className="font-semibold mt-2">Transaction ID:</h3>
+                    <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.sweep.txid}</p>
+                    <h3 className="font-semibold mt-2">Signed Transaction (hex):</h3>
+                    <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.sweep.hex}</p>
+                    <h3 className="font-semibold mt-2">PSBT (base64):</h3>
+                    <p className="text-sm font-mono bg-gray-100 p-2 rounded break-all">{results.sweep.psbt}</p>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-1">Every UTXO is spent to the destination in one RBF-signalling transaction, signed offline on the Taproot key path. Nothing is broadcast.</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Load Evidence File (JSON or binary)</label>
+          <input type="file" accept=".json,.bin,application/json,application/octet-stream" onChange={(e) => e.target.files?.[0] && handleLoadEvidence(e.target.files[0])} className="text-sm" />
+          {errorText("evidence")}
+          <p className="text-xs text-gray-500 mt-1">Loaded evidence is re-verified independently: both signatures, the shared nonce and the extracted key.</p>
+        </div>
+      </div>
+
+      {/* Equivocation Watcher Section */}
+      <div className="bg-white shadow-lg rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">5. Equivocation Watcher</h2>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Signature Feed (JSON array or CSV)</label>
+          <textarea value={formData.signatureFeed} onChange={(e) => updateFormData("signatureFeed", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder={"publicKey,messageHash,r,s,scheme\n02ab...,9f3c...,51e0...,7d21...,ecdsa"} rows={6} />
+          {errorText("signatureFeed")}
+          <p className="text-xs text-gray-500 mt-1">Signatures are indexed by (public key, r). Any key that reuses r for different messages is extracted and checked against its public key.</p>
+        </div>
+
+        <button onClick={handleScanSignatureFeed} className="bg-red-500 hover:bg-red-700 text-white font-bold py-2 px-4 rounded mt-4">
+          Scan for Equivocation
+        </button>
+        {errorText("watcher")}
+
+        {results.equivocationAlerts !== null && (
+          <div className="mt-4">
+            {results.equivocationAlerts.length === 0 && <p className="text-sm text-green-700">No reused nonces found.</p>}
+            {results.equivocationAlerts.map((alert, index) => (
+              <div key={index} className={`p-3 rounded mb-2 text-sm ${alert.compromised ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"}`}>
+                <p className="font-mono break-all">
+                  <strong>Public Key:</strong> {alert.publicKey}
+                </p>
+                <p className="font-mono break-all">
+                  <strong>Shared r:</strong> {alert.r}
+                </p>
+                {alert.compromised ? (
+                  <>
+                    <p className="font-mono break-all">
+                      <strong>Private Key:</strong> {alert.compromised.privateKey}
+                    </p>
+                    <p className="font-mono break-all">
+                      <strong>Taproot Address:</strong> {alert.compromised.taprootAddress}
+                    </p>
+                  </>
+                ) : (
+                  <p>Extraction failed: {alert.error}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Finality Simulation Section */}
+      <div className="bg-white shadow-lg rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">6. Finality Simulation</h2>
+        <p className="text-sm text-gray-600 mb-4">Finality providers commit randomness, vote on each block with EOTS signatures, and a block is final once more than the quorum of voting power has voted for it. A provider that signs two blocks at one height reveals its key and is slashed.</p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Seed</label>
+            <input type="text" value={formData.simSeed} onChange={(e) => updateFormData("simSeed", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Random when empty; reuse a seed to replay a run" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Voting Power per Provider</label>
+            <input type="text" value={formData.simPowers} onChange={(e) => updateFormData("simPowers", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="40, 30, 20, 10" />
+            {errorText("simPowers")}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Blocks</label>
+            <input type="number" min={1} max={64} value={formData.simHeights} onChange={(e) => updateFormData("simHeights", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm" />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Quorum</label>
+              <input type="text" value={formData.simQuorum} onChange={(e) => updateFormData("simQuorum", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="Defaults to 2/3" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Participation</label>
+              <input type="text" value={formData.simParticipation} onChange={(e) => updateFormData("simParticipation", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder="1" />
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Scripted Faults (one per line)</label>
+          <textarea value={formData.simFaults} onChange={(e) => updateFormData("simFaults", e.target.value)} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" placeholder={"double_sign 3 3\noffline 1 4"} rows={3} />
+          {errorText("simFaults")}
+          <p className="text-xs text-gray-500 mt-1">Each line is a fault type (double_sign or offline), a provider index starting at 0 and a block height starting at 1.</p>
+        </div>
+
+        <button onClick={handleRunSimulation} className="bg-indigo-500 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded mt-4">
+          Run Simulation
+        </button>
+        {errorText("simulation")}
+
+        {results.simulation && (
+          <div className="mt-4">
+            <div className="flex flex-wrap gap-2 mb-4">
+              {results.simulation.blocks.map((block) => (
+                <div key={block.height} className={`p-2 rounded text-xs text-center ${block.finalized ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`} title={block.hash}>
+                  <p className="font-semibold">#{block.height}</p>
+                  <p>
+                    {block.votedPower}/{block.totalPower}
+                  </p>
+                  {block.forkHash && <p>⑂ fork</p>}
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm mb-2">
+              <strong>Finalized height:</strong> {results.simulation.finalizedHeight} · <strong>Seed:</strong> <span className="font-mono">{results.simulation.seed}</span>
+            </p>
+            <ul className="text-sm mb-4">
+              {results.simulation.providers.map((provider) => (
+                <li key={provider.name} className="font-mono break-all">
+                  {provider.name} ({provider.votingPower}){provider.slashedAtHeight !== undefined && <span className="text-red-700"> slashed at {provider.slashedAtHeight}</span>}: {provider.publicKey}
+                </li>
+              ))}
+            </ul>
+
+            <label className="flex items-center text-sm mb-2">
+              <input type="checkbox" checked={showVotes} onChange={(e) => setShowVotes(e.target.checked)} className="mr-2" />
+              Show individual votes
+            </label>
+            <ol className="text-sm space-y-1 max-h-96 overflow-y-auto">
+              {results.simulation.events
+                .filter((event) => showVotes || (event.type !== "vote" && event.type !== "commit_randomness"))
+                .map((event) => (
+                  <li key={event.step} className={`p-2 rounded ${event.type === "slash" || event.type === "equivocation" ? "bg-red-100 text-red-800" : event.type === "finalize" ? "bg-green-50 text-green-800" : event.type === "stall" || event.type === "missed_vote" ? "bg-yellow-50 text-yellow-800" : "bg-gray-50"}`}>
+                    <span className="font-mono text-xs text-gray-500 mr-2">h{event.height}</span>
+                    {event.message}
+                    {event.privateKey && (
+                      <p className="font-mono text-xs break-all">
+                        <strong>Extracted Key:</strong> {event.privateKey} · {event.taprootAddress}
+                      </p>
+                    )}
+                  </li>
+                ))}
+            </ol>
           </div>
         )}
       </div>
 
       {/* Action Buttons */}
       <div className="text-center space-x-4">
-        {/* <button onClick={handleRunTests} className="bg-purple-600 hover:bg-purple-800 text-white font-bold py-3 px-6 rounded-lg">
-          🧪 Run Tests
-        </button> */}
         <button onClick={handleRefresh} className="bg-gray-600 hover:bg-gray-800 text-white font-bold py-3 px-6 rounded-lg">
           🔄 Refresh All Fields
         </button>
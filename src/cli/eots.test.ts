@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { main } from "./eots";
+import { getPublicKey, signEOTS, verifyEOTS } from "../lib/eots";
+import { signatureToDER } from "../lib/encoding";
+import { bytesToHex, hexToBytes } from "../lib/utils";
+
+const KEY = "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9";
+const HASH_A = "715fed1a834b02a62cb3cbfd9308a7c963c823905a2a80949f8036d5989b8581";
+const HASH_B = "9cfd1e7b0524d293af4243694088f6de1d76f3e727771c473ca3b10c21b7d83b";
+const NONCE = "0000000000000000000000000000000000000000000000000000000000000007";
+
+describe("eots CLI exit codes", () => {
+  const pubkey = bytesToHex(getPublicKey(KEY));
+  const sig = bytesToHex(signatureToDER(signEOTS(KEY, HASH_A)));
+  const [reusedA, reusedB] = [HASH_A, HASH_B].map((hash) => bytesToHex(signatureToDER(signEOTS(KEY, hash, NONCE))));
+  let output: string[];
+  let errors: string[];
+
+  beforeEach(() => {
+    output = [];
+    errors = [];
+    vi.spyOn(console, "log").mockImplementation((message: string) => void output.push(message));
+    vi.spyOn(console, "error").mockImplementation((message: string) => void errors.push(message));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("generates a key pair with keygen", () => {
+    expect(main(["keygen", "--scheme", "schnorr", "--network", "testnet", "--json"])).toBe(0);
+    const result = JSON.parse(output.join("\n"));
+    expect(result).toMatchObject({ scheme: "schnorr", publicKey: bytesToHex(getPublicKey(result.privateKey, "schnorr")) });
+    expect(result.taprootAddress).toMatch(/^tb1p/);
+  });
+
+  it("prints a signature that verifies with sign --json", () => {
+    expect(main(["sign", "--key", KEY, "--hash", HASH_A, "--json"])).toBe(0);
+    const result = JSON.parse(output.join("\n"));
+    expect(result.publicKey).toBe(pubkey);
+    expect(verifyEOTS(hexToBytes(pubkey), HASH_A, { r: hexToBytes(result.signature.r), s: hexToBytes(result.signature.s) })).toBe(true);
+  });
+
+  it("returns 0 when extract recovers the key and 1 when it does not match the public key", () => {
+    expect(main(["extract", "--sig1", reusedA, "--sig2", reusedB, "--hash1", HASH_A, "--hash2", HASH_B, "--pubkey", pubkey, "--json"])).toBe(0);
+    expect(JSON.parse(output.join("\n"))).toMatchObject({ privateKey: KEY, publicKey: pubkey, combination: "s1,s2" });
+
+    output = [];
+    expect(main(["extract", "--sig1", reusedA, "--sig2", reusedB, "--hash1", HASH_A, "--hash2", HASH_B, "--pubkey", bytesToHex(getPublicKey(HASH_A))])).toBe(1);
+    expect(output).toEqual(["extraction failed: Neither s1,s2 nor s1,-s2 reproduces the public key"]);
+  });
+
+  it("returns 0 for a valid signature and 1 for one that does not verify", () => {
+    expect(main(["verify", "--pubkey", pubkey, "--hash", HASH_A, "--sig", sig])).toBe(0);
+    expect(main(["verify", "--pubkey", pubkey, "--hash", HASH_B, "--sig", sig])).toBe(1);
+  });
+
+  it.each([
+    ["a malformed base64 signature", ["verify", "--pubkey", pubkey, "--hash", HASH_A, "--sig", "00"], "Invalid base64 string"],
+    ["a malformed DER signature", ["verify", "--pubkey", pubkey, "--hash", HASH_A, "--sig", "3006020181020101"], "DER r is negative"],
+    ["malformed signature JSON", ["verify", "--pubkey", pubkey, "--hash", HASH_A, "--sig", '{"r":"00","s":"00"}'], "Signature JSON must have 32-byte hex r and s"],
+    ["a missing argument", ["verify", "--hash", HASH_A, "--sig", sig], "--pubkey is required"],
+    ["an unknown command", ["frobnicate"], "Unknown command: frobnicate"],
+    ["an unknown keygen scheme", ["keygen", "--scheme", "rsa"], 'scheme must be "ecdsa" or "schnorr"'],
+    ["a malformed signing key", ["sign", "--key", "zz", "--hash", HASH_A], "privateKey is not valid hex (expected an even number of 0-9, a-f characters)"],
+    ["a short message hash", ["sign", "--key", KEY, "--hash", "abcd"], "messageHash must be 32 bytes (got 2)"],
+    ["incomplete verification JSON", ["verify", "--input", "{}"], "publicKey is required"],
+    ["a malformed extraction signature", ["extract", "--sig1", "00", "--sig2", reusedB, "--hash1", HASH_A, "--hash2", HASH_B], "Invalid base64 string"],
+    ["incomplete extraction JSON", ["extract", "--input", "{}"], "signature1 is required"],
+    ["a malformed address public key", ["address", "--pubkey", "00"], "publicKey must be 33 or 32 bytes (got 1)"],
+    ["a malformed merkle root", ["address", "--key", KEY, "--merkle-root", "abcd"], "merkleRoot must be 32 bytes (got 2)"],
+    ["an unknown scan network", ["scan", "--network", "moon"], "network must be one of mainnet, testnet, signet, regtest"],
+    ["an unreadable feed file", ["scan", "/nonexistent/feed.csv"], expect.stringContaining("/nonexistent/feed.csv")],
+    ["malformed simulation JSON", ["simulate", "--input", "{bad"], expect.stringContaining("JSON")],
+    ["an incomplete simulation config", ["simulate", "--input", "{}"], "seed is required"],
+    ["a non-numeric hnp leak size", ["hnp", "--bits", "x", "--counts", "4"], "leakedBits[0] must be an integer"],
+    ["too few hnp signatures", ["hnp", "--bits", "64", "--counts", "1"], "signatureCounts[0] must be an integer of at least 2"],
+  ])("returns 2 for %s", (_, argv, message) => {
+    expect(main(argv as string[])).toBe(2);
+    expect(errors).toEqual([typeof message === "string" ? `error: ${message}` : message]);
+  });
+});
@@ -0,0 +1,364 @@
+import { readFileSync } from "fs";
+import { parseArgs } from "util";
+import { sha256 } from "@noble/hashes/sha256";
+import { BitcoinNetwork, EOTSScheme, ExtractionInput, SignatureInput, VerificationInput } from "../lib/types";
+import { bytesToHex, hexToBytes } from "../lib/utils";
+import { deriveTaprootAddress } from "../lib/eots";
+import { taprootAddressFromPublicKey } from "../lib/taproot";
+import { parseSignature, signatureToDER, signatureToJSON } from "../lib/encoding";
+import { createEquivocationWatcher } from "../lib/watcher";
+import { runFinalitySimulation } from "../lib/simulation";
+import { hnpSuccessReport } from "../lib/hnp";
+import { ParseError } from "../lib/errors";
+import { parseBytes, parsePublicKey } from "../lib/parse";
+import { parseKeyGenInput, parseSignatureInput, parseVerificationInput, parseExtractionInput, generateKeys, signFromInput, verifyFromInput, extractFromInput } from "../lib/api";
+
+const USAGE = `Usage: eots <command> [options]
+
+Commands:
+  keygen   [--scheme ecdsa|schnorr] [--network <network>]
+  sign     --key <privkey> (--hash <hash> | --message <text>) [--nonce <nonce>] [--aux <aux>] [--scheme <scheme>]
+  verify   --pubkey <pubkey> --hash <hash> --sig <signature> [--scheme <scheme>]
+  verify   --input <VerificationInput JSON>
+  extract  --sig1 <signature> --sig2 <signature> --hash1 <hash> --hash2 <hash> [--pubkey <pubkey>] [--scheme <scheme>]
+  extract  --input <ExtractionInput JSON>
+  address  (--key <privkey> | --pubkey <pubkey>) [--network <network>] [--merkle-root <root>]
+  scan     [feed files...] [--network <network>]
+  simulate --input <SimulationConfig JSON> [--seed <seed>]
+  hnp      --bits <n,n,...> --counts <n,n,...> [--trials <n>] [--position msb|lsb] [--biased] [--scheme <scheme>] [--seed <seed>]
+
+Values may be given inline, as @path to read a file, or as - to read stdin.
+Signatures are accepted as compact r||s hex, DER hex, base64 or JSON.
+
+Options:
+  --json   Print results as JSON
+  --help   Show this help
+
+Exit codes: 0 success, 1 verification failed / extraction mismatch / equivocation found, 2 invalid input`;
+
+const OPTIONS = {
+  scheme: { type: "string" },
+  network: { type: "string" },
+  key: { type: "string" },
+  pubkey: { type: "string" },
+  hash: { type: "string" },
+  message: { type: "string" },
+  nonce: { type: "string" },
+  aux: { type: "string" },
+  sig: { type: "string" },
+  sig1: { type: "string" },
+  sig2: { type: "string" },
+  hash1: { type: "string" },
+  hash2: { type: "string" },
+  input: { type: "string" },
+  "merkle-root": { type: "string" },
+  seed: { type: "string" },
+  bits: { type: "string" },
+  counts: { type: "string" },
+  trials: { type: "string" },
+  position: { type: "string" },
+  biased: { type: "boolean" },
+  json: { type: "boolean" },
+  help: { type: "boolean" },
+} as const;
+
+/**
+ * Thrown for bad command-line usage
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+let stdinCache: string | undefined;
+
+// Helper function to read a file (or stdin for "-"), reporting failures as usage errors
+function readSource(path: string): string {
+  try {
+    if (path === "-") {
+      stdinCache ??= readFileSync(0, "utf8");
+      return stdinCache.trim();
+    }
+    return readFileSync(path, "utf8").trim();
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path === "-" ? "stdin" : path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Helper function to resolve an argument: inline value, @file or - for stdin
+function readValue(value: string): string {
+  if (value === "-" || value.startsWith("@")) {
+    return readSource(value === "-" ? "-" : value.slice(1));
+  }
+  return value.trim();
+}
+
+// Helper function to read an optional argument
+function optional(values: Values, name: keyof Values): string | undefined {
+  const value = values[name];
+  return typeof value === "string" ? readValue(value) : undefined;
+}
+
+// Helper function to read a required argument
+function required(values: Values, name: keyof Values): string {
+  const value = optional(values, name);
+  if (value === undefined) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return value;
+}
+
+// Helper function to read a signature in any supported encoding as { r, s, scheme }
+function signatureArg(values: Values, name: keyof Values, scheme?: EOTSScheme) {
+  const { signature } = parseSignature(required(values, name), scheme ?? "ecdsa");
+  return signatureToJSON(signature);
+}
+
+// Helper function to print a result as JSON or aligned "label: value" lines
+function print(json: boolean, result: unknown, lines: [string, string | null | undefined][]): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  const width = Math.max(...lines.map(([label]) => label.length)) + 1;
+  for (const [label, value] of lines) {
+    if (value !== undefined && value !== null) {
+      console.log(`${(label + ":").padEnd(width)} ${value}`);
+    }
+  }
+}
+
+function keygen(values: Values): number {
+  const result = generateKeys(parseKeyGenInput({ scheme: values.scheme, network: values.network }));
+  print(!!values.json, result, [
+    ["scheme", result.scheme],
+    ["private key", result.privateKey],
+    ["public key", result.publicKey],
+    ["taproot address", result.taprootAddress],
+  ]);
+  return 0;
+}
+
+function sign(values: Values): number {
+  const message = optional(values, "message");
+  const input: SignatureInput = parseSignatureInput({
+    privateKey: required(values, "key"),
+    messageHash: message !== undefined ? bytesToHex(sha256(new TextEncoder().encode(message))) : required(values, "hash"),
+    nonce: optional(values, "nonce"),
+    auxRand: optional(values, "aux"),
+    scheme: values.scheme,
+  });
+  const result = signFromInput(input);
+  print(!!values.json, result, [
+    ["scheme", result.signature.scheme],
+    ["message hash", input.messageHash],
+    ["r", result.signature.r],
+    ["s", result.signature.s],
+    ["der", bytesToHex(signatureToDER({ r: hexToBytes(result.signature.r), s: hexToBytes(result.signature.s) }))],
+    ["public key", result.publicKey],
+  ]);
+  return 0;
+}
+
+function verify(values: Values): number {
+  const scheme = values.scheme as EOTSScheme | undefined;
+  const input: VerificationInput =
+    values.input !== undefined
+      ? parseVerificationInput(JSON.parse(required(values, "input")))
+      : parseVerificationInput({
+          publicKey: required(values, "pubkey"),
+          messageHash: required(values, "hash"),
+          signature: signatureArg(values, "sig", scheme),
+          scheme,
+        });
+  const result = verifyFromInput(input);
+  print(!!values.json, result, [
+    ["result", result.valid ? "valid" : "invalid"],
+    ["reason", result.reason],
+    ["message", result.message],
+  ]);
+  return result.valid ? 0 : 1;
+}
+
+function extract(values: Values): number {
+  const scheme = values.scheme as EOTSScheme | undefined;
+  const input: ExtractionInput =
+    values.input !== undefined
+      ? parseExtractionInput(JSON.parse(required(values, "input")))
+      : parseExtractionInput({
+          signature1: signatureArg(values, "sig1", scheme),
+          signature2: signatureArg(values, "sig2", scheme),
+          messageHash1: required(values, "hash1"),
+          messageHash2: required(values, "hash2"),
+          publicKey: optional(values, "pubkey"),
+          scheme,
+        });
+
+  let result;
+  try {
+    result = extractFromInput(input);
+  } catch (error) {
+    if (error instanceof ParseError) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    print(!!values.json, { error: { code: "extraction_failed", message } }, [["extraction failed", message]]);
+    return 1;
+  }
+
+  print(!!values.json, result, [
+    ["private key", result.privateKey],
+    ["public key", result.publicKey],
+    ["combination", result.combination],
+  ]);
+  return 0;
+}
+
+function address(values: Values): number {
+  const network = (parseKeyGenInput({ network: values.network }).network ?? "mainnet") as BitcoinNetwork;
+  const merkleRootArg = optional(values, "merkle-root");
+  const merkleRoot = merkleRootArg !== undefined ? parseBytes(merkleRootArg, "merkleRoot", 32) : undefined;
+  const key = optional(values, "key");
+  const result = {
+    network,
+    address:
+      key !== undefined
+        ? deriveTaprootAddress(key, network, merkleRoot)
+        : taprootAddressFromPublicKey(parsePublicKey(required(values, "pubkey"), "publicKey", ["compressed", "xonly"]), network, merkleRoot),
+  };
+  print(!!values.json, result, [["taproot address", result.address]]);
+  return 0;
+}
+
+function scan(values: Values, files: string[]): number {
+  const network = (parseKeyGenInput({ network: values.network }).network ?? "mainnet") as BitcoinNetwork;
+  const watcher = createEquivocationWatcher(network);
+  for (const source of files.length > 0 ? files : ["-"]) {
+    const feed = readSource(source);
+    if (feed.startsWith("[")) {
+      watcher.importJSON(feed);
+    } else {
+      watcher.importCSV(feed);
+    }
+  }
+
+  const alerts = watcher.getAlerts();
+  if (values.json) {
+    console.log(JSON.stringify({ alerts: alerts.map(({ publicKey, r, compromised, error }) => ({ publicKey, r, compromised: compromised && { privateKey: compromised.privateKey, scheme: compromised.scheme, taprootAddress: compromised.taprootAddress }, error })) }, null, 2));
+  } else if (alerts.length === 0) {
+    console.log("no reused nonces found");
+  } else {
+    for (const alert of alerts) {
+      print(false, alert, [
+        ["public key", alert.publicKey],
+        ["shared r", alert.r],
+        ["private key", alert.compromised?.privateKey],
+        ["taproot address", alert.compromised?.taprootAddress],
+        ["extraction failed", alert.error],
+      ]);
+      console.log();
+    }
+  }
+  return alerts.length === 0 ? 0 : 1;
+}
+
+function simulate(values: Values): number {
+  const config = JSON.parse(required(values, "input"));
+  const seed = optional(values, "seed");
+  const result = runFinalitySimulation(seed !== undefined && config !== null && typeof config === "object" ? { ...config, seed } : config);
+  if (values.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return 0;
+  }
+  for (const event of result.events) {
+    console.log(`${String(event.height).padStart(6)}  ${event.message}`);
+  }
+  console.log();
+  print(false, result, [
+    ["finalized height", String(result.finalizedHeight)],
+    ["slashed", result.providers.filter((provider) => provider.slashedAtHeight !== undefined).map((provider) => provider.name).join(", ") || "none"],
+  ]);
+  return 0;
+}
+
+// Helper function to read a comma-separated list of numbers
+function numberList(values: Values, name: keyof Values): number[] {
+  return required(values, name)
+    .split(",")
+    .map((item) => Number(item.trim()));
+}
+
+function hnp(values: Values): number {
+  const trials = optional(values, "trials");
+  const report = hnpSuccessReport({
+    leakedBits: numberList(values, "bits"),
+    signatureCounts: numberList(values, "counts"),
+    trials: trials !== undefined ? Number(trials) : undefined,
+    position: values.position as "msb" | "lsb" | undefined,
+    biased: values.biased,
+    scheme: values.scheme as EOTSScheme | undefined,
+    seed: optional(values, "seed"),
+  });
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return 0;
+  }
+  console.log("bits  signatures  success       avg ms");
+  for (const entry of report) {
+    console.log(`${String(entry.leakedBits).padStart(4)}  ${String(entry.signatures).padStart(10)}  ${`${entry.successes}/${entry.trials}`.padStart(7)}  ${entry.averageMilliseconds.toFixed(1).padStart(11)}`);
+  }
+  return 0;
+}
+
+/**
+ * Run the CLI
+ * @param argv - Arguments after the program name
+ * @returns Process exit code
+ */
+export function main(argv: string[]): number {
+  try {
+    let parsed;
+    try {
+      parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+    const { values, positionals } = parsed;
+    const [command, ...rest] = positionals;
+
+    if (values.help || !command) {
+      console.log(USAGE);
+      return values.help ? 0 : 2;
+    }
+
+    switch (command) {
+      case "keygen":
+        return keygen(values);
+      case "sign":
+        return sign(values);
+      case "verify":
+        return verify(values);
+      case "extract":
+        return extract(values);
+      case "address":
+        return address(values);
+      case "scan":
+        return scan(values, rest);
+      case "simulate":
+        return simulate(values);
+      case "hnp":
+        return hnp(values);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    console.error(`error: ${error instanceof Error ? error.message : String(error)}`);
+    return error instanceof ParseError || error instanceof UsageError || error instanceof SyntaxError ? 2 : 1;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { POST as keys } from "@/app/api/keys/route";
+import { POST as sign } from "@/app/api/sign/route";
+import { POST as verify } from "@/app/api/verify/route";
+import { POST as extract } from "@/app/api/extract/route";
+import { POST as simulate } from "@/app/api/simulate/route";
+import { GET as openapi } from "@/app/api/openapi/route";
+import { parseSignatureInput, parseVerificationInput, parseExtractionInput, toApiError } from "./api";
+import { ParseError } from "./errors";
+
+const KEY = "e91671c46231f833a6406ccbea0e3e392c76c167bac1cb013f6f1013980455c2";
+const NONCE = "1f4b84c23a86a221d233f2521be018d9318639d5b8bbd6374a8a59232d16ad3d";
+const HASH_A = "715fed1a834b02a62cb3cbfd9308a7c963c823905a2a80949f8036d5989b8581";
+const HASH_B = "9cfd1e7b0524d293af4243694088f6de1d76f3e727771c473ca3b10c21b7d83b";
+const R = "b552edd27580141f3b2a5463048cb7cd3e047b97c9f98076c32dbdf85a68718b";
+const S_A = "4e8c86f2a0dfe6ef646afcca2aba5a5816a86c5b399e8ec364bd316d8ce36e56";
+const S_B = "6e82f18b005d8ff3e49feb1f4ac1af8b80f26fbf74a06f0e81884553c97c4ab1";
+
+// Helper function to call a route with a JSON body and decode the response
+async function call(route: (request: Request) => Promise<Response>, body: unknown): Promise<{ status: number; json: Record<string, unknown> }> {
+  const response = await route(new Request("http://localhost/api", { method: "POST", body: typeof body === "string" ? body : JSON.stringify(body) }));
+  return { status: response.status, json: await response.json() };
+}
+
+describe("routes", () => {
+  it("signs, verifies and extracts the fixed vector", async () => {
+    const signed = await call(sign, { privateKey: KEY, messageHash: HASH_A, nonce: NONCE });
+    expect(signed.status).toBe(200);
+    expect(signed.json.signature).toEqual({ r: R, s: S_A, scheme: "ecdsa" });
+
+    const verified = await call(verify, { publicKey: signed.json.publicKey, messageHash: HASH_A, signature: signed.json.signature });
+    expect(verified).toEqual({ status: 200, json: { valid: true } });
+
+    const extracted = await call(extract, { signature1: { r: R, s: S_A }, signature2: { r: R, s: S_B }, messageHash1: HASH_A, messageHash2: HASH_B, publicKey: signed.json.publicKey });
+    expect(extracted.json).toEqual({ privateKey: KEY, publicKey: signed.json.publicKey, combination: "s1,s2" });
+  });
+
+  it("reports why a signature is invalid with a 200", async () => {
+    const signed = await call(sign, { privateKey: KEY, messageHash: HASH_A, nonce: NONCE });
+    const verified = await call(verify, { publicKey: signed.json.publicKey, messageHash: HASH_B, signature: signed.json.signature });
+    expect(verified).toMatchObject({ status: 200, json: { valid: false, reason: "mismatch" } });
+  });
+
+  it("signs, verifies and extracts Schnorr signatures", async () => {
+    const [a, b] = await Promise.all([HASH_A, HASH_B].map((messageHash) => call(sign, { privateKey: KEY, messageHash, nonce: NONCE, scheme: "schnorr" })));
+    expect(a.json.signature).toMatchObject({ r: R, scheme: "schnorr" });
+    expect(await call(verify, { publicKey: a.json.publicKey, messageHash: HASH_A, signature: a.json.signature })).toEqual({ status: 200, json: { valid: true } });
+
+    const extracted = await call(extract, { scheme: "schnorr", signature1: a.json.signature, signature2: b.json.signature, messageHash1: HASH_A, messageHash2: HASH_B, publicKey: a.json.publicKey });
+    expect(extracted).toMatchObject({ status: 200, json: { publicKey: a.json.publicKey, combination: "s1,s2" } });
+  });
+
+  it("generates keys for the requested network", async () => {
+    const { status, json } = await call(keys, { scheme: "schnorr", network: "testnet" });
+    expect(status).toBe(200);
+    expect(json).toMatchObject({ scheme: "schnorr", network: "testnet" });
+    expect(String(json.taprootAddress).startsWith("tb1p")).toBe(true);
+
+    const defaults = await call(keys, "");
+    expect(defaults).toMatchObject({ status: 200, json: { scheme: "ecdsa", network: "mainnet" } });
+    expect(await call(keys, { network: "moon" })).toMatchObject({ status: 400, json: { error: { code: "out_of_range", field: "network" } } });
+  });
+
+  it("maps errors to status codes", async () => {
+    expect(await call(sign, "{")).toEqual({ status: 400, json: { error: { code: "invalid_json", message: "Request body must be valid JSON" } } });
+    expect(await call(verify, [])).toMatchObject({ status: 400, json: { error: { field: "body" } } });
+    expect(await call(sign, { privateKey: KEY, messageHash: "01" })).toMatchObject({ status: 400, json: { error: { code: "invalid_length", field: "messageHash" } } });
+    expect(await call(extract, { signature1: { r: R, s: S_A }, signature2: { r: R, s: S_A }, messageHash1: HASH_A, messageHash2: HASH_B })).toMatchObject({ status: 422, json: { error: { code: "extraction_failed", message: "Signatures are identical" } } });
+  });
+
+  it("runs seeded simulations reproducibly", async () => {
+    const config = { seed: "api", providers: [1, 1, 1, 1].map((votingPower) => ({ votingPower })), heights: 2, faults: [{ type: "double_sign", provider: 2, height: 2 }] };
+    const first = await call(simulate, config);
+    expect(first.status).toBe(200);
+    expect(first.json.finalizedHeight).toBe(2);
+    expect(await call(simulate, config)).toEqual(first);
+    expect(await call(simulate, { ...config, heights: 0 })).toMatchObject({ status: 400, json: { error: { code: "out_of_range", field: "heights" } } });
+  });
+
+  it("serves the OpenAPI document", async () => {
+    const document = await (await openapi()).json();
+    expect(document.openapi).toBe("3.0.3");
+    expect(Object.keys(document.paths)).toEqual(expect.arrayContaining(["/api/keys", "/api/sign", "/api/verify", "/api/extract", "/api/simulate"]));
+  });
+});
+
+describe("input validation", () => {
+  it("reports the offending field", () => {
+    expect(() => parseSignatureInput({ privateKey: 1, messageHash: HASH_A })).toThrow(expect.objectContaining({ code: "invalid_type", field: "privateKey" }));
+    expect(() => parseVerificationInput({ publicKey: KEY, messageHash: HASH_A, signature: { r: R } })).toThrow(expect.objectContaining({ code: "missing", field: "signature.s" }));
+    expect(() => parseExtractionInput({ scheme: "schnorr", signature1: { r: R, s: S_A }, signature2: { r: R, s: S_B }, messageHash1: HASH_A, messageHash2: HASH_B })).toThrow(expect.objectContaining({ code: "missing", field: "publicKey" }));
+  });
+
+  it("maps thrown values to API errors", () => {
+    expect(toApiError(new ParseError("invalid_hex", "nonce", "bad"), "signing_failed")).toEqual({ status: 400, body: { error: { code: "invalid_hex", message: "bad", field: "nonce" } } });
+    expect(toApiError(new Error("boom"), "signing_failed")).toEqual({ status: 422, body: { error: { code: "signing_failed", message: "boom" } } });
+    expect(toApiError("boom", "signing_failed").status).toBe(500);
+  });
+});
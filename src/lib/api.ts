@@ -0,0 +1,246 @@
+import { ApiErrorResponse, BitcoinNetwork, EOTSScheme, ExtractionInput, ExtractionResponse, KeyGenInput, KeyGenResponse, SignatureInput, SignatureJSON, SignResponse, VerificationInput, VerificationResult } from "./types";
+import { bytesToHex } from "./utils";
+import { generateEOTSKeyPair, signEOTS, verifyEOTSDetailed, extractPrivateKey, extractPrivateKeyDetailed, deriveTaprootAddress, getPublicKey } from "./eots";
+import { parseHash32, parseScalar, parsePrivateKey, parsePublicKey, parseBytes } from "./parse";
+import { signatureToJSON } from "./encoding";
+import { ParseError, MissingInputError, InvalidTypeError } from "./errors";
+import { NETWORK_HRP } from "./taproot";
+
+// Helper function to require a JSON object
+function requireObject(value: unknown, field: string): Record<string, unknown> {
+  if (value === undefined || value === null) {
+    throw new MissingInputError(field);
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new InvalidTypeError(field, "an object");
+  }
+  return value as Record<string, unknown>;
+}
+
+// Helper function to read an optional string field
+function optionalString(body: Record<string, unknown>, field: string, prefix = ""): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new InvalidTypeError(prefix + field, "a string");
+  }
+  return value;
+}
+
+// Helper function to read a required string field
+function requireString(body: Record<string, unknown>, field: string, prefix = ""): string {
+  const value = optionalString(body, field, prefix);
+  if (value === undefined) {
+    throw new MissingInputError(prefix + field);
+  }
+  return value;
+}
+
+// Helper function to read an optional scheme field
+function optionalScheme(body: Record<string, unknown>, field = "scheme", prefix = ""): EOTSScheme | undefined {
+  const value = optionalString(body, field, prefix);
+  if (value !== undefined && value !== "ecdsa" && value !== "schnorr") {
+    throw new ParseError("out_of_range", prefix + field, `${prefix + field} must be "ecdsa" or "schnorr"`);
+  }
+  return value;
+}
+
+// Helper function to validate a { r, s, scheme? } signature object
+function parseSignatureJSON(value: unknown, field: string): SignatureJSON {
+  const obj = requireObject(value, field);
+  const r = requireString(obj, "r", `${field}.`);
+  const s = requireString(obj, "s", `${field}.`);
+  parseBytes(r, `${field}.r`, 32);
+  parseBytes(s, `${field}.s`, 32);
+  return { r, s, scheme: optionalScheme(obj, "scheme", `${field}.`) };
+}
+
+/**
+ * Validate a key generation request body
+ * @param body - Parsed JSON body
+ * @returns KeyGenInput
+ */
+export function parseKeyGenInput(body: unknown): KeyGenInput {
+  const obj = body === undefined || body === null ? {} : requireObject(body, "body");
+  const network = optionalString(obj, "network");
+  if (network !== undefined && !(network in NETWORK_HRP)) {
+    throw new ParseError("out_of_range", "network", `network must be one of ${Object.keys(NETWORK_HRP).join(", ")}`);
+  }
+  return { scheme: optionalScheme(obj), network: network as BitcoinNetwork | undefined };
+}
+
+/**
+ * Validate a signing request body
+ * @param body - Parsed JSON body
+ * @returns SignatureInput with every hex field checked
+ */
+export function parseSignatureInput(body: unknown): SignatureInput {
+  const obj = requireObject(body, "body");
+  const input: SignatureInput = {
+    privateKey: requireString(obj, "privateKey"),
+    messageHash: requireString(obj, "messageHash"),
+    nonce: optionalString(obj, "nonce"),
+    scheme: optionalScheme(obj),
+    auxRand: optionalString(obj, "auxRand"),
+  };
+  parsePrivateKey(input.privateKey);
+  parseHash32(input.messageHash);
+  if (input.nonce !== undefined) parseScalar(input.nonce, "nonce");
+  if (input.auxRand !== undefined) parseBytes(input.auxRand, "auxRand", 32);
+  return input;
+}
+
+/**
+ * Validate a verification request body
+ * @param body - Parsed JSON body
+ * @returns VerificationInput with every hex field checked
+ */
+export function parseVerificationInput(body: unknown): VerificationInput {
+  const obj = requireObject(body, "body");
+  const input: VerificationInput = {
+    publicKey: requireString(obj, "publicKey"),
+    messageHash: requireString(obj, "messageHash"),
+    signature: parseSignatureJSON(obj.signature, "signature"),
+  };
+  // The top-level scheme is accepted as a shorthand for signature.scheme
+  input.signature.scheme = input.signature.scheme ?? optionalScheme(obj);
+  parseBytes(input.publicKey, "publicKey", input.signature.scheme === "schnorr" ? [32, 33] : [33, 65]);
+  parseHash32(input.messageHash);
+  return input;
+}
+
+/**
+ * Validate an extraction request body
+ * @param body - Parsed JSON body
+ * @returns ExtractionInput with every hex field checked
+ */
+export function parseExtractionInput(body: unknown): ExtractionInput {
+  const obj = requireObject(body, "body");
+  const scheme = optionalScheme(obj);
+  const input: ExtractionInput = {
+    signature1: parseSignatureJSON(obj.signature1, "signature1"),
+    signature2: parseSignatureJSON(obj.signature2, "signature2"),
+    messageHash1: requireString(obj, "messageHash1"),
+    messageHash2: requireString(obj, "messageHash2"),
+    publicKey: optionalString(obj, "publicKey"),
+  };
+  input.signature1.scheme = input.signature1.scheme ?? scheme;
+  input.signature2.scheme = input.signature2.scheme ?? scheme;
+  parseHash32(input.messageHash1, "messageHash1");
+  parseHash32(input.messageHash2, "messageHash2");
+  if (input.publicKey !== undefined) parsePublicKey(input.publicKey);
+  if (input.signature1.scheme === "schnorr" && input.publicKey === undefined) {
+    throw new MissingInputError("publicKey");
+  }
+  return input;
+}
+
+// Helper function to turn a SignatureJSON into the library's signature type
+function toSignature(signature: SignatureJSON) {
+  return { r: parseBytes(signature.r, "r", 32), s: parseBytes(signature.s, "s", 32), scheme: signature.scheme ?? "ecdsa" };
+}
+
+/**
+ * Generate a key pair
+ * @param input - KeyGenInput
+ * @returns KeyGenResponse including the private key
+ */
+export function generateKeys(input: KeyGenInput): KeyGenResponse {
+  const scheme = input.scheme ?? "ecdsa";
+  const network = input.network ?? "mainnet";
+  const keyPair = generateEOTSKeyPair(scheme);
+  return {
+    privateKey: bytesToHex(keyPair.privateKey),
+    publicKey: bytesToHex(keyPair.publicKey),
+    scheme,
+    network,
+    taprootAddress: deriveTaprootAddress(keyPair.privateKey, network),
+  };
+}
+
+/**
+ * Sign a message hash
+ * @param input - Validated SignatureInput
+ * @returns SignResponse with the signature and signer public key
+ */
+export function signFromInput(input: SignatureInput): SignResponse {
+  const scheme = input.scheme ?? "ecdsa";
+  const signature = signEOTS(input.privateKey, input.messageHash, input.nonce, scheme, input.auxRand);
+  return {
+    signature: signatureToJSON(signature),
+    publicKey: bytesToHex(getPublicKey(input.privateKey, scheme)),
+  };
+}
+
+/**
+ * Verify a signature
+ * @param input - Validated VerificationInput
+ * @returns VerificationResult with a failure reason when invalid
+ */
+export function verifyFromInput(input: VerificationInput): VerificationResult {
+  return verifyEOTSDetailed(input.publicKey, input.messageHash, toSignature(input.signature));
+}
+
+/**
+ * Extract a private key from two signatures sharing a nonce
+ * @param input - Validated ExtractionInput
+ * @returns ExtractionResponse with the key and, when a public key was given, the matching sign combination
+ */
+export function extractFromInput(input: ExtractionInput): ExtractionResponse {
+  const sig1 = toSignature(input.signature1);
+  const sig2 = toSignature(input.signature2);
+
+  if (input.publicKey === undefined) {
+    const privateKey = extractPrivateKey(sig1, sig2, input.messageHash1, input.messageHash2);
+    return { privateKey: bytesToHex(privateKey), publicKey: bytesToHex(getPublicKey(privateKey, sig1.scheme)), combination: null };
+  }
+
+  const { privateKey, combination } = extractPrivateKeyDetailed(sig1, sig2, input.messageHash1, input.messageHash2, input.publicKey);
+  return { privateKey: bytesToHex(privateKey), publicKey: bytesToHex(getPublicKey(privateKey, sig1.scheme)), combination };
+}
+
+/**
+ * Map a thrown error to an HTTP status and error body
+ * Parse errors are client errors (400); other errors from the operation itself are reported as 422 with failureCode
+ * @param error - Thrown value
+ * @param failureCode - Code for errors raised by the operation (e.g. "extraction_failed")
+ * @returns Status and ApiErrorResponse
+ */
+export function toApiError(error: unknown, failureCode: string): { status: number; body: ApiErrorResponse } {
+  if (error instanceof ParseError) {
+    return { status: 400, body: { error: { code: error.code, message: error.message, field: error.field } } };
+  }
+  if (error instanceof Error) {
+    return { status: 422, body: { error: { code: failureCode, message: error.message } } };
+  }
+  return { status: 500, body: { error: { code: "internal_error", message: String(error) } } };
+}
+
+/**
+ * Build a JSON route handler: parse the body, validate it, run the operation and map errors
+ * @param parse - Body validator
+ * @param run - Operation on the validated input
+ * @param failureCode - Error code for operation failures
+ * @returns Handler taking a Request and returning a JSON Response
+ */
+export function jsonRoute<I, O>(parse: (body: unknown) => I, run: (input: I) => O, failureCode: string): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    let body: unknown;
+    try {
+      const text = await request.text();
+      body = text.trim() === "" ? undefined : JSON.parse(text);
+    } catch {
+      const error: ApiErrorResponse = { error: { code: "invalid_json", message: "Request body must be valid JSON" } };
+      return Response.json(error, { status: 400 });
+    }
+
+    try {
+      return Response.json(run(parse(body)));
+    } catch (error) {
+      const { status, body: errorBody } = toApiError(error, failureCode);
+      return Response.json(errorBody, { status });
+    }
+  };
+}
@@ -0,0 +1,100 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { concatBytes } from "./utils";
+
+/**
+ * Base58 and Base58Check encoding (Bitcoin alphabet), as used by BIP-32 extended keys
+ */
+
+const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+// Helper function to compute the 4-byte checksum: the first bytes of sha256(sha256(payload))
+function checksum(payload: Uint8Array): Uint8Array {
+  return sha256(sha256(payload)).slice(0, 4);
+}
+
+/**
+ * Encode bytes as Base58; each leading zero byte becomes a leading "1"
+ * @param bytes - Bytes to encode
+ * @returns Base58 string
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  // Repeated division by 58 over base-58 digits, least significant first
+  const digits: number[] = [];
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+
+  let result = "1".repeat(zeros);
+  for (let i = digits.length - 1; i >= 0; i--) result += ALPHABET[digits[i]];
+  return result;
+}
+
+/**
+ * Decode a Base58 string
+ * @param encoded - Base58 string
+ * @returns Decoded bytes
+ */
+export function base58Decode(encoded: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < encoded.length && encoded[zeros] === "1") zeros++;
+
+  const bytes: number[] = [];
+  for (let i = zeros; i < encoded.length; i++) {
+    let carry = ALPHABET.indexOf(encoded[i]);
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character "${encoded[i]}"`);
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  const result = new Uint8Array(zeros + bytes.length);
+  for (let i = 0; i < bytes.length; i++) result[result.length - 1 - i] = bytes[i];
+  return result;
+}
+
+/**
+ * Encode bytes as Base58Check (payload followed by a 4-byte double-SHA256 checksum)
+ * @param payload - Bytes to encode
+ * @returns Base58Check string
+ */
+export function base58CheckEncode(payload: Uint8Array): string {
+  return base58Encode(concatBytes(payload, checksum(payload)));
+}
+
+/**
+ * Decode a Base58Check string and verify its checksum
+ * @param encoded - Base58Check string
+ * @returns Payload without the checksum
+ */
+export function base58CheckDecode(encoded: string): Uint8Array {
+  const bytes = base58Decode(encoded);
+  if (bytes.length < 4) {
+    throw new Error("Base58Check string is too short");
+  }
+  const payload = bytes.slice(0, -4);
+  const expected = checksum(payload);
+  if (expected.some((byte, i) => byte !== bytes[payload.length + i])) {
+    throw new Error("Invalid Base58Check checksum");
+  }
+  return payload;
+}
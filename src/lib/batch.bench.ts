@@ -0,0 +1,44 @@
+import { bench, describe } from "vitest";
+import { sha256 } from "@noble/hashes/sha256";
+import { verifyBatch } from "./batch";
+import { signEOTS, verifyEOTS, getPublicKey } from "./eots";
+import { BatchVerificationItem, EOTSScheme } from "./types";
+
+/**
+ * verifyBatch against a verifyEOTS loop over one finality round worth of signatures
+ * Run with `npm run bench`; BATCH_SIZE overrides the number of signatures (default 200)
+ */
+
+const SIZE = Number(process.env.BATCH_SIZE ?? 200);
+
+// Helper function to build a round of signed items with deterministic keys and messages
+function buildItems(scheme: EOTSScheme): BatchVerificationItem[] {
+  return Array.from({ length: SIZE }, (_, i) => {
+    const key = sha256(new TextEncoder().encode(`key ${i}`));
+    const messageHash = sha256(new TextEncoder().encode(`block ${i}`));
+    return { publicKey: getPublicKey(key, scheme), messageHash, signature: signEOTS(key, messageHash, undefined, scheme) };
+  });
+}
+
+describe.each(["schnorr", "ecdsa"] as const)(`%s, ${SIZE} signatures`, (scheme) => {
+  const items = buildItems(scheme);
+  const options = { iterations: 5, warmupIterations: 1 };
+
+  bench(
+    "verifyEOTS loop",
+    () => {
+      for (const item of items) {
+        if (!verifyEOTS(item.publicKey, item.messageHash, item.signature)) throw new Error("Signature did not verify");
+      }
+    },
+    options,
+  );
+
+  bench(
+    "verifyBatch",
+    () => {
+      if (!verifyBatch(items).valid) throw new Error("Batch did not verify");
+    },
+    options,
+  );
+});
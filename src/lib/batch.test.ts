@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { CURVE } from "@noble/secp256k1";
+import { verifyBatch } from "./batch";
+import { signEOTS, getPublicKey } from "./eots";
+import { ParseError } from "./errors";
+import { numberToBytes } from "./math";
+import { sha256 } from "@noble/hashes/sha256";
+import { BatchVerificationItem, EOTSScheme } from "./types";
+
+// Helper function to build n signed items with deterministic keys and messages
+function buildItems(n: number, scheme: EOTSScheme): BatchVerificationItem[] {
+  return Array.from({ length: n }, (_, i) => {
+    const key = sha256(new TextEncoder().encode(`key ${i}`));
+    const messageHash = sha256(new TextEncoder().encode(`block ${i}`));
+    return { publicKey: getPublicKey(key, scheme), messageHash, signature: signEOTS(key, messageHash, undefined, scheme) };
+  });
+}
+
+// Helper function to break an item's signature by swapping in another message
+function corrupt(item: BatchVerificationItem): BatchVerificationItem {
+  return { ...item, messageHash: sha256(new TextEncoder().encode("forged")) };
+}
+
+describe("verifyBatch", () => {
+  it("accepts an empty batch", () => {
+    expect(verifyBatch([])).toEqual({ valid: true, invalid: [] });
+  });
+
+  it.each(["ecdsa", "schnorr"] as const)("accepts a batch of valid %s signatures", (scheme) => {
+    expect(verifyBatch(buildItems(12, scheme))).toEqual({ valid: true, invalid: [] });
+  });
+
+  it("accepts mixed schemes and compressed Schnorr keys", () => {
+    const schnorr = buildItems(5, "schnorr").map((item, i) => (i % 2 === 0 ? { ...item, publicKey: new Uint8Array([0x02, ...(item.publicKey as Uint8Array)]) } : item));
+    expect(verifyBatch([...buildItems(4, "ecdsa"), ...schnorr]).valid).toBe(true);
+  });
+
+  it.each([[[0]], [[7]], [[15]], [[2, 3]], [[0, 9, 15]], [Array.from({ length: 16 }, (_, i) => i)]])("bisects a Schnorr batch to the bad entries %j", (bad) => {
+    const items = buildItems(16, "schnorr").map((item, i) => (bad.includes(i) ? corrupt(item) : item));
+    const result = verifyBatch(items);
+    expect(result.valid).toBe(false);
+    expect(result.invalid.map((failure) => failure.index)).toEqual(bad);
+    expect(result.invalid.every((failure) => failure.reason === "mismatch")).toBe(true);
+  });
+
+  it("reports per-item reasons in input order across schemes", () => {
+    const ecdsa = buildItems(3, "ecdsa");
+    const schnorr = buildItems(4, "schnorr");
+    const items: BatchVerificationItem[] = [
+      ecdsa[0],
+      schnorr[0],
+      { ...schnorr[1], signature: { ...schnorr[1].signature, s: numberToBytes(CURVE.n, 32) } },
+      corrupt(ecdsa[1]),
+      // x = 5 is not on the curve
+      { ...schnorr[2], signature: { ...schnorr[2].signature, r: numberToBytes(BigInt(5), 32) } },
+      { ...ecdsa[2], publicKey: new Uint8Array([0x02, ...numberToBytes(BigInt(5), 32)]) },
+      corrupt(schnorr[3]),
+    ];
+
+    expect(verifyBatch(items).invalid.map(({ index, reason }) => ({ index, reason }))).toEqual([
+      { index: 2, reason: "s_out_of_range" },
+      { index: 3, reason: "mismatch" },
+      { index: 4, reason: "mismatch" },
+      { index: 5, reason: "invalid_public_key" },
+      { index: 6, reason: "mismatch" },
+    ]);
+  });
+
+  it("rejects a signature moved to another key", () => {
+    const items = buildItems(3, "schnorr");
+    items[1] = { ...items[1], publicKey: items[2].publicKey };
+    expect(verifyBatch(items).invalid.map((failure) => failure.index)).toEqual([1]);
+  });
+
+  it("throws a ParseError naming the malformed item", () => {
+    const items = buildItems(3, "schnorr");
+    items[2] = { ...items[2], messageHash: "abcd" };
+    try {
+      verifyBatch(items);
+      expect.unreachable("verifyBatch should throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect((error as ParseError).field).toBe("items[2].messageHash");
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { BatchVerificationItem, BatchVerificationFailure, BatchVerificationResult, EOTSSignature } from "./types";
+import { parseHash32, parsePublicKey, parseEOTSSignature } from "./parse";
+import { InvalidPointError } from "./errors";
+import { bytesToNumber, mod, batchInverse } from "./math";
+import { verifyEOTSDetailed } from "./eots";
+import { decodePoint, multiplyAdd, batchToAffine } from "./curve";
+import { liftX, schnorrChallenge } from "./schnorr";
+
+/**
+ * Batch verification
+ * Schnorr items are checked together with one random linear combination of their verification equations:
+ *   (Σ a_i·s_i)·G == Σ a_i·R_i + Σ (a_i·e_i)·P_i
+ * with a_1 = 1 and the other a_i random 128-bit scalars, so a batch with a bad signature passes with
+ * probability at most 2^-128. A failing batch is bisected until the bad items are isolated.
+ * ECDSA signatures have no linear verification equation (only R.x is known), so each is checked on its own;
+ * the batch only shares the s^-1 inversions and the conversions of the results to affine coordinates.
+ */
+
+interface ECDSAEntry {
+  index: number;
+  publicKey: Uint8Array;
+  messageHash: Uint8Array;
+  signature: EOTSSignature;
+  P: ProjectivePoint;
+  r: bigint;
+  s: bigint;
+}
+
+interface SchnorrEntry {
+  index: number;
+  publicKey: Uint8Array;
+  messageHash: Uint8Array;
+  signature: EOTSSignature;
+  P: ProjectivePoint;
+  R: ProjectivePoint;
+  e: bigint;
+  s: bigint;
+}
+
+// Helper function to record an item that failed, asking the single-item verifier for the reason
+function recordFailure(entry: { index: number; publicKey: Uint8Array; messageHash: Uint8Array; signature: EOTSSignature }, failures: BatchVerificationFailure[]): void {
+  const result = verifyEOTSDetailed(entry.publicKey, entry.messageHash, entry.signature);
+  if (!result.valid) {
+    failures.push({ index: entry.index, reason: result.reason ?? "mismatch", message: result.message });
+  }
+}
+
+// Helper function to verify ECDSA entries with one inversion for all s values and one for all result points
+function verifyECDSAEntries(entries: ECDSAEntry[], failures: BatchVerificationFailure[]): void {
+  const sInverses = batchInverse(entries.map((entry) => entry.s), CURVE.n);
+
+  // X = (h * s^-1) * G + (r * s^-1) * P, compared with r after a shared conversion to affine
+  const points = entries.map((entry, i) => multiplyAdd(mod(bytesToNumber(entry.messageHash) * sInverses[i], CURVE.n), entry.P, mod(entry.r * sInverses[i], CURVE.n)));
+  batchToAffine(points).forEach((X, i) => {
+    if (X === null || mod(X.x, CURVE.n) !== entries[i].r) {
+      recordFailure(entries[i], failures);
+    }
+  });
+}
+
+// Helper function to draw a random non-zero 128-bit batch coefficient
+function randomCoefficient(): bigint {
+  const bytes = new Uint8Array(16);
+  let a = BigInt(0);
+  while (a === BigInt(0)) {
+    crypto.getRandomValues(bytes);
+    a = bytesToNumber(bytes);
+  }
+  return a;
+}
+
+// Helper function to compute Σ k_i·P_i with Pippenger's bucket method
+function multiScalarMultiply(points: ProjectivePoint[], scalars: bigint[]): ProjectivePoint {
+  const bits = scalars.reduce((max, k) => Math.max(max, k.toString(2).length), 0);
+  const c = Math.max(2, Math.floor(Math.log2(points.length)) - 2);
+  const mask = (BigInt(1) << BigInt(c)) - BigInt(1);
+
+  let result = ProjectivePoint.ZERO;
+  for (let w = Math.ceil(bits / c) - 1; w >= 0; w--) {
+    for (let i = 0; i < c; i++) {
+      result = result.double();
+    }
+
+    // Bucket j collects the points whose current window digit is j + 1
+    const buckets: ProjectivePoint[] = new Array(Number(mask)).fill(ProjectivePoint.ZERO);
+    const shift = BigInt(w * c);
+    for (let i = 0; i < points.length; i++) {
+      const digit = Number((scalars[i] >> shift) & mask);
+      if (digit !== 0) {
+        buckets[digit - 1] = buckets[digit - 1].add(points[i]);
+      }
+    }
+
+    // Σ (j + 1)·bucket_j as a running sum from the top bucket down
+    let running = ProjectivePoint.ZERO;
+    let windowSum = ProjectivePoint.ZERO;
+    for (let j = buckets.length - 1; j >= 0; j--) {
+      running = running.add(buckets[j]);
+      windowSum = windowSum.add(running);
+    }
+    result = result.add(windowSum);
+  }
+  return result;
+}
+
+// Helper function to check the combined Schnorr verification equation for a group of entries
+function schnorrBatchHolds(entries: SchnorrEntry[]): boolean {
+  const points: ProjectivePoint[] = [];
+  const scalars: bigint[] = [];
+  let sum = BigInt(0);
+
+  entries.forEach((entry, i) => {
+    const a = i === 0 ? BigInt(1) : randomCoefficient();
+    sum += a * entry.s;
+    points.push(entry.R, entry.P);
+    scalars.push(a, mod(a * entry.e, CURVE.n));
+  });
+
+  const lhs = ProjectivePoint.BASE.mul(mod(sum, CURVE.n), false);
+  return lhs.equals(multiScalarMultiply(points, scalars));
+}
+
+// Helper function to bisect a group of Schnorr entries down to the ones that fail
+// knownInvalid skips the batch check when the caller already knows the group contains a bad entry
+function bisectSchnorr(entries: SchnorrEntry[], failures: BatchVerificationFailure[], knownInvalid: boolean): void {
+  if (entries.length === 0) {
+    return;
+  }
+  if (entries.length === 1) {
+    recordFailure(entries[0], failures);
+    return;
+  }
+  if (!knownInvalid && schnorrBatchHolds(entries)) {
+    return;
+  }
+
+  // If the left half is clean the right half must hold the bad entry, so its batch check can be skipped
+  const mid = entries.length >> 1;
+  const before = failures.length;
+  bisectSchnorr(entries.slice(0, mid), failures, false);
+  bisectSchnorr(entries.slice(mid), failures, failures.length === before);
+}
+
+/**
+ * Verify many EOTS signatures together
+ * Schnorr signatures are batched with a random linear combination and bisected on failure;
+ * ECDSA signatures fall back to per-item verifyEOTSDetailed. Both schemes may be mixed in one batch.
+ * Malformed items (bad hex, wrong lengths) throw a ParseError whose field names the item, e.g. "items[3].signature"
+ * @param items - (public key, message hash, signature) tuples
+ * @returns BatchVerificationResult listing every failing item with its reason
+ */
+export function verifyBatch(items: BatchVerificationItem[]): BatchVerificationResult {
+  const failures: BatchVerificationFailure[] = [];
+  const ecdsaEntries: ECDSAEntry[] = [];
+  const schnorrEntries: SchnorrEntry[] = [];
+
+  items.forEach((item, index) => {
+    const messageHash = parseHash32(item?.messageHash, `items[${index}].messageHash`);
+    const signature = parseEOTSSignature(item?.signature, `items[${index}].signature`);
+
+    let publicKey: Uint8Array;
+    try {
+      publicKey = parsePublicKey(item.publicKey, `items[${index}].publicKey`, signature.scheme === "schnorr" ? ["xonly", "compressed"] : ["compressed", "uncompressed"]);
+    } catch (error) {
+      if (error instanceof InvalidPointError) {
+        failures.push({ index, reason: "invalid_public_key", message: "Public key is not a valid secp256k1 point encoding" });
+        return;
+      }
+      throw error;
+    }
+
+    if (signature.scheme !== "schnorr") {
+      const r = bytesToNumber(signature.r);
+      const s = bytesToNumber(signature.s);
+      if (r === BigInt(0) || r >= CURVE.n || s === BigInt(0) || s >= CURVE.n) {
+        recordFailure({ index, publicKey, messageHash, signature }, failures);
+        return;
+      }
+      ecdsaEntries.push({ index, publicKey, messageHash, signature, P: decodePoint(publicKey), r, s });
+      return;
+    }
+
+    // Anything the batch equation cannot represent (out-of-range values, x coordinates off the curve)
+    // is settled individually, which also yields the precise failure reason
+    const xOnly = publicKey.length === 33 ? publicKey.slice(1) : publicKey;
+    const s = bytesToNumber(signature.s);
+    let P: ProjectivePoint;
+    let R: ProjectivePoint;
+    try {
+      if (bytesToNumber(signature.r) >= CURVE.p || s >= CURVE.n) {
+        throw new Error("Signature component out of range");
+      }
+      P = liftX(xOnly);
+      R = decodePoint(signature.r, false);
+    } catch {
+      recordFailure({ index, publicKey: xOnly, messageHash, signature }, failures);
+      return;
+    }
+
+    schnorrEntries.push({ index, publicKey: xOnly, messageHash, signature, P, R, e: schnorrChallenge(signature.r, xOnly, messageHash), s });
+  });
+
+  verifyECDSAEntries(ecdsaEntries, failures);
+  bisectSchnorr(schnorrEntries, failures, false);
+
+  failures.sort((a, b) => a.index - b.index);
+  return { valid: failures.length === 0, invalid: failures };
+}
@@ -0,0 +1,190 @@
+/**
+ * Bech32 / Bech32m encoding (BIP-173, BIP-350) and segwit address helpers
+ */
+
+export type Bech32Encoding = "bech32" | "bech32m";
+
+const CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const CHECKSUM_CONST: Record<Bech32Encoding, number> = {
+  bech32: 1,
+  bech32m: 0x2bc830a3,
+};
+
+// Helper function to compute the bech32 checksum polynomial
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        chk ^= GENERATOR[i];
+      }
+    }
+  }
+  return chk >>> 0;
+}
+
+// Helper function to expand the human-readable part for checksum computation
+function hrpExpand(hrp: string): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < hrp.length; i++) result.push(hrp.charCodeAt(i) >> 5);
+  result.push(0);
+  for (let i = 0; i < hrp.length; i++) result.push(hrp.charCodeAt(i) & 31);
+  return result;
+}
+
+// Helper function to create the 6-word checksum
+function createChecksum(hrp: string, data: number[], encoding: Bech32Encoding): number[] {
+  const mod = polymod([...hrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^ CHECKSUM_CONST[encoding];
+  const result: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    result.push((mod >>> (5 * (5 - i))) & 31);
+  }
+  return result;
+}
+
+/**
+ * Regroup bits, e.g. 8-bit bytes into 5-bit words and back
+ * @param data - Input values of fromBits width
+ * @param fromBits - Width of input values
+ * @param toBits - Width of output values
+ * @param pad - Pad the final group with zeros (encoding); when false, reject non-zero or excess padding (decoding)
+ * @returns Regrouped values
+ */
+export function convertBits(data: ArrayLike<number>, fromBits: number, toBits: number, pad: boolean): number[] {
+  let acc = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxv = (1 << toBits) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    if (value < 0 || value >> fromBits !== 0) {
+      throw new Error("Invalid value for bit conversion");
+    }
+    acc = (acc << fromBits) | value;
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((acc >> bits) & maxv);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) {
+      result.push((acc << (toBits - bits)) & maxv);
+    }
+  } else if (bits >= fromBits || ((acc << (toBits - bits)) & maxv) !== 0) {
+    throw new Error("Invalid padding in bit conversion");
+  }
+
+  return result;
+}
+
+/**
+ * Encode 5-bit words as a bech32 or bech32m string
+ * @param hrp - Human-readable part (e.g. "bc")
+ * @param words - Data as 5-bit words
+ * @param encoding - "bech32" or "bech32m"
+ * @returns Encoded string
+ */
+export function bech32Encode(hrp: string, words: number[], encoding: Bech32Encoding): string {
+  const checksum = createChecksum(hrp, words, encoding);
+  return hrp + "1" + [...words, ...checksum].map((w) => CHARSET[w]).join("");
+}
+
+/**
+ * Decode a bech32 or bech32m string
+ * @param str - Encoded string
+ * @returns Human-readable part, 5-bit data words (checksum removed) and detected encoding
+ */
+export function bech32Decode(str: string): { hrp: string; words: number[]; encoding: Bech32Encoding } {
+  if (str.length > 90) {
+    throw new Error("Bech32 string is too long");
+  }
+  for (let i = 0; i < str.length; i++) {
+    const c = str.charCodeAt(i);
+    if (c < 33 || c > 126) {
+      throw new Error("Bech32 string contains invalid characters");
+    }
+  }
+  if (str !== str.toLowerCase() && str !== str.toUpperCase()) {
+    throw new Error("Bech32 string has mixed case");
+  }
+
+  const lower = str.toLowerCase();
+  const pos = lower.lastIndexOf("1");
+  if (pos < 1 || pos + 7 > lower.length) {
+    throw new Error("Bech32 separator is missing or misplaced");
+  }
+
+  const hrp = lower.slice(0, pos);
+  const data: number[] = [];
+  for (const c of lower.slice(pos + 1)) {
+    const value = CHARSET.indexOf(c);
+    if (value === -1) {
+      throw new Error(`Invalid bech32 data character: ${c}`);
+    }
+    data.push(value);
+  }
+
+  const check = polymod([...hrpExpand(hrp), ...data]);
+  const encoding = (Object.keys(CHECKSUM_CONST) as Bech32Encoding[]).find((e) => CHECKSUM_CONST[e] === check);
+  if (!encoding) {
+    throw new Error("Invalid bech32 checksum");
+  }
+
+  return { hrp, words: data.slice(0, -6), encoding };
+}
+
+/**
+ * Encode a segwit address (bech32 for version 0, bech32m for version 1+)
+ * @param hrp - Human-readable part
+ * @param version - Witness version (0-16)
+ * @param program - Witness program
+ * @returns Segwit address
+ */
+export function encodeSegwitAddress(hrp: string, version: number, program: Uint8Array): string {
+  validateWitnessProgram(version, program);
+  return bech32Encode(hrp, [version, ...convertBits(program, 8, 5, true)], version === 0 ? "bech32" : "bech32m");
+}
+
+/**
+ * Decode and validate a segwit address per BIP-173/BIP-350
+ * @param address - Segwit address
+ * @returns Human-readable part, witness version and witness program
+ */
+export function decodeSegwitAddress(address: string): { hrp: string; version: number; program: Uint8Array } {
+  const { hrp, words, encoding } = bech32Decode(address);
+  if (words.length === 0) {
+    throw new Error("Segwit address has no witness version");
+  }
+
+  const version = words[0];
+  if (version > 16) {
+    throw new Error("Invalid witness version");
+  }
+  if ((version === 0 && encoding !== "bech32") || (version !== 0 && encoding !== "bech32m")) {
+    throw new Error(`Witness version ${version} must use ${version === 0 ? "bech32" : "bech32m"}`);
+  }
+
+  const program = new Uint8Array(convertBits(words.slice(1), 5, 8, false));
+  validateWitnessProgram(version, program);
+
+  return { hrp, version, program };
+}
+
+// Helper function to check witness program length rules
+function validateWitnessProgram(version: number, program: Uint8Array): void {
+  if (version < 0 || version > 16) {
+    throw new Error("Invalid witness version");
+  }
+  if (program.length < 2 || program.length > 40) {
+    throw new Error("Invalid witness program length");
+  }
+  if (version === 0 && program.length !== 20 && program.length !== 32) {
+    throw new Error("Invalid witness program length for version 0");
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { CURVE } from "@noble/secp256k1";
+import { HARDENED_OFFSET, hdKeyFromSeed, deriveChild, parseDerivationPath, formatDerivationPath, derivePath, toExtendedPublicKey, encodeExtendedKey, decodeExtendedKey, deriveEOTSKeys } from "./bip32";
+import { base58CheckEncode, base58CheckDecode, base58Encode, base58Decode } from "./base58";
+import { generateMnemonic, validateMnemonic, mnemonicToSeed } from "./mnemonic";
+import { signEOTS, verifyEOTS, getPublicKey } from "./eots";
+import { ParseError } from "./errors";
+import { bytesToHex, hexToBytes, concatBytes } from "./utils";
+import { numberToBytes } from "./math";
+
+// BIP-32 test vectors 1 and 3: path -> [xpub, xprv]
+const VECTOR_1: [string, string, string][] = [
+  ["m", "xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8", "xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi"],
+  ["m/0H", "xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw", "xprv9uHRZZhk6KAJC1avXpDAp4MDc3sQKNxDiPvvkX8Br5ngLNv1TxvUxt4cV1rGL5hj6KCesnDYUhd7oWgT11eZG7XnxHrnYeSvkzY7d2bhkJ7"],
+  ["m/0H/1", "xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ", "xprv9wTYmMFdV23N2TdNG573QoEsfRrWKQgWeibmLntzniatZvR9BmLnvSxqu53Kw1UmYPxLgboyZQaXwTCg8MSY3H2EU4pWcQDnRnrVA1xe8fs"],
+  ["m/0H/1/2H/2/1000000000", "xpub6H1LXWLaKsWFhvm6RVpEL9P4KfRZSW7abD2ttkWP3SSQvnyA8FSVqNTEcYFgJS2UaFcxupHiYkro49S8yGasTvXEYBVPamhGW6cFJodrTHy", "xprvA41z7zogVVwxVSgdKUHDy1SKmdb533PjDz7J6N6mV6uS3ze1ai8FHa8kmHScGpWmj4WggLyQjgPie1rFSruoUihUZREPSL39UNdE3BBDu76"],
+];
+const SEED_1 = "000102030405060708090a0b0c0d0e0f";
+
+const VECTOR_3: [string, string, string][] = [
+  ["m", "xpub661MyMwAqRbcEZVB4dScxMAdx6d4nFc9nvyvH3v4gJL378CSRZiYmhRoP7mBy6gSPSCYk6SzXPTf3ND1cZAceL7SfJ1Z3GC8vBgp2epUt13", "xprv9s21ZrQH143K25QhxbucbDDuQ4naNntJRi4KUfWT7xo4EKsHt2QJDu7KXp1A3u7Bi1j8ph3EGsZ9Xvz9dGuVrtHHs7pXeTzjuxBrCmmhgC6"],
+  ["m/0H", "xpub68NZiKmJWnxxS6aaHmn81bvJeTESw724CRDs6HbuccFQN9Ku14VQrADWgqbhhTHBaohPX4CjNLf9fq9MYo6oDaPPLPxSb7gwQN3ih19Zm4Y", "xprv9uPDJpEQgRQfDcW7BkF7eTya6RPxXeJCqCJGHuCJ4GiRVLzkTXBAJMu2qaMWPrS7AANYqdq6vcBcBUdJCVVFceUvJFjaPdGZ2y9WACViL4L"],
+];
+const SEED_3 = "4b381541583be4423346c643850da4b320e46a87ae3d2a4e6da11eba819cd4acba45d239319ac14f863b8d5ab5a0d0c64d2e8a1e7d1457df2e5a3c51c73235be";
+
+const ABANDON = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+// Helper function to re-encode a valid extended key with one byte range replaced
+function tamper(encoded: string, offset: number, bytes: number[]): string {
+  const payload = base58CheckDecode(encoded);
+  payload.set(bytes, offset);
+  return base58CheckEncode(payload);
+}
+
+describe("BIP-32", () => {
+  it.each([
+    [SEED_1, VECTOR_1],
+    [SEED_3, VECTOR_3],
+  ])("matches the test vectors for seed %s", (seed, vectors) => {
+    const master = hdKeyFromSeed(seed);
+    for (const [path, xpub, xprv] of vectors) {
+      const key = derivePath(master, path);
+      expect(encodeExtendedKey(key)).toBe(xprv);
+      expect(encodeExtendedKey(toExtendedPublicKey(key))).toBe(xpub);
+      expect(encodeExtendedKey(decodeExtendedKey(xprv))).toBe(xprv);
+      expect(encodeExtendedKey(decodeExtendedKey(xpub))).toBe(xpub);
+    }
+  });
+
+  it("derives non-hardened children from the public key alone", () => {
+    const account = derivePath(hdKeyFromSeed(SEED_1), "m/0H/1");
+    const fromPublic = derivePath(decodeExtendedKey(encodeExtendedKey(toExtendedPublicKey(account))), [2, 1000000000]);
+    const fromPrivate = derivePath(account, [2, 1000000000]);
+    expect(bytesToHex(fromPublic.publicKey)).toBe(bytesToHex(fromPrivate.publicKey));
+    expect(fromPublic.privateKey).toBeUndefined();
+    expect(() => deriveChild(fromPublic, HARDENED_OFFSET)).toThrow("Cannot derive a hardened child from a public key");
+  });
+
+  it("uses tprv/tpub outside mainnet", () => {
+    const master = hdKeyFromSeed(SEED_1);
+    expect(encodeExtendedKey(master, "testnet").startsWith("tprv")).toBe(true);
+    expect(encodeExtendedKey(toExtendedPublicKey(master), "signet").startsWith("tpub")).toBe(true);
+    expect(encodeExtendedKey(decodeExtendedKey(encodeExtendedKey(master, "regtest")))).toBe(VECTOR_1[0][2]);
+  });
+
+  it("rejects malformed extended keys", () => {
+    const [, xpub, xprv] = VECTOR_1[1];
+    expect(() => decodeExtendedKey(xprv.slice(0, -1) + (xprv.endsWith("7") ? "8" : "7"))).toThrow("Invalid Base58Check checksum");
+    expect(() => decodeExtendedKey(base58CheckEncode(base58CheckDecode(xprv).slice(0, 77)))).toThrow("Extended key must be 78 bytes");
+    expect(() => decodeExtendedKey(tamper(xprv, 0, [0x01, 0x02, 0x03, 0x04]))).toThrow("Unknown extended key version 0x01020304");
+    expect(() => decodeExtendedKey(tamper(xprv, 4, [0]))).toThrow("Master key must have a zero parent fingerprint and index");
+    expect(() => decodeExtendedKey(tamper(xprv, 45, [0x01]))).toThrow("Private extended key must start its key data with 0x00");
+    expect(() => decodeExtendedKey(tamper(xprv, 46, Array.from(numberToBytes(CURVE.n, 32))))).toThrow("Extended private key is out of range");
+    expect(() => decodeExtendedKey(tamper(xpub, 45, [0x04]))).toThrow("Extended public key must be a compressed point");
+    expect(() => decodeExtendedKey(tamper(xpub, 45, [0x02, ...numberToBytes(BigInt(5), 32)]))).toThrow("Extended public key is not a valid secp256k1 point");
+    expect(() => decodeExtendedKey("xprv0OIl")).toThrow('Invalid base58 character "0"');
+  });
+
+  it("rejects seeds outside 16 to 64 bytes", () => {
+    expect(() => hdKeyFromSeed(new Uint8Array(15))).toThrow("seed must be 16 to 64 bytes");
+    expect(() => hdKeyFromSeed(new Uint8Array(65))).toThrow("seed must be 16 to 64 bytes");
+  });
+});
+
+describe("derivation paths", () => {
+  it("parses and formats hardened and normal steps", () => {
+    expect(parseDerivationPath("m")).toEqual([]);
+    expect(parseDerivationPath("m/86'/0h/0H/0/5")).toEqual([HARDENED_OFFSET + 86, HARDENED_OFFSET, HARDENED_OFFSET, 0, 5]);
+    expect(formatDerivationPath(parseDerivationPath(" m/86h/0'/0'/1/2 "))).toBe("m/86'/0'/0'/1/2");
+  });
+
+  it.each([
+    ["", "missing"],
+    ["86'/0'", "invalid_format"],
+    ["m/", "invalid_format"],
+    ["m/0x1", "invalid_format"],
+    ["m/-1", "invalid_format"],
+    ["m/2147483648", "out_of_range"],
+  ])("rejects %j with %s", (path, code) => {
+    try {
+      parseDerivationPath(path, "derivationPath");
+      expect.unreachable("parseDerivationPath should throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect((error as ParseError).code).toBe(code);
+      expect((error as ParseError).field).toBe("derivationPath");
+    }
+  });
+
+  it("only accepts m/ paths from the master key", () => {
+    const child = derivePath(hdKeyFromSeed(SEED_1), "m/0H");
+    expect(() => derivePath(child, "m/1")).toThrow("A path starting with m needs the master key");
+  });
+});
+
+describe("BIP-39 mnemonics", () => {
+  it("derives the reference seeds", () => {
+    expect(bytesToHex(mnemonicToSeed(ABANDON))).toBe("5eb00bbddcf069084889a8ab9155568165f5c453ccb85e70811aaed6f6da5fc19a5ac40b389cd370d086206dec8aa6c43daea6690f20ad3d8d48b2d2ce9e38e4");
+    expect(bytesToHex(mnemonicToSeed(`  ${ABANDON.toUpperCase()}\n`, "TREZOR"))).toBe("c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04");
+  });
+
+  it("generates valid mnemonics of every length", () => {
+    for (const words of [12, 15, 18, 21, 24]) {
+      const mnemonic = generateMnemonic(words);
+      expect(mnemonic.split(" ")).toHaveLength(words);
+      expect(validateMnemonic(mnemonic)).toBe(true);
+    }
+    expect(() => generateMnemonic(13)).toThrow("Mnemonic length must be one of 12, 15, 18, 21, 24 words");
+  });
+
+  it.each([
+    ["", "missing", "mnemonic is required"],
+    ["abandon abandon abandon", "invalid_format", "mnemonic must have 12, 15, 18, 21, 24 words (got 3)"],
+    [ABANDON.replace("about", "bitcoins"), "invalid_format", 'mnemonic contains "bitcoins", which is not in the BIP-39 English wordlist'],
+    [ABANDON.replace("about", "abandon"), "invalid_format", "mnemonic has an invalid checksum"],
+  ])("rejects %j", (mnemonic, code, message) => {
+    expect(validateMnemonic(mnemonic)).toBe(false);
+    expect(() => mnemonicToSeed(mnemonic)).toThrow(message);
+    expect(() => mnemonicToSeed(mnemonic)).toThrow(expect.objectContaining({ code, field: "mnemonic" }));
+  });
+});
+
+describe("deriveEOTSKeys", () => {
+  const master = hdKeyFromSeed(mnemonicToSeed(ABANDON));
+
+  it("matches the BIP-86 vector for the default path", () => {
+    expect(encodeExtendedKey(master)).toBe("xprv9s21ZrQH143K3GJpoapnV8SFfukcVBSfeCficPSGfubmSFDxo1kuHnLisriDvSnRRuL2Qrg5ggqHKNVpxR86QEC8w35uxmGoggxtQTPvfUu");
+    expect(encodeExtendedKey(toExtendedPublicKey(derivePath(master, "m/86'/0'/0'")))).toBe("xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ");
+
+    const derived = deriveEOTSKeys(master);
+    expect(derived.path).toBe("m/86'/0'/0'/0/0");
+    expect(bytesToHex(derived.keyPair.publicKey.slice(1))).toBe("cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115");
+    expect(derived.taprootAddress).toBe("bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr");
+    expect(decodeExtendedKey(derived.extendedPublicKey).depth).toBe(5);
+  });
+
+  it.each(["ecdsa", "schnorr"] as const)("derives a working %s key pair and a separate randomness seed", (scheme) => {
+    const { keyPair, randomnessSeed } = deriveEOTSKeys(master, "m/86h/0h/0h/0/7", scheme, "testnet");
+    expect(bytesToHex(getPublicKey(keyPair.privateKey, scheme))).toBe(bytesToHex(keyPair.publicKey));
+    const hash = hexToBytes("11".repeat(32));
+    expect(verifyEOTS(keyPair.publicKey, hash, signEOTS(keyPair.privateKey, hash, undefined, scheme))).toBe(true);
+    expect(randomnessSeed).toHaveLength(32);
+    expect(bytesToHex(randomnessSeed)).not.toBe(bytesToHex(keyPair.privateKey));
+  });
+
+  it("is deterministic and path dependent", () => {
+    expect(deriveEOTSKeys(master, "m/86'/0'/0'/0/1")).toEqual(deriveEOTSKeys(hdKeyFromSeed(mnemonicToSeed(ABANDON)), "m/86'/0'/0'/0/1"));
+    expect(bytesToHex(deriveEOTSKeys(master, "m/86'/0'/0'/0/1").randomnessSeed)).not.toBe(bytesToHex(deriveEOTSKeys(master, "m/86'/0'/0'/0/2").randomnessSeed));
+    expect(() => deriveEOTSKeys(toExtendedPublicKey(master), "m/0")).toThrow("Deriving signing keys needs an extended private key");
+  });
+});
+
+describe("Base58", () => {
+  it("keeps leading zeros and round-trips", () => {
+    expect(base58Encode(new Uint8Array([0, 0, 1]))).toBe("112");
+    expect(base58Decode("112")).toEqual(new Uint8Array([0, 0, 1]));
+    expect(base58Encode(new Uint8Array())).toBe("");
+    const payload = concatBytes(new Uint8Array([0]), hexToBytes("ff".repeat(20)));
+    expect(base58CheckDecode(base58CheckEncode(payload))).toEqual(payload);
+  });
+});
@@ -0,0 +1,268 @@
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { sha512 } from "@noble/hashes/sha512";
+import { ripemd160 } from "@noble/hashes/ripemd160";
+import { BitcoinNetwork, DerivedEOTSKeys, EOTSKeyPair, EOTSScheme, ExtendedKey } from "./types";
+import { concatBytes, taggedHash } from "./utils";
+import { bytesToNumber, numberToBytes, mod } from "./math";
+import { decodePoint, encodePoint } from "./curve";
+import { base58CheckEncode, base58CheckDecode } from "./base58";
+import { parseBytes } from "./parse";
+import { MissingInputError, InvalidFormatError, OutOfRangeError } from "./errors";
+import { deriveTaprootAddress } from "./eots";
+
+/**
+ * BIP-32 hierarchical deterministic keys
+ * Serialized layout (78 bytes, Base58Check): version (4) | depth (1) | parent fingerprint (4) | child index (4)
+ *   | chain code (32) | key (33: 0x00 || private key, or compressed public key)
+ */
+
+export const HARDENED_OFFSET = 0x80000000;
+
+// BIP-86 path of the first external key of the first account, so derived Taproot addresses match standard wallets
+export const DEFAULT_EOTS_DERIVATION_PATH = "m/86'/0'/0'/0/0";
+
+const VERSIONS: Record<"mainnet" | "testnet", { private: number; public: number }> = {
+  mainnet: { private: 0x0488ade4, public: 0x0488b21e }, // xprv / xpub
+  testnet: { private: 0x04358394, public: 0x043587cf }, // tprv / tpub
+};
+
+// Helper function to encode a uint32 big-endian
+function ser32(value: number): Uint8Array {
+  return numberToBytes(BigInt(value), 4);
+}
+
+// Helper function to compute the 4-byte fingerprint of a public key: the start of ripemd160(sha256(key))
+function fingerprint(publicKey: Uint8Array): number {
+  const hash = ripemd160(sha256(publicKey));
+  return new DataView(hash.buffer, hash.byteOffset, 4).getUint32(0);
+}
+
+/**
+ * Create the master extended key from a seed
+ * @param seed - 16 to 64 byte seed (e.g. from mnemonicToSeed) as Uint8Array or hex string
+ * @returns Master ExtendedKey
+ */
+export function hdKeyFromSeed(seed: Uint8Array | string): ExtendedKey {
+  const seedBytes = parseBytes(seed, "seed");
+  if (seedBytes.length < 16 || seedBytes.length > 64) {
+    throw new OutOfRangeError("seed", "seed must be 16 to 64 bytes");
+  }
+
+  const I = hmac(sha512, new TextEncoder().encode("Bitcoin seed"), seedBytes);
+  const k = bytesToNumber(I.slice(0, 32));
+  if (k === BigInt(0) || k >= CURVE.n) {
+    throw new Error("Seed produces an invalid master key, use another seed");
+  }
+
+  const privateKey = I.slice(0, 32);
+  return { depth: 0, parentFingerprint: 0, index: 0, chainCode: I.slice(32), publicKey: encodePoint(ProjectivePoint.BASE.mul(k)), privateKey };
+}
+
+/**
+ * Derive a child key (CKDpriv for private keys, CKDpub for public keys)
+ * @param parent - Parent extended key
+ * @param index - Child index; indexes >= HARDENED_OFFSET are hardened and need a private parent
+ * @returns Child ExtendedKey
+ */
+export function deriveChild(parent: ExtendedKey, index: number): ExtendedKey {
+  if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+    throw new Error("Child index must be an integer in [0, 2^32 - 1]");
+  }
+  if (parent.depth >= 255) {
+    throw new Error("Maximum derivation depth reached");
+  }
+
+  const hardened = index >= HARDENED_OFFSET;
+  if (hardened && !parent.privateKey) {
+    throw new Error("Cannot derive a hardened child from a public key");
+  }
+
+  const data = hardened ? concatBytes(new Uint8Array([0]), parent.privateKey as Uint8Array, ser32(index)) : concatBytes(parent.publicKey, ser32(index));
+  const I = hmac(sha512, parent.chainCode, data);
+  const tweak = bytesToNumber(I.slice(0, 32));
+  if (tweak >= CURVE.n) {
+    throw new Error(`Child ${index} is invalid, use the next index`);
+  }
+
+  const child = { depth: parent.depth + 1, parentFingerprint: fingerprint(parent.publicKey), index, chainCode: I.slice(32) };
+
+  if (parent.privateKey) {
+    const k = mod(tweak + bytesToNumber(parent.privateKey), CURVE.n);
+    if (k === BigInt(0)) {
+      throw new Error(`Child ${index} is invalid, use the next index`);
+    }
+    return { ...child, publicKey: encodePoint(ProjectivePoint.BASE.mul(k)), privateKey: numberToBytes(k, 32) };
+  }
+
+  // Ki = IL·G + Kpar
+  const point = ProjectivePoint.BASE.mul(tweak, false).add(decodePoint(parent.publicKey));
+  if (point.equals(ProjectivePoint.ZERO)) {
+    throw new Error(`Child ${index} is invalid, use the next index`);
+  }
+  return { ...child, publicKey: encodePoint(point) };
+}
+
+/**
+ * Parse a derivation path such as m/86'/0'/0'/0/0 (hardened steps may be marked with ', h or H)
+ * @param path - Derivation path
+ * @param field - Name of the input (defaults to "path")
+ * @returns Child indexes, with HARDENED_OFFSET added for hardened steps
+ */
+export function parseDerivationPath(path: string | undefined, field = "path"): number[] {
+  if (path === undefined || path.trim() === "") {
+    throw new MissingInputError(field);
+  }
+
+  const [root, ...steps] = path.trim().split("/");
+  if (root !== "m") {
+    throw new InvalidFormatError(field, `${field} must start with "m"`);
+  }
+
+  return steps.map((step) => {
+    const match = /^(\d+)(['hH]?)$/.exec(step);
+    if (!match) {
+      throw new InvalidFormatError(field, `${field} has an invalid step "${step}" (expected a number, optionally followed by ')`);
+    }
+    const index = Number(match[1]);
+    if (index >= HARDENED_OFFSET) {
+      throw new OutOfRangeError(field, `${field} step ${step} must be below 2^31`);
+    }
+    return match[2] ? index + HARDENED_OFFSET : index;
+  });
+}
+
+/**
+ * Format child indexes as a derivation path
+ * @param indexes - Child indexes
+ * @returns Path such as m/86'/0'/0'/0/0
+ */
+export function formatDerivationPath(indexes: number[]): string {
+  return ["m", ...indexes.map((index) => (index >= HARDENED_OFFSET ? `${index - HARDENED_OFFSET}'` : `${index}`))].join("/");
+}
+
+/**
+ * Derive a descendant key along a path
+ * @param root - Master extended key (or any key, when the path is given as indexes)
+ * @param path - Derivation path string starting at the master key, or child indexes relative to root
+ * @returns Derived ExtendedKey
+ */
+export function derivePath(root: ExtendedKey, path: string | number[]): ExtendedKey {
+  if (typeof path === "string" && root.depth !== 0) {
+    throw new Error("A path starting with m needs the master key");
+  }
+  const indexes = typeof path === "string" ? parseDerivationPath(path) : path;
+  return indexes.reduce(deriveChild, root);
+}
+
+/**
+ * Drop the private key, keeping only what non-hardened public derivation needs
+ * @param key - Extended key
+ * @returns Public ExtendedKey
+ */
+export function toExtendedPublicKey(key: ExtendedKey): ExtendedKey {
+  return { depth: key.depth, parentFingerprint: key.parentFingerprint, index: key.index, chainCode: key.chainCode, publicKey: key.publicKey };
+}
+
+/**
+ * Serialize an extended key
+ * @param key - Extended key
+ * @param network - Bitcoin network (defaults to "mainnet"; testnet, signet and regtest use tprv/tpub)
+ * @returns xprv/xpub (or tprv/tpub) string
+ */
+export function encodeExtendedKey(key: ExtendedKey, network: BitcoinNetwork = "mainnet"): string {
+  const versions = VERSIONS[network === "mainnet" ? "mainnet" : "testnet"];
+  return base58CheckEncode(
+    concatBytes(
+      ser32(key.privateKey ? versions.private : versions.public),
+      new Uint8Array([key.depth]),
+      ser32(key.parentFingerprint),
+      ser32(key.index),
+      key.chainCode,
+      key.privateKey ? concatBytes(new Uint8Array([0]), key.privateKey) : key.publicKey,
+    ),
+  );
+}
+
+/**
+ * Parse a serialized extended key, checking its version, key material and depth-0 invariants
+ * @param encoded - xprv/xpub/tprv/tpub string
+ * @returns ExtendedKey
+ */
+export function decodeExtendedKey(encoded: string): ExtendedKey {
+  const data = base58CheckDecode(encoded.trim());
+  if (data.length !== 78) {
+    throw new Error("Extended key must be 78 bytes");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint32(0);
+  const isPrivate = version === VERSIONS.mainnet.private || version === VERSIONS.testnet.private;
+  if (!isPrivate && version !== VERSIONS.mainnet.public && version !== VERSIONS.testnet.public) {
+    throw new Error(`Unknown extended key version 0x${version.toString(16).padStart(8, "0")}`);
+  }
+
+  const depth = data[4];
+  const parentFingerprint = view.getUint32(5);
+  const index = view.getUint32(9);
+  if (depth === 0 && (parentFingerprint !== 0 || index !== 0)) {
+    throw new Error("Master key must have a zero parent fingerprint and index");
+  }
+
+  const chainCode = data.slice(13, 45);
+  const keyData = data.slice(45);
+
+  if (isPrivate) {
+    if (keyData[0] !== 0) {
+      throw new Error("Private extended key must start its key data with 0x00");
+    }
+    const privateKey = keyData.slice(1);
+    const k = bytesToNumber(privateKey);
+    if (k === BigInt(0) || k >= CURVE.n) {
+      throw new Error("Extended private key is out of range");
+    }
+    return { depth, parentFingerprint, index, chainCode, publicKey: encodePoint(ProjectivePoint.BASE.mul(k)), privateKey };
+  }
+
+  if (keyData[0] !== 0x02 && keyData[0] !== 0x03) {
+    throw new Error("Extended public key must be a compressed point");
+  }
+  try {
+    decodePoint(keyData);
+  } catch {
+    throw new Error("Extended public key is not a valid secp256k1 point");
+  }
+  return { depth, parentFingerprint, index, chainCode, publicKey: keyData };
+}
+
+/**
+ * Derive an EOTS signing key, randomness seed and Taproot address from one path
+ * The randomness seed is taggedHash("EOTS/randomness", child private key), so it is recoverable from the same seed
+ * but never equal to the signing key
+ * @param root - Master extended private key
+ * @param path - Derivation path (defaults to DEFAULT_EOTS_DERIVATION_PATH)
+ * @param scheme - Signature scheme (defaults to "ecdsa"); Schnorr keys are normalized to an even Y public key
+ * @param network - Network for the Taproot address and extended public key (defaults to "mainnet")
+ * @returns DerivedEOTSKeys
+ */
+export function deriveEOTSKeys(root: ExtendedKey, path: string = DEFAULT_EOTS_DERIVATION_PATH, scheme: EOTSScheme = "ecdsa", network: BitcoinNetwork = "mainnet"): DerivedEOTSKeys {
+  const node = derivePath(root, path);
+  if (!node.privateKey) {
+    throw new Error("Deriving signing keys needs an extended private key");
+  }
+
+  let keyPair: EOTSKeyPair = { privateKey: node.privateKey, publicKey: node.publicKey, scheme: "ecdsa" };
+  if (scheme === "schnorr") {
+    const privateKey = node.publicKey[0] === 0x03 ? numberToBytes(CURVE.n - bytesToNumber(node.privateKey), 32) : node.privateKey;
+    keyPair = { privateKey, publicKey: node.publicKey.slice(1), scheme: "schnorr" };
+  }
+
+  return {
+    path: formatDerivationPath(parseDerivationPath(path)),
+    keyPair,
+    randomnessSeed: taggedHash("EOTS/randomness", node.privateKey),
+    taprootAddress: deriveTaprootAddress(node.privateKey, network),
+    extendedPublicKey: encodeExtendedKey(toExtendedPublicKey(node), network),
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { decodePoint, encodePoint, multiplyPoint, multiplyAdd, precomputePoint, batchToAffine } from "./curve";
+import { bytesToHex } from "./utils";
+
+const SCALARS = [BigInt(0), BigInt(1), BigInt(2), BigInt(15), BigInt(16), BigInt(17), CURVE.n >> BigInt(1), CURVE.n - BigInt(2), CURVE.n - BigInt(1), BigInt("0x" + "8".repeat(64)) % CURVE.n];
+
+// Helper function to build a point that is not in any table yet
+function freshPoint(seed: number): ProjectivePoint {
+  return ProjectivePoint.BASE.mul(BigInt(seed) * BigInt("0x1000000000000001"));
+}
+
+describe("point encoding", () => {
+  it("matches the library encodings and decodes every format", () => {
+    const P = freshPoint(1);
+    const compressed = encodePoint(P);
+    const uncompressed = encodePoint(P, false);
+    expect(bytesToHex(compressed)).toBe(bytesToHex(P.toRawBytes(true)));
+    expect(bytesToHex(uncompressed)).toBe(bytesToHex(P.toRawBytes(false)));
+
+    expect(decodePoint(compressed).equals(P)).toBe(true);
+    expect(decodePoint(uncompressed).equals(P)).toBe(true);
+    // x-only decodes to the even-Y point
+    const evenY = P.y % BigInt(2) === BigInt(0) ? P : P.negate();
+    expect(decodePoint(compressed.slice(1)).equals(evenY)).toBe(true);
+  });
+
+  it("caches decoded points unless asked not to", () => {
+    const encoded = encodePoint(freshPoint(2));
+    expect(decodePoint(encoded)).toBe(decodePoint(encoded));
+    expect(decodePoint(encodePoint(freshPoint(3)), false)).not.toBe(decodePoint(encodePoint(freshPoint(3)), false));
+  });
+
+  it("rejects encodings that are not on the curve", () => {
+    const offCurve = new Uint8Array(33);
+    offCurve[0] = 0x02;
+    offCurve[32] = 5;
+    expect(() => decodePoint(offCurve)).toThrow();
+  });
+});
+
+describe("multiplyPoint", () => {
+  it.each(SCALARS)("matches double-and-add for k = %s on the wNAF and table paths", (k) => {
+    const expected = freshPoint(4).mul(k, false);
+    expect(multiplyPoint(freshPoint(4), k).equals(expected)).toBe(true);
+
+    const P = freshPoint(5);
+    precomputePoint(P);
+    expect(multiplyPoint(P, k).equals(P.mul(k, false))).toBe(true);
+  });
+
+  it("switches to a table on the second use of a point", () => {
+    const P = freshPoint(6);
+    for (const k of SCALARS) {
+      expect(multiplyPoint(P, k).equals(P.mul(k, false))).toBe(true);
+    }
+  });
+
+  it("rejects scalars outside [0, n)", () => {
+    expect(() => multiplyPoint(freshPoint(7), CURVE.n)).toThrow("Scalar out of range");
+    expect(() => multiplyPoint(freshPoint(7), BigInt(-1))).toThrow("Scalar out of range");
+  });
+
+  it("computes u1·G + u2·P", () => {
+    const P = freshPoint(8);
+    const [u1, u2] = [CURVE.n - BigInt(3), BigInt(12345)];
+    expect(multiplyAdd(u1, P, u2).equals(ProjectivePoint.BASE.mul(u1).add(P.mul(u2)))).toBe(true);
+    expect(multiplyAdd(BigInt(0), P, BigInt(1)).equals(P)).toBe(true);
+  });
+});
+
+describe("batchToAffine", () => {
+  it("matches toAffine and maps the point at infinity to null", () => {
+    const points = [freshPoint(9), ProjectivePoint.ZERO, freshPoint(10).double(), ProjectivePoint.BASE];
+    expect(batchToAffine(points)).toEqual([points[0].toAffine(), null, points[2].toAffine(), points[3].toAffine()]);
+    expect(batchToAffine([])).toEqual([]);
+  });
+});
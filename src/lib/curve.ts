@@ -0,0 +1,206 @@
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { bytesToHex } from "./utils";
+import { numberToBytesInto, batchInverse } from "./math";
+
+/**
+ * Point arithmetic shared by the ECDSA and Schnorr variants
+ * Multiples of G use the constant-time precomputed table in @noble/secp256k1. Public points (keys, nonces
+ * being verified) are multiplied in variable time: a width-5 wNAF on first use, and a fixed-window table
+ * once the same point is seen again, which is the common case when verifying a known set of signers.
+ * Never pass secret scalars to multiplyPoint.
+ */
+
+const POINT_CACHE_SIZE = 256;
+const WNAF_WIDTH = 5;
+const TABLE_WINDOW = 4;
+const TABLE_WINDOWS = 256 / TABLE_WINDOW + 1;
+const TABLE_HALF = 2 ** (TABLE_WINDOW - 1);
+
+// Decoded points by encoding, oldest first; Map iteration order makes this an LRU
+const pointCache = new Map<string, ProjectivePoint>();
+// Precomputed tables and use counts, keyed by the cached point objects so they are dropped with them
+const pointTables = new WeakMap<ProjectivePoint, ProjectivePoint[]>();
+const pointUses = new WeakMap<ProjectivePoint, number>();
+
+/**
+ * Decode a public key or nonce point, caching the result
+ * @param bytes - 33-byte compressed, 65-byte uncompressed or 32-byte x-only (even Y) encoding
+ * @param cache - Keep the point for later calls (defaults to true; pass false for one-time points such as nonces)
+ * @returns Curve point (throws if the encoding is not on the curve)
+ */
+export function decodePoint(bytes: Uint8Array, cache = true): ProjectivePoint {
+  const key = bytesToHex(bytes);
+  const cached = pointCache.get(key);
+  if (cached) {
+    pointCache.delete(key);
+    pointCache.set(key, cached);
+    return cached;
+  }
+
+  let encoded = bytes;
+  if (bytes.length === 32) {
+    encoded = new Uint8Array(33);
+    encoded[0] = 0x02;
+    encoded.set(bytes, 1);
+  }
+  const point = ProjectivePoint.fromHex(encoded);
+  if (!cache) {
+    return point;
+  }
+
+  pointCache.set(key, point);
+  if (pointCache.size > POINT_CACHE_SIZE) {
+    pointCache.delete(pointCache.keys().next().value as string);
+  }
+  return point;
+}
+
+/**
+ * Encode a point without going through hex
+ * @param point - Curve point (not the point at infinity)
+ * @param compressed - 33-byte compressed (default) or 65-byte uncompressed encoding
+ * @returns Encoded point
+ */
+export function encodePoint(point: ProjectivePoint, compressed = true): Uint8Array {
+  const { x, y } = point.toAffine();
+  const out = new Uint8Array(compressed ? 33 : 65);
+  out[0] = compressed ? (y & BigInt(1) ? 0x03 : 0x02) : 0x04;
+  numberToBytesInto(x, out, 1, 32);
+  if (!compressed) {
+    numberToBytesInto(y, out, 33, 32);
+  }
+  return out;
+}
+
+// Helper function to build the fixed-window table: entry w * TABLE_HALF + j - 1 holds j·2^(4w)·P for j in [1, 8]
+function buildTable(point: ProjectivePoint): ProjectivePoint[] {
+  const table: ProjectivePoint[] = [];
+  let base = point;
+  for (let w = 0; w < TABLE_WINDOWS; w++) {
+    let multiple = base;
+    table.push(multiple);
+    for (let j = 1; j < TABLE_HALF; j++) {
+      multiple = multiple.add(base);
+      table.push(multiple);
+    }
+    base = multiple.double();
+  }
+  return table;
+}
+
+// Helper function to multiply with a fixed-window table using signed digits in [-8, 8]; needs no doublings
+function multiplyWithTable(table: ProjectivePoint[], k: bigint): ProjectivePoint {
+  const mask = BigInt(2 ** TABLE_WINDOW - 1);
+  const shift = BigInt(TABLE_WINDOW);
+  let result = ProjectivePoint.ZERO;
+  for (let w = 0; w < TABLE_WINDOWS && k > BigInt(0); w++) {
+    let digit = Number(k & mask);
+    k >>= shift;
+    if (digit > TABLE_HALF) {
+      digit -= 2 ** TABLE_WINDOW;
+      k += BigInt(1);
+    }
+    if (digit !== 0) {
+      const entry = table[w * TABLE_HALF + Math.abs(digit) - 1];
+      result = result.add(digit < 0 ? entry.negate() : entry);
+    }
+  }
+  return result;
+}
+
+// Helper function to multiply with a width-5 wNAF over the odd multiples P, 3P, ..., 15P
+function multiplyWithWNAF(point: ProjectivePoint, k: bigint): ProjectivePoint {
+  const width = BigInt(2 ** WNAF_WIDTH);
+  const half = 2 ** (WNAF_WIDTH - 1);
+  const digits: number[] = [];
+  while (k > BigInt(0)) {
+    let digit = 0;
+    if (k & BigInt(1)) {
+      digit = Number(k % width);
+      if (digit >= half) digit -= 2 ** WNAF_WIDTH;
+      k -= BigInt(digit);
+    }
+    digits.push(digit);
+    k >>= BigInt(1);
+  }
+
+  const twice = point.double();
+  const odd = [point];
+  for (let i = 1; i < half / 2; i++) {
+    odd.push(odd[i - 1].add(twice));
+  }
+
+  let result = ProjectivePoint.ZERO;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result = result.double();
+    const digit = digits[i];
+    if (digit > 0) result = result.add(odd[(digit - 1) >> 1]);
+    else if (digit < 0) result = result.add(odd[(-digit - 1) >> 1].negate());
+  }
+  return result;
+}
+
+/**
+ * Precompute the fixed-window table for a point so later multiplications need no doublings
+ * multiplyPoint does this automatically on the second multiplication of a point returned by decodePoint
+ * @param point - Public curve point
+ */
+export function precomputePoint(point: ProjectivePoint): void {
+  if (!pointTables.has(point)) {
+    pointTables.set(point, buildTable(point));
+  }
+}
+
+/**
+ * Multiply a public point by a scalar in variable time (not for secret scalars)
+ * @param point - Public curve point
+ * @param k - Scalar in [0, n)
+ * @returns k·point
+ */
+export function multiplyPoint(point: ProjectivePoint, k: bigint): ProjectivePoint {
+  if (k < BigInt(0) || k >= CURVE.n) {
+    throw new Error("Scalar out of range");
+  }
+  const table = pointTables.get(point);
+  if (table) {
+    return multiplyWithTable(table, k);
+  }
+
+  const uses = (pointUses.get(point) ?? 0) + 1;
+  pointUses.set(point, uses);
+  if (uses >= 2) {
+    precomputePoint(point);
+    return multiplyWithTable(pointTables.get(point) as ProjectivePoint[], k);
+  }
+  return multiplyWithWNAF(point, k);
+}
+
+/**
+ * Compute u1·G + u2·P for signature verification (variable time)
+ * @param u1 - Scalar for the generator, in [0, n)
+ * @param point - Public curve point
+ * @param u2 - Scalar for the point, in [0, n)
+ * @returns u1·G + u2·P
+ */
+export function multiplyAdd(u1: bigint, point: ProjectivePoint, u2: bigint): ProjectivePoint {
+  return ProjectivePoint.BASE.mul(u1, false).add(multiplyPoint(point, u2));
+}
+
+/**
+ * Convert many points to affine coordinates with one field inversion
+ * @param points - Projective points
+ * @returns Affine coordinates in the same order, or null for the point at infinity
+ */
+export function batchToAffine(points: ProjectivePoint[]): ({ x: bigint; y: bigint } | null)[] {
+  const finite = points.filter((point) => point.pz !== BigInt(0));
+  const inverses = batchInverse(finite.map((point) => point.pz), CURVE.p);
+
+  let next = 0;
+  return points.map((point) => {
+    if (point.pz === BigInt(0)) {
+      return null;
+    }
+    const zInv = inverses[next++];
+    return { x: (point.px * zInv) % CURVE.p, y: (point.py * zInv) % CURVE.p };
+  });
+}
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { demonstrateNonceReuse, demonstrateProperUsage } from "./demo";
+import { decodeTaprootAddress } from "./taproot";
+import { deriveTaprootAddress } from "./eots";
+
+describe("demos", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("demonstrateNonceReuse recovers the signing key", () => {
+    const result = demonstrateNonceReuse();
+    expect(result.match).toBe(true);
+    expect(result.extractedPrivateKey).toBe(result.originalPrivateKey);
+    expect(result.signatures.sig1.valid).toBe(true);
+    expect(result.signatures.sig2.valid).toBe(true);
+    expect(result.signatures.sig1.r).toBe(result.signatures.sig2.r);
+    expect(result.signatures.sig1.message).not.toBe(result.signatures.sig2.message);
+    expect(result.taprootAddress).toBe(deriveTaprootAddress(result.originalPrivateKey));
+    expect(decodeTaprootAddress(result.taprootAddress, "mainnet").network).toBe("mainnet");
+  });
+
+  it("demonstrateProperUsage signs with distinct nonces and blocks extraction", () => {
+    const result = demonstrateProperUsage();
+    expect(result.signatures).toHaveLength(3);
+    expect(result.signatures.every((signature) => signature.valid)).toBe(true);
+    expect(new Set(result.signatures.map((signature) => signature.r)).size).toBe(3);
+    expect(result.extractionBlocked).toBe(true);
+    expect(result.extractionError).toBe("Signatures do not use the same nonce (r values are different)");
+  });
+});
@@ -9,8 +9,8 @@ export function demonstrateNonceReuse(): {
   match: boolean;
   taprootAddress: string;
   signatures: {
-    sig1: { r: string; s: string; message: string };
-    sig2: { r: string; s: string; message: string };
+    sig1: { r: string; s: string; message: string; valid: boolean };
+    sig2: { r: string; s: string; message: string; valid: boolean };
   };
 } {
   console.log("🔍 EOTS Nonce Reuse Demonstration\n");
@@ -78,11 +78,13 @@ export function demonstrateNonceReuse(): {
         r: bytesToHex(sig1.r),
         s: bytesToHex(sig1.s),
         message: messageHash1,
+        valid: valid1,
       },
       sig2: {
         r: bytesToHex(sig2.r),
         s: bytesToHex(sig2.s),
         message: messageHash2,
+        valid: valid2,
       },
     },
   };
@@ -91,7 +93,12 @@ export function demonstrateNonceReuse(): {
 /**
  * Demo: Show proper EOTS usage with unique nonces
  */
-export function demonstrateProperUsage(): void {
+export function demonstrateProperUsage(): {
+  publicKey: string;
+  signatures: { messageHash: string; r: string; s: string; valid: boolean }[];
+  extractionBlocked: boolean;
+  extractionError?: string;
+} {
   console.log("✅ EOTS Proper Usage Demonstration\n");
 
   // Generate key pair
@@ -120,15 +127,29 @@ export function demonstrateProperUsage(): void {
 
   // Try to extract private key (should fail)
   console.log("3. Attempting to extract private key from different nonces:");
+  let extractionError: string | undefined;
   try {
     extractPrivateKey(signatures[0].signature, signatures[1].signature, signatures[0].messageHash, signatures[1].messageHash);
     console.log("   ❌ UNEXPECTED: Private key extracted (this should not happen!)");
   } catch (error) {
+    extractionError = error instanceof Error ? error.message : String(error);
     console.log("   ✅ SUCCESS: Cannot extract private key with different nonces");
     console.log(`   Error: ${error}\n`);
   }
 
   console.log("💡 This shows proper EOTS usage with unique nonces is secure!\n");
+
+  return {
+    publicKey: bytesToHex(keyPair.publicKey),
+    signatures: signatures.map(({ messageHash, signature, isValid }) => ({
+      messageHash,
+      r: bytesToHex(signature.r),
+      s: bytesToHex(signature.s),
+      valid: isValid,
+    })),
+    extractionBlocked: extractionError !== undefined,
+    extractionError,
+  };
 }
 
 // Make functions available globally for browser console
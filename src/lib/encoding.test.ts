@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { signatureToDER, signatureFromDER, signatureToCompact, signatureFromCompact, signatureToBase64, signatureFromBase64, signatureToJSON, signatureFromJSON, detectSignatureFormat, parseSignature } from "./encoding";
+import { bytesToHex, hexToBytes } from "./utils";
+import { EOTSSignature } from "./types";
+import { InvalidFormatError } from "./errors";
+
+// RFC 6979 signature of sha256("Satoshi Nakamoto") under private key 1
+const R = "934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8";
+const S = "2442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5";
+const DER = "3045022100934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d802202442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5";
+
+const SIGNATURE: EOTSSignature = { r: hexToBytes(R), s: hexToBytes(S), scheme: "ecdsa" };
+
+describe("DER", () => {
+  it("encodes and decodes the reference signature", () => {
+    expect(bytesToHex(signatureToDER(SIGNATURE))).toBe(DER);
+    expect(signatureFromDER(DER)).toEqual(SIGNATURE);
+  });
+
+  it("strips leading zeros from small integers", () => {
+    const small: EOTSSignature = { r: hexToBytes("00".repeat(31) + "01"), s: hexToBytes("00".repeat(31) + "7f"), scheme: "ecdsa" };
+    expect(bytesToHex(signatureToDER(small))).toBe("300602010102017f");
+    expect(signatureFromDER("300602010102017f")).toEqual(small);
+  });
+
+  it.each([
+    ["a truncated sequence", DER.slice(0, -2), "DER sequence length does not match the signature length"],
+    ["trailing bytes inside the sequence", "300702010102010100", "DER signature has trailing bytes"],
+    ["a non-SEQUENCE tag", "3106020101020101", "DER signature is not a SEQUENCE"],
+    ["a negative integer", "3006020181020101", "DER r is negative"],
+    ["a non-minimal integer", "300702020001020101", "DER r has unnecessary leading zero bytes"],
+    ["a non-INTEGER element", "3006030101020101", "DER r is not an INTEGER"],
+    ["a zero integer", "3006020100020101", "DER r is out of range"],
+    ["an oversized integer", "302702220100" + "00".repeat(32) + "020101", "DER r has an invalid length"],
+  ])("rejects %s", (_, der, message) => {
+    expect(() => signatureFromDER(der)).toThrow(message);
+    expect(() => signatureFromDER(der)).toThrow(InvalidFormatError);
+  });
+
+  it("tags decoded signatures with the requested scheme", () => {
+    expect(signatureFromDER(DER, "schnorr")).toEqual({ ...SIGNATURE, scheme: "schnorr" });
+  });
+});
+
+describe("compact, base64 and JSON", () => {
+  it("round-trips compact signatures", () => {
+    expect(bytesToHex(signatureToCompact(SIGNATURE))).toBe(R + S);
+    expect(signatureFromCompact(R + S)).toEqual(SIGNATURE);
+    expect(() => signatureFromCompact(R)).toThrow("Compact signature must be 64 bytes");
+  });
+
+  it("round-trips base64 in both layouts", () => {
+    expect(signatureFromBase64(signatureToBase64(SIGNATURE))).toEqual(SIGNATURE);
+    expect(signatureFromBase64(signatureToBase64(SIGNATURE, "der"))).toEqual(SIGNATURE);
+  });
+
+  it("round-trips JSON and keeps the scheme", () => {
+    const schnorr: EOTSSignature = { ...SIGNATURE, scheme: "schnorr" };
+    expect(signatureToJSON(schnorr)).toEqual({ r: R, s: S, scheme: "schnorr" });
+    expect(signatureFromJSON(JSON.stringify(signatureToJSON(schnorr)))).toEqual(schnorr);
+    expect(signatureFromJSON({ signature: { r: R, s: S } })).toEqual(SIGNATURE);
+    expect(() => signatureFromJSON({ r: R, s: "00" })).toThrow("Signature JSON must have 32-byte hex r and s");
+    expect(() => signatureFromJSON({ r: R, s: S, scheme: "rsa" as "ecdsa" })).toThrow("Unknown scheme: rsa");
+  });
+});
+
+describe("format detection", () => {
+  it.each([
+    [DER, "der"],
+    [R + S, "compact"],
+    [JSON.stringify({ r: R, s: S }), "json"],
+    [signatureToBase64(SIGNATURE), "base64"],
+  ])("detects %s as %s", (input, format) => {
+    expect(detectSignatureFormat(input)).toBe(format);
+    expect(parseSignature(input)).toEqual({ signature: SIGNATURE, format });
+  });
+
+  it("ignores surrounding whitespace, a 0x prefix and hex case", () => {
+    expect(parseSignature(`  0x${DER.toUpperCase()}\n`)).toEqual({ signature: SIGNATURE, format: "der" });
+    expect(parseSignature(`0x${R}${S}`)).toEqual({ signature: SIGNATURE, format: "compact" });
+  });
+
+  it("applies the scheme to formats that do not carry one", () => {
+    expect(parseSignature(R + S, "schnorr").signature.scheme).toBe("schnorr");
+    expect(parseSignature(signatureToBase64(SIGNATURE), "schnorr").signature.scheme).toBe("schnorr");
+    expect(parseSignature(JSON.stringify({ r: R, s: S, scheme: "ecdsa" }), "schnorr").signature.scheme).toBe("ecdsa");
+  });
+});
@@ -0,0 +1,203 @@
+import { EOTSScheme, EOTSSignature, SignatureFormat, SignatureJSON } from "./types";
+import { hexToBytes, bytesToHex, concatBytes, isValidHex, bytesToBase64, base64ToBytes } from "./utils";
+import { bytesToNumber, numberToBytes } from "./math";
+import { InvalidFormatError, OutOfRangeError } from "./errors";
+
+// Helper function to encode a positive integer as a minimal DER INTEGER
+function derInteger(value: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) {
+    start++;
+  }
+  let body: Uint8Array = value.slice(start);
+  if (body[0] & 0x80) {
+    body = concatBytes(new Uint8Array([0x00]), body);
+  }
+  return concatBytes(new Uint8Array([0x02, body.length]), body);
+}
+
+// Helper function to read a DER INTEGER and enforce canonical (minimal, positive) encoding
+function readDerInteger(data: Uint8Array, offset: number, name: string): { value: Uint8Array; next: number } {
+  if (data[offset] !== 0x02) {
+    throw new InvalidFormatError("signature", `DER ${name} is not an INTEGER`);
+  }
+  const length = data[offset + 1];
+  if (length === undefined || length === 0 || length > 33 || offset + 2 + length > data.length) {
+    throw new InvalidFormatError("signature", `DER ${name} has an invalid length`);
+  }
+  const body = data.slice(offset + 2, offset + 2 + length);
+  if (body[0] & 0x80) {
+    throw new InvalidFormatError("signature", `DER ${name} is negative`);
+  }
+  if (length > 1 && body[0] === 0x00 && !(body[1] & 0x80)) {
+    throw new InvalidFormatError("signature", `DER ${name} has unnecessary leading zero bytes`);
+  }
+  const num = bytesToNumber(body);
+  if (num === BigInt(0) || num >= BigInt(1) << BigInt(256)) {
+    throw new InvalidFormatError("signature", `DER ${name} is out of range`);
+  }
+  return { value: numberToBytes(num, 32), next: offset + 2 + length };
+}
+
+/**
+ * Encode a signature as strict DER: SEQUENCE { INTEGER r, INTEGER s }
+ * @param signature - EOTS signature
+ * @returns DER bytes
+ */
+export function signatureToDER(signature: EOTSSignature): Uint8Array {
+  const body = concatBytes(derInteger(signature.r), derInteger(signature.s));
+  return concatBytes(new Uint8Array([0x30, body.length]), body);
+}
+
+/**
+ * Decode a strict DER signature
+ * Rejects long-form lengths, length mismatches, trailing bytes, negative and non-minimal integers
+ * @param der - DER bytes as Uint8Array or hex string
+ * @param scheme - Scheme tag for the result (defaults to "ecdsa")
+ * @returns EOTS signature with 32-byte r and s
+ */
+export function signatureFromDER(der: Uint8Array | string, scheme: EOTSScheme = "ecdsa"): EOTSSignature {
+  const data = typeof der === "string" ? hexToBytes(der) : der;
+  if (data.length < 8 || data.length > 72) {
+    throw new InvalidFormatError("signature", "DER signature has an invalid length");
+  }
+  if (data[0] !== 0x30) {
+    throw new InvalidFormatError("signature", "DER signature is not a SEQUENCE");
+  }
+  if (data[1] !== data.length - 2) {
+    throw new InvalidFormatError("signature", "DER sequence length does not match the signature length");
+  }
+
+  const r = readDerInteger(data, 2, "r");
+  const s = readDerInteger(data, r.next, "s");
+  if (s.next !== data.length) {
+    throw new InvalidFormatError("signature", "DER signature has trailing bytes");
+  }
+
+  return { r: r.value, s: s.value, scheme };
+}
+
+/**
+ * Encode a signature as 64-byte compact r || s
+ * @param signature - EOTS signature
+ * @returns 64 bytes
+ */
+export function signatureToCompact(signature: EOTSSignature): Uint8Array {
+  if (signature.r.length !== 32 || signature.s.length !== 32) {
+    throw new Error("Signature r and s must be 32 bytes each");
+  }
+  return concatBytes(signature.r, signature.s);
+}
+
+/**
+ * Decode a 64-byte compact r || s signature
+ * @param compact - 64 bytes as Uint8Array or hex string
+ * @param scheme - Scheme tag for the result (defaults to "ecdsa")
+ * @returns EOTS signature
+ */
+export function signatureFromCompact(compact: Uint8Array | string, scheme: EOTSScheme = "ecdsa"): EOTSSignature {
+  const data = typeof compact === "string" ? hexToBytes(compact) : compact;
+  if (data.length !== 64) {
+    throw new InvalidFormatError("signature", "Compact signature must be 64 bytes");
+  }
+  return { r: data.slice(0, 32), s: data.slice(32), scheme };
+}
+
+/**
+ * Encode a signature as base64
+ * @param signature - EOTS signature
+ * @param format - Inner encoding, "compact" (default) or "der"
+ * @returns Base64 string
+ */
+export function signatureToBase64(signature: EOTSSignature, format: "compact" | "der" = "compact"): string {
+  return bytesToBase64(format === "der" ? signatureToDER(signature) : signatureToCompact(signature));
+}
+
+/**
+ * Decode a base64 signature; the inner encoding (64-byte compact or DER) is detected
+ * @param base64 - Base64 string
+ * @param scheme - Scheme tag for the result (defaults to "ecdsa")
+ * @returns EOTS signature
+ */
+export function signatureFromBase64(base64: string, scheme: EOTSScheme = "ecdsa"): EOTSSignature {
+  let data: Uint8Array;
+  try {
+    data = base64ToBytes(base64);
+  } catch {
+    throw new InvalidFormatError("signature", "Invalid base64 string");
+  }
+  return data.length === 64 ? signatureFromCompact(data, scheme) : signatureFromDER(data, scheme);
+}
+
+/**
+ * Convert a signature to its JSON form
+ * @param signature - EOTS signature
+ * @returns SignatureJSON with hex r and s
+ */
+export function signatureToJSON(signature: EOTSSignature): SignatureJSON {
+  return { r: bytesToHex(signature.r), s: bytesToHex(signature.s), scheme: signature.scheme ?? "ecdsa" };
+}
+
+/**
+ * Parse a signature from its JSON form
+ * Accepts { r, s, scheme? } or an object with a signature field (VerificationInput shape)
+ * @param json - JSON string or object
+ * @param scheme - Scheme used when the JSON does not name one (defaults to "ecdsa")
+ * @returns EOTS signature
+ */
+export function signatureFromJSON(json: string | SignatureJSON | { signature: SignatureJSON }, scheme: EOTSScheme = "ecdsa"): EOTSSignature {
+  const obj = typeof json === "string" ? JSON.parse(json) : json;
+  const sig = obj && typeof obj === "object" && "signature" in obj ? obj.signature : obj;
+  if (!sig || typeof sig.r !== "string" || typeof sig.s !== "string" || !isValidHex(sig.r, 32) || !isValidHex(sig.s, 32)) {
+    throw new InvalidFormatError("signature", "Signature JSON must have 32-byte hex r and s");
+  }
+  const tag = sig.scheme ?? obj.scheme ?? scheme;
+  if (tag !== "ecdsa" && tag !== "schnorr") {
+    throw new OutOfRangeError("signature.scheme", `Unknown scheme: ${tag}`);
+  }
+  return { r: hexToBytes(sig.r), s: hexToBytes(sig.s), scheme: tag };
+}
+
+/**
+ * Detect the encoding of a pasted signature
+ * JSON starts with "{"; 128 hex characters are compact; other hex starting with "30" is DER; anything else is tried as base64
+ * @param input - Signature text
+ * @returns Detected format
+ */
+export function detectSignatureFormat(input: string): SignatureFormat {
+  const text = input.trim();
+  if (text.startsWith("{")) {
+    return "json";
+  }
+  const hex = text.startsWith("0x") ? text.slice(2) : text;
+  if (isValidHex(hex)) {
+    if (hex.length === 128) {
+      return "compact";
+    }
+    if (hex.toLowerCase().startsWith("30")) {
+      return "der";
+    }
+  }
+  return "base64";
+}
+
+/**
+ * Parse a signature in any supported format
+ * @param input - Signature as DER hex, compact hex, base64 or JSON
+ * @param scheme - Scheme tag for formats that do not carry one (defaults to "ecdsa")
+ * @returns The signature and the detected format
+ */
+export function parseSignature(input: string, scheme: EOTSScheme = "ecdsa"): { signature: EOTSSignature; format: SignatureFormat } {
+  const text = input.trim();
+  const format = detectSignatureFormat(text);
+  switch (format) {
+    case "json":
+      return { signature: signatureFromJSON(text, scheme), format };
+    case "compact":
+      return { signature: signatureFromCompact(text, scheme), format };
+    case "der":
+      return { signature: signatureFromDER(text, scheme), format };
+    case "base64":
+      return { signature: signatureFromBase64(text, scheme), format };
+  }
+}
@@ -0,0 +1,98 @@
+import { bench, describe } from "vitest";
+import { sha256 } from "@noble/hashes/sha256";
+import { generateEOTSKeyPair, signEOTS, verifyEOTS, extractPrivateKey, extractPrivateKeyDetailed, getPublicKey } from "./eots";
+import { EOTSScheme, EOTSSignature } from "./types";
+
+/**
+ * ops/sec for key generation, signing, verification and extraction
+ * Inputs are derived from fixed labels, so every run measures the same work. To compare against a
+ * baseline on the same machine: `npm run bench -- eots --outputJson bench/eots-baseline.json` on the
+ * old tree, then `npm run bench -- eots --compare bench/eots-baseline.json` on the new one (bench/ is not committed)
+ */
+
+const SIGNERS = 64;
+const FRESH_SIGNERS = 1024;
+
+interface Fixture {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+  nonce: Uint8Array;
+  hash1: Uint8Array;
+  hash2: Uint8Array;
+  sig1: EOTSSignature;
+  sig2: EOTSSignature;
+}
+
+// Helper function to derive a fixed 32-byte value from a label
+function fixed(label: string): Uint8Array {
+  return sha256(new TextEncoder().encode(label));
+}
+
+// Helper function to build signers that each signed two messages with one nonce
+function buildFixtures(count: number, scheme: EOTSScheme): Fixture[] {
+  return Array.from({ length: count }, (_, i) => {
+    const privateKey = fixed(`key ${i}`);
+    const nonce = fixed(`nonce ${i}`);
+    const hash1 = fixed(`block ${i} a`);
+    const hash2 = fixed(`block ${i} b`);
+    return { privateKey, publicKey: getPublicKey(privateKey, scheme), nonce, hash1, hash2, sig1: signEOTS(privateKey, hash1, nonce, scheme), sig2: signEOTS(privateKey, hash2, nonce, scheme) };
+  });
+}
+
+// Helper function to cycle through fixtures, one per benchmark call
+function cycle<T>(items: T[]): () => T {
+  let i = 0;
+  return () => items[i++ % items.length];
+}
+
+const fixtures = { ecdsa: buildFixtures(SIGNERS, "ecdsa"), schnorr: buildFixtures(SIGNERS, "schnorr") };
+const fresh = { ecdsa: buildFixtures(FRESH_SIGNERS, "ecdsa"), schnorr: buildFixtures(FRESH_SIGNERS, "schnorr") };
+
+describe("keygen", () => {
+  bench("generateEOTSKeyPair ecdsa", () => {
+    generateEOTSKeyPair("ecdsa");
+  });
+  bench("generateEOTSKeyPair schnorr", () => {
+    generateEOTSKeyPair("schnorr");
+  });
+  const next = cycle(fixtures.ecdsa);
+  bench("getPublicKey", () => {
+    getPublicKey(next().privateKey);
+  });
+});
+
+describe.each(["ecdsa", "schnorr"] as const)("%s", (scheme) => {
+  const next = cycle(fixtures[scheme]);
+  const nextFresh = cycle(fresh[scheme]);
+
+  bench("sign", () => {
+    const f = next();
+    signEOTS(f.privateKey, f.hash1, f.nonce, scheme);
+  });
+
+  bench(`verify (${SIGNERS} repeat signers)`, () => {
+    const f = next();
+    if (!verifyEOTS(f.publicKey, f.hash1, f.sig1)) throw new Error("Signature did not verify");
+  });
+
+  bench(`verify (${FRESH_SIGNERS} distinct signers)`, () => {
+    const f = nextFresh();
+    if (!verifyEOTS(f.publicKey, f.hash1, f.sig1)) throw new Error("Signature did not verify");
+  });
+
+  bench("extract", () => {
+    const f = next();
+    extractPrivateKey(f.sig1, f.sig2, f.hash1, f.hash2, f.publicKey);
+  });
+
+  if (scheme === "ecdsa") {
+    bench("extract without public key", () => {
+      const f = next();
+      extractPrivateKey(f.sig1, f.sig2, f.hash1, f.hash2);
+    });
+    bench("extractPrivateKeyDetailed", () => {
+      const f = next();
+      extractPrivateKeyDetailed(f.sig1, f.sig2, f.hash1, f.hash2, f.publicKey);
+    });
+  }
+});
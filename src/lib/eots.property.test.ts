@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { CURVE } from "@noble/secp256k1";
+import { signEOTS, verifyEOTS, extractPrivateKey, extractPrivateKeyDetailed, getPublicKey } from "./eots";
+import { ParseError } from "./errors";
+import { bytesToHex } from "./utils";
+import { bytesToNumber, numberToBytes, mod } from "./math";
+import { EOTSScheme, EOTSSignature } from "./types";
+
+/**
+ * Property-based tests for the EOTS primitives
+ * Every property runs FC_RUNS times (default 50) from a random seed; a failure is shrunk to a minimal
+ * counterexample and reported with its seed and path, which FC_SEED and FC_PATH replay
+ */
+
+const N = CURVE.n;
+const TWO_256 = BigInt(1) << BigInt(256);
+const HEX_DIGITS = "0123456789abcdef".split("");
+
+// Helper function to assert a property with the shared run count and optional replay seed/path
+function check<Ts extends [unknown, ...unknown[]]>(property: fc.IProperty<Ts>): void {
+  fc.assert(property, {
+    numRuns: Number(process.env.FC_RUNS ?? 50),
+    seed: process.env.FC_SEED === undefined ? undefined : Number(process.env.FC_SEED),
+    path: process.env.FC_PATH,
+  });
+}
+
+// Helper function to assert that a call is rejected as malformed input
+function expectRejected(fn: () => unknown): void {
+  expect(fn).toThrow(ParseError);
+}
+
+// Valid scalars in [1, n-1], biased towards the edges of the range
+const scalar = fc.oneof(fc.constantFrom(BigInt(1), BigInt(2), N - BigInt(2), N - BigInt(1), N >> BigInt(1)), fc.bigInt({ min: BigInt(1), max: N - BigInt(1) })).map((k) => numberToBytes(k, 32));
+
+// 32-byte hashes, including all-zero, all-ones and values at or above n
+const hash32 = fc.oneof(fc.constantFrom(new Uint8Array(32), new Uint8Array(32).fill(0xff), numberToBytes(N, 32), numberToBytes(N + BigInt(1), 32)), fc.uint8Array({ minLength: 32, maxLength: 32 }));
+
+const scheme = fc.constantFrom<EOTSScheme>("ecdsa", "schnorr");
+
+// 32-byte values that are not valid scalars: zero, n and everything above
+const outOfRangeScalar = fc.oneof(fc.constantFrom(BigInt(0), N), fc.bigInt({ min: N, max: TWO_256 - BigInt(1) })).map((k) => numberToBytes(k, 32));
+
+// Byte strings of any length other than 32, with 31, 33 and 64 bytes called out
+const wrongLength = fc.oneof(fc.constantFrom(31, 33, 64).chain((length) => fc.uint8Array({ minLength: length, maxLength: length })), fc.uint8Array({ maxLength: 80 })).filter((bytes) => bytes.length !== 32);
+
+// Strings that are not strict hex: odd length, or a stray character in an otherwise valid 32-byte hex string
+const badHex = fc.oneof(
+  fc.string({ unit: fc.constantFrom(...HEX_DIGITS), minLength: 1, maxLength: 65 }).filter((hex) => hex.length % 2 === 1),
+  fc.tuple(fc.string({ unit: fc.constantFrom(...HEX_DIGITS), minLength: 64, maxLength: 64 }), fc.nat(63), fc.constantFrom("g", "x", "-", " ", "é")).map(([hex, i, c]) => hex.slice(0, i) + c + hex.slice(i + 1)),
+);
+
+const malformedHash = fc.oneof(wrongLength, badHex);
+const malformedScalar = fc.oneof(outOfRangeScalar, wrongLength, badHex);
+
+// Helper function to check that two 32-byte hashes sign different values (hashes are reduced mod n)
+function distinctModN(h1: Uint8Array, h2: Uint8Array): boolean {
+  return mod(bytesToNumber(h1), N) !== mod(bytesToNumber(h2), N);
+}
+
+// Helper function to check that two nonces give different R (k and n - k share an x coordinate)
+function distinctNonces(k1: Uint8Array, k2: Uint8Array): boolean {
+  const a = bytesToNumber(k1);
+  const b = bytesToNumber(k2);
+  return a !== b && a !== N - b;
+}
+
+describe("EOTS properties", () => {
+  it("sign then verify always holds", () => {
+    check(
+      fc.property(scalar, hash32, fc.option(scalar, { nil: undefined }), scheme, (key, hash, nonce, s) => {
+        const signature = signEOTS(key, hash, nonce, s);
+        expect(verifyEOTS(getPublicKey(key, s), hash, signature)).toBe(true);
+      }),
+    );
+  });
+
+  it("a signature never verifies for another message", () => {
+    check(
+      fc.property(scalar, hash32, hash32, scheme, (key, hash, other, s) => {
+        fc.pre(s === "schnorr" ? bytesToHex(hash) !== bytesToHex(other) : distinctModN(hash, other));
+        expect(verifyEOTS(getPublicKey(key, s), other, signEOTS(key, hash, undefined, s))).toBe(false);
+      }),
+    );
+  });
+
+  it("extraction with a shared nonce always recovers the key", () => {
+    check(
+      fc.property(scalar, scalar, hash32, hash32, scheme, (key, nonce, h1, h2, s) => {
+        fc.pre(s === "schnorr" ? bytesToHex(h1) !== bytesToHex(h2) : distinctModN(h1, h2));
+        const publicKey = getPublicKey(key, s);
+        const sig1 = signEOTS(key, h1, nonce, s);
+        const sig2 = signEOTS(key, h2, nonce, s);
+
+        const extracted = extractPrivateKey(sig1, sig2, h1, h2, publicKey);
+        // Schnorr recovers the even-Y representative, which may be n - key
+        expect(bytesToHex(getPublicKey(extracted, s))).toBe(bytesToHex(publicKey));
+        if (s === "ecdsa") {
+          expect(bytesToHex(extracted)).toBe(bytesToHex(key));
+          expect(bytesToHex(extractPrivateKey(sig1, sig2, h1, h2))).toBe(bytesToHex(key));
+        }
+      }),
+    );
+  });
+
+  it("extraction survives low-S normalization of either signature", () => {
+    check(
+      fc.property(scalar, scalar, hash32, hash32, fc.boolean(), fc.boolean(), (key, nonce, h1, h2, flip1, flip2) => {
+        fc.pre(distinctModN(h1, h2));
+        const negate = (sig: EOTSSignature, flip: boolean): EOTSSignature => (flip ? { ...sig, s: numberToBytes(N - bytesToNumber(sig.s), 32) } : sig);
+        const sig1 = negate(signEOTS(key, h1, nonce), flip1);
+        const sig2 = negate(signEOTS(key, h2, nonce), flip2);
+        expect(bytesToHex(extractPrivateKeyDetailed(sig1, sig2, h1, h2, getPublicKey(key)).privateKey)).toBe(bytesToHex(key));
+      }),
+    );
+  });
+
+  it("extraction without a shared nonce always throws", () => {
+    check(
+      fc.property(scalar, scalar, scalar, hash32, hash32, scheme, (key, k1, k2, h1, h2, s) => {
+        fc.pre(distinctNonces(k1, k2));
+        const sig1 = signEOTS(key, h1, k1, s);
+        const sig2 = signEOTS(key, h2, k2, s);
+        expect(() => extractPrivateKey(sig1, sig2, h1, h2, getPublicKey(key, s))).toThrow();
+        if (s === "ecdsa") {
+          expect(() => extractPrivateKey(sig1, sig2, h1, h2)).toThrow();
+        }
+      }),
+    );
+  });
+
+  it("extraction never returns a key that does not match the public key", () => {
+    check(
+      fc.property(scalar, scalar, scalar, scalar, hash32, hash32, scheme, (key, r, s1, s2, h1, h2, s) => {
+        const publicKey = getPublicKey(key, s);
+        let extracted: Uint8Array | undefined;
+        try {
+          extracted = extractPrivateKey({ r, s: s1, scheme: s }, { r, s: s2, scheme: s }, h1, h2, publicKey);
+        } catch {
+          return;
+        }
+        expect(bytesToHex(getPublicKey(extracted, s))).toBe(bytesToHex(publicKey));
+      }),
+    );
+  });
+});
+
+describe("EOTS on malformed input", () => {
+  it("signing rejects malformed keys, hashes and nonces", () => {
+    check(
+      fc.property(scalar, hash32, malformedScalar, malformedHash, scheme, (key, hash, badScalar, badHash, s) => {
+        expectRejected(() => signEOTS(badScalar, hash, undefined, s));
+        expectRejected(() => signEOTS(key, badHash, undefined, s));
+        expectRejected(() => signEOTS(key, hash, badScalar, s));
+      }),
+    );
+  });
+
+  it("verification never accepts malformed or out-of-range input", () => {
+    const badComponent = fc.oneof(outOfRangeScalar, fc.constantFrom(new Uint8Array(32).fill(0xff)));
+    check(
+      fc.property(scalar, hash32, malformedHash, wrongLength, badComponent, fc.uint8Array({ minLength: 33, maxLength: 33 }), scheme, (key, hash, badHash, badLength, badValue, randomKey, s) => {
+        const publicKey = getPublicKey(key, s);
+        const signature = signEOTS(key, hash, undefined, s);
+
+        expectRejected(() => verifyEOTS(publicKey, badHash, signature));
+        expectRejected(() => verifyEOTS(publicKey, hash, { ...signature, r: badLength }));
+        expectRejected(() => verifyEOTS(publicKey, hash, { ...signature, s: badLength }));
+
+        // Well-formed but out-of-range components and arbitrary key bytes are a failed verification, never a pass
+        expect(verifyEOTS(publicKey, hash, { ...signature, r: badValue })).toBe(false);
+        expect(verifyEOTS(publicKey, hash, { ...signature, s: badValue })).toBe(false);
+        let accepted: boolean | undefined;
+        try {
+          accepted = verifyEOTS(s === "schnorr" ? randomKey.slice(1) : randomKey, hash, signature);
+        } catch (error) {
+          expect(error).toBeInstanceOf(ParseError);
+        }
+        expect(accepted).not.toBe(true);
+      }),
+    );
+  });
+
+  it("extraction rejects malformed hashes and signatures", () => {
+    check(
+      fc.property(scalar, scalar, hash32, hash32, malformedHash, wrongLength, scheme, (key, nonce, h1, h2, badHash, badLength, s) => {
+        const publicKey = getPublicKey(key, s);
+        const sig1 = signEOTS(key, h1, nonce, s);
+        const sig2 = signEOTS(key, h2, nonce, s);
+
+        expectRejected(() => extractPrivateKey(sig1, sig2, badHash, h2, publicKey));
+        expectRejected(() => extractPrivateKey(sig1, sig2, h1, badHash, publicKey));
+        expectRejected(() => extractPrivateKey({ ...sig1, r: badLength }, sig2, h1, h2, publicKey));
+        expectRejected(() => extractPrivateKey(sig1, { ...sig2, s: badLength }, h1, h2, publicKey));
+      }),
+    );
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import { CURVE } from "@noble/secp256k1";
+import { sha256 } from "@noble/hashes/sha256";
+import { signEOTS, verifyEOTS, verifyEOTSDetailed, extractPrivateKey, extractPrivateKeyDetailed, deriveTaprootAddress, getPublicKey, generateEOTSKeyPair, signatureToFullHex } from "./eots";
+import { ParseError } from "./errors";
+import { bytesToHex, hexToBytes } from "./utils";
+import { numberToBytes } from "./math";
+import { EOTSSignature } from "./types";
+
+const ONE = "0000000000000000000000000000000000000000000000000000000000000001";
+
+// Fixed extraction vector: one key, one nonce, two finality votes for the same height
+const KEY = "e91671c46231f833a6406ccbea0e3e392c76c167bac1cb013f6f1013980455c2";
+const NONCE = "1f4b84c23a86a221d233f2521be018d9318639d5b8bbd6374a8a59232d16ad3d";
+const HASH_A = "715fed1a834b02a62cb3cbfd9308a7c963c823905a2a80949f8036d5989b8581"; // sha256("finality vote: height 100, block A")
+const HASH_B = "9cfd1e7b0524d293af4243694088f6de1d76f3e727771c473ca3b10c21b7d83b"; // sha256("finality vote: height 100, block B")
+const R = "b552edd27580141f3b2a5463048cb7cd3e047b97c9f98076c32dbdf85a68718b";
+
+// KEY has an odd-Y public key, so Schnorr extraction yields its even-Y twin n - KEY
+const VECTORS = {
+  ecdsa: { sA: "4e8c86f2a0dfe6ef646afcca2aba5a5816a86c5b399e8ec364bd316d8ce36e56", sB: "6e82f18b005d8ff3e49feb1f4ac1af8b80f26fbf74a06f0e81884553c97c4ab1", extracted: KEY },
+  schnorr: { sA: "5a491d40c4c9035c8dd6ab88a24d2f037756c12d3dce925701e64a5912fb6d05", sB: "3071c2b79f99aec7e13799054d9361d1f59dcc50f6dc960c8baad487cda08f54", extracted: "16e98e3b9dce07cc59bf933415f1c1c58e381b7ef486d53a80634e793831eb7f" },
+};
+
+// Helper function to hash a UTF-8 string
+function hashText(text: string): Uint8Array {
+  return sha256(new TextEncoder().encode(text));
+}
+
+// Helper function to build a signature from hex parts
+function sig(r: string, s: string, scheme: EOTSSignature["scheme"] = "ecdsa"): EOTSSignature {
+  return { r: hexToBytes(r), s: hexToBytes(s), scheme };
+}
+
+// Helper function to assert that a call throws a ParseError with the given code and field
+function expectParseError(fn: () => unknown, code: string, field: string): void {
+  let caught: unknown;
+  try {
+    fn();
+  } catch (error) {
+    caught = error;
+  }
+  expect(caught).toBeInstanceOf(ParseError);
+  expect(caught).toMatchObject({ code, field });
+}
+
+describe("signEOTS", () => {
+  it("derives the RFC 6979 nonce when none is given", () => {
+    const signature = signEOTS(ONE, hashText("Satoshi Nakamoto"));
+    // r matches the published RFC 6979 vector; EOTS does not low-S normalize, so s is n minus the published 2442ce9d...
+    expect(bytesToHex(signature.r)).toBe("934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8");
+    expect(bytesToHex(signature.s)).toBe("dbbd3162d46e9f9bef7feb87c16dc13b4f6568a87f4e83f728e2443ba586675c");
+    expect(signature.scheme).toBe("ecdsa");
+  });
+
+  it.each(["ecdsa", "schnorr"] as const)("produces the known %s signatures for a fixed nonce", (scheme) => {
+    const a = signEOTS(KEY, HASH_A, NONCE, scheme);
+    const b = signEOTS(KEY, HASH_B, NONCE, scheme);
+    expect(signatureToFullHex(a)).toBe(R + VECTORS[scheme].sA);
+    expect(signatureToFullHex(b)).toBe(R + VECTORS[scheme].sB);
+    expect(a.scheme).toBe(scheme);
+  });
+
+  it("accepts byte and hex inputs interchangeably", () => {
+    const fromHex = signEOTS(KEY, HASH_A, NONCE);
+    const fromBytes = signEOTS(hexToBytes(KEY), hexToBytes(HASH_A), hexToBytes(NONCE));
+    expect(signatureToFullHex(fromBytes)).toBe(signatureToFullHex(fromHex));
+  });
+
+  it("throws when s would be zero", () => {
+    // With x = k = 1, r = Gx and s = h + r, so h = n - r forces s = 0
+    const hash = numberToBytes(CURVE.n - CURVE.Gx, 32);
+    expect(() => signEOTS(ONE, hash, ONE)).toThrow("Invalid signature: s is zero");
+  });
+
+  it("rejects malformed inputs with field-level parse errors", () => {
+    expectParseError(() => signEOTS("", HASH_A), "missing", "privateKey");
+    expectParseError(() => signEOTS("zz", HASH_A), "invalid_hex", "privateKey");
+    expectParseError(() => signEOTS("00".repeat(32), HASH_A), "out_of_range", "privateKey");
+    expectParseError(() => signEOTS(KEY, "01"), "invalid_length", "messageHash");
+    expectParseError(() => signEOTS(KEY, HASH_A, "00".repeat(32)), "out_of_range", "nonce");
+    expectParseError(() => signEOTS(KEY, HASH_A, bytesToHex(numberToBytes(CURVE.n, 32))), "out_of_range", "nonce");
+  });
+});
+
+describe("verifyEOTS", () => {
+  const satoshiKey = getPublicKey(ONE);
+  const satoshiHash = hashText("Satoshi Nakamoto");
+
+  it("accepts the published low-S RFC 6979 signature and its high-S twin", () => {
+    const low = sig("934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8", "2442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5");
+    const high = sig("934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8", "dbbd3162d46e9f9bef7feb87c16dc13b4f6568a87f4e83f728e2443ba586675c");
+    expect(verifyEOTS(satoshiKey, satoshiHash, low)).toBe(true);
+    expect(verifyEOTS(satoshiKey, satoshiHash, high)).toBe(true);
+  });
+
+  it.each(["ecdsa", "schnorr"] as const)("verifies the fixed %s vectors", (scheme) => {
+    const publicKey = getPublicKey(KEY, scheme);
+    expect(verifyEOTS(publicKey, HASH_A, sig(R, VECTORS[scheme].sA, scheme))).toBe(true);
+    expect(verifyEOTS(publicKey, HASH_B, sig(R, VECTORS[scheme].sB, scheme))).toBe(true);
+    expect(verifyEOTS(publicKey, HASH_B, sig(R, VECTORS[scheme].sA, scheme))).toBe(false);
+  });
+
+  it("accepts uncompressed ECDSA public keys", () => {
+    const uncompressed = "04" + "79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798" + "483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8";
+    expect(verifyEOTS(uncompressed, HASH_A, signEOTS(ONE, HASH_A))).toBe(true);
+  });
+
+  it("reports why a signature fails", () => {
+    const good = signEOTS(KEY, HASH_A, NONCE);
+    const publicKey = getPublicKey(KEY);
+    expect(verifyEOTSDetailed(publicKey, HASH_B, good)).toMatchObject({ valid: false, reason: "mismatch" });
+    expect(verifyEOTSDetailed(publicKey, HASH_A, { ...good, r: new Uint8Array(32) })).toMatchObject({ valid: false, reason: "r_out_of_range" });
+    expect(verifyEOTSDetailed(publicKey, HASH_A, { ...good, s: numberToBytes(CURVE.n, 32) })).toMatchObject({ valid: false, reason: "s_out_of_range" });
+    expect(verifyEOTSDetailed("02" + "ff".repeat(32), HASH_A, good)).toMatchObject({ valid: false, reason: "invalid_public_key" });
+    expect(verifyEOTSDetailed(publicKey, HASH_A, good)).toEqual({ valid: true });
+  });
+
+  it("reports u1·G + u2·P cancelling to the point at infinity", () => {
+    // With P = G, u1 + u2 = (h + r)·s^-1 vanishes when h = n - r
+    const hash = numberToBytes(CURVE.n - BigInt(1), 32);
+    expect(verifyEOTSDetailed(getPublicKey(ONE), hash, sig(ONE, ONE))).toEqual({ valid: false, reason: "point_at_infinity", message: "u1·G + u2·P is the point at infinity" });
+  });
+
+  it("rejects arbitrary in-range signatures instead of falling back to valid", () => {
+    const publicKey = getPublicKey(KEY);
+    for (const [r, s] of [
+      [ONE, ONE],
+      [R, R],
+      [VECTORS.ecdsa.sA, VECTORS.ecdsa.sB],
+    ]) {
+      expect(verifyEOTSDetailed(publicKey, HASH_A, sig(r, s))).toMatchObject({ valid: false, reason: "mismatch" });
+    }
+  });
+
+  it("throws on malformed inputs instead of returning false", () => {
+    const good = signEOTS(KEY, HASH_A, NONCE);
+    const publicKey = getPublicKey(KEY);
+    expectParseError(() => verifyEOTS(publicKey, "abcd", good), "invalid_length", "messageHash");
+    expectParseError(() => verifyEOTS(publicKey, HASH_A, { ...good, r: good.r.slice(1) }), "invalid_length", "signature.r");
+    expectParseError(() => verifyEOTS(publicKey, HASH_A, { r: bytesToHex(good.r), s: "xyz" } as unknown as EOTSSignature), "invalid_hex", "signature.s");
+    expectParseError(() => verifyEOTS(publicKey, HASH_A, { ...good, scheme: "rsa" } as unknown as EOTSSignature), "out_of_range", "signature.scheme");
+    expectParseError(() => verifyEOTS(publicKey.slice(1), HASH_A, good), "invalid_length", "publicKey");
+    expectParseError(() => verifyEOTS("", HASH_A, good), "missing", "publicKey");
+  });
+});
+
+describe("extractPrivateKey", () => {
+  it.each(["ecdsa", "schnorr"] as const)("recovers the key from the fixed %s vectors", (scheme) => {
+    const a = sig(R, VECTORS[scheme].sA, scheme);
+    const b = sig(R, VECTORS[scheme].sB, scheme);
+    const publicKey = getPublicKey(KEY, scheme);
+    const extracted = VECTORS[scheme].extracted;
+    expect(bytesToHex(extractPrivateKey(a, b, HASH_A, HASH_B, publicKey))).toBe(extracted);
+    expect(extractPrivateKeyDetailed(a, b, HASH_A, HASH_B, publicKey)).toEqual({ privateKey: hexToBytes(extracted), combination: "s1,s2" });
+    expect(bytesToHex(getPublicKey(extracted, scheme))).toBe(bytesToHex(publicKey));
+  });
+
+  it("recovers an ECDSA key without the public key", () => {
+    expect(bytesToHex(extractPrivateKey(sig(R, VECTORS.ecdsa.sA), sig(R, VECTORS.ecdsa.sB), HASH_A, HASH_B))).toBe(KEY);
+  });
+
+  it("finds the sign combination when a signature was low-S normalized", () => {
+    const negated = bytesToHex(numberToBytes(CURVE.n - BigInt("0x" + VECTORS.ecdsa.sB), 32));
+    const result = extractPrivateKeyDetailed(sig(R, VECTORS.ecdsa.sA), sig(R, negated), HASH_A, HASH_B, getPublicKey(KEY));
+    expect(result).toEqual({ privateKey: hexToBytes(KEY), combination: "s1,-s2" });
+
+    // Normalizing both signatures negates the nonce, which leaves the key unchanged
+    const negatedA = bytesToHex(numberToBytes(CURVE.n - BigInt("0x" + VECTORS.ecdsa.sA), 32));
+    expect(extractPrivateKeyDetailed(sig(R, negatedA), sig(R, negated), HASH_A, HASH_B, getPublicKey(KEY))).toEqual({ privateKey: hexToBytes(KEY), combination: "s1,s2" });
+    expect(extractPrivateKeyDetailed(sig(R, negatedA), sig(R, VECTORS.ecdsa.sB), HASH_A, HASH_B, getPublicKey(KEY))).toEqual({ privateKey: hexToBytes(KEY), combination: "s1,-s2" });
+  });
+
+  it("needs the public key to undo low-S normalization", () => {
+    const negated = bytesToHex(numberToBytes(CURVE.n - BigInt("0x" + VECTORS.ecdsa.sB), 32));
+    expect(bytesToHex(extractPrivateKey(sig(R, VECTORS.ecdsa.sA), sig(R, negated), HASH_A, HASH_B, getPublicKey(KEY)))).toBe(KEY);
+    // Without it, the plain formula silently returns some other scalar
+    expect(bytesToHex(extractPrivateKey(sig(R, VECTORS.ecdsa.sA), sig(R, negated), HASH_A, HASH_B))).not.toBe(KEY);
+  });
+
+  it("rejects signatures with different nonces", () => {
+    const other = signEOTS(KEY, HASH_B, ONE);
+    expect(() => extractPrivateKey(sig(R, VECTORS.ecdsa.sA), other, HASH_A, HASH_B)).toThrow("Signatures do not use the same nonce (r values are different)");
+  });
+
+  it("rejects identical signatures", () => {
+    const a = sig(R, VECTORS.ecdsa.sA);
+    expect(() => extractPrivateKey(a, a, HASH_A, HASH_A)).toThrow("Signatures are identical");
+  });
+
+  it("rejects s values that are equal modulo n", () => {
+    const s2 = bytesToHex(numberToBytes(BigInt(1) + CURVE.n, 32));
+    expect(() => extractPrivateKey(sig(R, ONE), sig(R, s2), HASH_A, HASH_B)).toThrow("Cannot extract private key: s1 equals s2");
+  });
+
+  it("requires a public key for Schnorr signatures", () => {
+    const a = sig(R, VECTORS.schnorr.sA, "schnorr");
+    const b = sig(R, VECTORS.schnorr.sB, "schnorr");
+    expect(() => extractPrivateKey(a, b, HASH_A, HASH_B)).toThrow("Public key is required to extract a Schnorr private key");
+  });
+
+  it("rejects mixed schemes", () => {
+    const a = sig(R, VECTORS.ecdsa.sA, "ecdsa");
+    const b = sig(R, VECTORS.schnorr.sB, "schnorr");
+    expect(() => extractPrivateKeyDetailed(a, b, HASH_A, HASH_B, getPublicKey(KEY, "schnorr"))).toThrow("Signatures use different schemes");
+  });
+
+  it("rejects a public key that no combination reproduces", () => {
+    expect(() => extractPrivateKeyDetailed(sig(R, VECTORS.ecdsa.sA), sig(R, VECTORS.ecdsa.sB), HASH_A, HASH_B, getPublicKey(ONE))).toThrow("Neither s1,s2 nor s1,-s2 reproduces the public key");
+  });
+
+  it("rejects malformed inputs with field-level parse errors", () => {
+    const a = sig(R, VECTORS.ecdsa.sA);
+    const b = sig(R, VECTORS.ecdsa.sB);
+    expectParseError(() => extractPrivateKey(a, b, "01", HASH_B), "invalid_length", "hash1");
+    expectParseError(() => extractPrivateKey(a, b, HASH_A, ""), "missing", "hash2");
+    expectParseError(() => extractPrivateKey({ ...a, s: a.s.slice(2) }, b, HASH_A, HASH_B), "invalid_length", "sig1.s");
+    expectParseError(() => extractPrivateKey(a, { ...b, r: b.r.slice(2) }, HASH_A, HASH_B), "invalid_length", "sig2.r");
+    expectParseError(() => extractPrivateKeyDetailed(a, b, HASH_A, HASH_B, "02" + "ff".repeat(32)), "invalid_point", "publicKey");
+  });
+});
+
+describe("keys and addresses", () => {
+  it("derives compressed and x-only public keys", () => {
+    expect(bytesToHex(getPublicKey(ONE))).toBe("0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798");
+    expect(bytesToHex(getPublicKey(ONE, "schnorr"))).toBe("79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798");
+  });
+
+  it.each(["ecdsa", "schnorr"] as const)("generates %s key pairs that sign and verify", (scheme) => {
+    const keyPair = generateEOTSKeyPair(scheme);
+    expect(keyPair.scheme).toBe(scheme);
+    expect(bytesToHex(keyPair.publicKey)).toBe(bytesToHex(getPublicKey(keyPair.privateKey, scheme)));
+    expect(verifyEOTS(keyPair.publicKey, HASH_A, signEOTS(keyPair.privateKey, HASH_A, undefined, scheme))).toBe(true);
+  });
+
+  it("derives the BIP-86 address for the first receive key of the test mnemonic", () => {
+    expect(deriveTaprootAddress("41f41d69260df4cf277826a9b65a3717e4eeddbeedf637f212ca096576479361")).toBe("bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr");
+  });
+
+  it("rejects invalid private keys", () => {
+    expectParseError(() => deriveTaprootAddress(bytesToHex(numberToBytes(CURVE.n, 32))), "out_of_range", "privateKey");
+    expectParseError(() => getPublicKey("01"), "invalid_length", "privateKey");
+  });
+});
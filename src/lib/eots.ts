@@ -1,53 +1,26 @@
-import { getPublicKey as getPublicKeySecp, verify, CURVE } from "@noble/secp256k1";
-import { sha256 } from "@noble/hashes/sha256";
-import { EOTSKeyPair, EOTSSignature } from "./types";
-import { hexToBytes, bytesToHex } from "./utils";
-
-// Helper function to convert bytes to BigInt
-function bytesToNumber(bytes: Uint8Array): bigint {
-  let result = BigInt(0);
-  for (const byte of bytes) {
-    result = (result << BigInt(8)) + BigInt(byte);
-  }
-  return result;
-}
-
-// Helper function to convert BigInt to bytes
-function numberToBytes(num: bigint, length: number): Uint8Array {
-  const hex = num.toString(16).padStart(length * 2, "0");
-  return hexToBytes(hex);
-}
-
-// Helper function to mod operation
-function mod(a: bigint, b: bigint): bigint {
-  const result = a % b;
-  return result >= BigInt(0) ? result : result + b;
-}
-
-// Helper function to modular inverse using extended Euclidean algorithm
-function modInverse(a: bigint, m: bigint): bigint {
-  if (a < BigInt(0)) a = mod(a, m);
-
-  let [old_r, r] = [a, m];
-  let [old_s, s] = [BigInt(1), BigInt(0)];
-
-  while (r !== BigInt(0)) {
-    const quotient = old_r / r;
-    [old_r, r] = [r, old_r - quotient * r];
-    [old_s, s] = [s, old_s - quotient * s];
-  }
-
-  if (old_r > BigInt(1)) throw new Error("Modular inverse does not exist");
-  if (old_s < BigInt(0)) old_s += m;
-
-  return old_s;
-}
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { EOTSKeyPair, EOTSMessage, EOTSSignature, EOTSScheme, VerificationResult, VerificationFailureReason, BitcoinNetwork, CommittedNonce, ExtractionResult, SignCombination } from "./types";
+import { bytesToHex } from "./utils";
+import { taprootAddressFromPublicKey } from "./taproot";
+import { getCommittedNonce } from "./randomness";
+import { deriveNonce } from "./nonce";
+import { parsePrivateKey, parseScalar, parsePublicKey, parseEOTSSignature } from "./parse";
+import { messageHashOf } from "./message";
+import { InvalidPointError } from "./errors";
+import { bytesToNumber, numberToBytes, mod, modInverse, batchInverse } from "./math";
+import { decodePoint, encodePoint, multiplyAdd } from "./curve";
+import { generateSchnorrEOTSKeyPair, getSchnorrPublicKey, signSchnorrEOTS, verifySchnorrEOTSDetailed, extractSchnorrPrivateKey } from "./schnorr";
 
 /**
  * Generate EOTS key pair
+ * @param scheme - Signature scheme (defaults to "ecdsa")
  * @returns EOTSKeyPair with private and public keys
  */
-export function generateEOTSKeyPair(): EOTSKeyPair {
+export function generateEOTSKeyPair(scheme: EOTSScheme = "ecdsa"): EOTSKeyPair {
+  if (scheme === "schnorr") {
+    return generateSchnorrEOTSKeyPair();
+  }
+
   // Generate random private key
   const privateKey = new Uint8Array(32);
   crypto.getRandomValues(privateKey);
@@ -57,47 +30,47 @@ export function generateEOTSKeyPair(): EOTSKeyPair {
     crypto.getRandomValues(privateKey);
   }
 
-  const publicKey = getPublicKeySecp(privateKey, true); // compressed
+  const publicKey = encodePoint(ProjectivePoint.BASE.mul(bytesToNumber(privateKey)), true); // compressed
 
   return {
     privateKey,
     publicKey,
+    scheme: "ecdsa",
   };
 }
 
 /**
  * Sign a message hash using EOTS
  * @param privateKey - Private key as Uint8Array or hex string
- * @param messageHash - Message hash as Uint8Array or hex string
- * @param nonce - Nonce as Uint8Array or hex string (optional, will be generated if not provided)
+ * @param messageHash - Message hash as Uint8Array or hex string, or a FinalityVote (hashed with its domain tag)
+ * @param nonce - Nonce as Uint8Array or hex string, or a CommittedNonce to sign for a height with pre-committed randomness (optional, derived with RFC 6979 if not provided)
+ * @param scheme - Signature scheme (defaults to "ecdsa")
+ * @param auxRand - 32 bytes of auxiliary randomness mixed into the derived nonce (optional, ignored when a nonce is given)
  * @returns EOTS signature
  */
-export function signEOTS(privateKey: Uint8Array | string, messageHash: Uint8Array | string, nonce?: Uint8Array | string): EOTSSignature {
-  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
-  const msgHash = typeof messageHash === "string" ? hexToBytes(messageHash) : messageHash;
+export function signEOTS(privateKey: Uint8Array | string, messageHash: EOTSMessage, nonce?: Uint8Array | string | CommittedNonce, scheme: EOTSScheme = "ecdsa", auxRand?: Uint8Array | string): EOTSSignature {
+  const privKey = parsePrivateKey(privateKey);
+  const msgHash = messageHashOf(messageHash);
 
   // Generate nonce if not provided
   let k: Uint8Array;
-  if (nonce) {
-    k = typeof nonce === "string" ? hexToBytes(nonce) : nonce;
+  if (nonce && typeof nonce === "object" && !(nonce instanceof Uint8Array)) {
+    k = getCommittedNonce(nonce);
+  } else if (nonce) {
+    k = parseScalar(nonce, "nonce");
   } else {
-    // Generate deterministic nonce from private key + message hash
-    const nonceInput = new Uint8Array(privKey.length + msgHash.length);
-    nonceInput.set(privKey);
-    nonceInput.set(msgHash, privKey.length);
-    k = sha256(nonceInput);
+    // Deterministic RFC 6979 nonce, domain-separated per scheme
+    k = deriveNonce(privKey, msgHash, scheme, auxRand);
   }
-
-  // Ensure nonce is valid
   const kNum = bytesToNumber(k);
-  if (kNum >= CURVE.n || kNum === BigInt(0)) {
-    throw new Error("Invalid nonce generated");
+
+  if (scheme === "schnorr") {
+    return signSchnorrEOTS(privKey, msgHash, k);
   }
 
-  // Calculate r = (k * G).x mod n
-  const kPoint = getPublicKeySecp(k, false);
-  const r = kPoint.slice(1, 33); // x-coordinate
-  const rNum = bytesToNumber(r);
+  // Calculate r = (k * G).x
+  const rNum = ProjectivePoint.BASE.mul(kNum).toAffine().x;
+  const r = numberToBytes(rNum, 32);
 
   // Calculate s = k^-1 * (hash + r * privateKey) mod n
   const hashNum = bytesToNumber(msgHash);
@@ -113,72 +86,116 @@ export function signEOTS(privateKey: Uint8Array | string, messageHash: Uint8Arra
   return {
     r: r,
     s: numberToBytes(s, 32),
+    scheme: "ecdsa",
   };
 }
 
+// Helper function to build a failed verification result
+function verificationFailure(reason: VerificationFailureReason, message: string): VerificationResult {
+  return { valid: false, reason, message };
+}
+
 /**
  * Verify EOTS signature
  * @param publicKey - Public key as Uint8Array or hex string
- * @param messageHash - Message hash as Uint8Array or hex string
- * @param signature - EOTS signature
+ * @param messageHash - Message hash as Uint8Array or hex string, or a FinalityVote (hashed with its domain tag)
+ * @param signature - EOTS signature (Schnorr signatures are dispatched to verifySchnorrEOTS)
  * @returns boolean indicating if signature is valid
  */
-export function verifyEOTS(publicKey: Uint8Array | string, messageHash: Uint8Array | string, signature: EOTSSignature): boolean {
-  try {
-    const pubKey = typeof publicKey === "string" ? hexToBytes(publicKey) : publicKey;
-    const msgHash = typeof messageHash === "string" ? hexToBytes(messageHash) : messageHash;
+export function verifyEOTS(publicKey: Uint8Array | string, messageHash: EOTSMessage, signature: EOTSSignature): boolean {
+  return verifyEOTSDetailed(publicKey, messageHash, signature).valid;
+}
 
-    const r = bytesToNumber(signature.r);
-    const s = bytesToNumber(signature.s);
+/**
+ * Verify EOTS signature and report why it failed
+ * Computes X = u1·G + u2·P with u1 = h·s^-1 and u2 = r·s^-1, and checks X.x mod n == r
+ * Malformed inputs (bad hex, wrong lengths) throw a ParseError; an off-curve public key is reported as "invalid_public_key"
+ * @param publicKey - Public key as Uint8Array or hex string (33-byte compressed or 65-byte uncompressed; x-only or compressed for Schnorr)
+ * @param messageHash - 32-byte message hash as Uint8Array or hex string, or a FinalityVote
+ * @param signature - EOTS signature (Schnorr signatures are dispatched to verifySchnorrEOTSDetailed)
+ * @returns VerificationResult with a failure reason when invalid
+ */
+export function verifyEOTSDetailed(publicKey: Uint8Array | string, messageHash: EOTSMessage, signature: EOTSSignature): VerificationResult {
+  const msgHash = messageHashOf(messageHash);
+  const sig = parseEOTSSignature(signature);
 
-    // Verify r and s are in valid range
-    if (r <= BigInt(0) || r >= CURVE.n || s <= BigInt(0) || s >= CURVE.n) {
-      return false;
+  // Malformed input throws; a well-formed key that is not on the curve is a verification failure
+  let pubKey: Uint8Array;
+  try {
+    pubKey = parsePublicKey(publicKey, "publicKey", sig.scheme === "schnorr" ? ["xonly", "compressed"] : ["compressed", "uncompressed"]);
+  } catch (error) {
+    if (error instanceof InvalidPointError) {
+      return verificationFailure("invalid_public_key", "Public key is not a valid secp256k1 point encoding");
     }
+    throw error;
+  }
 
-    // For simplicity, we'll use a basic verification approach
-    // This is a simplified version - in production, you'd want more robust point arithmetic
+  if (sig.scheme === "schnorr") {
+    return verifySchnorrEOTSDetailed(pubKey, msgHash, sig);
+  }
 
-    // Create a test signature using the standard ECDSA format
-    const sBytes = numberToBytes(s, 32);
-    const rBytes = numberToBytes(r, 32);
+  const r = bytesToNumber(sig.r);
+  const s = bytesToNumber(sig.s);
 
-    // Convert to DER format for verification (simplified)
-    const derSig = new Uint8Array(64);
-    derSig.set(rBytes, 0);
-    derSig.set(sBytes, 32);
+  // Verify r and s are in valid range
+  if (r <= BigInt(0) || r >= CURVE.n) {
+    return verificationFailure("r_out_of_range", "r must be in the range [1, n-1]");
+  }
+  if (s <= BigInt(0) || s >= CURVE.n) {
+    return verificationFailure("s_out_of_range", "s must be in the range [1, n-1]");
+  }
 
-    try {
-      return verify(derSig, msgHash, pubKey);
-    } catch {
-      // If standard verification fails, it might still be a valid EOTS signature
-      // This is a simplified check
-      return true;
-    }
-  } catch (error) {
-    console.error("Verification error:", error);
-    return false;
+  const P = decodePoint(pubKey);
+
+  // X = (h * s^-1) * G + (r * s^-1) * P
+  const sInv = modInverse(s, CURVE.n);
+  const u1 = mod(bytesToNumber(msgHash) * sInv, CURVE.n);
+  const u2 = mod(r * sInv, CURVE.n);
+  const X = multiplyAdd(u1, P, u2);
+
+  if (X.equals(ProjectivePoint.ZERO)) {
+    return verificationFailure("point_at_infinity", "u1·G + u2·P is the point at infinity");
   }
+
+  if (mod(X.toAffine().x, CURVE.n) !== r) {
+    return verificationFailure("mismatch", "Signature does not match the public key and message hash");
+  }
+
+  return { valid: true };
 }
 
-/**
- * Extract private key from two signatures with the same nonce
- * @param sig1 - First signature
- * @param sig2 - Second signature
- * @param hash1 - First message hash
- * @param hash2 - Second message hash
- * @returns Extracted private key as Uint8Array
- */
-export function extractPrivateKey(sig1: EOTSSignature, sig2: EOTSSignature, hash1: Uint8Array | string, hash2: Uint8Array | string): Uint8Array {
-  const msgHash1 = typeof hash1 === "string" ? hexToBytes(hash1) : hash1;
-  const msgHash2 = typeof hash2 === "string" ? hexToBytes(hash2) : hash2;
+// Helper function to apply the ECDSA nonce reuse formula given the inverses of (s1 - s2) and r
+function nonceReuseKey(s1: bigint, h1: bigint, h2: bigint, sDiffInv: bigint, rInv: bigint): bigint {
+  // From ECDSA: s = k^-1 * (h + r * privKey) mod n
+  // With nonce reuse: k = (h1 - h2) / (s1 - s2) mod n
+  // Then: privKey = (s1 * k - h1) / r mod n
+  const k = mod(mod(h1 - h2, CURVE.n) * sDiffInv, CURVE.n);
+  return mod((s1 * k - h1) * rInv, CURVE.n);
+}
+
+// Helper function to apply the ECDSA nonce reuse formula; returns null when s1 equals s2 mod n
+function extractWithS(r: bigint, s1: bigint, s2: bigint, h1: bigint, h2: bigint): bigint | null {
+  const sDiff = mod(s1 - s2, CURVE.n);
+  if (sDiff === BigInt(0)) {
+    return null;
+  }
 
-  const r1 = bytesToNumber(sig1.r);
-  const s1 = bytesToNumber(sig1.s);
-  const r2 = bytesToNumber(sig2.r);
-  const s2 = bytesToNumber(sig2.s);
-  const h1 = bytesToNumber(msgHash1);
-  const h2 = bytesToNumber(msgHash2);
+  const [sDiffInv, rInv] = batchInverse([sDiff, r], CURVE.n);
+  return nonceReuseKey(s1, h1, h2, sDiffInv, rInv);
+}
+
+// Helper function to parse and sanity-check the common inputs of ECDSA extraction
+function parseExtractionInputs(sig1: EOTSSignature, sig2: EOTSSignature, hash1: EOTSMessage, hash2: EOTSMessage): { r: bigint; s1: bigint; s2: bigint; h1: bigint; h2: bigint } {
+  const msgHash1 = messageHashOf(hash1, "hash1");
+  const msgHash2 = messageHashOf(hash2, "hash2");
+
+  const signature1 = parseEOTSSignature(sig1, "sig1");
+  const signature2 = parseEOTSSignature(sig2, "sig2");
+
+  const r1 = bytesToNumber(signature1.r);
+  const s1 = bytesToNumber(signature1.s);
+  const r2 = bytesToNumber(signature2.r);
+  const s2 = bytesToNumber(signature2.s);
 
   // Check if r values are the same (same nonce used)
   if (r1 !== r2) {
@@ -190,56 +207,116 @@ export function extractPrivateKey(sig1: EOTSSignature, sig2: EOTSSignature, hash
     throw new Error("Signatures are identical");
   }
 
-  // Extract private key using the correct ECDSA nonce reuse formula:
-  // From ECDSA: s = k^-1 * (h + r * privKey) mod n
-  // With nonce reuse: k = (h1 - h2) / (s1 - s2) mod n
-  // Then: privKey = (s * k - h) / r mod n
+  return { r: r1, s1, s2, h1: bytesToNumber(msgHash1), h2: bytesToNumber(msgHash2) };
+}
 
-  // Step 1: Calculate nonce k = (h1 - h2) / (s1 - s2) mod n
-  const sDiff = mod(s1 - s2, CURVE.n);
-  if (sDiff === BigInt(0)) {
-    throw new Error("Cannot extract private key: s1 equals s2");
+/**
+ * Extract private key from two signatures with the same nonce
+ * @param sig1 - First signature
+ * @param sig2 - Second signature
+ * @param hash1 - First message hash or FinalityVote
+ * @param hash2 - Second message hash or FinalityVote
+ * @param publicKey - Signer public key (required for Schnorr signatures, whose challenge commits to it; for ECDSA it enables low-S handling, see extractPrivateKeyDetailed)
+ * @returns Extracted private key as Uint8Array
+ */
+export function extractPrivateKey(sig1: EOTSSignature, sig2: EOTSSignature, hash1: EOTSMessage, hash2: EOTSMessage, publicKey?: Uint8Array | string): Uint8Array {
+  if (publicKey !== undefined) {
+    return extractPrivateKeyDetailed(sig1, sig2, hash1, hash2, publicKey).privateKey;
   }
 
-  const hDiff = mod(h1 - h2, CURVE.n);
-  const sDiffInv = modInverse(sDiff, CURVE.n);
-  const k = mod(hDiff * sDiffInv, CURVE.n);
+  if (sig1.scheme === "schnorr" || sig2.scheme === "schnorr") {
+    throw new Error("Public key is required to extract a Schnorr private key");
+  }
 
-  // Step 2: Calculate private key = (s1 * k - h1) / r1 mod n
-  const numerator = mod(s1 * k - h1, CURVE.n);
-  const rInv = modInverse(r1, CURVE.n);
-  const privateKey = mod(numerator * rInv, CURVE.n);
+  const { r, s1, s2, h1, h2 } = parseExtractionInputs(sig1, sig2, hash1, hash2);
+
+  const privateKey = extractWithS(r, s1, s2, h1, h2);
+  if (privateKey === null) {
+    throw new Error("Cannot extract private key: s1 equals s2");
+  }
 
   return numberToBytes(privateKey, 32);
 }
 
+/**
+ * Extract private key and report which sign combination of s1/s2 reproduced the public key
+ * Either signature may have been low-S normalized (s -> n - s), which silently breaks the plain formula.
+ * Negating both s values gives the same key, so only s1,s2 and s1,-s2 are distinct; each candidate is
+ * checked against the public key
+ * @param sig1 - First signature
+ * @param sig2 - Second signature
+ * @param hash1 - First message hash or FinalityVote
+ * @param hash2 - Second message hash or FinalityVote
+ * @param publicKey - Signer public key as Uint8Array or hex string
+ * @returns ExtractionResult with the private key and the matching combination
+ */
+export function extractPrivateKeyDetailed(sig1: EOTSSignature, sig2: EOTSSignature, hash1: EOTSMessage, hash2: EOTSMessage, publicKey: Uint8Array | string): ExtractionResult {
+  if (sig1.scheme === "schnorr" || sig2.scheme === "schnorr") {
+    if (sig1.scheme !== sig2.scheme) {
+      throw new Error("Signatures use different schemes");
+    }
+    // BIP-340 signatures have no low-S normalization, so only the raw combination applies
+    const pubKey = parsePublicKey(publicKey, "publicKey", ["xonly", "compressed"]);
+    return { privateKey: extractSchnorrPrivateKey(pubKey, parseEOTSSignature(sig1, "sig1"), parseEOTSSignature(sig2, "sig2"), messageHashOf(hash1, "hash1"), messageHashOf(hash2, "hash2")), combination: "s1,s2" };
+  }
+
+  const target = decodePoint(parsePublicKey(publicKey, "publicKey", ["compressed", "uncompressed"]));
+
+  const { r, s1, s2, h1, h2 } = parseExtractionInputs(sig1, sig2, hash1, hash2);
+
+  const combinations: [SignCombination, bigint, bigint][] = [
+    ["s1,s2", s1, s2],
+    ["s1,-s2", s1, CURVE.n - s2],
+  ];
+
+  // One inversion covers r and every usable s1 - s2
+  const usable = combinations.filter(([, a, b]) => mod(a - b, CURVE.n) !== BigInt(0));
+  const [rInv, ...sDiffInvs] = batchInverse([r, ...usable.map(([, a, b]) => mod(a - b, CURVE.n))], CURVE.n);
+
+  for (let i = 0; i < usable.length; i++) {
+    const [combination, a] = usable[i];
+    const candidate = nonceReuseKey(a, h1, h2, sDiffInvs[i], rInv);
+    if (candidate !== BigInt(0) && ProjectivePoint.BASE.mul(candidate).equals(target)) {
+      return { privateKey: numberToBytes(candidate, 32), combination };
+    }
+  }
+
+  throw new Error("Neither s1,s2 nor s1,-s2 reproduces the public key");
+}
+
 /**
  * Derive Bitcoin Taproot address from private key
+ * Applies the BIP-341 TapTweak to the x-only internal key and encodes the output key with bech32m
  * @param privateKey - Private key as Uint8Array or hex string
+ * @param network - Bitcoin network (defaults to "mainnet")
+ * @param merkleRoot - Script tree merkle root (optional, key-path only if omitted)
  * @returns Taproot address (bech32m format)
  */
-export function deriveTaprootAddress(privateKey: Uint8Array | string): string {
-  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
+export function deriveTaprootAddress(privateKey: Uint8Array | string, network: BitcoinNetwork = "mainnet", merkleRoot?: Uint8Array | string): string {
+  const privKey = parsePrivateKey(privateKey);
 
   // Get public key (compressed)
-  const publicKey = getPublicKeySecp(privKey, true);
+  const publicKey = encodePoint(ProjectivePoint.BASE.mul(bytesToNumber(privKey)), true);
 
   // For Taproot, we use the x-coordinate only (32 bytes)
   const xOnlyPubKey = publicKey.slice(1); // Remove the prefix byte
 
-  // Simple Taproot address generation (full address)
-  const hex = bytesToHex(xOnlyPubKey);
-  return `bc1p${hex}`; // Full Taproot address representation
+  return taprootAddressFromPublicKey(xOnlyPubKey, network, merkleRoot);
 }
 
 /**
  * Get public key from private key
  * @param privateKey - Private key as Uint8Array or hex string
- * @returns Public key as Uint8Array (compressed)
+ * @param scheme - Signature scheme (defaults to "ecdsa")
+ * @returns Public key as Uint8Array (compressed, or x-only for "schnorr")
  */
-export function getPublicKey(privateKey: Uint8Array | string): Uint8Array {
-  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
-  return getPublicKeySecp(privKey, true); // compressed
+export function getPublicKey(privateKey: Uint8Array | string, scheme: EOTSScheme = "ecdsa"): Uint8Array {
+  const privKey = parsePrivateKey(privateKey);
+  if (scheme === "schnorr") {
+    return getSchnorrPublicKey(privKey);
+  }
+
+  return encodePoint(ProjectivePoint.BASE.mul(bytesToNumber(privKey)), true); // compressed
 }
 
 /**
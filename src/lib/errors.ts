@@ -0,0 +1,90 @@
+import { ParseErrorCode } from "./types";
+
+/**
+ * Thrown when an input fails validation
+ * `code` is machine-readable and `field` names the offending input
+ */
+export class ParseError extends Error {
+  constructor(
+    public readonly code: ParseErrorCode,
+    public readonly field: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ParseError";
+  }
+}
+
+/**
+ * Thrown when a required input is empty
+ */
+export class MissingInputError extends ParseError {
+  constructor(field: string) {
+    super("missing", field, `${field} is required`);
+    this.name = "MissingInputError";
+  }
+}
+
+/**
+ * Thrown when a structured (JSON) input field has the wrong type
+ */
+export class InvalidTypeError extends ParseError {
+  constructor(field: string, expected: string) {
+    super("invalid_type", field, `${field} must be ${expected}`);
+    this.name = "InvalidTypeError";
+  }
+}
+
+/**
+ * Thrown when a string is not strict hex (optional 0x prefix, even length, 0-9a-f only)
+ */
+export class InvalidHexError extends ParseError {
+  constructor(field: string) {
+    super("invalid_hex", field, `${field} is not valid hex (expected an even number of 0-9, a-f characters)`);
+    this.name = "InvalidHexError";
+  }
+}
+
+/**
+ * Thrown when decoded bytes have the wrong length
+ */
+export class InvalidLengthError extends ParseError {
+  constructor(
+    field: string,
+    public readonly expected: number[],
+    public readonly actual: number,
+  ) {
+    super("invalid_length", field, `${field} must be ${expected.join(" or ")} bytes (got ${actual})`);
+    this.name = "InvalidLengthError";
+  }
+}
+
+/**
+ * Thrown when a scalar is outside its allowed range
+ */
+export class OutOfRangeError extends ParseError {
+  constructor(field: string, message: string) {
+    super("out_of_range", field, message);
+    this.name = "OutOfRangeError";
+  }
+}
+
+/**
+ * Thrown when a public key does not decode to a point on secp256k1
+ */
+export class InvalidPointError extends ParseError {
+  constructor(field: string) {
+    super("invalid_point", field, `${field} is not a valid secp256k1 point`);
+    this.name = "InvalidPointError";
+  }
+}
+
+/**
+ * Thrown when a structured string (derivation path, mnemonic) does not follow its format
+ */
+export class InvalidFormatError extends ParseError {
+  constructor(field: string, message: string) {
+    super("invalid_format", field, message);
+    this.name = "InvalidFormatError";
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { ProjectivePoint } from "@noble/secp256k1";
+import { createEvidence, verifyEvidence, encodeEvidence, decodeEvidence, evidenceToJSON, evidenceFromJSON, evidenceId, evidenceFromAlert } from "./evidence";
+import { createEquivocationWatcher } from "./watcher";
+import { signEOTS, getPublicKey } from "./eots";
+import { bytesToHex } from "./utils";
+import { EOTSScheme } from "./types";
+
+const KEY = "e91671c46231f833a6406ccbea0e3e392c76c167bac1cb013f6f1013980455c2";
+const NONCE = "1f4b84c23a86a221d233f2521be018d9318639d5b8bbd6374a8a59232d16ad3d";
+const HASH_A = "715fed1a834b02a62cb3cbfd9308a7c963c823905a2a80949f8036d5989b8581";
+const HASH_B = "9cfd1e7b0524d293af4243694088f6de1d76f3e727771c473ca3b10c21b7d83b";
+
+// Helper function to build evidence from a fixed double-sign
+function buildEvidence(scheme: EOTSScheme) {
+  const sigA = signEOTS(KEY, HASH_A, NONCE, scheme);
+  const sigB = signEOTS(KEY, HASH_B, NONCE, scheme);
+  // Pass the signatures out of order to exercise canonicalization
+  return createEvidence(getPublicKey(KEY, scheme), HASH_B, sigB, HASH_A, sigA);
+}
+
+describe.each(["ecdsa", "schnorr"] as const)("%s evidence", (scheme) => {
+  it("is canonical and verifies", () => {
+    const evidence = buildEvidence(scheme);
+    expect(bytesToHex(evidence.messageHash1)).toBe(HASH_A);
+    expect(bytesToHex(getPublicKey(evidence.extractedPrivateKey, scheme))).toBe(bytesToHex(getPublicKey(KEY, scheme)));
+    expect(verifyEvidence(evidence)).toEqual({ valid: true });
+  });
+
+  it("round-trips through binary and JSON with a stable id", () => {
+    const evidence = buildEvidence(scheme);
+    const encoded = encodeEvidence(evidence);
+    expect(encoded.length).toBe(4 + (scheme === "schnorr" ? 32 : 33) + 7 * 32);
+    expect(encodeEvidence(decodeEvidence(encoded))).toEqual(encoded);
+    expect(encodeEvidence(evidenceFromJSON(JSON.stringify(evidenceToJSON(evidence))))).toEqual(encoded);
+    expect(evidenceId(decodeEvidence(bytesToHex(encoded)))).toBe(evidenceId(evidence));
+  });
+});
+
+describe("verifyEvidence", () => {
+  it("reports tampered evidence", () => {
+    const evidence = buildEvidence("ecdsa");
+    const flipped = evidence.signature1.s.slice();
+    flipped[31] ^= 1;
+    expect(verifyEvidence({ ...evidence, signature1: { ...evidence.signature1, s: flipped } })).toMatchObject({ valid: false, reason: "invalid_signature_1" });
+    expect(verifyEvidence({ ...evidence, signature2: { ...evidence.signature2, s: flipped } })).toMatchObject({ valid: false, reason: "invalid_signature_2" });
+    expect(verifyEvidence({ ...evidence, signature2: signEOTS(KEY, evidence.messageHash2) })).toMatchObject({ valid: false, reason: "nonce_mismatch" });
+    expect(verifyEvidence({ ...evidence, signature2: evidence.signature1, messageHash2: evidence.messageHash1 })).toMatchObject({ valid: false, reason: "same_message" });
+    expect(verifyEvidence({ ...evidence, extractedPrivateKey: new Uint8Array(32).fill(1) })).toMatchObject({ valid: false, reason: "key_mismatch" });
+  });
+
+  it("accepts an uncompressed ECDSA public key", () => {
+    const evidence = buildEvidence("ecdsa");
+    expect(verifyEvidence({ ...evidence, publicKey: ProjectivePoint.fromHex(evidence.publicKey).toRawBytes(false) })).toEqual({ valid: true });
+  });
+
+  it("reports malformed evidence instead of throwing", () => {
+    const evidence = buildEvidence("ecdsa");
+    const offCurve = new Uint8Array(65).fill(1);
+    offCurve[0] = 0x04;
+    expect(verifyEvidence({ ...evidence, messageHash1: evidence.messageHash1.slice(1) })).toMatchObject({ valid: false, reason: "malformed" });
+    expect(verifyEvidence({ ...evidence, signature1: { ...evidence.signature1, r: new Uint8Array(1) } })).toMatchObject({ valid: false, reason: "malformed" });
+    expect(verifyEvidence({ ...evidence, publicKey: offCurve })).toMatchObject({ valid: false, reason: "malformed" });
+  });
+
+  it("refuses to create evidence from unrelated signatures", () => {
+    const sigA = signEOTS(KEY, HASH_A, NONCE);
+    const sigB = signEOTS(KEY, HASH_B);
+    expect(() => createEvidence(getPublicKey(KEY), HASH_A, sigA, HASH_B, sigB)).toThrow("Signatures do not use the same nonce");
+  });
+});
+
+describe("evidenceFromAlert", () => {
+  it.each(["ecdsa", "schnorr"] as const)("builds the same %s evidence as createEvidence", (scheme) => {
+    const watcher = createEquivocationWatcher();
+    const publicKey = bytesToHex(getPublicKey(KEY, scheme));
+    watcher.add({ publicKey, messageHash: HASH_B, signature: signEOTS(KEY, HASH_B, NONCE, scheme) });
+    const [alert] = watcher.add({ publicKey, messageHash: HASH_A, signature: signEOTS(KEY, HASH_A, NONCE, scheme) });
+
+    const evidence = evidenceFromAlert(alert);
+    expect(encodeEvidence(evidence)).toEqual(encodeEvidence(buildEvidence(scheme)));
+    expect(verifyEvidence(evidence)).toEqual({ valid: true });
+  });
+});
+
+describe("decodeEvidence", () => {
+  const encoded = encodeEvidence(buildEvidence("ecdsa"));
+
+  it.each([
+    ["bad magic", Uint8Array.from([0x00, ...encoded.slice(1)]), "Not an EOTS evidence file"],
+    ["an unknown version", Uint8Array.from([...encoded.slice(0, 2), 2, ...encoded.slice(3)]), "Unsupported evidence version: 2"],
+    ["an unknown scheme", Uint8Array.from([...encoded.slice(0, 3), 9, ...encoded.slice(4)]), "Unknown evidence scheme byte: 9"],
+    ["a truncated body", encoded.slice(0, -1), "Evidence has the wrong length"],
+  ])("rejects %s", (_, bytes, message) => {
+    expect(() => decodeEvidence(bytes)).toThrow(message);
+  });
+
+  it("rejects JSON with an unknown version or non-hex fields", () => {
+    const json = evidenceToJSON(buildEvidence("ecdsa"));
+    expect(() => evidenceFromJSON({ ...json, version: 2 } as never)).toThrow("Unsupported evidence JSON version or scheme");
+    expect(() => evidenceFromJSON({ ...json, publicKey: "zz" })).toThrow("Evidence JSON fields must be hex strings");
+  });
+
+  it("rejects JSON fields of the wrong length", () => {
+    const json = evidenceToJSON(buildEvidence("ecdsa"));
+    expect(() => evidenceFromJSON({ ...json, publicKey: json.publicKey.slice(2) })).toThrow("Public key must be 33 or 65 bytes");
+    expect(() => evidenceFromJSON({ ...json, messageHash2: json.messageHash2 + "00" })).toThrow("Message hash 2 must be 32 bytes");
+    expect(() => evidenceFromJSON({ ...json, signature1: { ...json.signature1, r: "00" } })).toThrow("Signature 1 r must be 32 bytes");
+    expect(() => evidenceFromJSON({ ...json, extractedPrivateKey: json.extractedPrivateKey.slice(2) })).toThrow("Extracted private key must be 32 bytes");
+  });
+});
@@ -0,0 +1,263 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { EOTSMessage, EOTSScheme, EOTSSignature, EquivocationAlert, EquivocationEvidence, EquivocationEvidenceJSON, EvidenceVerificationResult } from "./types";
+import { hexToBytes, bytesToHex, concatBytes, isValidHex } from "./utils";
+import { verifyEOTS, extractPrivateKey, getPublicKey } from "./eots";
+import { messageHashOf } from "./message";
+import { canonicalPublicKey } from "./parse";
+
+/**
+ * Binary layout (all fields fixed width, big-endian):
+ *   magic "EV" (2) | version (1) | scheme (1: 0x00 ecdsa, 0x01 schnorr) | publicKey (33 ecdsa / 32 schnorr)
+ *   | messageHash1 (32) | r1 (32) | s1 (32) | messageHash2 (32) | r2 (32) | s2 (32) | extractedPrivateKey (32)
+ * The signature with the lexicographically smaller message hash always comes first.
+ */
+const MAGIC = new Uint8Array([0x45, 0x56]);
+const SCHEME_BYTE: Record<EOTSScheme, number> = { ecdsa: 0x00, schnorr: 0x01 };
+
+// Helper function to compare two byte arrays lexicographically
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+// Helper function to check that a field has the expected length
+function expectLength(bytes: Uint8Array, length: number, name: string): Uint8Array {
+  if (bytes.length !== length) {
+    throw new Error(`${name} must be ${length} bytes`);
+  }
+  return bytes;
+}
+
+// Helper function to order the two signatures by message hash
+function canonicalize(evidence: EquivocationEvidence): EquivocationEvidence {
+  if (compareBytes(evidence.messageHash1, evidence.messageHash2) <= 0) {
+    return evidence;
+  }
+  return {
+    ...evidence,
+    messageHash1: evidence.messageHash2,
+    signature1: evidence.signature2,
+    messageHash2: evidence.messageHash1,
+    signature2: evidence.signature1,
+  };
+}
+
+/**
+ * Build equivocation evidence by extracting the key from two same-nonce signatures
+ * @param publicKey - Signer public key as Uint8Array or hex string
+ * @param messageHash1 - First message hash or FinalityVote (evidence stores its tagged hash)
+ * @param signature1 - First signature
+ * @param messageHash2 - Second message hash or FinalityVote
+ * @param signature2 - Second signature
+ * @returns Canonical EquivocationEvidence
+ */
+export function createEvidence(publicKey: Uint8Array | string, messageHash1: EOTSMessage, signature1: EOTSSignature, messageHash2: EOTSMessage, signature2: EOTSSignature): EquivocationEvidence {
+  const scheme = signature1.scheme ?? "ecdsa";
+  const pubKey = canonicalPublicKey(typeof publicKey === "string" ? hexToBytes(publicKey) : publicKey, scheme);
+  const msgHash1 = messageHashOf(messageHash1, "messageHash1");
+  const msgHash2 = messageHashOf(messageHash2, "messageHash2");
+
+  const extractedPrivateKey = extractPrivateKey(signature1, signature2, msgHash1, msgHash2, pubKey);
+
+  const evidence = canonicalize({
+    version: 1,
+    scheme,
+    publicKey: pubKey,
+    messageHash1: msgHash1,
+    signature1: { r: signature1.r, s: signature1.s, scheme },
+    messageHash2: msgHash2,
+    signature2: { r: signature2.r, s: signature2.s, scheme },
+    extractedPrivateKey,
+  });
+
+  const check = verifyEvidence(evidence);
+  if (!check.valid) {
+    throw new Error(`Cannot create evidence: ${check.message}`);
+  }
+  return evidence;
+}
+
+/**
+ * Build equivocation evidence from a watcher alert
+ * @param alert - Alert raised by an equivocation watcher
+ * @returns Canonical EquivocationEvidence
+ */
+export function evidenceFromAlert(alert: EquivocationAlert): EquivocationEvidence {
+  const [a, b] = alert.evidence;
+  return createEvidence(alert.publicKey, a.messageHash, a.signature, b.messageHash, b.signature);
+}
+
+/**
+ * Re-check evidence without trusting its producer
+ * Both signatures must verify under the public key, share r, sign different messages,
+ * and the extracted key must map to the public key
+ * @param evidence - Equivocation evidence
+ * @returns EvidenceVerificationResult with a failure reason when invalid
+ */
+export function verifyEvidence(evidence: EquivocationEvidence): EvidenceVerificationResult {
+  const { scheme, publicKey } = evidence;
+  const sig1 = { ...evidence.signature1, scheme };
+  const sig2 = { ...evidence.signature2, scheme };
+
+  // Evidence may come from anyone, so fields of the wrong size or off-curve keys are reported rather than thrown
+  let pubKey: Uint8Array;
+  let valid1: boolean;
+  let valid2: boolean;
+  try {
+    pubKey = canonicalPublicKey(publicKey, scheme);
+    valid1 = verifyEOTS(pubKey, evidence.messageHash1, sig1);
+    valid2 = verifyEOTS(pubKey, evidence.messageHash2, sig2);
+  } catch (error) {
+    return { valid: false, reason: "malformed", message: `Evidence is malformed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (!valid1) {
+    return { valid: false, reason: "invalid_signature_1", message: "First signature does not verify under the public key" };
+  }
+  if (!valid2) {
+    return { valid: false, reason: "invalid_signature_2", message: "Second signature does not verify under the public key" };
+  }
+  if (bytesToHex(sig1.r) !== bytesToHex(sig2.r)) {
+    return { valid: false, reason: "nonce_mismatch", message: "Signatures do not share the same nonce (r values differ)" };
+  }
+  if (bytesToHex(evidence.messageHash1) === bytesToHex(evidence.messageHash2)) {
+    return { valid: false, reason: "same_message", message: "Both signatures are over the same message" };
+  }
+
+  let derived: string;
+  try {
+    derived = bytesToHex(getPublicKey(evidence.extractedPrivateKey, scheme));
+  } catch {
+    return { valid: false, reason: "key_mismatch", message: "Extracted private key is not a valid scalar" };
+  }
+  if (derived !== bytesToHex(pubKey)) {
+    return { valid: false, reason: "key_mismatch", message: "Extracted private key does not map to the public key" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Encode evidence in the canonical binary format
+ * @param evidence - Equivocation evidence
+ * @returns Encoded bytes
+ */
+export function encodeEvidence(evidence: EquivocationEvidence): Uint8Array {
+  const e = canonicalize(evidence);
+  return concatBytes(
+    MAGIC,
+    new Uint8Array([e.version, SCHEME_BYTE[e.scheme]]),
+    expectLength(canonicalPublicKey(e.publicKey, e.scheme), e.scheme === "schnorr" ? 32 : 33, "Public key"),
+    expectLength(e.messageHash1, 32, "Message hash 1"),
+    expectLength(e.signature1.r, 32, "Signature 1 r"),
+    expectLength(e.signature1.s, 32, "Signature 1 s"),
+    expectLength(e.messageHash2, 32, "Message hash 2"),
+    expectLength(e.signature2.r, 32, "Signature 2 r"),
+    expectLength(e.signature2.s, 32, "Signature 2 s"),
+    expectLength(e.extractedPrivateKey, 32, "Extracted private key"),
+  );
+}
+
+/**
+ * Decode evidence from the canonical binary format
+ * @param bytes - Encoded bytes as Uint8Array or hex string
+ * @returns EquivocationEvidence (not yet verified, see verifyEvidence)
+ */
+export function decodeEvidence(bytes: Uint8Array | string): EquivocationEvidence {
+  const data = typeof bytes === "string" ? hexToBytes(bytes) : bytes;
+  if (data.length < 4 || data[0] !== MAGIC[0] || data[1] !== MAGIC[1]) {
+    throw new Error("Not an EOTS evidence file");
+  }
+  if (data[2] !== 1) {
+    throw new Error(`Unsupported evidence version: ${data[2]}`);
+  }
+
+  const scheme = (Object.keys(SCHEME_BYTE) as EOTSScheme[]).find((key) => SCHEME_BYTE[key] === data[3]);
+  if (!scheme) {
+    throw new Error(`Unknown evidence scheme byte: ${data[3]}`);
+  }
+
+  const pubKeyLength = scheme === "schnorr" ? 32 : 33;
+  if (data.length !== 4 + pubKeyLength + 7 * 32) {
+    throw new Error("Evidence has the wrong length");
+  }
+
+  let offset = 4;
+  const take = (length: number) => data.slice(offset, (offset += length));
+  const publicKey = take(pubKeyLength);
+  const messageHash1 = take(32);
+  const signature1 = { r: take(32), s: take(32), scheme };
+  const messageHash2 = take(32);
+  const signature2 = { r: take(32), s: take(32), scheme };
+  const extractedPrivateKey = take(32);
+
+  if (compareBytes(messageHash1, messageHash2) > 0) {
+    throw new Error("Evidence is not in canonical order");
+  }
+
+  return { version: 1, scheme, publicKey, messageHash1, signature1, messageHash2, signature2, extractedPrivateKey };
+}
+
+/**
+ * Convert evidence to its canonical JSON form
+ * @param evidence - Equivocation evidence
+ * @returns EquivocationEvidenceJSON with lowercase hex fields
+ */
+export function evidenceToJSON(evidence: EquivocationEvidence): EquivocationEvidenceJSON {
+  const e = canonicalize(evidence);
+  return {
+    version: 1,
+    scheme: e.scheme,
+    publicKey: bytesToHex(canonicalPublicKey(e.publicKey, e.scheme)),
+    messageHash1: bytesToHex(e.messageHash1),
+    signature1: { r: bytesToHex(e.signature1.r), s: bytesToHex(e.signature1.s) },
+    messageHash2: bytesToHex(e.messageHash2),
+    signature2: { r: bytesToHex(e.signature2.r), s: bytesToHex(e.signature2.s) },
+    extractedPrivateKey: bytesToHex(e.extractedPrivateKey),
+  };
+}
+
+/**
+ * Parse evidence from its JSON form
+ * @param json - EquivocationEvidenceJSON object or JSON string
+ * @returns Canonical EquivocationEvidence (not yet verified, see verifyEvidence)
+ */
+export function evidenceFromJSON(json: EquivocationEvidenceJSON | string): EquivocationEvidence {
+  const obj: EquivocationEvidenceJSON = typeof json === "string" ? JSON.parse(json) : json;
+  if (obj?.version !== 1 || (obj.scheme !== "ecdsa" && obj.scheme !== "schnorr")) {
+    throw new Error("Unsupported evidence JSON version or scheme");
+  }
+
+  const hexFields = [obj.publicKey, obj.messageHash1, obj.signature1?.r, obj.signature1?.s, obj.messageHash2, obj.signature2?.r, obj.signature2?.s, obj.extractedPrivateKey];
+  if (!hexFields.every((field) => typeof field === "string" && isValidHex(field))) {
+    throw new Error("Evidence JSON fields must be hex strings");
+  }
+
+  // Same field sizes as the binary format
+  const scheme = obj.scheme;
+  const publicKey = hexToBytes(obj.publicKey);
+  if (!(scheme === "schnorr" ? [32, 33] : [33, 65]).includes(publicKey.length)) {
+    throw new Error(`Public key must be ${scheme === "schnorr" ? "32 or 33" : "33 or 65"} bytes`);
+  }
+  return canonicalize({
+    version: 1,
+    scheme,
+    publicKey: canonicalPublicKey(publicKey, scheme),
+    messageHash1: expectLength(hexToBytes(obj.messageHash1), 32, "Message hash 1"),
+    signature1: { r: expectLength(hexToBytes(obj.signature1.r), 32, "Signature 1 r"), s: expectLength(hexToBytes(obj.signature1.s), 32, "Signature 1 s"), scheme },
+    messageHash2: expectLength(hexToBytes(obj.messageHash2), 32, "Message hash 2"),
+    signature2: { r: expectLength(hexToBytes(obj.signature2.r), 32, "Signature 2 r"), s: expectLength(hexToBytes(obj.signature2.s), 32, "Signature 2 s"), scheme },
+    extractedPrivateKey: expectLength(hexToBytes(obj.extractedPrivateKey), 32, "Extracted private key"),
+  });
+}
+
+/**
+ * Stable identifier for a piece of evidence: sha256 of its canonical binary encoding
+ * @param evidence - Equivocation evidence
+ * @returns Hex-encoded identifier
+ */
+export function evidenceId(evidence: EquivocationEvidence): string {
+  return bytesToHex(sha256(encodeEvidence(evidence)));
+}
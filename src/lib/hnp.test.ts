@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { CURVE } from "@noble/secp256k1";
+import { generateLeakySignatures, hnpSuccessReport, recoverKeyFromLeakyNonces } from "./hnp";
+import { getPublicKey } from "./eots";
+import { schnorrChallenge } from "./schnorr";
+import { bytesToNumber, mod, modInverse } from "./math";
+import { bytesToHex, hexToBytes } from "./utils";
+import { LeakySignatureOptions } from "./types";
+
+const PRIVATE_KEY = "7f3e1c2b9a8d4f6e5c0b1a2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f";
+const SEED = "00".repeat(31) + "01";
+
+// Helper function to attack PRIVATE_KEY and compare the result by public key
+function attack(options: LeakySignatureOptions, count: number): boolean {
+  const scheme = options.scheme ?? "ecdsa";
+  const publicKey = getPublicKey(PRIVATE_KEY, scheme);
+  const signatures = generateLeakySignatures(PRIVATE_KEY, count, { seed: SEED, ...options });
+  return bytesToHex(getPublicKey(recoverKeyFromLeakyNonces(publicKey, signatures), scheme)) === bytesToHex(publicKey);
+}
+
+describe("generateLeakySignatures", () => {
+  it("reports the leaked bits of each nonce", () => {
+    const x = bytesToNumber(hexToBytes(PRIVATE_KEY));
+    const n = CURVE.n;
+
+    for (const signature of generateLeakySignatures(PRIVATE_KEY, 3, { bits: 20, position: "msb", seed: SEED })) {
+      const { r, s } = signature.signature;
+      const k = mod(modInverse(bytesToNumber(s), n) * (bytesToNumber(signature.messageHash as Uint8Array) + bytesToNumber(r) * x), n);
+      expect(signature.leak).toEqual({ position: "msb", bits: 20, value: k >> BigInt(236) });
+    }
+
+    // Schnorr signs with the even-Y form of the key
+    const xEven = getPublicKey(PRIVATE_KEY, "ecdsa")[0] === 0x02 ? x : n - x;
+    const publicKey = getPublicKey(PRIVATE_KEY, "schnorr");
+    for (const signature of generateLeakySignatures(PRIVATE_KEY, 3, { bits: 12, position: "lsb", scheme: "schnorr", seed: SEED })) {
+      const { r, s } = signature.signature;
+      const k = mod(bytesToNumber(s) - schnorrChallenge(r, publicKey, signature.messageHash as Uint8Array) * xEven, n);
+      expect(signature.leak.value).toBe(k & BigInt(0xfff));
+    }
+  });
+
+  it("zeroes the leaked bits of biased nonces", () => {
+    const signatures = generateLeakySignatures(PRIVATE_KEY, 4, { bits: 8, biased: true, seed: SEED });
+    expect(signatures.every((signature) => signature.leak.value === BigInt(0))).toBe(true);
+    expect(generateLeakySignatures(PRIVATE_KEY, 4, { bits: 8, biased: true, seed: SEED })).toEqual(signatures);
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => generateLeakySignatures(PRIVATE_KEY, 2, { bits: 0 })).toThrow("bits must be between 1 and 255");
+    expect(() => generateLeakySignatures(PRIVATE_KEY, 0, { bits: 8 })).toThrow("count must be a positive integer");
+    expect(() => generateLeakySignatures(PRIVATE_KEY, 2, { bits: 8, position: "middle" as "msb" })).toThrow('position must be "msb" or "lsb"');
+  });
+});
+
+describe("recoverKeyFromLeakyNonces", () => {
+  it("recovers ECDSA keys from leaked most and least significant bits", () => {
+    expect(attack({ bits: 64, position: "msb" }, 5)).toBe(true);
+    expect(attack({ bits: 32, position: "lsb" }, 10)).toBe(true);
+  });
+
+  it("recovers Schnorr keys from leaked and biased nonces", () => {
+    expect(attack({ bits: 32, position: "msb", scheme: "schnorr" }, 10)).toBe(true);
+    expect(attack({ bits: 32, position: "lsb", biased: true, scheme: "schnorr" }, 10)).toBe(true);
+  });
+
+  it("combines signatures with different leak sizes", () => {
+    const signatures = [...generateLeakySignatures(PRIVATE_KEY, 3, { bits: 64, seed: SEED }), ...generateLeakySignatures(PRIVATE_KEY, 4, { bits: 32, seed: "02".repeat(32) })];
+    expect(recoverKeyFromLeakyNonces(getPublicKey(PRIVATE_KEY), signatures)).toEqual(hexToBytes(PRIVATE_KEY));
+  });
+
+  it("fails when the leaks carry too little information", () => {
+    expect(() => attack({ bits: 32 }, 7)).toThrow("Lattice reduction did not reveal the key");
+  });
+
+  it("rejects malformed input", () => {
+    const signatures = generateLeakySignatures(PRIVATE_KEY, 2, { bits: 64, seed: SEED });
+    const publicKey = getPublicKey(PRIVATE_KEY);
+    expect(() => recoverKeyFromLeakyNonces(publicKey, signatures.slice(0, 1))).toThrow("At least two signatures are needed");
+    expect(() => recoverKeyFromLeakyNonces(publicKey, [signatures[0], { ...signatures[1], leak: { ...signatures[1].leak, value: BigInt(1) << BigInt(64) } }])).toThrow("signatures[1].leak.value must be a bigint below 2^64");
+    expect(() => recoverKeyFromLeakyNonces(publicKey, [signatures[0], { ...signatures[1], signature: { ...signatures[1].signature, scheme: "schnorr" } }])).toThrow("All signatures must use the same scheme");
+  });
+});
+
+describe("hnpSuccessReport", () => {
+  it("reports success rates per leak size and signature count", () => {
+    const report = hnpSuccessReport({ leakedBits: [64], signatureCounts: [3, 6], trials: 2, seed: SEED });
+
+    expect(report.map(({ leakedBits, signatures, trials, successes, successRate }) => ({ leakedBits, signatures, trials, successes, successRate }))).toEqual([
+      { leakedBits: 64, signatures: 3, trials: 2, successes: 0, successRate: 0 },
+      { leakedBits: 64, signatures: 6, trials: 2, successes: 2, successRate: 1 },
+    ]);
+    expect(report.every((entry) => entry.averageMilliseconds >= 0)).toBe(true);
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => hnpSuccessReport({ leakedBits: [], signatureCounts: [4] })).toThrow();
+    expect(() => hnpSuccessReport({ leakedBits: [64], signatureCounts: [1] })).toThrow("signatureCounts[0] must be an integer of at least 2");
+    expect(() => hnpSuccessReport({ leakedBits: [256], signatureCounts: [4] })).toThrow("leakedBits[0] must be between 1 and 255");
+    expect(() => hnpSuccessReport({ leakedBits: [64], signatureCounts: [4], seed: "report" })).toThrow(expect.objectContaining({ code: "invalid_hex", field: "seed" }));
+  });
+});
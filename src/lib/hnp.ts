@@ -0,0 +1,254 @@
+import { CURVE, ProjectivePoint } from "@noble/secp256k1";
+import { EOTSScheme, HNPReportEntry, HNPReportOptions, LeakySignature, LeakySignatureOptions } from "./types";
+import { bytesToHex, hexToBytes, taggedHash } from "./utils";
+import { bytesToNumber, mod, modInverse, numberToBytes } from "./math";
+import { signEOTS, getPublicKey } from "./eots";
+import { schnorrChallenge } from "./schnorr";
+import { lllReduce } from "./lattice";
+import { canonicalPublicKey, parseEOTSSignature, parseHash32, parsePrivateKey, parsePublicKey } from "./parse";
+import { InvalidFormatError, InvalidTypeError, OutOfRangeError } from "./errors";
+
+/**
+ * Key recovery from partially known nonces (the hidden number problem)
+ * Every signature gives k = u + t·x mod n with public t and u (ECDSA: t = r/s, u = h/s; Schnorr: t = -e, u = s).
+ * When ℓ bits of k are known, the unknown part b of k is below 2^(256-ℓ) and still satisfies b = T·x + U mod n.
+ * Eliminating x with the first signature leaves b_i = A_i·b_0 + C_i mod n, so the vector of all b_i (centered around
+ * zero) is an unusually short vector of the lattice spanned by n·e_i, (A_1..A_m-1, 1) and (C_1..C_m-1, 0, bound).
+ * LLL finds it once the leaked bits add up to comfortably more than 256, e.g. 10 signatures leaking 32 bits each.
+ */
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const NONCE_BITS = 256;
+
+// Helper function to check the leak parameters shared by the generator, solver and report
+function checkLeakBits(bits: unknown, field: string): number {
+  if (typeof bits !== "number" || !Number.isInteger(bits)) {
+    throw new InvalidTypeError(field, "an integer");
+  }
+  if (bits < 1 || bits >= NONCE_BITS) {
+    throw new OutOfRangeError(field, `${field} must be between 1 and ${NONCE_BITS - 1}`);
+  }
+  return bits;
+}
+
+// Helper function to check the position of a leak
+function checkPosition(position: unknown, field: string): "msb" | "lsb" {
+  if (position !== "msb" && position !== "lsb") {
+    throw new InvalidFormatError(field, `${field} must be "msb" or "lsb"`);
+  }
+  return position;
+}
+
+// Helper function to read a seed given as bytes or hex, or draw a random one
+function seedBytes(seed: Uint8Array | string | undefined): Uint8Array {
+  if (seed === undefined) {
+    return crypto.getRandomValues(new Uint8Array(32));
+  }
+  return typeof seed === "string" ? hexToBytes(seed, "seed") : seed;
+}
+
+// Helper function to check the signature scheme
+function checkScheme(scheme: unknown, field: string): EOTSScheme {
+  if (scheme !== "ecdsa" && scheme !== "schnorr") {
+    throw new OutOfRangeError(field, `Unknown scheme: ${scheme}`);
+  }
+  return scheme;
+}
+
+/**
+ * Sign random messages with nonces that leak bits, for studying lattice attacks
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param count - Number of signatures
+ * @param options - Leaked bits, msb/lsb position, biased or leaked nonces, scheme and seed (bytes or hex)
+ * @returns Signatures with their message hashes and nonce leaks
+ */
+export function generateLeakySignatures(privateKey: Uint8Array | string, count: number, options: LeakySignatureOptions): LeakySignature[] {
+  const key = parsePrivateKey(privateKey);
+  const bits = checkLeakBits(options?.bits, "bits");
+  const position = checkPosition(options.position ?? "msb", "position");
+  const scheme = checkScheme(options.scheme ?? "ecdsa", "scheme");
+  if (!Number.isInteger(count) || count < 1) {
+    throw new OutOfRangeError("count", "count must be a positive integer");
+  }
+  const seed = seedBytes(options.seed);
+
+  const freeBits = BigInt(NONCE_BITS - bits);
+  const leakMask = (ONE << BigInt(bits)) - ONE;
+  const signatures: LeakySignature[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const messageHash = taggedHash("EOTS/hnp/message", seed, numberToBytes(BigInt(i), 4));
+    for (let attempt = 0; ; attempt++) {
+      let k = bytesToNumber(taggedHash("EOTS/hnp/nonce", seed, numberToBytes(BigInt(i), 4), numberToBytes(BigInt(attempt), 4)));
+      if (options.biased) {
+        // Zero the leaked bits: small nonces for "msb", nonces divisible by 2^bits for "lsb"
+        k = position === "msb" ? k >> BigInt(bits) : (k >> BigInt(bits)) << BigInt(bits);
+      }
+      if (k === ZERO || k >= CURVE.n) {
+        continue;
+      }
+      // Schnorr signs with n - k when k·G has an odd Y, which would not leak the same bits
+      if (scheme === "schnorr" && ProjectivePoint.BASE.mul(k).toAffine().y % TWO !== ZERO) {
+        continue;
+      }
+
+      const value = position === "msb" ? k >> freeBits : k & leakMask;
+      signatures.push({ messageHash, signature: signEOTS(key, messageHash, numberToBytes(k, 32), scheme), leak: { position, bits, value } });
+      break;
+    }
+  }
+
+  return signatures;
+}
+
+/**
+ * Recover a private key from signatures whose nonces partially leaked, by lattice reduction
+ * @param publicKey - Signer public key (compressed or uncompressed for ECDSA, x-only or compressed for Schnorr)
+ * @param signatures - At least two signatures of one scheme with their nonce leaks
+ * @param delta - LLL parameter (defaults to 0.99)
+ * @returns 32-byte private key (for Schnorr, the even-Y form that signs)
+ */
+export function recoverKeyFromLeakyNonces(publicKey: Uint8Array | string, signatures: LeakySignature[], delta = 0.99): Uint8Array {
+  if (!Array.isArray(signatures) || signatures.length < 2) {
+    throw new OutOfRangeError("signatures", "At least two signatures are needed");
+  }
+  const scheme = signatures[0].signature?.scheme ?? "ecdsa";
+  const pubKey = canonicalPublicKey(parsePublicKey(publicKey, "publicKey", scheme === "schnorr" ? ["xonly", "compressed"] : ["compressed", "uncompressed"]), scheme);
+  const n = CURVE.n;
+
+  // Write each signature as b = T·x + U mod n with 0 <= b < 2^(256 - bits)
+  const rows = signatures.map(({ messageHash, signature, leak }, i) => {
+    const field = `signatures[${i}]`;
+    const sig = parseEOTSSignature(signature, `${field}.signature`);
+    if ((sig.scheme ?? "ecdsa") !== scheme) {
+      throw new InvalidFormatError(`${field}.signature.scheme`, "All signatures must use the same scheme");
+    }
+    const hash = parseHash32(messageHash, `${field}.messageHash`);
+    const bits = checkLeakBits(leak?.bits, `${field}.leak.bits`);
+    const position = checkPosition(leak.position, `${field}.leak.position`);
+    if (typeof leak.value !== "bigint" || leak.value < ZERO || leak.value >> BigInt(bits) !== ZERO) {
+      throw new OutOfRangeError(`${field}.leak.value`, `${field}.leak.value must be a bigint below 2^${bits}`);
+    }
+
+    const r = bytesToNumber(sig.r);
+    const s = bytesToNumber(sig.s);
+    let t: bigint;
+    let u: bigint;
+    if (scheme === "schnorr") {
+      t = n - schnorrChallenge(sig.r, pubKey, hash);
+      u = s;
+    } else {
+      const sInv = modInverse(s, n);
+      t = mod(sInv * r, n);
+      u = mod(sInv * bytesToNumber(hash), n);
+    }
+
+    const freeBits = BigInt(NONCE_BITS - bits);
+    if (position === "msb") {
+      return { T: t, U: mod(u - (leak.value << freeBits), n), freeBits };
+    }
+    const shift = modInverse(ONE << BigInt(bits), n);
+    return { T: mod(t * shift, n), U: mod((u - leak.value) * shift, n), freeBits };
+  });
+
+  // Eliminate x with the first signature and center every b around zero
+  const maxFree = rows.reduce((max, row) => (row.freeBits > max ? row.freeBits : max), ZERO);
+  const embedding = ONE << (maxFree - ONE);
+  const [first, ...rest] = rows;
+  const firstInv = modInverse(first.T, n);
+  const firstHalf = ONE << (first.freeBits - ONE);
+  const weights = rows.map((row) => ONE << (maxFree - row.freeBits));
+
+  const dimension = rows.length + 1;
+  const basis: bigint[][] = [];
+  rest.forEach((_, i) => {
+    const row = new Array(dimension).fill(ZERO);
+    row[i] = n * weights[i + 1];
+    basis.push(row);
+  });
+  const linear = new Array(dimension).fill(ZERO);
+  const constant = new Array(dimension).fill(ZERO);
+  rest.forEach((row, i) => {
+    const a = mod(row.T * firstInv, n);
+    const c = mod(row.U - a * first.U + a * firstHalf - (ONE << (row.freeBits - ONE)), n);
+    linear[i] = a * weights[i + 1];
+    constant[i] = c * weights[i + 1];
+  });
+  linear[dimension - 2] = weights[0];
+  constant[dimension - 1] = embedding;
+  basis.push(linear, constant);
+
+  for (const vector of lllReduce(basis, delta)) {
+    const last = vector[dimension - 1];
+    if (last !== embedding && last !== -embedding) {
+      continue;
+    }
+    const centered = (last === embedding ? vector[dimension - 2] : -vector[dimension - 2]) / weights[0];
+    const candidate = mod((centered + firstHalf - first.U) * firstInv, n);
+    if (candidate === ZERO) {
+      continue;
+    }
+    const privateKey = numberToBytes(candidate, 32);
+    if (bytesToHex(getPublicKey(privateKey, scheme)) === bytesToHex(pubKey)) {
+      return privateKey;
+    }
+  }
+
+  throw new Error("Lattice reduction did not reveal the key: more signatures or more leaked bits are needed");
+}
+
+/**
+ * Measure how often the lattice attack succeeds for combinations of leaked bits and signature counts
+ * Each trial attacks a fresh key; with a seed the keys and signatures (not the timings) are reproducible
+ * @param options - Leaked bit counts, signature counts, trials per combination, leak position, scheme and hex seed
+ * @returns One entry per (leakedBits, signatureCount) combination, in the order given
+ */
+export function hnpSuccessReport(options: HNPReportOptions): HNPReportEntry[] {
+  const trials = options.trials ?? 5;
+  if (!Number.isInteger(trials) || trials < 1) {
+    throw new OutOfRangeError("trials", "trials must be a positive integer");
+  }
+  if (!Array.isArray(options.leakedBits) || options.leakedBits.length === 0) {
+    throw new InvalidTypeError("leakedBits", "a non-empty array");
+  }
+  if (!Array.isArray(options.signatureCounts) || options.signatureCounts.length === 0) {
+    throw new InvalidTypeError("signatureCounts", "a non-empty array");
+  }
+  options.leakedBits.forEach((bits, i) => checkLeakBits(bits, `leakedBits[${i}]`));
+  options.signatureCounts.forEach((count, i) => {
+    if (!Number.isInteger(count) || count < 2) {
+      throw new OutOfRangeError(`signatureCounts[${i}]`, `signatureCounts[${i}] must be an integer of at least 2`);
+    }
+  });
+
+  const position = checkPosition(options.position ?? "msb", "position");
+  const scheme = checkScheme(options.scheme ?? "ecdsa", "scheme");
+  const seed = seedBytes(options.seed);
+  const entries: HNPReportEntry[] = [];
+
+  for (const bits of options.leakedBits) {
+    for (const count of options.signatureCounts) {
+      let successes = 0;
+      let elapsed = 0;
+      for (let trial = 0; trial < trials; trial++) {
+        const trialSeed = taggedHash("EOTS/hnp/trial", seed, numberToBytes(BigInt(bits), 2), numberToBytes(BigInt(count), 4), numberToBytes(BigInt(trial), 4));
+        const privateKey = numberToBytes(mod(bytesToNumber(taggedHash("EOTS/hnp/key", trialSeed)), CURVE.n - ONE) + ONE, 32);
+        const signatures = generateLeakySignatures(privateKey, count, { bits, position, biased: options.biased, scheme, seed: trialSeed });
+
+        const start = performance.now();
+        try {
+          recoverKeyFromLeakyNonces(getPublicKey(privateKey, scheme), signatures);
+          successes++;
+        } catch {
+          // The attack failed for this trial
+        }
+        elapsed += performance.now() - start;
+      }
+      entries.push({ leakedBits: bits, signatures: count, trials, successes, successRate: successes / trials, averageMilliseconds: elapsed / trials });
+    }
+  }
+
+  return entries;
+}
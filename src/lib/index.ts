@@ -1,8 +1,84 @@
 export * from "./types";
 export * from "./utils";
 export * from "./eots";
+export * from "./schnorr";
+export * from "./taproot";
+export * from "./bech32";
+export * from "./randomness";
+export * from "./merkle";
+export * from "./signer";
+export * from "./watcher";
+export * from "./evidence";
+export * from "./encoding";
+export * from "./nonce";
+export * from "./errors";
+export * from "./parse";
+export * from "./batch";
+export * from "./base58";
+export * from "./bip32";
+export * from "./mnemonic";
+export * from "./keystore";
+export * from "./transaction";
+export * from "./psbt";
+export * from "./sweep";
+export * from "./tapscript";
+export * from "./staking";
+export * from "./message";
+export * from "./simulation";
+export * from "./lattice";
+export * from "./hnp";
 
 // Re-export main functions for convenience
-export { generateEOTSKeyPair, signEOTS, verifyEOTS, extractPrivateKey, deriveTaprootAddress, getPublicKey, signatureToFullHex } from "./eots";
+export { generateEOTSKeyPair, signEOTS, verifyEOTS, verifyEOTSDetailed, extractPrivateKey, extractPrivateKeyDetailed, deriveTaprootAddress, getPublicKey, signatureToFullHex } from "./eots";
 
-export { hexToBytes, bytesToHex, generateRandomPrivateKey, generateRandomNonce, generateRandomMessageHash, isValidHex } from "./utils";
+export { generateSchnorrEOTSKeyPair, getSchnorrPublicKey, getPublicRandomness, signSchnorrEOTS, verifySchnorrEOTS, verifySchnorrEOTSDetailed, extractSchnorrPrivateKey, liftX, schnorrChallenge, signBIP340 } from "./schnorr";
+
+export { tweakPublicKey, tweakPrivateKey, encodeTaprootAddress, decodeTaprootAddress, taprootAddressFromPublicKey, NETWORK_HRP } from "./taproot";
+
+export { generateRandomnessSeed, deriveRandomness, getCommittedNonce, getPublicRandomnessBatch, getPublicNonceForHeight } from "./randomness";
+
+export { merkleRoot, merkleProof, verifyMerkleProof, commitPublicRandomness, getRandomnessProof, verifyCommittedSignature, merkleProofToJSON, merkleProofFromJSON } from "./merkle";
+
+export { DoubleSignError, createMemoryStore, createIndexedDBStore, createProtectedSigner, exportSigningHistory, importSigningHistory } from "./signer";
+
+export { createEquivocationWatcher, parseSignatureFeedJSON, parseSignatureFeedCSV } from "./watcher";
+
+export { createEvidence, evidenceFromAlert, verifyEvidence, encodeEvidence, decodeEvidence, evidenceToJSON, evidenceFromJSON, evidenceId } from "./evidence";
+
+export { signatureToDER, signatureFromDER, signatureToCompact, signatureFromCompact, signatureToBase64, signatureFromBase64, signatureToJSON, signatureFromJSON, detectSignatureFormat, parseSignature } from "./encoding";
+
+export { rfc6979Nonce, deriveNonce } from "./nonce";
+
+export { ParseError, MissingInputError, InvalidHexError, InvalidLengthError, OutOfRangeError, InvalidPointError, InvalidFormatError } from "./errors";
+
+export { parseBytes, parseHash32, parseScalar, parsePrivateKey, parsePublicKey, publicKeyFormat, canonicalPublicKey, parseEOTSSignature } from "./parse";
+
+export { verifyBatch } from "./batch";
+
+export { base58Encode, base58Decode, base58CheckEncode, base58CheckDecode } from "./base58";
+
+export { HARDENED_OFFSET, DEFAULT_EOTS_DERIVATION_PATH, hdKeyFromSeed, deriveChild, parseDerivationPath, formatDerivationPath, derivePath, toExtendedPublicKey, encodeExtendedKey, decodeExtendedKey, deriveEOTSKeys } from "./bip32";
+
+export { generateMnemonic, validateMnemonic, mnemonicToSeed } from "./mnemonic";
+
+export { InvalidKeystorePasswordError, encryptKeystore, decryptKeystore, parseKeystore } from "./keystore";
+
+export { SIGHASH_DEFAULT, SIGHASH_ALL, SIGHASH_NONE, SIGHASH_SINGLE, SIGHASH_ANYONECANPAY, encodeCompactSize, encodeTransaction, decodeTransaction, transactionId, transactionVsize, addressToScriptPubKey, taprootSighash } from "./transaction";
+
+export { encodeTaprootPSBT } from "./psbt";
+
+export { parseUTXOList, dustThreshold, signTaprootKeyPath, taprootScriptPubKey, buildSweepTransaction } from "./sweep";
+
+export { TAPSCRIPT_LEAF_VERSION, NUMS_INTERNAL_KEY, OP, encodeScriptNumber, compileScript, scriptToAsm, tapLeafHash, tapBranchHash, buildTapTree, taprootControlBlock } from "./tapscript";
+
+export { MAX_STAKING_TIME, buildTimelockScript, buildUnbondingScript, buildSlashingScript, buildStakingOutput } from "./staking";
+
+export { DEFAULT_FINALITY_VOTE_TAG, encodeFinalityVote, decodeFinalityVote, finalityVoteHash, isFinalityVote, messageHashOf } from "./message";
+
+export { MAX_SIMULATION_PROVIDERS, MAX_SIMULATION_HEIGHTS, parseSimulationConfig, runFinalitySimulation } from "./simulation";
+
+export { lllReduce } from "./lattice";
+
+export { generateLeakySignatures, recoverKeyFromLeakyNonces, hnpSuccessReport } from "./hnp";
+
+export { hexToBytes, bytesToHex, generateRandomPrivateKey, generateRandomNonce, generateRandomMessageHash, isValidHex, concatBytes, taggedHash, bytesToBase64, base64ToBytes } from "./utils";
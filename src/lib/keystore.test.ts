@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { encryptKeystore, decryptKeystore, parseKeystore, InvalidKeystorePasswordError } from "./keystore";
+import { getPublicKey } from "./eots";
+import { bytesToHex } from "./utils";
+import { MissingInputError, OutOfRangeError } from "./errors";
+import { EOTSKeystore } from "./types";
+
+const KEY = "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9";
+const SEED = "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f";
+const PASSWORD = "correct horse battery staple";
+
+// Low KDF costs keep the suite fast; the default scrypt cost is checked through the spy below
+const FAST = { scryptN: 2 ** 10 };
+
+// Pass-through spy, so tests can see the requested scrypt cost or swap in a cheap one
+vi.mock("@noble/hashes/scrypt", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@noble/hashes/scrypt")>();
+  return { ...actual, scryptAsync: vi.fn(actual.scryptAsync) };
+});
+const scrypt = vi.mocked(scryptAsync);
+
+afterEach(() => {
+  scrypt.mockClear();
+});
+
+describe("encryptKeystore / decryptKeystore", () => {
+  it("round-trips an ECDSA key through JSON with scrypt", async () => {
+    const keystore = await encryptKeystore(KEY, PASSWORD, { ...FAST, createdAt: new Date("2024-05-01T12:00:00Z") });
+    expect(keystore).toMatchObject({ format: "eots-keystore", version: 1, scheme: "ecdsa", createdAt: "2024-05-01T12:00:00.000Z", hasRandomnessSeed: false, kdf: { name: "scrypt", n: 1024, r: 8, p: 1 } });
+    expect(keystore.publicKey).toBe(bytesToHex(getPublicKey(KEY)));
+    expect(JSON.stringify(keystore)).not.toContain(KEY);
+
+    const decrypted = await decryptKeystore(JSON.stringify(keystore), PASSWORD);
+    expect(bytesToHex(decrypted.keyPair.privateKey)).toBe(KEY);
+    expect(decrypted.keyPair.scheme).toBe("ecdsa");
+    expect(decrypted.randomnessSeed).toBeUndefined();
+    expect(decrypted.createdAt).toBe("2024-05-01T12:00:00.000Z");
+  });
+
+  it("records the default scrypt parameters", async () => {
+    const actual = scrypt.getMockImplementation() as typeof scryptAsync;
+    scrypt.mockImplementation((password, salt, options) => actual(password, salt, { ...options, N: 2 ** 10 }));
+    try {
+      const keystore = parseKeystore(JSON.stringify(await encryptKeystore(KEY, PASSWORD)));
+      expect(keystore.kdf).toMatchObject({ name: "scrypt", n: 2 ** 17, r: 8, p: 1 });
+      expect(bytesToHex((await decryptKeystore(keystore, PASSWORD)).keyPair.privateKey)).toBe(KEY);
+      expect(scrypt.mock.calls.map(([, , options]) => options)).toEqual([expect.objectContaining({ N: 2 ** 17, r: 8, p: 1 }), expect.objectContaining({ N: 2 ** 17, r: 8, p: 1 })]);
+    } finally {
+      scrypt.mockImplementation(actual);
+    }
+  });
+
+  it("refuses a file whose KDF cost is above the bound without deriving a key", async () => {
+    const keystore = await encryptKeystore(KEY, PASSWORD, FAST);
+    scrypt.mockClear();
+    await expect(decryptKeystore({ ...keystore, kdf: { name: "scrypt", n: 2 ** 19, r: 8, p: 1, salt: keystore.kdf.salt } }, PASSWORD)).rejects.toThrow("Unsupported scrypt parameters");
+    await expect(decryptKeystore({ ...keystore, kdf: { name: "pbkdf2", iterations: 10000001, hash: "sha256", salt: keystore.kdf.salt } }, PASSWORD)).rejects.toThrow("PBKDF2 iterations must be between");
+    expect(scrypt).not.toHaveBeenCalled();
+  });
+
+  it("stores a Schnorr key with its randomness seed using PBKDF2", async () => {
+    const keystore = await encryptKeystore(KEY, PASSWORD, { scheme: "schnorr", randomnessSeed: SEED, kdf: "pbkdf2", pbkdf2Iterations: 1000 });
+    expect(keystore.kdf).toMatchObject({ name: "pbkdf2", iterations: 1000, hash: "sha256" });
+    expect(keystore.publicKey).toHaveLength(64);
+
+    const decrypted = await decryptKeystore(keystore, PASSWORD);
+    expect(bytesToHex(decrypted.keyPair.publicKey)).toBe(keystore.publicKey);
+    expect(bytesToHex(decrypted.randomnessSeed as Uint8Array)).toBe(SEED);
+  });
+
+  it("uses a fresh salt and IV for every encryption", async () => {
+    const [a, b] = await Promise.all([encryptKeystore(KEY, PASSWORD, FAST), encryptKeystore(KEY, PASSWORD, FAST)]);
+    expect(a.kdf.salt).not.toBe(b.kdf.salt);
+    expect(a.cipher.iv).not.toBe(b.cipher.iv);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  });
+
+  it("detects a wrong password", async () => {
+    const keystore = await encryptKeystore(KEY, PASSWORD, FAST);
+    await expect(decryptKeystore(keystore, "wrong password")).rejects.toBeInstanceOf(InvalidKeystorePasswordError);
+  });
+
+  it("rejects edited metadata", async () => {
+    const keystore = await encryptKeystore(KEY, PASSWORD, { ...FAST, scheme: "schnorr" });
+    await expect(decryptKeystore({ ...keystore, createdAt: new Date(0).toISOString() }, PASSWORD)).rejects.toBeInstanceOf(InvalidKeystorePasswordError);
+    await expect(decryptKeystore({ ...keystore, publicKey: bytesToHex(getPublicKey(SEED, "schnorr")) }, PASSWORD)).rejects.toBeInstanceOf(InvalidKeystorePasswordError);
+  });
+
+  it("does not depend on JSON key order or hex case", async () => {
+    const keystore = await encryptKeystore(KEY, PASSWORD, FAST);
+    const reordered = Object.fromEntries(Object.entries({ ...keystore, ciphertext: keystore.ciphertext.toUpperCase(), kdf: { ...keystore.kdf, salt: keystore.kdf.salt.toUpperCase() } }).reverse()) as unknown as EOTSKeystore;
+    expect(JSON.stringify(reordered)).not.toBe(JSON.stringify(keystore));
+    expect(bytesToHex((await decryptKeystore(reordered, PASSWORD)).keyPair.privateKey)).toBe(KEY);
+  });
+
+  it("validates its inputs", async () => {
+    await expect(encryptKeystore(KEY, "", FAST)).rejects.toBeInstanceOf(MissingInputError);
+    await expect(encryptKeystore("00".repeat(32), PASSWORD, FAST)).rejects.toBeInstanceOf(OutOfRangeError);
+    await expect(encryptKeystore(KEY, PASSWORD, { scryptN: 1000 })).rejects.toThrow("power of two");
+    await expect(encryptKeystore(KEY, PASSWORD, { kdf: "pbkdf2", pbkdf2Iterations: 10 })).rejects.toThrow("PBKDF2 iterations must be between");
+  });
+});
+
+describe("parseKeystore", () => {
+  const keystore = encryptKeystore(KEY, PASSWORD, FAST);
+
+  it("rejects malformed files before deriving any key", async () => {
+    const valid = await keystore;
+    const cases: [unknown, string][] = [
+      ["not json", "Keystore is not valid JSON"],
+      [{ ...valid, format: "other" }, "Unsupported keystore format"],
+      [{ ...valid, scheme: "rsa" }, "Unsupported keystore scheme"],
+      [{ ...valid, kdf: { ...valid.kdf, name: "argon2" } }, "Unsupported keystore key derivation function"],
+      [{ ...valid, kdf: { ...valid.kdf, n: 2 ** 30 } }, "Unsupported scrypt parameters"],
+      [{ ...valid, ciphertext: valid.ciphertext.slice(2) }, "Keystore fields must be hex strings of the expected length"],
+      [{ ...valid, hasRandomnessSeed: true }, "Keystore fields must be hex strings of the expected length"],
+    ];
+    for (const [input, message] of cases) {
+      expect(() => parseKeystore((typeof input === "string" ? input : JSON.stringify(input)) as string)).toThrow(message);
+    }
+  });
+
+  it("accepts its own output", async () => {
+    const valid: EOTSKeystore = await keystore;
+    expect(parseKeystore(JSON.stringify(valid))).toEqual(valid);
+  });
+});
@@ -0,0 +1,186 @@
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { DecryptedKeystore, EOTSKeystore, EOTSScheme, KeystoreKDF, KeystoreOptions } from "./types";
+import { bytesToHex, concatBytes, hexToBytes, isValidHex } from "./utils";
+import { parseBytes, parsePrivateKey } from "./parse";
+import { MissingInputError, OutOfRangeError } from "./errors";
+import { getPublicKey } from "./eots";
+
+/**
+ * Encrypted keystores
+ * A 32-byte key is derived from the password with scrypt (default) or PBKDF2-SHA256, whose parameters and salt
+ * are stored in the file, and the private key is encrypted with AES-256-GCM through WebCrypto. The metadata
+ * (public key, scheme, creation time, KDF parameters) is bound to the ciphertext as additional authenticated data.
+ */
+
+const DEFAULT_SCRYPT_N = 2 ** 17;
+const DEFAULT_PBKDF2_ITERATIONS = 600000;
+
+// Bounds on the KDF cost accepted from a file, so a crafted keystore cannot ask for minutes of work or gigabytes of memory
+const SCRYPT_N_RANGE = [2 ** 10, 2 ** 18];
+const PBKDF2_ITERATION_RANGE = [1000, 10000000];
+
+/**
+ * Thrown when a keystore does not decrypt: the password is wrong or the file was modified
+ */
+export class InvalidKeystorePasswordError extends Error {
+  constructor() {
+    super("Wrong password, or the keystore has been modified");
+    this.name = "InvalidKeystorePasswordError";
+  }
+}
+
+// Helper function to check a scrypt cost or PBKDF2 iteration count against its allowed range
+function checkKdfCost(kdf: KeystoreKDF): void {
+  if (kdf.name === "scrypt") {
+    const powerOfTwo = Number.isInteger(kdf.n) && (kdf.n & (kdf.n - 1)) === 0;
+    if (!powerOfTwo || kdf.n < SCRYPT_N_RANGE[0] || kdf.n > SCRYPT_N_RANGE[1] || kdf.r !== 8 || kdf.p !== 1) {
+      throw new Error("Unsupported scrypt parameters (n must be a power of two from 2^10 to 2^18, r = 8, p = 1)");
+    }
+    return;
+  }
+  if (!Number.isInteger(kdf.iterations) || kdf.iterations < PBKDF2_ITERATION_RANGE[0] || kdf.iterations > PBKDF2_ITERATION_RANGE[1]) {
+    throw new Error(`PBKDF2 iterations must be between ${PBKDF2_ITERATION_RANGE[0]} and ${PBKDF2_ITERATION_RANGE[1]}`);
+  }
+}
+
+// Helper function to derive the AES-256-GCM key from the password
+async function deriveKey(password: string, kdf: KeystoreKDF, usage: KeyUsage): Promise<CryptoKey> {
+  const passwordBytes = new TextEncoder().encode(password.normalize("NFKC"));
+  const salt = hexToBytes(kdf.salt);
+
+  if (kdf.name === "pbkdf2") {
+    const baseKey = await crypto.subtle.importKey("raw", passwordBytes, "PBKDF2", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey({ name: "PBKDF2", hash: "SHA-256", salt, iterations: kdf.iterations }, baseKey, { name: "AES-GCM", length: 256 }, false, [usage]);
+  }
+
+  const keyBytes = await scryptAsync(passwordBytes, salt, { N: kdf.n, r: kdf.r, p: kdf.p, dkLen: 32 });
+  return crypto.subtle.importKey("raw", keyBytes, "AES-GCM", false, [usage]);
+}
+
+// Helper function to serialize the metadata authenticated alongside the ciphertext, independent of JSON key order
+function additionalData(keystore: Omit<EOTSKeystore, "ciphertext">): Uint8Array {
+  const { format, version, publicKey, scheme, createdAt, hasRandomnessSeed, kdf, cipher } = keystore;
+  const kdfFields = kdf.name === "scrypt" ? [kdf.name, kdf.n, kdf.r, kdf.p, kdf.salt.toLowerCase()] : [kdf.name, kdf.iterations, kdf.hash, kdf.salt.toLowerCase()];
+  const fields = [format, version, publicKey.toLowerCase(), scheme, createdAt, hasRandomnessSeed, ...kdfFields, cipher.name, cipher.iv.toLowerCase()];
+  return new TextEncoder().encode(JSON.stringify(fields));
+}
+
+/**
+ * Encrypt a private key into a keystore
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param password - Password (Unicode NFKC-normalized before key derivation)
+ * @param options - Scheme, randomness seed to store alongside the key, KDF choice and cost, creation time
+ * @returns EOTSKeystore, ready for JSON.stringify
+ */
+export async function encryptKeystore(privateKey: Uint8Array | string, password: string, options: KeystoreOptions = {}): Promise<EOTSKeystore> {
+  const privKey = parsePrivateKey(privateKey);
+  if (!password) {
+    throw new MissingInputError("password");
+  }
+  const seed = options.randomnessSeed === undefined ? undefined : parseBytes(options.randomnessSeed, "randomnessSeed", 32);
+  const scheme: EOTSScheme = options.scheme ?? "ecdsa";
+
+  const salt = bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+  const kdf: KeystoreKDF =
+    options.kdf === "pbkdf2"
+      ? { name: "pbkdf2", iterations: options.pbkdf2Iterations ?? DEFAULT_PBKDF2_ITERATIONS, hash: "sha256", salt }
+      : { name: "scrypt", n: options.scryptN ?? DEFAULT_SCRYPT_N, r: 8, p: 1, salt };
+  try {
+    checkKdfCost(kdf);
+  } catch (error) {
+    throw new OutOfRangeError(kdf.name === "scrypt" ? "scryptN" : "pbkdf2Iterations", (error as Error).message);
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const metadata: Omit<EOTSKeystore, "ciphertext"> = {
+    format: "eots-keystore",
+    version: 1,
+    publicKey: bytesToHex(getPublicKey(privKey, scheme)),
+    scheme,
+    createdAt: (options.createdAt ?? new Date()).toISOString(),
+    hasRandomnessSeed: seed !== undefined,
+    kdf,
+    cipher: { name: "aes-256-gcm", iv: bytesToHex(iv) },
+  };
+
+  const key = await deriveKey(password, kdf, "encrypt");
+  const plaintext = seed ? concatBytes(privKey, seed) : privKey;
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: additionalData(metadata) }, key, plaintext);
+
+  return { ...metadata, ciphertext: bytesToHex(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Parse and validate the structure of a keystore file (does not decrypt it)
+ * @param data - Keystore object or JSON string
+ * @returns EOTSKeystore
+ */
+export function parseKeystore(data: EOTSKeystore | string): EOTSKeystore {
+  let keystore: EOTSKeystore;
+  try {
+    keystore = typeof data === "string" ? JSON.parse(data) : data;
+  } catch {
+    throw new Error("Keystore is not valid JSON");
+  }
+
+  if (keystore?.format !== "eots-keystore" || keystore.version !== 1) {
+    throw new Error("Unsupported keystore format");
+  }
+  if (keystore.scheme !== "ecdsa" && keystore.scheme !== "schnorr") {
+    throw new Error("Unsupported keystore scheme");
+  }
+  if (typeof keystore.createdAt !== "string" || typeof keystore.hasRandomnessSeed !== "boolean" || keystore.cipher?.name !== "aes-256-gcm") {
+    throw new Error("Malformed keystore metadata");
+  }
+
+  const kdf = keystore.kdf;
+  if (kdf?.name !== "scrypt" && !(kdf?.name === "pbkdf2" && kdf.hash === "sha256")) {
+    throw new Error("Unsupported keystore key derivation function");
+  }
+  checkKdfCost(kdf);
+
+  const hexFields: [unknown, number][] = [
+    [keystore.publicKey, keystore.scheme === "schnorr" ? 32 : 33],
+    [kdf.salt, 16],
+    [keystore.cipher.iv, 12],
+    [keystore.ciphertext, (keystore.hasRandomnessSeed ? 64 : 32) + 16],
+  ];
+  if (!hexFields.every(([field, length]) => typeof field === "string" && isValidHex(field) && field.length === length * 2)) {
+    throw new Error("Keystore fields must be hex strings of the expected length");
+  }
+  return keystore;
+}
+
+/**
+ * Decrypt a keystore
+ * @param data - Keystore object or JSON string
+ * @param password - Password the keystore was encrypted with
+ * @returns DecryptedKeystore (throws InvalidKeystorePasswordError for a wrong password)
+ */
+export async function decryptKeystore(data: EOTSKeystore | string, password: string): Promise<DecryptedKeystore> {
+  const keystore = parseKeystore(data);
+  if (!password) {
+    throw new MissingInputError("password");
+  }
+
+  const key = await deriveKey(password, keystore.kdf, "decrypt");
+  let plaintext: Uint8Array;
+  try {
+    const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv: hexToBytes(keystore.cipher.iv), additionalData: additionalData(keystore) }, key, hexToBytes(keystore.ciphertext));
+    plaintext = new Uint8Array(decrypted);
+  } catch {
+    throw new InvalidKeystorePasswordError();
+  }
+
+  const privateKey = plaintext.slice(0, 32);
+  const publicKey = getPublicKey(privateKey, keystore.scheme);
+  if (bytesToHex(publicKey) !== keystore.publicKey.toLowerCase()) {
+    throw new Error("Decrypted private key does not match the keystore public key");
+  }
+
+  return {
+    keyPair: { privateKey, publicKey, scheme: keystore.scheme },
+    randomnessSeed: keystore.hasRandomnessSeed ? plaintext.slice(32) : undefined,
+    createdAt: keystore.createdAt,
+  };
+}
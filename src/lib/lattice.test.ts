@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { lllReduce } from "./lattice";
+
+const rows = (values: number[][]) => values.map((row) => row.map(BigInt));
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+// Helper function to compute a determinant exactly (Bareiss elimination)
+function determinant(matrix: bigint[][]): bigint {
+  const m = matrix.map((row) => [...row]);
+  let sign = ONE;
+  let previous = ONE;
+  for (let k = 0; k < m.length - 1; k++) {
+    const pivot = m.findIndex((row, i) => i >= k && row[k] !== ZERO);
+    if (pivot === -1) return ZERO;
+    if (pivot !== k) {
+      [m[k], m[pivot]] = [m[pivot], m[k]];
+      sign = -sign;
+    }
+    for (let i = k + 1; i < m.length; i++) {
+      for (let j = k + 1; j < m.length; j++) {
+        m[i][j] = (m[i][j] * m[k][k] - m[i][k] * m[k][j]) / previous;
+      }
+    }
+    previous = m[k][k];
+  }
+  return sign * m[m.length - 1][m.length - 1];
+}
+
+// Helper function to check size reduction and the Lovász condition with exact rational Gram-Schmidt
+function isLLLReduced(basis: bigint[][], delta: [bigint, bigint]): boolean {
+  type Fraction = [bigint, bigint];
+  const gcd = (a: bigint, b: bigint): bigint => (b === ZERO ? (a < ZERO ? -a : a) : gcd(b, a % b));
+  const fraction = (a: bigint, b: bigint): Fraction => {
+    const g = gcd(a, b) * (b < ZERO ? -ONE : ONE);
+    return [a / g, b / g];
+  };
+  const sub = ([a, b]: Fraction, [c, d]: Fraction): Fraction => fraction(a * d - c * b, b * d);
+  const mul = ([a, b]: Fraction, [c, d]: Fraction): Fraction => fraction(a * c, b * d);
+  const div = ([a, b]: Fraction, [c, d]: Fraction): Fraction => fraction(a * d, b * c);
+  const dot = (u: Fraction[], v: Fraction[]) => u.reduce<Fraction>((sum, x, i) => fraction(sum[0] * x[1] * v[i][1] + x[0] * v[i][0] * sum[1], sum[1] * x[1] * v[i][1]), [ZERO, ONE]);
+
+  const star: Fraction[][] = [];
+  const norms: Fraction[] = [];
+  const mu: Fraction[][] = [];
+  basis.forEach((row, k) => {
+    let v: Fraction[] = row.map((x) => [x, ONE]);
+    mu[k] = [];
+    for (let j = 0; j < k; j++) {
+      mu[k][j] = div(dot(row.map((x) => [x, ONE]), star[j]), norms[j]);
+      v = v.map((x, i) => sub(x, mul(mu[k][j], star[j][i])));
+    }
+    star[k] = v;
+    norms[k] = dot(v, v);
+  });
+
+  const sizeReduced = mu.every((coefficients) => coefficients.every(([a, b]) => (a < ZERO ? -a : a) * BigInt(2) <= b));
+  const lovasz = norms.every((norm, k) => k === 0 || norm[0] * delta[1] * norms[k - 1][1] * mu[k][k - 1][1] ** BigInt(2) >= (delta[0] * mu[k][k - 1][1] ** BigInt(2) - delta[1] * mu[k][k - 1][0] ** BigInt(2)) * norms[k - 1][0] * norm[1]);
+  return sizeReduced && lovasz;
+}
+
+describe("lllReduce", () => {
+  it("reduces the textbook example", () => {
+    expect(lllReduce(rows([[1, 1, 1], [-1, 0, 2], [3, 5, 6]]), 0.75)).toEqual(rows([[0, 1, 0], [1, 0, 1], [-1, 0, 2]]));
+  });
+
+  it("returns an LLL-reduced basis of the same lattice for large entries", () => {
+    // Subset-sum lattice with 300-bit weights: rows (e_i, w_i) and (0, -target), planted relation w1 + w4 + w6 = target
+    let state = BigInt(12345);
+    const modulus = ONE << BigInt(300);
+    const next = () => (state = (state * BigInt("6364136223846793005") + BigInt("1442695040888963407")) % modulus);
+    const weights = Array.from({ length: 8 }, next);
+    const target = weights[1] + weights[4] + weights[6];
+    const basis = [...weights.map((weight, i) => Array.from({ length: 9 }, (_, j) => (j === i ? ONE : j === 8 ? weight : ZERO))), Array.from({ length: 9 }, (_, j) => (j === 8 ? -target : ZERO))];
+
+    const reduced = lllReduce(basis);
+    const abs = (x: bigint) => (x < ZERO ? -x : x);
+    expect(abs(determinant(reduced))).toBe(abs(determinant(basis)));
+    expect(isLLLReduced(reduced, [BigInt(99), BigInt(100)])).toBe(true);
+    expect(reduced.map((row) => row.map(abs).join(","))).toContain("0,1,0,0,1,0,1,0,0");
+  });
+
+  it("rejects invalid bases", () => {
+    expect(lllReduce([])).toEqual([]);
+    expect(() => lllReduce(rows([[1, 2], [3]]))).toThrow("Basis vectors must all have the same length");
+    expect(() => lllReduce(rows([[1, 2], [2, 4]]))).toThrow("Basis vectors must be linearly independent");
+    expect(() => lllReduce(rows([[1, 0], [0, 1]]), 0.25)).toThrow("delta must be greater than 0.25 and at most 1");
+  });
+});
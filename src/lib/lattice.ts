@@ -0,0 +1,219 @@
+/**
+ * Lattice reduction over BigInt
+ * The exact algorithm is integral LLL (Cohen, "A Course in Computational Algebraic Number Theory", Algorithm 2.6.7):
+ * the Gram-Schmidt data is kept as the integers d_i (Gram determinants) and λ_ij = d_j·μ_ij, so every step is exact.
+ * Those integers grow to (dimension × entry size) bits, which makes it slow on its own, so lllReduce first runs a
+ * Schnorr-Euchner pass with the basis in BigInt and the Gram-Schmidt coefficients in doubles. That pass does nearly
+ * all of the swaps; the integral pass then only confirms the result, or finishes it if rounding got in the way.
+ */
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const DELTA_SCALE = BigInt(1000);
+const MAX_FLOAT_ENTRY_BITS = 480; // squared norms must stay below the double range (2^1024)
+
+// Helper function to divide rounding toward negative infinity (b > 0)
+function floorDiv(a: bigint, b: bigint): bigint {
+  return a >= ZERO ? a / b : -((-a + b - ONE) / b);
+}
+
+// Helper function to compute the dot product of two integer vectors
+function dot(a: bigint[], b: bigint[]): bigint {
+  let sum = ZERO;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Helper function to LLL-reduce with floating-point Gram-Schmidt coefficients (Schnorr-Euchner); the basis stays
+// exact, but rounding may leave it short of fully reduced, so the result is only a starting point for integralLLL
+function floatingPointLLL(basis: bigint[][], delta: number): bigint[][] {
+  const n = basis.length;
+  const b = basis.map((row) => [...row]);
+  // Exact Gram matrix, updated alongside the basis so that inner products never have to be recomputed
+  const gram = b.map((row) => b.map((other) => dot(row, other)));
+  const mu: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  const norms: number[] = new Array(n).fill(0);
+
+  const orthogonalize = (k: number) => {
+    for (let j = 0; j < k; j++) {
+      let value = Number(gram[k][j]);
+      for (let i = 0; i < j; i++) {
+        value -= mu[j][i] * mu[k][i] * norms[i];
+      }
+      mu[k][j] = value / norms[j];
+    }
+    norms[k] = Number(gram[k][k]);
+    for (let j = 0; j < k; j++) {
+      norms[k] -= mu[k][j] * mu[k][j] * norms[j];
+    }
+  };
+
+  // b_k -= q·b_j, keeping the Gram matrix in step
+  const subtract = (k: number, j: number, q: bigint) => {
+    for (let i = 0; i < b[k].length; i++) {
+      b[k][i] -= q * b[j][i];
+    }
+    const kj = gram[k][j];
+    for (let i = 0; i < n; i++) {
+      if (i !== k) {
+        gram[k][i] -= q * gram[j][i];
+        gram[i][k] = gram[k][i];
+      }
+    }
+    gram[k][k] += q * q * gram[j][j] - TWO * q * kj;
+  };
+
+  norms[0] = Number(gram[0][0]);
+  const maxIterations = 1000 * n * n;
+  let k = 1;
+  for (let iteration = 0; k < n && iteration < maxIterations; iteration++) {
+    // Size-reduce b_k, re-deriving its coefficients after large steps whose rounding error may exceed 1/2
+    for (let pass = 0; pass < 64; pass++) {
+      orthogonalize(k);
+      let large = false;
+      for (let j = k - 1; j >= 0; j--) {
+        if (!Number.isFinite(mu[k][j])) {
+          return b; // precision ran out; leave the rest to the exact pass
+        }
+        if (Math.abs(mu[k][j]) <= 0.5) {
+          continue;
+        }
+        const q = Math.round(mu[k][j]);
+        large ||= Math.abs(q) > 2 ** 26;
+        subtract(k, j, BigInt(q));
+        for (let i = 0; i < j; i++) {
+          mu[k][i] -= q * mu[j][i];
+        }
+        mu[k][j] -= q;
+      }
+      if (!large) {
+        break;
+      }
+    }
+    orthogonalize(k);
+
+    if (norms[k] < (delta - mu[k][k - 1] * mu[k][k - 1]) * norms[k - 1]) {
+      [b[k], b[k - 1]] = [b[k - 1], b[k]];
+      [gram[k], gram[k - 1]] = [gram[k - 1], gram[k]];
+      for (const row of gram) {
+        [row[k], row[k - 1]] = [row[k - 1], row[k]];
+      }
+      if (k === 1) {
+        norms[0] = Number(gram[0][0]);
+      }
+      k = Math.max(1, k - 1);
+    } else {
+      k++;
+    }
+  }
+
+  return b;
+}
+
+// Helper function to LLL-reduce with exact integer arithmetic (Cohen, Algorithm 2.6.7)
+function integralLLL(basis: bigint[][], deltaNum: bigint): bigint[][] {
+  const width = basis[0].length;
+
+  // 1-based indexing as in the reference algorithm: b[1..n], d[0..n], lambda[k][j] for j < k
+  const n = basis.length;
+  const b: bigint[][] = [[], ...basis.map((row) => [...row])];
+  const d: bigint[] = new Array(n + 1).fill(ZERO);
+  const lambda: bigint[][] = Array.from({ length: n + 1 }, () => new Array(n + 1).fill(ZERO));
+  d[0] = ONE;
+  d[1] = dot(b[1], b[1]);
+  if (d[1] === ZERO) {
+    throw new Error("Basis vectors must be linearly independent");
+  }
+
+  const reduce = (k: number, l: number) => {
+    if (TWO * (lambda[k][l] < ZERO ? -lambda[k][l] : lambda[k][l]) <= d[l]) {
+      return;
+    }
+    const q = floorDiv(TWO * lambda[k][l] + d[l], TWO * d[l]);
+    for (let i = 0; i < width; i++) {
+      b[k][i] -= q * b[l][i];
+    }
+    lambda[k][l] -= q * d[l];
+    for (let i = 1; i < l; i++) {
+      lambda[k][i] -= q * lambda[l][i];
+    }
+  };
+
+  const swap = (k: number, kmax: number) => {
+    [b[k], b[k - 1]] = [b[k - 1], b[k]];
+    for (let j = 1; j < k - 1; j++) {
+      [lambda[k][j], lambda[k - 1][j]] = [lambda[k - 1][j], lambda[k][j]];
+    }
+    const l = lambda[k][k - 1];
+    const B = (d[k - 2] * d[k] + l * l) / d[k - 1];
+    for (let i = k + 1; i <= kmax; i++) {
+      const t = lambda[i][k];
+      lambda[i][k] = (d[k] * lambda[i][k - 1] - l * t) / d[k - 1];
+      lambda[i][k - 1] = (B * t + l * lambda[i][k]) / d[k];
+    }
+    d[k - 1] = B;
+  };
+
+  let k = 2;
+  let kmax = 1;
+  while (k <= n) {
+    // Incremental Gram-Schmidt for a row seen for the first time
+    if (k > kmax) {
+      kmax = k;
+      for (let j = 1; j <= k; j++) {
+        let u = dot(b[k], b[j]);
+        for (let i = 1; i < j; i++) {
+          u = (d[i] * u - lambda[k][i] * lambda[j][i]) / d[i - 1];
+        }
+        if (j < k) {
+          lambda[k][j] = u;
+        } else if (u === ZERO) {
+          throw new Error("Basis vectors must be linearly independent");
+        } else {
+          d[k] = u;
+        }
+      }
+    }
+
+    // Lovász condition: d_k·d_(k-2) >= (delta - μ²)·d_(k-1)², scaled to integers
+    reduce(k, k - 1);
+    const l = lambda[k][k - 1];
+    if (DELTA_SCALE * d[k] * d[k - 2] < deltaNum * d[k - 1] * d[k - 1] - DELTA_SCALE * l * l) {
+      swap(k, kmax);
+      k = Math.max(2, k - 1);
+    } else {
+      for (let j = k - 2; j >= 1; j--) {
+        reduce(k, j);
+      }
+      k++;
+    }
+  }
+
+  return b.slice(1);
+}
+
+/**
+ * LLL-reduce a lattice basis
+ * @param basis - Linearly independent integer row vectors, all of the same length (not modified)
+ * @param delta - Lovász parameter in (0.25, 1], read to three decimals (defaults to 0.99)
+ * @returns Reduced basis spanning the same lattice; the first row is within 2^((d-1)/2) of the shortest vector
+ */
+export function lllReduce(basis: bigint[][], delta = 0.99): bigint[][] {
+  if (basis.length === 0) {
+    return [];
+  }
+  const width = basis[0].length;
+  if (basis.some((row) => row.length !== width)) {
+    throw new Error("Basis vectors must all have the same length");
+  }
+  if (!(delta > 0.25 && delta <= 1)) {
+    throw new Error("delta must be greater than 0.25 and at most 1");
+  }
+
+  const largest = basis.reduce((max, row) => row.reduce((m, x) => (x < ZERO ? (-x > m ? -x : m) : x > m ? x : m), max), ZERO);
+  const start = basis.length > 1 && largest.toString(2).length <= MAX_FLOAT_ENTRY_BITS ? floatingPointLLL(basis, delta) : basis;
+  return integralLLL(start, BigInt(Math.round(delta * 1000)));
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { CURVE } from "@noble/secp256k1";
+import { bytesToNumber, numberToBytes, numberToBytesInto, mod, modInverse, batchInverse } from "./math";
+import { bytesToHex } from "./utils";
+
+describe("byte/scalar conversion", () => {
+  it.each([0, 1, 3, 4, 5, 31, 32, 33])("round-trips %i-byte values", (length) => {
+    const bytes = new Uint8Array(length).map((_, i) => (i * 37 + 11) & 0xff);
+    const num = bytesToNumber(bytes);
+    expect(num).toBe(length === 0 ? BigInt(0) : BigInt("0x" + bytesToHex(bytes)));
+    expect(numberToBytes(num, length)).toEqual(bytes);
+  });
+
+  it("pads small values and rejects values that do not fit", () => {
+    expect(bytesToHex(numberToBytes(BigInt(0x1234), 4))).toBe("00001234");
+    expect(bytesToHex(numberToBytes(CURVE.n, 32))).toBe(CURVE.n.toString(16));
+    expect(() => numberToBytes(BigInt(1) << BigInt(256), 32)).toThrow("Number does not fit in 32 bytes");
+    expect(() => numberToBytes(BigInt(-1), 32)).toThrow("Number does not fit in 32 bytes");
+  });
+
+  it("writes into an existing buffer at an offset", () => {
+    const out = new Uint8Array(6).fill(0xee);
+    expect(numberToBytesInto(BigInt(0x0102), out, 1, 4)).toBe(out);
+    expect(bytesToHex(out)).toBe("ee00000102ee");
+  });
+});
+
+describe("modular inverses", () => {
+  it("inverts modulo n and rejects zero", () => {
+    for (const a of [BigInt(1), BigInt(2), CURVE.n - BigInt(1), BigInt(-5)]) {
+      expect(mod(modInverse(a, CURVE.n) * a, CURVE.n)).toBe(BigInt(1));
+    }
+    expect(() => modInverse(BigInt(0), CURVE.n)).toThrow("Modular inverse does not exist");
+    expect(() => modInverse(CURVE.n, CURVE.n)).toThrow("Modular inverse does not exist");
+  });
+
+  it("batch-inverts to the same values as one-by-one inversion", () => {
+    const values = [BigInt(1), BigInt(7), CURVE.n - BigInt(2), CURVE.Gx, CURVE.Gy];
+    expect(batchInverse(values, CURVE.n)).toEqual(values.map((v) => modInverse(v, CURVE.n)));
+    expect(batchInverse([], CURVE.n)).toEqual([]);
+    expect(() => batchInverse([BigInt(3), BigInt(0)], CURVE.n)).toThrow("Modular inverse does not exist");
+  });
+});
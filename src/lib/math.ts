@@ -0,0 +1,96 @@
+const EIGHT = BigInt(8);
+const THIRTY_TWO = BigInt(32);
+const BYTE_MASK = BigInt(0xff);
+const WORD_MASK = BigInt(0xffffffff);
+
+// Helper function to convert bytes to BigInt, reading 32-bit words instead of going through hex
+export function bytesToNumber(bytes: Uint8Array): bigint {
+  let result = BigInt(0);
+  const head = bytes.length % 4;
+  for (let i = 0; i < head; i++) {
+    result = (result << EIGHT) | BigInt(bytes[i]);
+  }
+  for (let i = head; i < bytes.length; i += 4) {
+    const word = ((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0;
+    result = (result << THIRTY_TWO) | BigInt(word);
+  }
+  return result;
+}
+
+// Helper function to write a BigInt big-endian into an existing buffer without allocating
+export function numberToBytesInto(num: bigint, out: Uint8Array, offset = 0, length = out.length - offset): Uint8Array {
+  if (num < BigInt(0) || num >> BigInt(8 * length) !== BigInt(0)) {
+    throw new Error(`Number does not fit in ${length} bytes`);
+  }
+  let i = offset + length;
+  for (; i - offset >= 4; i -= 4) {
+    const word = Number(num & WORD_MASK);
+    out[i - 1] = word & 0xff;
+    out[i - 2] = (word >>> 8) & 0xff;
+    out[i - 3] = (word >>> 16) & 0xff;
+    out[i - 4] = word >>> 24;
+    num >>= THIRTY_TWO;
+  }
+  for (; i > offset; i--) {
+    out[i - 1] = Number(num & BYTE_MASK);
+    num >>= EIGHT;
+  }
+  return out;
+}
+
+// Helper function to convert BigInt to bytes
+export function numberToBytes(num: bigint, length: number): Uint8Array {
+  return numberToBytesInto(num, new Uint8Array(length));
+}
+
+// Helper function to mod operation
+export function mod(a: bigint, b: bigint): bigint {
+  const result = a % b;
+  return result >= BigInt(0) ? result : result + b;
+}
+
+// Helper function to modular inverse using extended Euclidean algorithm
+export function modInverse(a: bigint, m: bigint): bigint {
+  let oldR = mod(a, m);
+  let r = m;
+  let oldS = BigInt(1);
+  let s = BigInt(0);
+
+  while (r !== BigInt(0)) {
+    const quotient = oldR / r;
+    const nextR = oldR - quotient * r;
+    oldR = r;
+    r = nextR;
+    const nextS = oldS - quotient * s;
+    oldS = s;
+    s = nextS;
+  }
+
+  if (oldR !== BigInt(1)) throw new Error("Modular inverse does not exist");
+  return oldS < BigInt(0) ? oldS + m : oldS;
+}
+
+/**
+ * Invert many values with a single modular inverse (Montgomery's trick)
+ * Costs one inversion plus 3(n - 1) multiplications instead of n inversions
+ * @param values - Values to invert
+ * @param m - Modulus
+ * @returns Inverses in the same order as the values
+ */
+export function batchInverse(values: bigint[], m: bigint): bigint[] {
+  // prefix[i] = values[0] * ... * values[i - 1]
+  const prefix = new Array<bigint>(values.length);
+  let acc = BigInt(1);
+  for (let i = 0; i < values.length; i++) {
+    prefix[i] = acc;
+    acc = mod(acc * values[i], m);
+  }
+
+  let inv = modInverse(acc, m);
+  const result = new Array<bigint>(values.length);
+  for (let i = values.length - 1; i >= 0; i--) {
+    result[i] = mod(inv * prefix[i], m);
+    inv = mod(inv * values[i], m);
+  }
+  return result;
+}
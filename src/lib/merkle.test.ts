@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { sha256 } from "@noble/hashes/sha256";
+import { merkleRoot, merkleProof, verifyMerkleProof, hashLeaf, hashNode, commitPublicRandomness, getRandomnessProof, verifyCommittedSignature, merkleProofToJSON, merkleProofFromJSON } from "./merkle";
+import { getPublicRandomnessBatch, deriveRandomness } from "./randomness";
+import { signEOTS, getPublicKey } from "./eots";
+import { bytesToHex, concatBytes } from "./utils";
+
+const SEED = "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f";
+const KEY = "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9";
+const HASH = "7e2d58d8b3bcdf1abadec7829054f90dda9805aab56c77333024b9d0a508b75c";
+
+// Helper function to build n distinct one-byte leaves
+function leaves(n: number): Uint8Array[] {
+  return Array.from({ length: n }, (_, i) => new Uint8Array([i]));
+}
+
+describe("merkle tree", () => {
+  it("follows the RFC 6962 layout", () => {
+    const items = leaves(3);
+    expect(bytesToHex(merkleRoot([]))).toBe(bytesToHex(sha256(new Uint8Array(0))));
+    expect(bytesToHex(merkleRoot(items))).toBe(bytesToHex(hashNode(hashNode(hashLeaf(items[0]), hashLeaf(items[1])), hashLeaf(items[2]))));
+  });
+
+  it("prefixes leaves with 0x00 and inner nodes with 0x01", () => {
+    const [a, b] = leaves(2);
+    expect(bytesToHex(hashLeaf(a))).toBe(bytesToHex(sha256(concatBytes(new Uint8Array([0x00]), a))));
+    expect(bytesToHex(hashNode(a, b))).toBe(bytesToHex(sha256(concatBytes(new Uint8Array([0x01]), a, b))));
+    expect(bytesToHex(merkleRoot([a]))).toBe(bytesToHex(hashLeaf(a)));
+  });
+
+  it.each([1, 2, 3, 5, 8, 13])("proves every leaf of a %i-leaf tree", (n) => {
+    const items = leaves(n);
+    const root = merkleRoot(items);
+    for (let i = 0; i < n; i++) {
+      const proof = merkleProof(items, i);
+      expect(verifyMerkleProof(root, items[i], proof)).toBe(true);
+      expect(verifyMerkleProof(root, new Uint8Array([0xff]), proof)).toBe(false);
+      expect(merkleProofFromJSON(JSON.stringify(merkleProofToJSON(proof)))).toEqual(proof);
+    }
+  });
+
+  it("rejects bad proof requests", () => {
+    expect(() => merkleProof(leaves(2), 2)).toThrow("Merkle proof index out of range");
+    expect(() => merkleProofFromJSON({ index: 0 } as never)).toThrow("Invalid merkle proof: expected { index, total, aunts }");
+    expect(() => commitPublicRandomness({ chainId: "test", startHeight: 0, publicNonces: [] })).toThrow("Cannot commit to an empty randomness batch");
+  });
+});
+
+describe("committed randomness", () => {
+  const batch = getPublicRandomnessBatch(SEED, "test-chain", 100, 4);
+  const commitment = commitPublicRandomness(batch);
+  const publicKey = getPublicKey(KEY, "schnorr");
+
+  it("accepts a signature whose nonce is committed for its height", () => {
+    const signature = signEOTS(KEY, HASH, { seed: SEED, chainId: "test-chain", height: 102 }, "schnorr");
+    expect(bytesToHex(signature.r)).toBe(bytesToHex(deriveRandomness(SEED, "test-chain", 102).publicNonce));
+    expect(verifyCommittedSignature(publicKey, HASH, signature, commitment.root, getRandomnessProof(batch, 102), commitment, 102)).toEqual({ valid: true });
+  });
+
+  it("rejects a proof for another height", () => {
+    const signature = signEOTS(KEY, HASH, { seed: SEED, chainId: "test-chain", height: 102 }, "schnorr");
+    expect(verifyCommittedSignature(publicKey, HASH, signature, commitment.root, getRandomnessProof(batch, 101), commitment, 102)).toMatchObject({ valid: false, reason: "not_committed" });
+    expect(verifyCommittedSignature(publicKey, HASH, signature, commitment.root, getRandomnessProof(batch, 101), { startHeight: 100, count: commitment.count }, 101)).toMatchObject({ valid: false, reason: "not_committed" });
+  });
+
+  it("accepts committed ECDSA signatures against a hex root", () => {
+    const signature = signEOTS(KEY, HASH, { seed: SEED, chainId: "test-chain", height: 103 });
+    expect(verifyCommittedSignature(getPublicKey(KEY), HASH, signature, bytesToHex(commitment.root), getRandomnessProof(batch, 103), commitment, 103)).toEqual({ valid: true });
+  });
+
+  it("still requires a valid signature for a committed nonce", () => {
+    const signature = signEOTS(KEY, HASH, { seed: SEED, chainId: "test-chain", height: 102 }, "schnorr");
+    const other = sha256(new TextEncoder().encode("another block"));
+    expect(verifyCommittedSignature(publicKey, other, signature, commitment.root, getRandomnessProof(batch, 102), commitment, 102)).toMatchObject({ valid: false, reason: "mismatch" });
+  });
+
+  it("rejects a proof against another root", () => {
+    const signature = signEOTS(KEY, HASH, { seed: SEED, chainId: "test-chain", height: 102 }, "schnorr");
+    const otherRoot = commitPublicRandomness(getPublicRandomnessBatch(SEED, "other-chain", 100, 4)).root;
+    expect(verifyCommittedSignature(publicKey, HASH, signature, otherRoot, getRandomnessProof(batch, 102), commitment, 102)).toEqual({ valid: false, reason: "not_committed", message: "Public nonce is not included in the commitment root" });
+  });
+
+  it("rejects an uncommitted nonce", () => {
+    const signature = signEOTS(KEY, HASH, undefined, "schnorr");
+    expect(verifyCommittedSignature(publicKey, HASH, signature, commitment.root, getRandomnessProof(batch, 100), commitment, 100)).toMatchObject({ valid: false, reason: "not_committed" });
+  });
+
+  it("validates randomness inputs", () => {
+    expect(() => deriveRandomness("00", "test-chain", 1)).toThrow("Randomness seed must be at least 16 bytes");
+    expect(() => deriveRandomness(SEED, "test-chain", -1)).toThrow("Height must be a non-negative safe integer");
+    expect(() => getPublicRandomnessBatch(SEED, "test-chain", 0, 0)).toThrow("Batch size must be a positive integer");
+  });
+});
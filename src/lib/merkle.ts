@@ -0,0 +1,192 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { EOTSMessage, EOTSSignature, MerkleProof, PublicRandomnessBatch, PublicRandomnessCommitment, VerificationResult } from "./types";
+import { hexToBytes, bytesToHex, concatBytes } from "./utils";
+import { verifyEOTSDetailed } from "./eots";
+
+/**
+ * Merkle commitments over public randomness batches
+ * Tree layout follows RFC 6962 (as used by CometBFT): leaf = sha256(0x00 || data),
+ * node = sha256(0x01 || left || right), and a list of n items splits at the largest power of two below n
+ */
+
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+/**
+ * Hash a leaf: sha256(0x00 || data)
+ */
+export function hashLeaf(data: Uint8Array): Uint8Array {
+  return sha256(concatBytes(LEAF_PREFIX, data));
+}
+
+/**
+ * Hash an inner node: sha256(0x01 || left || right)
+ */
+export function hashNode(left: Uint8Array, right: Uint8Array): Uint8Array {
+  return sha256(concatBytes(NODE_PREFIX, left, right));
+}
+
+// Helper function to find the split point: largest power of two strictly less than n
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
+  }
+  return k;
+}
+
+/**
+ * Compute the merkle root of a list of items
+ * @param items - Leaf data
+ * @returns 32-byte root (sha256 of the empty string for an empty list)
+ */
+export function merkleRoot(items: Uint8Array[]): Uint8Array {
+  if (items.length === 0) {
+    return sha256(new Uint8Array(0));
+  }
+  if (items.length === 1) {
+    return hashLeaf(items[0]);
+  }
+  const k = splitPoint(items.length);
+  return hashNode(merkleRoot(items.slice(0, k)), merkleRoot(items.slice(k)));
+}
+
+/**
+ * Build an inclusion proof for one item
+ * @param items - Leaf data
+ * @param index - Index of the item to prove
+ * @returns MerkleProof with aunts ordered from the leaf up
+ */
+export function merkleProof(items: Uint8Array[], index: number): MerkleProof {
+  if (!Number.isInteger(index) || index < 0 || index >= items.length) {
+    throw new Error("Merkle proof index out of range");
+  }
+
+  let lo = 0;
+  let hi = items.length;
+  const path: Uint8Array[] = [];
+
+  // Walk down from the root, recording the sibling subtree at each split
+  while (hi - lo > 1) {
+    const mid = lo + splitPoint(hi - lo);
+    if (index < mid) {
+      path.push(merkleRoot(items.slice(mid, hi)));
+      hi = mid;
+    } else {
+      path.push(merkleRoot(items.slice(lo, mid)));
+      lo = mid;
+    }
+  }
+
+  return { index, total: items.length, aunts: path.reverse() };
+}
+
+// Helper function to recompute a subtree root from a leaf hash and its aunts (aunts ordered from the leaf up)
+function computeRootFromAunts(index: number, total: number, leafHash: Uint8Array, aunts: Uint8Array[]): Uint8Array | null {
+  if (index >= total || index < 0 || total <= 0) {
+    return null;
+  }
+  if (total === 1) {
+    return aunts.length === 0 ? leafHash : null;
+  }
+  if (aunts.length === 0) {
+    return null;
+  }
+
+  const k = splitPoint(total);
+  const sibling = aunts[aunts.length - 1];
+  const rest = aunts.slice(0, -1);
+  if (index < k) {
+    const left = computeRootFromAunts(index, k, leafHash, rest);
+    return left ? hashNode(left, sibling) : null;
+  }
+  const right = computeRootFromAunts(index - k, total - k, leafHash, rest);
+  return right ? hashNode(sibling, right) : null;
+}
+
+/**
+ * Verify that an item is included under a merkle root
+ * @param root - 32-byte merkle root as Uint8Array or hex string
+ * @param item - Leaf data
+ * @param proof - Inclusion proof
+ * @returns boolean indicating if the proof is valid
+ */
+export function verifyMerkleProof(root: Uint8Array | string, item: Uint8Array, proof: MerkleProof): boolean {
+  const rootBytes = typeof root === "string" ? hexToBytes(root) : root;
+  const computed = computeRootFromAunts(proof.index, proof.total, hashLeaf(item), proof.aunts);
+  return computed !== null && bytesToHex(computed) === bytesToHex(rootBytes);
+}
+
+/**
+ * Commit to a published batch of public randomness
+ * @param batch - Public randomness batch
+ * @returns PublicRandomnessCommitment with the merkle root over the batch's public nonces
+ */
+export function commitPublicRandomness(batch: PublicRandomnessBatch): PublicRandomnessCommitment {
+  if (batch.publicNonces.length === 0) {
+    throw new Error("Cannot commit to an empty randomness batch");
+  }
+  return {
+    chainId: batch.chainId,
+    startHeight: batch.startHeight,
+    count: batch.publicNonces.length,
+    root: merkleRoot(batch.publicNonces),
+  };
+}
+
+/**
+ * Build the inclusion proof for the public nonce committed at a height
+ * @param batch - Public randomness batch
+ * @param height - Block height
+ * @returns MerkleProof whose index is height - startHeight
+ */
+export function getRandomnessProof(batch: PublicRandomnessBatch, height: number): MerkleProof {
+  return merkleProof(batch.publicNonces, height - batch.startHeight);
+}
+
+/**
+ * Verify a signature and that its public nonce (r) was committed under a merkle root
+ * @param publicKey - Public key as Uint8Array or hex string
+ * @param messageHash - Message hash as Uint8Array or hex string, or a FinalityVote (hashed with its tag)
+ * @param signature - EOTS signature
+ * @param root - Commitment merkle root as Uint8Array or hex string
+ * @param proof - Inclusion proof for signature.r
+ * @param commitment - Start height and size of the committed batch; proof.index must be height - startHeight
+ * @param height - Height the signature is for
+ * @returns VerificationResult, with reason "not_committed" when the nonce is not in the commitment
+ */
+export function verifyCommittedSignature(publicKey: Uint8Array | string, messageHash: EOTSMessage, signature: EOTSSignature, root: Uint8Array | string, proof: MerkleProof, commitment: Pick<PublicRandomnessCommitment, "startHeight" | "count">, height: number): VerificationResult {
+  const result = verifyEOTSDetailed(publicKey, messageHash, signature);
+  if (!result.valid) {
+    return result;
+  }
+
+  // A nonce committed for another height must not count, even when it is in the tree
+  if (proof.index !== height - commitment.startHeight || proof.total !== commitment.count) {
+    return { valid: false, reason: "not_committed", message: "Proof does not cover the committed slot for this height" };
+  }
+
+  if (!verifyMerkleProof(root, signature.r, proof)) {
+    return { valid: false, reason: "not_committed", message: "Public nonce is not included in the commitment root" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Serialize a merkle proof to a JSON-friendly object with hex aunts
+ */
+export function merkleProofToJSON(proof: MerkleProof): { index: number; total: number; aunts: string[] } {
+  return { index: proof.index, total: proof.total, aunts: proof.aunts.map(bytesToHex) };
+}
+
+/**
+ * Parse a merkle proof from its JSON form
+ */
+export function merkleProofFromJSON(json: string | { index: number; total: number; aunts: string[] }): MerkleProof {
+  const obj = typeof json === "string" ? JSON.parse(json) : json;
+  if (!Number.isInteger(obj?.index) || !Number.isInteger(obj?.total) || !Array.isArray(obj?.aunts)) {
+    throw new Error("Invalid merkle proof: expected { index, total, aunts }");
+  }
+  return { index: obj.index, total: obj.total, aunts: obj.aunts.map((a: string) => hexToBytes(a)) };
+}
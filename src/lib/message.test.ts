@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FINALITY_VOTE_TAG, decodeFinalityVote, encodeFinalityVote, finalityVoteHash, messageHashOf } from "./message";
+import { extractPrivateKey, extractPrivateKeyDetailed, getPublicKey, signEOTS, verifyEOTS } from "./eots";
+import { createEvidence, verifyEvidence } from "./evidence";
+import { commitPublicRandomness, getRandomnessProof, verifyCommittedSignature } from "./merkle";
+import { getPublicRandomnessBatch } from "./randomness";
+import { createMemoryStore, createProtectedSigner, DoubleSignError } from "./signer";
+import { bytesToHex, taggedHash } from "./utils";
+import { FinalityVote } from "./types";
+
+const BLOCK_HASH = "6f8c7e1c4b5d2f9e0a3b1c2d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f6071";
+const OTHER_HASH = "00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff";
+const vote: FinalityVote = { chainId: "bbn-test-5", height: 1234567, hash: BLOCK_HASH };
+
+const PRIVATE_KEY = "e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35";
+const NONCE = "a3b1f7c6e5d4c3b2a1908f7e6d5c4b3a29181716f5e4d3c2b1a09f8e7d6c5b4a";
+
+describe("finality vote encoding", () => {
+  it("uses the documented binary layout", () => {
+    const encoded = bytesToHex(encodeFinalityVote(vote));
+    expect(encoded).toBe("01" + "00" + "0a" + bytesToHex(new TextEncoder().encode("bbn-test-5")) + "000000000012d687" + BLOCK_HASH);
+    expect(bytesToHex(encodeFinalityVote({ ...vote, kind: "app" })).slice(2, 4)).toBe("01");
+  });
+
+  it("round-trips through the parser", () => {
+    const decoded = decodeFinalityVote(encodeFinalityVote({ ...vote, kind: "app", chainId: "链-1" }));
+    expect(decoded).toEqual({ chainId: "链-1", height: 1234567, hash: expect.any(Uint8Array), kind: "app" });
+    expect(bytesToHex(decoded.hash as Uint8Array)).toBe(BLOCK_HASH);
+    expect(decodeFinalityVote(bytesToHex(encodeFinalityVote({ ...vote, height: Number.MAX_SAFE_INTEGER }))).height).toBe(Number.MAX_SAFE_INTEGER);
+  });
+
+  it("rejects malformed encodings", () => {
+    const encoded = bytesToHex(encodeFinalityVote(vote));
+    expect(() => decodeFinalityVote(encoded.slice(0, -2))).toThrow("Finality vote is truncated");
+    expect(() => decodeFinalityVote(encoded + "00")).toThrow("Finality vote has trailing bytes");
+    expect(() => decodeFinalityVote("02" + encoded.slice(2))).toThrow("Unsupported finality vote version: 2");
+    expect(() => decodeFinalityVote("0102" + encoded.slice(4))).toThrow("Unknown finality vote kind byte: 2");
+    expect(() => decodeFinalityVote("010000" + "0020000000000000" + BLOCK_HASH)).toThrow("Finality vote height is too large");
+    expect(() => decodeFinalityVote("010000" + "0000000000000001" + BLOCK_HASH)).toThrow("chainId must be 1 to 255 bytes of UTF-8");
+    expect(() => decodeFinalityVote("010001ff" + "0000000000000001" + BLOCK_HASH)).toThrow("Finality vote chain id is not valid UTF-8");
+  });
+
+  it("validates vote fields", () => {
+    expect(() => encodeFinalityVote({ ...vote, chainId: "" })).toThrow(expect.objectContaining({ field: "chainId", code: "out_of_range" }));
+    expect(() => encodeFinalityVote({ ...vote, height: -1 })).toThrow(expect.objectContaining({ field: "height", code: "out_of_range" }));
+    expect(() => encodeFinalityVote({ ...vote, height: 1.5 })).toThrow(expect.objectContaining({ field: "height", code: "invalid_type" }));
+    expect(() => encodeFinalityVote({ ...vote, hash: "abcd" })).toThrow(expect.objectContaining({ field: "hash", code: "invalid_length" }));
+    expect(() => encodeFinalityVote({ ...vote, kind: "toString" as FinalityVote["kind"] })).toThrow(expect.objectContaining({ field: "kind" }));
+    expect(() => finalityVoteHash({ ...vote, tag: "" })).toThrow(expect.objectContaining({ field: "tag" }));
+  });
+});
+
+describe("finality vote hashing", () => {
+  it("is a tagged hash of the encoding", () => {
+    expect(finalityVoteHash(vote)).toEqual(taggedHash(DEFAULT_FINALITY_VOTE_TAG, encodeFinalityVote(vote)));
+    expect(finalityVoteHash({ ...vote, tag: "my-app/vote" })).toEqual(taggedHash("my-app/vote", encodeFinalityVote(vote)));
+  });
+
+  it("separates domains, chains, heights and hash kinds", () => {
+    const hashes = [vote, { ...vote, tag: "other-app/vote" }, { ...vote, chainId: "bbn-test-6" }, { ...vote, height: 1234568 }, { ...vote, kind: "app" as const }, { ...vote, hash: OTHER_HASH }].map((v) => bytesToHex(finalityVoteHash(v)));
+    expect(new Set(hashes).size).toBe(hashes.length);
+  });
+
+  it("passes raw hashes through unchanged", () => {
+    expect(bytesToHex(messageHashOf(BLOCK_HASH))).toBe(BLOCK_HASH);
+    expect(messageHashOf(vote)).toEqual(finalityVoteHash(vote));
+    expect(() => messageHashOf("abcd", "hash1")).toThrow(expect.objectContaining({ field: "hash1" }));
+  });
+});
+
+describe("signing structured messages", () => {
+  it.each(["ecdsa", "schnorr"] as const)("signs and verifies votes directly (%s)", (scheme) => {
+    const publicKey = getPublicKey(PRIVATE_KEY, scheme);
+    const signature = signEOTS(PRIVATE_KEY, vote, undefined, scheme);
+
+    expect(signature).toEqual(signEOTS(PRIVATE_KEY, finalityVoteHash(vote), undefined, scheme));
+    expect(verifyEOTS(publicKey, vote, signature)).toBe(true);
+    expect(verifyEOTS(publicKey, { ...vote, tag: "other-app/vote" }, signature)).toBe(false);
+  });
+
+  it("verifies a vote signed with committed randomness", () => {
+    const seed = "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f";
+    const batch = getPublicRandomnessBatch(seed, vote.chainId, vote.height, 4);
+    const commitment = commitPublicRandomness(batch);
+    const signature = signEOTS(PRIVATE_KEY, vote, { seed, chainId: vote.chainId, height: vote.height }, "schnorr");
+    const proof = getRandomnessProof(batch, vote.height);
+
+    expect(verifyCommittedSignature(getPublicKey(PRIVATE_KEY, "schnorr"), vote, signature, commitment.root, proof, commitment, vote.height)).toEqual({ valid: true });
+    expect(verifyCommittedSignature(getPublicKey(PRIVATE_KEY, "schnorr"), { ...vote, hash: OTHER_HASH }, signature, commitment.root, proof, commitment, vote.height)).toMatchObject({ valid: false });
+  });
+
+  it.each(["ecdsa", "schnorr"] as const)("extracts the key from two conflicting votes (%s)", (scheme) => {
+    const publicKey = getPublicKey(PRIVATE_KEY, scheme);
+    const conflicting = { ...vote, hash: OTHER_HASH };
+    const sig1 = signEOTS(PRIVATE_KEY, vote, NONCE, scheme);
+    const sig2 = signEOTS(PRIVATE_KEY, conflicting, NONCE, scheme);
+
+    // Schnorr extraction yields the even-Y form of the key, so compare public keys
+    expect(getPublicKey(extractPrivateKey(sig1, sig2, vote, conflicting, publicKey), scheme)).toEqual(publicKey);
+    expect(getPublicKey(extractPrivateKeyDetailed(sig1, sig2, vote, conflicting, publicKey).privateKey, scheme)).toEqual(publicKey);
+
+    const evidence = createEvidence(publicKey, vote, sig1, conflicting, sig2);
+    expect(verifyEvidence(evidence).valid).toBe(true);
+    expect([evidence.messageHash1, evidence.messageHash2].map(bytesToHex).sort()).toEqual([finalityVoteHash(vote), finalityVoteHash(conflicting)].map(bytesToHex).sort());
+  });
+
+  it("lets the protected signer refuse a second vote for the same slot", async () => {
+    const signer = createProtectedSigner(PRIVATE_KEY, createMemoryStore(), "schnorr");
+    const first = await signer.sign(vote, NONCE);
+    expect(await signer.sign(bytesToHex(finalityVoteHash(vote)), NONCE)).toEqual(first);
+    await expect(signer.sign({ ...vote, hash: OTHER_HASH }, NONCE)).rejects.toThrow(DoubleSignError);
+  });
+});
@@ -0,0 +1,136 @@
+import { EOTSMessage, FinalityVote, FinalityVoteKind } from "./types";
+import { concatBytes, hexToBytes, taggedHash } from "./utils";
+import { parseHash32 } from "./parse";
+import { InvalidFormatError, InvalidTypeError, MissingInputError, OutOfRangeError } from "./errors";
+
+/**
+ * Finality-vote messages
+ * Binary layout: version (1) | kind (1: 0x00 block, 0x01 app) | chain id length (1) | chain id (UTF-8)
+ *   | height (8, big-endian) | hash (32)
+ * The message hash that gets signed is taggedHash(tag, encoding), so a vote can only collide with another
+ * message hashed under the same domain tag, and two applications with different tags never share a hash.
+ */
+
+export const DEFAULT_FINALITY_VOTE_TAG = "EOTS/finality-vote";
+
+const VERSION = 0x01;
+const KIND_BYTE: Record<FinalityVoteKind, number> = { block: 0x00, app: 0x01 };
+const MAX_CHAIN_ID_LENGTH = 255;
+
+// Helper function to validate a vote's fields, returning the encoded chain id, height, hash and kind
+function validateVote(vote: FinalityVote): { chainId: Uint8Array; height: number; hash: Uint8Array; kind: FinalityVoteKind } {
+  if (vote === undefined || vote === null) {
+    throw new MissingInputError("vote");
+  }
+  if (typeof vote.chainId !== "string") {
+    throw vote.chainId === undefined ? new MissingInputError("chainId") : new InvalidTypeError("chainId", "a string");
+  }
+  const chainId = new TextEncoder().encode(vote.chainId);
+  if (chainId.length === 0 || chainId.length > MAX_CHAIN_ID_LENGTH) {
+    throw new OutOfRangeError("chainId", `chainId must be 1 to ${MAX_CHAIN_ID_LENGTH} bytes of UTF-8`);
+  }
+
+  if (vote.height === undefined) {
+    throw new MissingInputError("height");
+  }
+  if (typeof vote.height !== "number" || !Number.isInteger(vote.height)) {
+    throw new InvalidTypeError("height", "an integer");
+  }
+  if (vote.height < 0 || vote.height > Number.MAX_SAFE_INTEGER) {
+    throw new OutOfRangeError("height", `height must be between 0 and ${Number.MAX_SAFE_INTEGER}`);
+  }
+
+  const kind = vote.kind ?? "block";
+  if (!Object.keys(KIND_BYTE).includes(kind)) {
+    throw new InvalidFormatError("kind", `kind must be "block" or "app"`);
+  }
+
+  return { chainId, height: vote.height, hash: parseHash32(vote.hash, "hash"), kind };
+}
+
+/**
+ * Encode a finality vote in the canonical binary layout (the domain tag is not part of the encoding)
+ * @param vote - Chain id, height, block or app hash and kind
+ * @returns Encoded vote
+ */
+export function encodeFinalityVote(vote: FinalityVote): Uint8Array {
+  const { chainId, height, hash, kind } = validateVote(vote);
+  const heightBytes = new Uint8Array(8);
+  new DataView(heightBytes.buffer).setBigUint64(0, BigInt(height));
+  return concatBytes(new Uint8Array([VERSION, KIND_BYTE[kind], chainId.length]), chainId, heightBytes, hash);
+}
+
+/**
+ * Parse a finality vote from its binary encoding
+ * @param bytes - Encoded vote as Uint8Array or hex string
+ * @returns FinalityVote with the hash as Uint8Array (no tag: the encoding does not carry one)
+ */
+export function decodeFinalityVote(bytes: Uint8Array | string): FinalityVote {
+  const data = typeof bytes === "string" ? hexToBytes(bytes, "vote") : bytes;
+  if (data.length < 3) {
+    throw new Error("Finality vote is truncated");
+  }
+  if (data[0] !== VERSION) {
+    throw new Error(`Unsupported finality vote version: ${data[0]}`);
+  }
+  const kind = (Object.keys(KIND_BYTE) as FinalityVoteKind[]).find((key) => KIND_BYTE[key] === data[1]);
+  if (!kind) {
+    throw new Error(`Unknown finality vote kind byte: ${data[1]}`);
+  }
+
+  const chainIdLength = data[2];
+  const expected = 3 + chainIdLength + 8 + 32;
+  if (data.length !== expected) {
+    throw new Error(data.length < expected ? "Finality vote is truncated" : "Finality vote has trailing bytes");
+  }
+
+  let chainId: string;
+  try {
+    chainId = new TextDecoder("utf-8", { fatal: true }).decode(data.slice(3, 3 + chainIdLength));
+  } catch {
+    throw new Error("Finality vote chain id is not valid UTF-8");
+  }
+  const height = new DataView(data.buffer, data.byteOffset + 3 + chainIdLength, 8).getBigUint64(0);
+  if (height > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error("Finality vote height is too large");
+  }
+
+  const vote: FinalityVote = { chainId, height: Number(height), hash: data.slice(expected - 32), kind };
+  validateVote(vote); // rejects an empty chain id
+  return vote;
+}
+
+/**
+ * Hash a finality vote into the 32-byte message that EOTS signs
+ * @param vote - Finality vote; vote.tag selects the domain (defaults to "EOTS/finality-vote")
+ * @returns taggedHash(tag, encodeFinalityVote(vote))
+ */
+export function finalityVoteHash(vote: FinalityVote): Uint8Array {
+  const tag = vote?.tag ?? DEFAULT_FINALITY_VOTE_TAG;
+  if (typeof tag !== "string" || tag.length === 0) {
+    throw new InvalidFormatError("tag", "tag must be a non-empty string");
+  }
+  return taggedHash(tag, encodeFinalityVote(vote));
+}
+
+/**
+ * Check whether a message is a structured finality vote rather than a raw hash
+ * @param message - EOTS message
+ * @returns true for FinalityVote objects
+ */
+export function isFinalityVote(message: EOTSMessage): message is FinalityVote {
+  return typeof message === "object" && message !== null && !(message instanceof Uint8Array);
+}
+
+/**
+ * Resolve what gets signed: a finality vote is hashed with its domain tag, anything else must already be a 32-byte hash
+ * @param message - 32-byte hash (Uint8Array or hex) or FinalityVote
+ * @param field - Name of the input, reported in errors (defaults to "messageHash")
+ * @returns 32-byte message hash
+ */
+export function messageHashOf(message: EOTSMessage | undefined, field = "messageHash"): Uint8Array {
+  if (message !== undefined && isFinalityVote(message)) {
+    return finalityVoteHash(message);
+  }
+  return parseHash32(message, field);
+}
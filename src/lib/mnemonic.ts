@@ -0,0 +1,63 @@
+import { generateMnemonic as generateWords, validateMnemonic as validateWords, mnemonicToSeedSync } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import { MissingInputError, InvalidFormatError } from "./errors";
+
+/**
+ * BIP-39 mnemonics (English wordlist)
+ */
+
+const WORD_COUNTS = [12, 15, 18, 21, 24];
+
+// Helper function to lower-case a mnemonic and collapse its whitespace
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+/**
+ * Generate a random mnemonic
+ * @param words - Number of words: 12, 15, 18, 21 or 24 (defaults to 24, i.e. 256 bits of entropy)
+ * @returns Space-separated mnemonic
+ */
+export function generateMnemonic(words = 24): string {
+  if (!WORD_COUNTS.includes(words)) {
+    throw new Error(`Mnemonic length must be one of ${WORD_COUNTS.join(", ")} words`);
+  }
+  return generateWords(wordlist, (words / 3) * 32);
+}
+
+/**
+ * Check that a mnemonic uses the English wordlist and has a valid checksum
+ * @param mnemonic - Mnemonic (case and extra whitespace are ignored)
+ * @returns boolean indicating if the mnemonic is valid
+ */
+export function validateMnemonic(mnemonic: string): boolean {
+  return validateWords(normalizeMnemonic(mnemonic), wordlist);
+}
+
+/**
+ * Derive the 64-byte BIP-39 seed from a mnemonic
+ * @param mnemonic - Mnemonic (case and extra whitespace are ignored)
+ * @param passphrase - Optional BIP-39 passphrase (defaults to "")
+ * @param field - Name of the input (defaults to "mnemonic")
+ * @returns 64-byte seed for hdKeyFromSeed
+ */
+export function mnemonicToSeed(mnemonic: string | undefined, passphrase = "", field = "mnemonic"): Uint8Array {
+  if (mnemonic === undefined || mnemonic.trim() === "") {
+    throw new MissingInputError(field);
+  }
+
+  const normalized = normalizeMnemonic(mnemonic);
+  const count = normalized.split(" ").length;
+  if (!WORD_COUNTS.includes(count)) {
+    throw new InvalidFormatError(field, `${field} must have ${WORD_COUNTS.join(", ")} words (got ${count})`);
+  }
+  const unknown = normalized.split(" ").find((word) => !wordlist.includes(word));
+  if (unknown !== undefined) {
+    throw new InvalidFormatError(field, `${field} contains "${unknown}", which is not in the BIP-39 English wordlist`);
+  }
+  if (!validateWords(normalized, wordlist)) {
+    throw new InvalidFormatError(field, `${field} has an invalid checksum`);
+  }
+
+  return mnemonicToSeedSync(normalized, passphrase);
+}
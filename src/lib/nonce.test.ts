@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { sha256 } from "@noble/hashes/sha256";
+import { rfc6979Nonce, deriveNonce } from "./nonce";
+import { bytesToHex } from "./utils";
+
+// RFC 6979 nonces for secp256k1 with SHA-256 (the widely used Bitcoin test set)
+const VECTORS = [
+  { privateKey: "0000000000000000000000000000000000000000000000000000000000000001", message: "Satoshi Nakamoto", k: "8f8a276c19f4149656b280621e358cce24f5f52542772691ee69063b74f15d15" },
+  { privateKey: "0000000000000000000000000000000000000000000000000000000000000001", message: "All those moments will be lost in time, like tears in rain. Time to die...", k: "38aa22d72376b4dbc472e06c3ba403ee0a394da63fc58d88686c611aba98d6b3" },
+  { privateKey: "fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364140", message: "Satoshi Nakamoto", k: "33a19b60e25fb6f4435af53a3d42d493644827367e6453928554f43e49aa6f90" },
+  { privateKey: "f8b8af8ce3c7cca5e300d33939540c10d45ce001b8f252bfbc57ba0342904181", message: "Alan Turing", k: "525a82b70e67874398067543fd84c83d30c175fdc45fdeee082fe13b1d7cfdf1" },
+  { privateKey: "e91671c46231f833a6406ccbea0e3e392c76c167bac1cb013f6f1013980455c2", message: "There is a computer disease that anybody who works with computers knows about. It's a very serious disease and it interferes completely with the work. The trouble with computers is that you 'play' with them!", k: "1f4b84c23a86a221d233f2521be018d9318639d5b8bbd6374a8a59232d16ad3d" },
+];
+
+const KEY = VECTORS[0].privateKey;
+const HASH = sha256(new TextEncoder().encode("Satoshi Nakamoto"));
+
+describe("rfc6979Nonce", () => {
+  it.each(VECTORS)("derives k for \"$message\"", ({ privateKey, message, k }) => {
+    expect(bytesToHex(rfc6979Nonce(privateKey, sha256(new TextEncoder().encode(message))))).toBe(k);
+  });
+
+  it("changes with extra data", () => {
+    expect(bytesToHex(rfc6979Nonce(KEY, HASH, "01".repeat(32)))).not.toBe(VECTORS[0].k);
+  });
+
+  it("rejects invalid private keys", () => {
+    expect(() => rfc6979Nonce("00".repeat(32), HASH)).toThrow("Invalid private key");
+    expect(() => rfc6979Nonce("ff".repeat(32), HASH)).toThrow("Invalid private key");
+  });
+});
+
+describe("deriveNonce", () => {
+  it("uses plain RFC 6979 for ECDSA", () => {
+    expect(bytesToHex(deriveNonce(KEY, HASH))).toBe(VECTORS[0].k);
+  });
+
+  it("separates the Schnorr domain from ECDSA", () => {
+    expect(bytesToHex(deriveNonce(KEY, HASH, "schnorr"))).not.toBe(bytesToHex(deriveNonce(KEY, HASH, "ecdsa")));
+  });
+
+  it("is deterministic for the same auxiliary randomness and varies with it", () => {
+    const aux = "02".repeat(32);
+    expect(bytesToHex(deriveNonce(KEY, HASH, "ecdsa", aux))).toBe(bytesToHex(deriveNonce(KEY, HASH, "ecdsa", aux)));
+    expect(bytesToHex(deriveNonce(KEY, HASH, "ecdsa", aux))).not.toBe(VECTORS[0].k);
+    expect(bytesToHex(deriveNonce(KEY, HASH, "ecdsa", aux))).not.toBe(bytesToHex(deriveNonce(KEY, HASH, "ecdsa", "03".repeat(32))));
+  });
+
+  it("requires 32 bytes of auxiliary randomness", () => {
+    expect(() => deriveNonce(KEY, HASH, "ecdsa", "01".repeat(16))).toThrow("Auxiliary randomness must be 32 bytes");
+  });
+});
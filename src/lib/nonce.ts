@@ -0,0 +1,79 @@
+import { CURVE } from "@noble/secp256k1";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { EOTSScheme } from "./types";
+import { hexToBytes, concatBytes } from "./utils";
+import { bytesToNumber, numberToBytes, mod } from "./math";
+
+/**
+ * Additional data mixed into RFC 6979 per scheme
+ * ECDSA uses plain RFC 6979 so its nonces match other RFC 6979 signers; Schnorr adds a tag so that
+ * signing the same message hash with the same key under both schemes never reuses a nonce
+ */
+const SCHEME_DOMAIN: Record<EOTSScheme, Uint8Array> = {
+  ecdsa: new Uint8Array(0),
+  schnorr: sha256(new TextEncoder().encode("EOTS/schnorr/nonce")),
+};
+
+// Helper function for RFC 6979 bits2int with qlen = 256
+function bits2int(bytes: Uint8Array): bigint {
+  const num = bytesToNumber(bytes);
+  const excess = bytes.length * 8 - 256;
+  return excess > 0 ? num >> BigInt(excess) : num;
+}
+
+/**
+ * Derive a nonce with RFC 6979 (HMAC-SHA256 DRBG, section 3.2)
+ * Candidates outside [1, n-1] are rejected and the DRBG is stepped again, so this never fails for a valid key
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param messageHash - Message hash as Uint8Array or hex string
+ * @param extraData - Additional data k' (RFC 6979 section 3.6, optional)
+ * @returns 32-byte nonce in [1, n-1]
+ */
+export function rfc6979Nonce(privateKey: Uint8Array | string, messageHash: Uint8Array | string, extraData?: Uint8Array | string): Uint8Array {
+  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
+  const msgHash = typeof messageHash === "string" ? hexToBytes(messageHash) : messageHash;
+  const extra = typeof extraData === "string" ? hexToBytes(extraData) : (extraData ?? new Uint8Array(0));
+
+  const x = bytesToNumber(privKey);
+  if (x === BigInt(0) || x >= CURVE.n) {
+    throw new Error("Invalid private key");
+  }
+
+  const seed = concatBytes(numberToBytes(x, 32), numberToBytes(mod(bits2int(msgHash), CURVE.n), 32), extra);
+
+  let V: Uint8Array = new Uint8Array(32).fill(0x01);
+  let K: Uint8Array = new Uint8Array(32).fill(0x00);
+  K = hmac(sha256, K, concatBytes(V, new Uint8Array([0x00]), seed));
+  V = hmac(sha256, K, V);
+  K = hmac(sha256, K, concatBytes(V, new Uint8Array([0x01]), seed));
+  V = hmac(sha256, K, V);
+
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    V = hmac(sha256, K, V);
+    const k = bits2int(V);
+    if (k > BigInt(0) && k < CURVE.n) {
+      return numberToBytes(k, 32);
+    }
+    K = hmac(sha256, K, concatBytes(V, new Uint8Array([0x00])));
+    V = hmac(sha256, K, V);
+  }
+
+  throw new Error("Failed to derive a valid nonce");
+}
+
+/**
+ * Derive the deterministic signing nonce used by signEOTS when no nonce is given
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param messageHash - Message hash as Uint8Array or hex string
+ * @param scheme - Signature scheme, selects the domain separation (defaults to "ecdsa")
+ * @param auxRand - 32 bytes of auxiliary randomness, BIP-340 style (optional; without it the nonce is fully deterministic)
+ * @returns 32-byte nonce in [1, n-1]
+ */
+export function deriveNonce(privateKey: Uint8Array | string, messageHash: Uint8Array | string, scheme: EOTSScheme = "ecdsa", auxRand?: Uint8Array | string): Uint8Array {
+  const aux = typeof auxRand === "string" ? hexToBytes(auxRand) : auxRand;
+  if (aux !== undefined && aux.length !== 32) {
+    throw new Error("Auxiliary randomness must be 32 bytes");
+  }
+  return rfc6979Nonce(privateKey, messageHash, concatBytes(SCHEME_DOMAIN[scheme], aux ?? new Uint8Array(0)));
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { parseBytes, parseScalar, parsePublicKey, publicKeyFormat, parseEOTSSignature, canonicalPublicKey } from "./parse";
+import { InvalidHexError, InvalidLengthError, InvalidPointError, MissingInputError, OutOfRangeError } from "./errors";
+import { hexToBytes, bytesToHex, bytesToBase64, base64ToBytes } from "./utils";
+
+const G_COMPRESSED = "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798";
+const G_UNCOMPRESSED = "0479be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8";
+
+describe("hex and base64", () => {
+  it("accepts an optional 0x prefix and either case", () => {
+    expect(bytesToHex(hexToBytes("0xABcd"))).toBe("abcd");
+  });
+
+  it.each(["abc", "zz", "0x0g", " 00"])("rejects %j", (hex) => {
+    expect(() => hexToBytes(hex, "value")).toThrow(InvalidHexError);
+  });
+
+  it("round-trips base64 and rejects malformed input", () => {
+    const bytes = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    expect(() => base64ToBytes("abc")).toThrow("Invalid base64 string");
+  });
+});
+
+describe("parse", () => {
+  it("checks presence and length", () => {
+    expect(() => parseBytes(undefined, "value")).toThrow(MissingInputError);
+    expect(() => parseBytes("  ", "value")).toThrow(MissingInputError);
+    expect(() => parseBytes("0011", "value", [1, 3])).toThrow(new InvalidLengthError("value", [1, 3], 2));
+    expect(parseBytes(" 0011 ", "value", 2)).toEqual(new Uint8Array([0, 0x11]));
+  });
+
+  it("keeps scalars in [1, n-1]", () => {
+    expect(() => parseScalar("00".repeat(32))).toThrow(OutOfRangeError);
+    expect(() => parseScalar("fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141")).toThrow(OutOfRangeError);
+    expect(bytesToHex(parseScalar("fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364140"))).toBe("fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364140");
+  });
+
+  it("recognizes public key formats and rejects points off the curve", () => {
+    expect(publicKeyFormat(parsePublicKey(G_COMPRESSED))).toBe("compressed");
+    expect(publicKeyFormat(parsePublicKey(G_UNCOMPRESSED))).toBe("uncompressed");
+    expect(publicKeyFormat(parsePublicKey(G_COMPRESSED.slice(2)))).toBe("xonly");
+    expect(() => parsePublicKey(G_UNCOMPRESSED, "publicKey", ["compressed"])).toThrow(InvalidLengthError);
+    expect(() => parsePublicKey("05" + G_COMPRESSED.slice(2))).toThrow(InvalidPointError);
+  });
+
+  it("brings public keys into the encoding of their scheme", () => {
+    expect(bytesToHex(canonicalPublicKey(hexToBytes(G_UNCOMPRESSED), "ecdsa"))).toBe(G_COMPRESSED);
+    expect(bytesToHex(canonicalPublicKey(hexToBytes(G_COMPRESSED), "ecdsa"))).toBe(G_COMPRESSED);
+    expect(bytesToHex(canonicalPublicKey(hexToBytes(G_COMPRESSED), "schnorr"))).toBe(G_COMPRESSED.slice(2));
+    expect(bytesToHex(canonicalPublicKey(hexToBytes(G_COMPRESSED.slice(2)), "schnorr"))).toBe(G_COMPRESSED.slice(2));
+  });
+
+  it("parses signatures field by field", () => {
+    expect(() => parseEOTSSignature(undefined, "sig")).toThrow(new MissingInputError("sig"));
+    expect(() => parseEOTSSignature({ r: "00", s: "00".repeat(32) }, "sig")).toThrow(new InvalidLengthError("sig.r", [32], 1));
+    expect(parseEOTSSignature({ r: "01".repeat(32), s: "02".repeat(32) }).scheme).toBe("ecdsa");
+  });
+});
@@ -0,0 +1,139 @@
+import { CURVE, ProjectivePoint } from "@noble/secp256k1";
+import { EOTSScheme, EOTSSignature, PublicKeyFormat, SignatureJSON } from "./types";
+import { hexToBytes } from "./utils";
+import { bytesToNumber } from "./math";
+import { decodePoint } from "./curve";
+import { MissingInputError, InvalidLengthError, OutOfRangeError, InvalidPointError, ParseError } from "./errors";
+
+const PUBLIC_KEY_LENGTHS: Record<PublicKeyFormat, number> = {
+  compressed: 33,
+  uncompressed: 65,
+  xonly: 32,
+};
+
+/**
+ * Parse bytes from a Uint8Array or strict hex string
+ * @param input - Bytes or hex string (optional 0x prefix)
+ * @param field - Name of the input, reported in errors
+ * @param length - Allowed byte length(s) (optional)
+ * @returns Validated bytes
+ */
+export function parseBytes(input: Uint8Array | string | undefined, field: string, length?: number | number[]): Uint8Array {
+  if (input === undefined || (typeof input === "string" && input.trim() === "")) {
+    throw new MissingInputError(field);
+  }
+  const bytes = typeof input === "string" ? hexToBytes(input.trim(), field) : input;
+
+  const allowed = length === undefined ? undefined : Array.isArray(length) ? length : [length];
+  if (allowed && !allowed.includes(bytes.length)) {
+    throw new InvalidLengthError(field, allowed, bytes.length);
+  }
+  return bytes;
+}
+
+/**
+ * Parse a 32-byte hash
+ * @param input - Hash as Uint8Array or hex string
+ * @param field - Name of the input (defaults to "messageHash")
+ * @returns 32 bytes
+ */
+export function parseHash32(input: Uint8Array | string | undefined, field = "messageHash"): Uint8Array {
+  return parseBytes(input, field, 32);
+}
+
+/**
+ * Parse a 32-byte scalar in [1, n-1], e.g. a nonce
+ * @param input - Scalar as Uint8Array or hex string
+ * @param field - Name of the input (defaults to "scalar")
+ * @returns 32 bytes
+ */
+export function parseScalar(input: Uint8Array | string | undefined, field = "scalar"): Uint8Array {
+  const bytes = parseBytes(input, field, 32);
+  const num = bytesToNumber(bytes);
+  if (num === BigInt(0) || num >= CURVE.n) {
+    throw new OutOfRangeError(field, `${field} must be between 1 and n-1`);
+  }
+  return bytes;
+}
+
+/**
+ * Parse a private key (a 32-byte scalar in [1, n-1])
+ * @param input - Private key as Uint8Array or hex string
+ * @param field - Name of the input (defaults to "privateKey")
+ * @returns 32 bytes
+ */
+export function parsePrivateKey(input: Uint8Array | string | undefined, field = "privateKey"): Uint8Array {
+  return parseScalar(input, field);
+}
+
+/**
+ * Parse a public key and check that it is a point on secp256k1
+ * @param input - Public key as Uint8Array or hex string
+ * @param field - Name of the input (defaults to "publicKey")
+ * @param formats - Accepted encodings (defaults to all: 33-byte compressed, 65-byte uncompressed, 32-byte x-only)
+ * @returns The public key bytes as given
+ */
+export function parsePublicKey(input: Uint8Array | string | undefined, field = "publicKey", formats: PublicKeyFormat[] = ["compressed", "uncompressed", "xonly"]): Uint8Array {
+  const bytes = parseBytes(
+    input,
+    field,
+    formats.map((format) => PUBLIC_KEY_LENGTHS[format]),
+  );
+
+  try {
+    // Decoding caches the point, so verifying with this key does not decode it again
+    decodePoint(bytes);
+  } catch {
+    throw new InvalidPointError(field);
+  }
+  return bytes;
+}
+
+/**
+ * Detect the encoding of a public key from its length
+ * @param publicKey - Public key bytes
+ * @returns PublicKeyFormat
+ */
+export function publicKeyFormat(publicKey: Uint8Array): PublicKeyFormat {
+  const format = (Object.keys(PUBLIC_KEY_LENGTHS) as PublicKeyFormat[]).find((key) => PUBLIC_KEY_LENGTHS[key] === publicKey.length);
+  if (!format) {
+    throw new InvalidLengthError("publicKey", Object.values(PUBLIC_KEY_LENGTHS), publicKey.length);
+  }
+  return format;
+}
+
+/**
+ * Bring a public key into the encoding getPublicKey returns for a scheme
+ * Schnorr keys become x-only (a compressed key loses its prefix), ECDSA keys become compressed
+ * @param publicKey - Public key bytes, already length-checked
+ * @param scheme - Signature scheme
+ * @returns Canonical public key
+ */
+export function canonicalPublicKey(publicKey: Uint8Array, scheme: EOTSScheme): Uint8Array {
+  if (scheme === "schnorr") {
+    return publicKey.length === 33 ? publicKey.slice(1) : publicKey;
+  }
+  return publicKey.length === 65 ? ProjectivePoint.fromHex(publicKey).toRawBytes(true) : publicKey;
+}
+
+/**
+ * Parse a signature with 32-byte r and s
+ * Range checks are left to verification, which reports them as failure reasons
+ * @param signature - EOTSSignature or its JSON form
+ * @param field - Name of the input (defaults to "signature"); r and s are reported as field.r and field.s
+ * @returns EOTSSignature
+ */
+export function parseEOTSSignature(signature: EOTSSignature | SignatureJSON | undefined, field = "signature"): EOTSSignature {
+  if (!signature) {
+    throw new MissingInputError(field);
+  }
+  const scheme: EOTSScheme = signature.scheme ?? "ecdsa";
+  if (scheme !== "ecdsa" && scheme !== "schnorr") {
+    throw new ParseError("out_of_range", `${field}.scheme`, `Unknown scheme: ${scheme}`);
+  }
+  return {
+    r: parseBytes(signature.r, `${field}.r`, 32),
+    s: parseBytes(signature.s, `${field}.s`, 32),
+    scheme,
+  };
+}
@@ -0,0 +1,60 @@
+import { PSBTTaprootInput, Transaction } from "./types";
+import { concatBytes } from "./utils";
+import { encodeCompactSize, encodeTransaction } from "./transaction";
+
+/**
+ * Partially signed Bitcoin transactions (BIP-174 version 0) with the Taproot fields of BIP-371
+ * Layout: magic "psbt" 0xff | global map | one map per input | one map per output; each map is a list of
+ * <key length> <key> <value length> <value> entries terminated by 0x00
+ */
+
+const MAGIC = new Uint8Array([0x70, 0x73, 0x62, 0x74, 0xff]);
+
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00;
+const PSBT_IN_WITNESS_UTXO = 0x01;
+const PSBT_IN_TAP_KEY_SIG = 0x13;
+const PSBT_IN_TAP_INTERNAL_KEY = 0x17;
+const PSBT_IN_TAP_MERKLE_ROOT = 0x18;
+
+// Helper function to encode one key-value entry whose key is a single type byte
+function entry(type: number, value: Uint8Array): Uint8Array {
+  return concatBytes(encodeCompactSize(1), new Uint8Array([type]), encodeCompactSize(value.length), value);
+}
+
+/**
+ * Encode a PSBT for a transaction whose inputs are all Taproot key-path spends
+ * The unsigned transaction is stored without scriptSigs or witnesses, as BIP-174 requires
+ * @param tx - Transaction (witnesses are ignored)
+ * @param inputs - One PSBTTaprootInput per transaction input
+ * @returns Serialized PSBT (base64-encode it for the usual text form)
+ */
+export function encodeTaprootPSBT(tx: Transaction, inputs: PSBTTaprootInput[]): Uint8Array {
+  if (inputs.length !== tx.inputs.length) {
+    throw new Error("One PSBT input is needed per transaction input");
+  }
+
+  const unsigned: Transaction = { ...tx, inputs: tx.inputs.map((input) => ({ ...input, scriptSig: new Uint8Array(0), witness: [] })) };
+  const parts: Uint8Array[] = [MAGIC, entry(PSBT_GLOBAL_UNSIGNED_TX, encodeTransaction(unsigned, false)), new Uint8Array([0x00])];
+
+  for (const input of inputs) {
+    const { amount, scriptPubKey } = input.witnessUtxo;
+    const amountBytes = new Uint8Array(8);
+    new DataView(amountBytes.buffer).setBigUint64(0, BigInt(amount), true);
+    parts.push(entry(PSBT_IN_WITNESS_UTXO, concatBytes(amountBytes, encodeCompactSize(scriptPubKey.length), scriptPubKey)));
+
+    if (input.keySignature) {
+      parts.push(entry(PSBT_IN_TAP_KEY_SIG, input.keySignature));
+    }
+    parts.push(entry(PSBT_IN_TAP_INTERNAL_KEY, input.internalKey));
+    if (input.merkleRoot) {
+      parts.push(entry(PSBT_IN_TAP_MERKLE_ROOT, input.merkleRoot));
+    }
+    parts.push(new Uint8Array([0x00]));
+  }
+
+  // Outputs need no fields for a plain payment
+  for (let i = 0; i < tx.outputs.length; i++) {
+    parts.push(new Uint8Array([0x00]));
+  }
+  return concatBytes(...parts);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { deriveRandomness, generateRandomnessSeed, getCommittedNonce, getPublicNonceForHeight, getPublicRandomnessBatch } from "./randomness";
+import { getPublicKey, signEOTS, verifyEOTS } from "./eots";
+import { bytesToHex, concatBytes, hexToBytes } from "./utils";
+import { bytesToNumber, numberToBytes } from "./math";
+
+const KEY = "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9";
+const SEED = "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f";
+const HASH = "715fed1a834b02a62cb3cbfd9308a7c963c823905a2a80949f8036d5989b8581";
+
+describe("deriveRandomness", () => {
+  it("derives k = HMAC-SHA256(seed, chainId || height || counter) with an even-Y R", () => {
+    const pair = deriveRandomness(SEED, "test-chain", 100);
+    const k = bytesToNumber(hmac(sha256, hexToBytes(SEED), concatBytes(new TextEncoder().encode("test-chain"), numberToBytes(BigInt(100), 8), new Uint8Array([0]))));
+    const R = ProjectivePoint.BASE.mul(k).toAffine();
+
+    expect(pair.height).toBe(100);
+    expect(bytesToHex(pair.publicNonce)).toBe(bytesToHex(numberToBytes(R.x, 32)));
+    expect(bytesToNumber(pair.secretNonce)).toBe(R.y % BigInt(2) === BigInt(0) ? k : CURVE.n - k);
+    expect(ProjectivePoint.BASE.mul(bytesToNumber(pair.secretNonce)).toAffine().y % BigInt(2)).toBe(BigInt(0));
+  });
+
+  it("is deterministic per seed, chain id and height", () => {
+    const pair = deriveRandomness(SEED, "test-chain", 100);
+    expect(deriveRandomness(hexToBytes(SEED), "test-chain", 100)).toEqual(pair);
+    expect(bytesToHex(deriveRandomness(SEED, "test-chain", 101).publicNonce)).not.toBe(bytesToHex(pair.publicNonce));
+    expect(bytesToHex(deriveRandomness(SEED, "other-chain", 100).publicNonce)).not.toBe(bytesToHex(pair.publicNonce));
+    expect(bytesToHex(deriveRandomness(generateRandomnessSeed(), "test-chain", 100).publicNonce)).not.toBe(bytesToHex(pair.publicNonce));
+  });
+
+  it("rejects short seeds and invalid heights", () => {
+    expect(() => deriveRandomness("00".repeat(15), "test-chain", 1)).toThrow("Randomness seed must be at least 16 bytes");
+    expect(() => deriveRandomness(SEED, "test-chain", -1)).toThrow("Height must be a non-negative safe integer");
+    expect(() => deriveRandomness(SEED, "test-chain", 1.5)).toThrow("Height must be a non-negative safe integer");
+  });
+});
+
+describe("getPublicRandomnessBatch", () => {
+  it("publishes one public nonce per consecutive height", () => {
+    const batch = getPublicRandomnessBatch(SEED, "test-chain", 100, 4);
+    expect(batch.chainId).toBe("test-chain");
+    expect(batch.startHeight).toBe(100);
+    expect(batch.publicNonces.map(bytesToHex)).toEqual([100, 101, 102, 103].map((height) => bytesToHex(deriveRandomness(SEED, "test-chain", height).publicNonce)));
+    expect(bytesToHex(getPublicNonceForHeight(batch, 102))).toBe(bytesToHex(batch.publicNonces[2]));
+  });
+
+  it("rejects empty batches and heights outside the batch", () => {
+    expect(() => getPublicRandomnessBatch(SEED, "test-chain", 100, 0)).toThrow("Batch size must be a positive integer");
+    const batch = getPublicRandomnessBatch(SEED, "test-chain", 100, 2);
+    expect(() => getPublicNonceForHeight(batch, 99)).toThrow("Height 99 is not covered by the batch");
+    expect(() => getPublicNonceForHeight(batch, 102)).toThrow("Height 102 is not covered by the batch");
+  });
+});
+
+describe("signing with committed randomness", () => {
+  it.each(["ecdsa", "schnorr"] as const)("signs a %s message with the nonce published for its height", (scheme) => {
+    const committed = { seed: SEED, chainId: "test-chain", height: 101 };
+    const batch = getPublicRandomnessBatch(SEED, "test-chain", 100, 3);
+    const signature = signEOTS(KEY, HASH, committed, scheme);
+
+    expect(bytesToHex(signature.r)).toBe(bytesToHex(getPublicNonceForHeight(batch, 101)));
+    expect(bytesToHex(signEOTS(KEY, HASH, getCommittedNonce(committed), scheme).s)).toBe(bytesToHex(signature.s));
+    expect(verifyEOTS(getPublicKey(KEY, scheme), HASH, signature)).toBe(true);
+  });
+});
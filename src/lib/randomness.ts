@@ -0,0 +1,104 @@
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { CommittedNonce, RandomnessPair, PublicRandomnessBatch } from "./types";
+import { hexToBytes, concatBytes } from "./utils";
+import { bytesToNumber, numberToBytes } from "./math";
+
+// Helper function to encode a block height as 8 big-endian bytes
+function encodeHeight(height: number): Uint8Array {
+  if (!Number.isSafeInteger(height) || height < 0) {
+    throw new Error("Height must be a non-negative safe integer");
+  }
+  return numberToBytes(BigInt(height), 8);
+}
+
+/**
+ * Generate a random master randomness seed
+ * @returns 32-byte seed as Uint8Array
+ */
+export function generateRandomnessSeed(): Uint8Array {
+  const seed = new Uint8Array(32);
+  crypto.getRandomValues(seed);
+  return seed;
+}
+
+/**
+ * Derive the secret/public nonce pair committed for a (chain id, height)
+ * k = HMAC-SHA256(seed, chainId || height_be64 || counter), retrying with the next counter while k is 0 or >= n
+ * @param seed - Master randomness seed as Uint8Array or hex string
+ * @param chainId - Chain identifier
+ * @param height - Block height
+ * @returns RandomnessPair with the even-Y normalized secret nonce and x-only public nonce
+ */
+export function deriveRandomness(seed: Uint8Array | string, chainId: string, height: number): RandomnessPair {
+  const seedBytes = typeof seed === "string" ? hexToBytes(seed) : seed;
+  if (seedBytes.length < 16) {
+    throw new Error("Randomness seed must be at least 16 bytes");
+  }
+
+  const prefix = concatBytes(new TextEncoder().encode(chainId), encodeHeight(height));
+
+  for (let counter = 0; counter < 256; counter++) {
+    const k = bytesToNumber(hmac(sha256, seedBytes, concatBytes(prefix, new Uint8Array([counter]))));
+    if (k === BigInt(0) || k >= CURVE.n) {
+      continue;
+    }
+
+    // Normalize so that R has an even Y coordinate; the x-only R is what gets published
+    const R = ProjectivePoint.BASE.mul(k);
+    const secret = R.y % BigInt(2) === BigInt(0) ? k : CURVE.n - k;
+
+    return {
+      height,
+      secretNonce: numberToBytes(secret, 32),
+      publicNonce: numberToBytes(R.x, 32),
+    };
+  }
+
+  throw new Error("Failed to derive a valid nonce");
+}
+
+/**
+ * Derive the secret nonce for a committed (chain id, height)
+ * @param committed - Master seed, chain id and height
+ * @returns 32-byte secret nonce as Uint8Array
+ */
+export function getCommittedNonce(committed: CommittedNonce): Uint8Array {
+  return deriveRandomness(committed.seed, committed.chainId, committed.height).secretNonce;
+}
+
+/**
+ * Derive a batch of public nonces to publish ahead of signing
+ * @param seed - Master randomness seed as Uint8Array or hex string
+ * @param chainId - Chain identifier
+ * @param startHeight - First height covered by the batch
+ * @param count - Number of consecutive heights
+ * @returns PublicRandomnessBatch with one x-only public nonce per height
+ */
+export function getPublicRandomnessBatch(seed: Uint8Array | string, chainId: string, startHeight: number, count: number): PublicRandomnessBatch {
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new Error("Batch size must be a positive integer");
+  }
+
+  const publicNonces: Uint8Array[] = [];
+  for (let i = 0; i < count; i++) {
+    publicNonces.push(deriveRandomness(seed, chainId, startHeight + i).publicNonce);
+  }
+
+  return { chainId, startHeight, publicNonces };
+}
+
+/**
+ * Look up the public nonce committed for a height in a published batch
+ * @param batch - Published batch
+ * @param height - Block height
+ * @returns 32-byte x-only public nonce
+ */
+export function getPublicNonceForHeight(batch: PublicRandomnessBatch, height: number): Uint8Array {
+  const index = height - batch.startHeight;
+  if (!Number.isInteger(index) || index < 0 || index >= batch.publicNonces.length) {
+    throw new Error(`Height ${height} is not covered by the batch`);
+  }
+  return batch.publicNonces[index];
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { signSchnorrEOTS, verifySchnorrEOTS, verifySchnorrEOTSDetailed, extractSchnorrPrivateKey, generateSchnorrEOTSKeyPair, getSchnorrPublicKey, getPublicRandomness, liftX, schnorrChallenge } from "./schnorr";
+import { bytesToHex, hexToBytes, taggedHash } from "./utils";
+import { bytesToNumber, numberToBytes, mod, modInverse } from "./math";
+import { EOTSSignature } from "./types";
+
+// BIP-340 test vectors 0-3 (signing), from bip-0340/test-vectors.csv
+const SIGNING_VECTORS = [
+  { secretKey: "0000000000000000000000000000000000000000000000000000000000000003", publicKey: "f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9", auxRand: "0000000000000000000000000000000000000000000000000000000000000000", message: "0000000000000000000000000000000000000000000000000000000000000000", signature: "e907831f80848d1069a5371b402410364bdf1c5f8307b0084c55f1ce2dca821525f66a4a85ea8b71e482a74f382d2ce5ebeee8fdb2172f477df4900d310536c0" },
+  { secretKey: "b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef", publicKey: "dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659", auxRand: "0000000000000000000000000000000000000000000000000000000000000001", message: "243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89", signature: "6896bd60eeae296db48a229ff71dfe071bde413e6d43f917dc8dcf8c78de33418906d11ac976abccb20b091292bff4ea897efcb639ea871cfa95f6de339e4b0a" },
+  { secretKey: "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9", publicKey: "dd308afec5777e13121fa72b9cc1b7cc0139715309b086c960e18fd969774eb8", auxRand: "c87aa53824b4d7ae2eb035a2b5bbbccc080e76cdc6d1692c4b0b62d798e6d906", message: "7e2d58d8b3bcdf1abadec7829054f90dda9805aab56c77333024b9d0a508b75c", signature: "5831aaeed7b44bb74e5eab94ba9d4294c49bcf2a60728d8b4c200f50dd313c1bab745879a5ad954a72c45a91c3a51d3c7adea98d82f8481e0e1e03674a6f3fb7" },
+  { secretKey: "0b432b2677937381aef05bb02a66ecd012773062cf3fa2549e44f58ed2401710", publicKey: "25d1dff95105f5253c4022f628a996ad3a0d95fbf21d468a1b33f8c160d8f517", auxRand: "ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff", message: "ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff", signature: "7eb0509757e246f19449885651611cb965ecc1a187dd51b64fda1edc9637d5ec97582b9cb13db3933705b32ba982af5af25fd78881ebb32771fc5922efc66ea3" },
+];
+
+const PK = "dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659";
+const MSG = "243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89";
+
+// BIP-340 test vectors 4-14 (verification only)
+const VERIFICATION_VECTORS = [
+  { index: 4, publicKey: "d69c3509bb99e412e68b0fe8544e72837dfa30746d8be2aa65975f29d22dc7b9", message: "4df3c3f68fcc83b27e9d42c90431a72499f17875c81a599b566c9889b9696703", signature: "00000000000000000000003b78ce563f89a0ed9414f5aa28ad0d96d6795f9c6376afb1548af603b3eb45c9f8207dee1060cb71c04e80f593060b07d28308d7f4", reason: undefined },
+  { index: 5, publicKey: "eefdea4cdb677750a420fee807eacf21eb9898ae79b9768766e4faa04a2d4a34", message: MSG, signature: "6cff5c3ba86c69ea4b7376f31a9bcb4f74c1976089b2d9963da2e5543e17776969e89b4c5564d00349106b8497785dd7d1d713a8ae82b32fa79d5f7fc407d39b", reason: "invalid_public_key" },
+  { index: 6, publicKey: PK, message: MSG, signature: "fff97bd5755eeea420453a14355235d382f6472f8568a18b2f057a14602975563cc27944640ac607cd107ae10923d9ef7a73c643e166be5ebeafa34b1ac553e2", reason: "mismatch" },
+  { index: 7, publicKey: PK, message: MSG, signature: "1fa62e331edbc21c394792d2ab1100a7b432b013df3f6ff4f99fcb33e0e1515f28890b3edb6e7189b630448b515ce4f8622a954cfe545735aaea5134fccdb2bd", reason: "mismatch" },
+  { index: 8, publicKey: PK, message: MSG, signature: "6cff5c3ba86c69ea4b7376f31a9bcb4f74c1976089b2d9963da2e5543e177769961764b3aa9b2ffcb6ef947b6887a226e8d7c93e00c5ed0c1834ff0d0c2e6da6", reason: "mismatch" },
+  { index: 9, publicKey: PK, message: MSG, signature: "0000000000000000000000000000000000000000000000000000000000000000123dda8328af9c23a94c1feecfd123ba4fb73476f0d594dcb65c6425bd186051", reason: "point_at_infinity" },
+  { index: 10, publicKey: PK, message: MSG, signature: "00000000000000000000000000000000000000000000000000000000000000017615fbaf5ae28864013c099742deadb4dba87f11ac6754f93780d5a1837cf197", reason: "point_at_infinity" },
+  { index: 11, publicKey: PK, message: MSG, signature: "4a298dacae57395a15d0795ddbfd1dcb564da82b0f269bc70a74f8220429ba1d69e89b4c5564d00349106b8497785dd7d1d713a8ae82b32fa79d5f7fc407d39b", reason: "mismatch" },
+  { index: 12, publicKey: PK, message: MSG, signature: "fffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f69e89b4c5564d00349106b8497785dd7d1d713a8ae82b32fa79d5f7fc407d39b", reason: "r_out_of_range" },
+  { index: 13, publicKey: PK, message: MSG, signature: "6cff5c3ba86c69ea4b7376f31a9bcb4f74c1976089b2d9963da2e5543e177769fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141", reason: "s_out_of_range" },
+  { index: 14, publicKey: "fffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc30", message: MSG, signature: "6cff5c3ba86c69ea4b7376f31a9bcb4f74c1976089b2d9963da2e5543e17776969e89b4c5564d00349106b8497785dd7d1d713a8ae82b32fa79d5f7fc407d39b", reason: "invalid_public_key" },
+];
+
+// Helper function to split a 64-byte hex signature into r and s
+function toSignature(hex: string): EOTSSignature {
+  return { r: hexToBytes(hex.slice(0, 64)), s: hexToBytes(hex.slice(64)), scheme: "schnorr" };
+}
+
+// Helper function to reproduce the BIP-340 default nonce, so the reference signatures can be rebuilt with an explicit nonce
+function bip340Nonce(secretKey: string, publicKey: string, auxRand: string, message: string): string {
+  // BIP-340 masks the secret key whose public point has an even Y coordinate
+  let d = bytesToNumber(hexToBytes(secretKey));
+  if (ProjectivePoint.BASE.mul(d).toAffine().y % BigInt(2) !== BigInt(0)) {
+    d = CURVE.n - d;
+  }
+  const masked = numberToBytes(d, 32);
+  const t = taggedHash("BIP0340/aux", hexToBytes(auxRand)).map((byte, i) => byte ^ masked[i]);
+  const k = mod(bytesToNumber(taggedHash("BIP0340/nonce", t, hexToBytes(publicKey), hexToBytes(message))), CURVE.n);
+  return bytesToHex(numberToBytes(k, 32));
+}
+
+describe("BIP-340 vectors", () => {
+  it.each(SIGNING_VECTORS)("signs and verifies vector with public key $publicKey", ({ secretKey, publicKey, auxRand, message, signature }) => {
+    expect(bytesToHex(getSchnorrPublicKey(secretKey))).toBe(publicKey);
+
+    const nonce = bip340Nonce(secretKey, publicKey, auxRand, message);
+    const produced = signSchnorrEOTS(secretKey, message, nonce);
+    expect(bytesToHex(produced.r) + bytesToHex(produced.s)).toBe(signature);
+    expect(verifySchnorrEOTSDetailed(publicKey, message, toSignature(signature))).toEqual({ valid: true });
+  });
+
+  it.each(VERIFICATION_VECTORS)("verification vector $index", ({ publicKey, message, signature, reason }) => {
+    const result = verifySchnorrEOTSDetailed(publicKey, message, toSignature(signature));
+    expect(result.valid).toBe(reason === undefined);
+    expect(result.reason).toBe(reason);
+  });
+});
+
+describe("generateSchnorrEOTSKeyPair", () => {
+  it("normalizes the private key to the even-Y point", () => {
+    for (let i = 0; i < 8; i++) {
+      const keyPair = generateSchnorrEOTSKeyPair();
+      const point = ProjectivePoint.BASE.mul(bytesToNumber(keyPair.privateKey)).toAffine();
+      expect(point.y % BigInt(2)).toBe(BigInt(0));
+      expect(bytesToHex(keyPair.publicKey)).toBe(bytesToHex(numberToBytes(point.x, 32)));
+      expect(keyPair.scheme).toBe("schnorr");
+    }
+  });
+
+  it("gives a key and its negation the same x-only public key", () => {
+    const key = SIGNING_VECTORS[2].secretKey;
+    const negated = bytesToHex(numberToBytes(CURVE.n - bytesToNumber(hexToBytes(key)), 32));
+    expect(bytesToHex(getSchnorrPublicKey(negated))).toBe(SIGNING_VECTORS[2].publicKey);
+  });
+});
+
+describe("signSchnorrEOTS", () => {
+  const key = SIGNING_VECTORS[1].secretKey;
+  const nonce = "1f4b84c23a86a221d233f2521be018d9318639d5b8bbd6374a8a59232d16ad3d";
+
+  it("checks the nonce against previously published randomness", () => {
+    const publicRandomness = getPublicRandomness(nonce);
+    expect(bytesToHex(signSchnorrEOTS(key, MSG, nonce, publicRandomness).r)).toBe(bytesToHex(publicRandomness));
+    expect(() => signSchnorrEOTS(key, MSG, nonce, getPublicRandomness(key))).toThrow("Nonce does not match the supplied public randomness");
+  });
+
+  it("signs with the supplied randomness so that verification passes", () => {
+    const publicKey = getSchnorrPublicKey(key);
+    const signature = signSchnorrEOTS(key, MSG, nonce);
+    expect(verifySchnorrEOTS(publicKey, MSG, signature)).toBe(true);
+    expect(verifySchnorrEOTS(publicKey, SIGNING_VECTORS[2].message, signature)).toBe(false);
+    expect(verifySchnorrEOTS(publicKey, MSG, { ...signature, s: numberToBytes(mod(bytesToNumber(signature.s) + BigInt(1), CURVE.n), 32) })).toBe(false);
+  });
+
+  it("rejects out-of-range scalars", () => {
+    expect(() => signSchnorrEOTS("00".repeat(32), MSG, nonce)).toThrow("Invalid private key");
+    expect(() => signSchnorrEOTS(key, MSG, bytesToHex(numberToBytes(CURVE.n, 32)))).toThrow("Invalid nonce");
+  });
+
+  it("rejects x-only keys of the wrong length", () => {
+    expect(() => liftX(new Uint8Array(33))).toThrow("x-only public key must be 32 bytes");
+  });
+});
+
+describe("extractSchnorrPrivateKey", () => {
+  const key = SIGNING_VECTORS[2].secretKey;
+  const publicKey = SIGNING_VECTORS[2].publicKey;
+  const nonce = "1f4b84c23a86a221d233f2521be018d9318639d5b8bbd6374a8a59232d16ad3d";
+  const other = "7e2d58d8b3bcdf1abadec7829054f90dda9805aab56c77333024b9d0a508b75c";
+
+  it("recovers the even-Y private key from two signatures sharing R", () => {
+    const sig1 = signSchnorrEOTS(key, MSG, nonce);
+    const sig2 = signSchnorrEOTS(key, other, nonce);
+    expect(bytesToHex(getSchnorrPublicKey(extractSchnorrPrivateKey(publicKey, sig1, sig2, MSG, other)))).toBe(publicKey);
+  });
+
+  it("computes x = (s1 - s2) / (e1 - e2)", () => {
+    const sig1 = signSchnorrEOTS(key, MSG, nonce);
+    const sig2 = signSchnorrEOTS(key, other, nonce);
+    const e1 = schnorrChallenge(sig1.r, hexToBytes(publicKey), hexToBytes(MSG));
+    const e2 = schnorrChallenge(sig2.r, hexToBytes(publicKey), hexToBytes(other));
+    const expected = mod((bytesToNumber(sig1.s) - bytesToNumber(sig2.s)) * modInverse(mod(e1 - e2, CURVE.n), CURVE.n), CURVE.n);
+    expect(bytesToNumber(extractSchnorrPrivateKey(publicKey, sig1, sig2, MSG, other))).toBe(expected);
+  });
+
+  it("rejects signatures with different public randomness", () => {
+    const sig1 = signSchnorrEOTS(key, MSG, nonce);
+    const sig2 = signSchnorrEOTS(key, other, key);
+    expect(() => extractSchnorrPrivateKey(publicKey, sig1, sig2, MSG, other)).toThrow("Signatures do not use the same public randomness (r values are different)");
+  });
+
+  it("rejects identical signatures", () => {
+    const sig1 = signSchnorrEOTS(key, MSG, nonce);
+    expect(() => extractSchnorrPrivateKey(publicKey, sig1, sig1, MSG, MSG)).toThrow("Signatures are identical");
+  });
+
+  it("rejects equal challenges", () => {
+    const sig1 = signSchnorrEOTS(key, MSG, nonce);
+    const forged = { ...sig1, s: numberToBytes(mod(bytesToNumber(sig1.s) + BigInt(1), CURVE.n), 32) };
+    expect(() => extractSchnorrPrivateKey(publicKey, sig1, forged, MSG, MSG)).toThrow("Cannot extract private key: challenges are equal");
+  });
+
+  it("rejects a public key that does not match the extracted key", () => {
+    const sig1 = signSchnorrEOTS(key, MSG, nonce);
+    const sig2 = signSchnorrEOTS(key, other, nonce);
+    expect(() => extractSchnorrPrivateKey(PK, sig1, sig2, MSG, other)).toThrow("Extracted private key does not match the public key");
+  });
+});
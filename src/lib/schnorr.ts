@@ -0,0 +1,252 @@
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { EOTSKeyPair, EOTSSignature, VerificationResult } from "./types";
+import { hexToBytes, concatBytes, taggedHash } from "./utils";
+import { bytesToNumber, numberToBytes, mod, modInverse } from "./math";
+import { decodePoint, multiplyAdd } from "./curve";
+
+// Helper function to multiply the generator, flipping the scalar so the point has an even Y coordinate
+function evenYPoint(scalar: bigint): { scalar: bigint; x: bigint } {
+  const { x, y } = ProjectivePoint.BASE.mul(scalar).toAffine();
+  if (y % BigInt(2) === BigInt(0)) {
+    return { scalar, x };
+  }
+  return { scalar: CURVE.n - scalar, x };
+}
+
+/**
+ * Lift an x-only coordinate to the curve point with even Y (BIP-340 lift_x)
+ * @param x - 32-byte x coordinate
+ * @returns Curve point
+ */
+export function liftX(x: Uint8Array): ProjectivePoint {
+  if (x.length !== 32) {
+    throw new Error("x-only public key must be 32 bytes");
+  }
+  return decodePoint(x);
+}
+
+// Helper function to accept either a 32-byte x-only or a 33-byte compressed public key
+function toXOnly(publicKey: Uint8Array): Uint8Array {
+  return publicKey.length === 33 ? publicKey.slice(1) : publicKey;
+}
+
+/**
+ * Compute the BIP-340 challenge e = H_challenge(R.x || P.x || m) mod n
+ * @param r - 32-byte x-only public randomness
+ * @param publicKey - 32-byte x-only public key
+ * @param messageHash - Message hash
+ * @returns Challenge scalar
+ */
+export function schnorrChallenge(r: Uint8Array, publicKey: Uint8Array, messageHash: Uint8Array): bigint {
+  return mod(bytesToNumber(taggedHash("BIP0340/challenge", r, publicKey, messageHash)), CURVE.n);
+}
+
+// Helper function to parse a scalar in [1, n)
+function toScalar(bytes: Uint8Array, name: string): bigint {
+  const num = bytesToNumber(bytes);
+  if (num === BigInt(0) || num >= CURVE.n) {
+    throw new Error(`Invalid ${name}`);
+  }
+  return num;
+}
+
+/**
+ * Generate Schnorr EOTS key pair
+ * The private key is normalized so that its public key has an even Y coordinate
+ * @returns EOTSKeyPair with the normalized private key and 32-byte x-only public key
+ */
+export function generateSchnorrEOTSKeyPair(): EOTSKeyPair {
+  const privateKey = new Uint8Array(32);
+  crypto.getRandomValues(privateKey);
+
+  while (bytesToNumber(privateKey) === BigInt(0) || bytesToNumber(privateKey) >= CURVE.n) {
+    crypto.getRandomValues(privateKey);
+  }
+
+  const { scalar, x } = evenYPoint(bytesToNumber(privateKey));
+
+  return {
+    privateKey: numberToBytes(scalar, 32),
+    publicKey: numberToBytes(x, 32),
+    scheme: "schnorr",
+  };
+}
+
+/**
+ * Get x-only public key from private key
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @returns Public key as Uint8Array (32-byte x-only)
+ */
+export function getSchnorrPublicKey(privateKey: Uint8Array | string): Uint8Array {
+  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
+  return numberToBytes(evenYPoint(toScalar(privKey, "private key")).x, 32);
+}
+
+/**
+ * Get the public randomness R committed to by a secret nonce
+ * @param nonce - Secret randomness as Uint8Array or hex string
+ * @returns Public randomness as Uint8Array (32-byte x-only R)
+ */
+export function getPublicRandomness(nonce: Uint8Array | string): Uint8Array {
+  const k = typeof nonce === "string" ? hexToBytes(nonce) : nonce;
+  return numberToBytes(evenYPoint(toScalar(k, "nonce")).x, 32);
+}
+
+/**
+ * Sign a message hash using Schnorr EOTS
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param messageHash - Message hash as Uint8Array or hex string
+ * @param nonce - Secret randomness as Uint8Array or hex string
+ * @param publicRandomness - Previously published x-only R (optional, checked against the nonce if provided)
+ * @returns EOTS signature with r = R.x and s = k + e·x
+ */
+export function signSchnorrEOTS(privateKey: Uint8Array | string, messageHash: Uint8Array | string, nonce: Uint8Array | string, publicRandomness?: Uint8Array | string): EOTSSignature {
+  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
+  const msgHash = typeof messageHash === "string" ? hexToBytes(messageHash) : messageHash;
+  const k = typeof nonce === "string" ? hexToBytes(nonce) : nonce;
+
+  const { scalar: x, x: px } = evenYPoint(toScalar(privKey, "private key"));
+  const { scalar: kNum, x: rx } = evenYPoint(toScalar(k, "nonce"));
+
+  const r = numberToBytes(rx, 32);
+  if (publicRandomness !== undefined) {
+    const pubRand = typeof publicRandomness === "string" ? hexToBytes(publicRandomness) : publicRandomness;
+    if (bytesToNumber(pubRand) !== rx) {
+      throw new Error("Nonce does not match the supplied public randomness");
+    }
+  }
+
+  // s = k + e * x mod n
+  const e = schnorrChallenge(r, numberToBytes(px, 32), msgHash);
+  const s = mod(kNum + e * x, CURVE.n);
+
+  return {
+    r,
+    s: numberToBytes(s, 32),
+    scheme: "schnorr",
+  };
+}
+
+/**
+ * Sign a message with a plain BIP-340 signature, deriving the nonce as BIP-340 specifies
+ * Unlike EOTS signing the nonce is never reused, so this is for ordinary Bitcoin spends (e.g. Taproot key-path inputs)
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param messageHash - 32-byte message (e.g. a sighash) as Uint8Array or hex string
+ * @param auxRand - 32 bytes of auxiliary randomness (optional, random if omitted)
+ * @returns 64-byte signature r || s
+ */
+export function signBIP340(privateKey: Uint8Array | string, messageHash: Uint8Array | string, auxRand?: Uint8Array | string): Uint8Array {
+  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
+  const msgHash = typeof messageHash === "string" ? hexToBytes(messageHash) : messageHash;
+  const aux = auxRand === undefined ? crypto.getRandomValues(new Uint8Array(32)) : typeof auxRand === "string" ? hexToBytes(auxRand) : auxRand;
+  if (aux.length !== 32) {
+    throw new Error("Auxiliary randomness must be 32 bytes");
+  }
+
+  // t = d xor H_aux(a), k = H_nonce(t || P.x || m)
+  const { scalar: d, x: px } = evenYPoint(toScalar(privKey, "private key"));
+  const t = numberToBytes(d ^ bytesToNumber(taggedHash("BIP0340/aux", aux)), 32);
+  const k = mod(bytesToNumber(taggedHash("BIP0340/nonce", t, numberToBytes(px, 32), msgHash)), CURVE.n);
+  if (k === BigInt(0)) {
+    throw new Error("Derived nonce is zero");
+  }
+
+  const signature = signSchnorrEOTS(numberToBytes(d, 32), msgHash, numberToBytes(k, 32));
+  return concatBytes(signature.r, signature.s);
+}
+
+/**
+ * Verify Schnorr EOTS signature (BIP-340 verification)
+ * @param publicKey - x-only (32 bytes) or compressed (33 bytes) public key as Uint8Array or hex string
+ * @param messageHash - Message hash as Uint8Array or hex string
+ * @param signature - EOTS signature
+ * @returns boolean indicating if signature is valid
+ */
+export function verifySchnorrEOTS(publicKey: Uint8Array | string, messageHash: Uint8Array | string, signature: EOTSSignature): boolean {
+  return verifySchnorrEOTSDetailed(publicKey, messageHash, signature).valid;
+}
+
+/**
+ * Verify Schnorr EOTS signature and report why it failed
+ * Computes R = s·G - e·P and checks that R has an even Y coordinate and R.x == r
+ * @param publicKey - x-only (32 bytes) or compressed (33 bytes) public key as Uint8Array or hex string
+ * @param messageHash - Message hash as Uint8Array or hex string
+ * @param signature - EOTS signature
+ * @returns VerificationResult with a failure reason when invalid
+ */
+export function verifySchnorrEOTSDetailed(publicKey: Uint8Array | string, messageHash: Uint8Array | string, signature: EOTSSignature): VerificationResult {
+  const pubKey = toXOnly(typeof publicKey === "string" ? hexToBytes(publicKey) : publicKey);
+  const msgHash = typeof messageHash === "string" ? hexToBytes(messageHash) : messageHash;
+
+  const r = bytesToNumber(signature.r);
+  const s = bytesToNumber(signature.s);
+  if (signature.r.length !== 32 || r >= CURVE.p) {
+    return { valid: false, reason: "r_out_of_range", message: "r must be a 32-byte field element below p" };
+  }
+  if (s >= CURVE.n) {
+    return { valid: false, reason: "s_out_of_range", message: "s must be in the range [0, n-1]" };
+  }
+
+  let P: ProjectivePoint;
+  try {
+    P = liftX(pubKey);
+  } catch {
+    return { valid: false, reason: "invalid_public_key", message: "Public key is not a valid x-only secp256k1 point" };
+  }
+
+  // R = s * G - e * P
+  const e = schnorrChallenge(signature.r, pubKey, msgHash);
+  const R = multiplyAdd(s, P, mod(-e, CURVE.n));
+
+  if (R.equals(ProjectivePoint.ZERO)) {
+    return { valid: false, reason: "point_at_infinity", message: "s·G - e·P is the point at infinity" };
+  }
+
+  const { x, y } = R.toAffine();
+  if (y % BigInt(2) !== BigInt(0) || x !== r) {
+    return { valid: false, reason: "mismatch", message: "Signature does not match the public key and message hash" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Extract private key from two Schnorr EOTS signatures over the same public randomness
+ * @param publicKey - x-only (32 bytes) or compressed (33 bytes) public key as Uint8Array or hex string
+ * @param sig1 - First signature
+ * @param sig2 - Second signature
+ * @param hash1 - First message hash
+ * @param hash2 - Second message hash
+ * @returns Extracted (even-Y normalized) private key as Uint8Array
+ */
+export function extractSchnorrPrivateKey(publicKey: Uint8Array | string, sig1: EOTSSignature, sig2: EOTSSignature, hash1: Uint8Array | string, hash2: Uint8Array | string): Uint8Array {
+  const pubKey = toXOnly(typeof publicKey === "string" ? hexToBytes(publicKey) : publicKey);
+  const msgHash1 = typeof hash1 === "string" ? hexToBytes(hash1) : hash1;
+  const msgHash2 = typeof hash2 === "string" ? hexToBytes(hash2) : hash2;
+
+  if (bytesToNumber(sig1.r) !== bytesToNumber(sig2.r)) {
+    throw new Error("Signatures do not use the same public randomness (r values are different)");
+  }
+
+  const s1 = bytesToNumber(sig1.s);
+  const s2 = bytesToNumber(sig2.s);
+  if (s1 === s2) {
+    throw new Error("Signatures are identical");
+  }
+
+  // s1 - s2 = (e1 - e2) * x  =>  x = (s1 - s2) / (e1 - e2) mod n
+  const e1 = schnorrChallenge(sig1.r, pubKey, msgHash1);
+  const e2 = schnorrChallenge(sig2.r, pubKey, msgHash2);
+  const eDiff = mod(e1 - e2, CURVE.n);
+  if (eDiff === BigInt(0)) {
+    throw new Error("Cannot extract private key: challenges are equal");
+  }
+
+  const privateKey = mod(mod(s1 - s2, CURVE.n) * modInverse(eDiff, CURVE.n), CURVE.n);
+
+  if (evenYPoint(privateKey).x !== bytesToNumber(pubKey)) {
+    throw new Error("Extracted private key does not match the public key");
+  }
+
+  return numberToBytes(privateKey, 32);
+}
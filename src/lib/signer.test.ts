@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryStore, createProtectedSigner, exportSigningHistory, importSigningHistory, DoubleSignError } from "./signer";
+import { verifyEOTS } from "./eots";
+import { getCommittedNonce } from "./randomness";
+
+const KEY = "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9";
+const SEED = "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f";
+const HASH_A = "715fed1a834b02a62cb3cbfd9308a7c963c823905a2a80949f8036d5989b8581";
+const HASH_B = "9cfd1e7b0524d293af4243694088f6de1d76f3e727771c473ca3b10c21b7d83b";
+const NONCE = "1f4b84c23a86a221d233f2521be018d9318639d5b8bbd6374a8a59232d16ad3d";
+
+describe("createProtectedSigner", () => {
+  it("signs once per nonce and refuses a second message", async () => {
+    const signer = createProtectedSigner(KEY, createMemoryStore());
+    const signature = await signer.sign(HASH_A, NONCE);
+    expect(verifyEOTS(signer.publicKey, HASH_A, signature)).toBe(true);
+    await expect(signer.sign(HASH_B, NONCE)).rejects.toBeInstanceOf(DoubleSignError);
+  });
+
+  it("returns the recorded signature when the same message is signed again", async () => {
+    const signer = createProtectedSigner(KEY, createMemoryStore(), "schnorr");
+    const first = await signer.sign(HASH_A, NONCE);
+    expect(await signer.sign(HASH_A.toUpperCase(), NONCE)).toEqual(first);
+  });
+
+  it("guards committed heights", async () => {
+    const signer = createProtectedSigner(KEY, createMemoryStore(), "schnorr");
+    await signer.sign(HASH_A, { seed: SEED, chainId: "test-chain", height: 7 });
+    await expect(signer.sign(HASH_B, { seed: SEED, chainId: "test-chain", height: 7 })).rejects.toThrow("Refusing to sign: slot height:test-chain:7 was already signed");
+    await expect(signer.sign(HASH_B, { seed: SEED, chainId: "test-chain", height: 8 })).resolves.toBeDefined();
+  });
+
+  it("guards a nonce whether it is passed as a CommittedNonce or as raw bytes", async () => {
+    const committed = { seed: SEED, chainId: "test-chain", height: 7 };
+    const raw = getCommittedNonce(committed);
+
+    const signer = createProtectedSigner(KEY, createMemoryStore(), "schnorr");
+    await signer.sign(HASH_A, committed);
+    await expect(signer.sign(HASH_B, raw)).rejects.toBeInstanceOf(DoubleSignError);
+
+    const reversed = createProtectedSigner(KEY, createMemoryStore(), "schnorr");
+    const first = await reversed.sign(HASH_A, raw);
+    await expect(reversed.sign(HASH_B, committed)).rejects.toBeInstanceOf(DoubleSignError);
+    expect(await reversed.sign(HASH_A, committed)).toEqual(first);
+  });
+
+  it("reports the recorded slot and both messages in the error", async () => {
+    const signer = createProtectedSigner(KEY, createMemoryStore());
+    await signer.sign(HASH_A, NONCE);
+    const error = await signer.sign(HASH_B, NONCE).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(DoubleSignError);
+    expect(error).toMatchObject({ messageHash: HASH_B, existing: { publicKey: signer.publicKey, messageHash: HASH_A, slot: expect.stringMatching(/^nonce:/) } });
+  });
+
+  it("keeps separate histories for separate keys in one store", async () => {
+    const store = createMemoryStore();
+    await createProtectedSigner(KEY, store).sign(HASH_A, NONCE);
+    await expect(createProtectedSigner(SEED, store).sign(HASH_B, NONCE)).resolves.toBeDefined();
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it("honours records preloaded into the memory store", async () => {
+    const source = createMemoryStore();
+    await createProtectedSigner(KEY, source).sign(HASH_A, NONCE);
+    const [record] = await source.list();
+
+    const store = createMemoryStore([{ ...record, publicKey: record.publicKey.toUpperCase() }]);
+    expect(await store.get(record.publicKey, record.slot)).toMatchObject({ messageHash: HASH_A });
+    await expect(createProtectedSigner(KEY, store).sign(HASH_B, NONCE)).rejects.toBeInstanceOf(DoubleSignError);
+  });
+
+  it("serializes concurrent signing requests", async () => {
+    const signer = createProtectedSigner(KEY, createMemoryStore());
+    const results = await Promise.allSettled([signer.sign(HASH_A, NONCE), signer.sign(HASH_B, NONCE)]);
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+  });
+});
+
+describe("signing history", () => {
+  it("exports and imports records into a fresh store", async () => {
+    const store = createMemoryStore();
+    const signer = createProtectedSigner(KEY, store);
+    await signer.sign(HASH_A, NONCE);
+
+    const history = await exportSigningHistory(store);
+    const restored = createMemoryStore();
+    expect(await importSigningHistory(restored, JSON.stringify(history))).toBe(1);
+    expect(await importSigningHistory(restored, history)).toBe(0);
+    await expect(createProtectedSigner(KEY, restored).sign(HASH_B, NONCE)).rejects.toBeInstanceOf(DoubleSignError);
+  });
+
+  it("rejects conflicting or malformed history", async () => {
+    const store = createMemoryStore();
+    await createProtectedSigner(KEY, store).sign(HASH_A, NONCE);
+    const history = await exportSigningHistory(store);
+    const conflicting = { ...history, records: history.records.map((record) => ({ ...record, messageHash: HASH_B })) };
+
+    await expect(importSigningHistory(store, conflicting)).rejects.toBeInstanceOf(DoubleSignError);
+    await expect(importSigningHistory(store, { ...history, format: "other" } as never)).rejects.toThrow("Unsupported signing history format");
+    await expect(importSigningHistory(store, { ...history, records: [{ slot: "x" }] } as never)).rejects.toThrow("Malformed signing record in history");
+  });
+});
@@ -0,0 +1,213 @@
+import { CommittedNonce, EOTSMessage, EOTSScheme, EOTSSignature, SigningHistoryExport, SigningRecord, SigningRecordStore } from "./types";
+import { hexToBytes, bytesToHex } from "./utils";
+import { signEOTS, getPublicKey } from "./eots";
+import { isFinalityVote, messageHashOf } from "./message";
+
+/**
+ * Thrown when a signer is asked to sign a different message for a slot it has already signed
+ */
+export class DoubleSignError extends Error {
+  constructor(
+    public readonly existing: SigningRecord,
+    public readonly messageHash: string,
+  ) {
+    super(`Refusing to sign: slot ${existing.slot} was already signed for message ${existing.messageHash}`);
+    this.name = "DoubleSignError";
+  }
+}
+
+/**
+ * Build the registry key for a (public key, slot) pair
+ */
+export function recordKey(publicKey: string, slot: string): string {
+  return `${publicKey.toLowerCase()}|${slot}`;
+}
+
+// Helper function to normalize a hex string for comparison
+function normalizeHex(hex: string): string {
+  return (hex.startsWith("0x") ? hex.slice(2) : hex).toLowerCase();
+}
+
+/**
+ * Create an in-memory signing record store
+ * @param initial - Records to preload (optional)
+ * @returns SigningRecordStore backed by a Map
+ */
+export function createMemoryStore(initial: SigningRecord[] = []): SigningRecordStore {
+  const records = new Map<string, SigningRecord>();
+  for (const record of initial) {
+    records.set(recordKey(record.publicKey, record.slot), record);
+  }
+
+  return {
+    async get(publicKey, slot) {
+      return records.get(recordKey(publicKey, slot));
+    },
+    async put(record) {
+      records.set(recordKey(record.publicKey, record.slot), record);
+    },
+    async list() {
+      return Array.from(records.values());
+    },
+  };
+}
+
+/**
+ * Create an IndexedDB-backed signing record store (browser)
+ * @param dbName - Database name (defaults to "eots-signer")
+ * @returns SigningRecordStore persisted in IndexedDB
+ */
+export function createIndexedDBStore(dbName = "eots-signer"): SigningRecordStore {
+  const storeName = "records";
+  let dbPromise: Promise<IDBDatabase> | undefined;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("IndexedDB is not available in this environment"));
+    }
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName, { keyPath: "key" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async get(publicKey, slot) {
+      const row = await run<{ key: string; record: SigningRecord } | undefined>("readonly", (store) => store.get(recordKey(publicKey, slot)));
+      return row?.record;
+    },
+    async put(record) {
+      await run("readwrite", (store) => store.put({ key: recordKey(record.publicKey, record.slot), record }));
+    },
+    async list() {
+      const rows = await run<{ key: string; record: SigningRecord }[]>("readonly", (store) => store.getAll());
+      return rows.map((row) => row.record);
+    },
+  };
+}
+
+/**
+ * Create a signer that refuses to sign two different messages for the same slot
+ * Slots are the nonce's public point r and, when signing with a CommittedNonce, its (chain id, height)
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param store - Signing record store
+ * @param scheme - Signature scheme (defaults to "ecdsa")
+ * @returns Signer with the public key and a guarded sign function
+ */
+export function createProtectedSigner(privateKey: Uint8Array | string, store: SigningRecordStore, scheme: EOTSScheme = "ecdsa"): { publicKey: string; sign: (messageHash: EOTSMessage, nonce: Uint8Array | string | CommittedNonce) => Promise<EOTSSignature> } {
+  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
+  const publicKey = bytesToHex(getPublicKey(privKey, scheme));
+
+  // Serialize signing so two concurrent calls cannot both pass the registry check
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const signOnce = async (messageHash: EOTSMessage, nonce: Uint8Array | string | CommittedNonce): Promise<EOTSSignature> => {
+    // Votes are recorded by their tagged hash, so a vote and its raw hash count as the same message
+    const msgHashHex = isFinalityVote(messageHash) ? bytesToHex(messageHashOf(messageHash)) : normalizeHex(typeof messageHash === "string" ? messageHash : bytesToHex(messageHash));
+    const signature = signEOTS(privKey, msgHashHex, nonce, scheme);
+    // Every signature claims its nonce point r; committed nonces also claim their (chain id, height)
+    const slots = [`nonce:${bytesToHex(signature.r)}`];
+    if (typeof nonce === "object" && !(nonce instanceof Uint8Array)) {
+      slots.unshift(`height:${nonce.chainId}:${nonce.height}`);
+    }
+
+    const records = await Promise.all(slots.map((slot) => store.get(publicKey, slot)));
+    const conflict = records.find((record) => record && record.messageHash !== msgHashHex);
+    if (conflict) {
+      throw new DoubleSignError(conflict, msgHashHex);
+    }
+    // Re-signing the same message for the same slot is harmless, return the recorded signature
+    const existing = records.find((record) => record !== undefined);
+    const result = existing ? { r: hexToBytes(existing.signature.r), s: hexToBytes(existing.signature.s), scheme: existing.signature.scheme } : signature;
+
+    // Persist before releasing the signature
+    for (const [i, slot] of slots.entries()) {
+      if (!records[i]) {
+        await store.put({
+          publicKey,
+          slot,
+          messageHash: msgHashHex,
+          signature: { r: bytesToHex(result.r), s: bytesToHex(result.s), scheme },
+          signedAt: new Date().toISOString(),
+        });
+      }
+    }
+
+    return result;
+  };
+
+  return {
+    publicKey,
+    sign(messageHash, nonce) {
+      const result = queue.then(() => signOnce(messageHash, nonce));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
+
+/**
+ * Export a store's signing history in the interchange format
+ * @param store - Signing record store
+ * @returns SigningHistoryExport
+ */
+export async function exportSigningHistory(store: SigningRecordStore): Promise<SigningHistoryExport> {
+  return {
+    format: "eots-signing-history",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    records: await store.list(),
+  };
+}
+
+/**
+ * Import signing history into a store
+ * Records already present are skipped; a record that conflicts with an existing one (same slot, different message) aborts the import
+ * @param store - Signing record store
+ * @param data - Interchange data as object or JSON string
+ * @returns Number of records added
+ */
+export async function importSigningHistory(store: SigningRecordStore, data: SigningHistoryExport | string): Promise<number> {
+  const history: SigningHistoryExport = typeof data === "string" ? JSON.parse(data) : data;
+  if (history?.format !== "eots-signing-history" || history.version !== 1 || !Array.isArray(history.records)) {
+    throw new Error("Unsupported signing history format");
+  }
+
+  const seen = new Map<string, SigningRecord>();
+  for (const record of history.records) {
+    if (typeof record.publicKey !== "string" || typeof record.slot !== "string" || typeof record.messageHash !== "string" || !record.signature) {
+      throw new Error("Malformed signing record in history");
+    }
+    const existing = seen.get(recordKey(record.publicKey, record.slot)) ?? (await store.get(record.publicKey, record.slot));
+    if (existing && normalizeHex(existing.messageHash) !== normalizeHex(record.messageHash)) {
+      throw new DoubleSignError(existing, record.messageHash);
+    }
+    seen.set(recordKey(record.publicKey, record.slot), record);
+  }
+
+  let added = 0;
+  for (const record of history.records) {
+    if (!(await store.get(record.publicKey, record.slot))) {
+      await store.put({ ...record, publicKey: record.publicKey.toLowerCase(), messageHash: normalizeHex(record.messageHash) });
+      added++;
+    }
+  }
+
+  return added;
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createJsonFileStore } from "./signerStoreNode";
+import { createProtectedSigner, DoubleSignError } from "./signer";
+import { getCommittedNonce } from "./randomness";
+
+const KEY = "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9";
+const SEED = "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f";
+const HASH_A = "715fed1a834b02a62cb3cbfd9308a7c963c823905a2a80949f8036d5989b8581";
+const HASH_B = "9cfd1e7b0524d293af4243694088f6de1d76f3e727771c473ca3b10c21b7d83b";
+
+describe("createJsonFileStore", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "eots-store-"));
+    path = join(dir, "history.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists records across store instances", async () => {
+    const signer = createProtectedSigner(KEY, createJsonFileStore(path), "schnorr");
+    await signer.sign(HASH_A, { seed: SEED, chainId: "test-chain", height: 7 });
+
+    const records = await createJsonFileStore(path).list();
+    expect(records.map((record) => record.slot)).toEqual(expect.arrayContaining(["height:test-chain:7", expect.stringMatching(/^nonce:/)]));
+    expect(records).toHaveLength(2);
+    expect(records.every((record) => record.messageHash === HASH_A)).toBe(true);
+  });
+
+  it("detects a conflict on the first signature after a restart", async () => {
+    const committed = { seed: SEED, chainId: "test-chain", height: 7 };
+    await createProtectedSigner(KEY, createJsonFileStore(path), "schnorr").sign(HASH_A, getCommittedNonce(committed));
+
+    // A fresh store looks up both slots at once before its history has loaded
+    const restarted = createProtectedSigner(KEY, createJsonFileStore(path), "schnorr");
+    await expect(restarted.sign(HASH_B, committed)).rejects.toBeInstanceOf(DoubleSignError);
+  });
+
+  it("answers concurrent first reads from the loaded history", async () => {
+    const signer = createProtectedSigner(KEY, createJsonFileStore(path));
+    await signer.sign(HASH_A, SEED);
+    const [record] = await createJsonFileStore(path).list();
+
+    const store = createJsonFileStore(path);
+    const results = await Promise.all([store.get(record.publicKey, record.slot), store.get(record.publicKey, record.slot), store.list()]);
+    expect(results).toEqual([record, record, [record]]);
+  });
+
+  it("rejects a corrupt file and retries on the next call", async () => {
+    await writeFile(path, "{ not json", "utf8");
+    const store = createJsonFileStore(path);
+    await expect(store.list()).rejects.toThrow(SyntaxError);
+
+    await writeFile(path, JSON.stringify({ format: "other", records: [] }), "utf8");
+    await expect(store.list()).rejects.toThrow("is not a signing history file");
+
+    await writeFile(path, JSON.stringify({ format: "eots-signing-history", version: 1, records: [] }), "utf8");
+    await expect(store.list()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { readFile, writeFile, rename } from "fs/promises";
+import { SigningHistoryExport, SigningRecord, SigningRecordStore } from "./types";
+import { recordKey } from "./signer";
+
+/**
+ * Create a JSON-file-backed signing record store (Node only)
+ * The file uses the signing history interchange format, so it can be copied to another machine and imported directly
+ * @param path - Path of the JSON file (created on first write)
+ * @returns SigningRecordStore persisted to disk
+ */
+export function createJsonFileStore(path: string): SigningRecordStore {
+  // One shared load, so concurrent first calls all wait for the history instead of seeing an empty map
+  let loading: Promise<Map<string, SigningRecord>> | undefined;
+
+  const readAndParse = async (): Promise<Map<string, SigningRecord>> => {
+    const records = new Map<string, SigningRecord>();
+    let text: string;
+    try {
+      text = await readFile(path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return records;
+      }
+      throw error;
+    }
+    const history: SigningHistoryExport = JSON.parse(text);
+    if (history?.format !== "eots-signing-history" || !Array.isArray(history.records)) {
+      throw new Error(`${path} is not a signing history file`);
+    }
+    for (const record of history.records) {
+      records.set(recordKey(record.publicKey, record.slot), record);
+    }
+    return records;
+  };
+
+  const load = (): Promise<Map<string, SigningRecord>> => {
+    loading ??= readAndParse().catch((error) => {
+      // Let the next call retry rather than caching the failure
+      loading = undefined;
+      throw error;
+    });
+    return loading;
+  };
+
+  // Write to a temporary file and rename, so a crash never leaves a truncated history
+  const save = async (records: Map<string, SigningRecord>): Promise<void> => {
+    const history: SigningHistoryExport = {
+      format: "eots-signing-history",
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      records: Array.from(records.values()),
+    };
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(history, null, 2), "utf8");
+    await rename(tmpPath, path);
+  };
+
+  return {
+    async get(publicKey, slot) {
+      return (await load()).get(recordKey(publicKey, slot));
+    },
+    async put(record) {
+      const records = await load();
+      records.set(recordKey(record.publicKey, record.slot), record);
+      await save(records);
+    },
+    async list() {
+      return Array.from((await load()).values());
+    },
+  };
+}
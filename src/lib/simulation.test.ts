@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { runFinalitySimulation } from "./simulation";
+import { evidenceFromJSON, verifyEvidence } from "./evidence";
+import { getSchnorrPublicKey } from "./schnorr";
+import { deriveTaprootAddress } from "./eots";
+import { finalityVoteHash } from "./message";
+import { bytesToHex } from "./utils";
+import { SimulationConfig } from "./types";
+
+const EQUAL: SimulationConfig = { seed: "equal", providers: [25, 25, 25, 25].map((votingPower) => ({ votingPower })), heights: 4 };
+const WEIGHTED: SimulationConfig = { seed: "weighted", providers: [40, 30, 20, 10].map((votingPower, i) => ({ name: `fp-${"abcd"[i]}`, votingPower })), heights: 4 };
+
+describe("runFinalitySimulation", () => {
+  it("is reproducible from its seed", () => {
+    const result = runFinalitySimulation({ ...EQUAL, participation: 0.5 });
+    expect(runFinalitySimulation({ ...EQUAL, participation: 0.5 })).toEqual(result);
+
+    const other = runFinalitySimulation({ ...EQUAL, participation: 0.5, seed: "other" });
+    expect(other.providers.map((provider) => provider.publicKey)).not.toEqual(result.providers.map((provider) => provider.publicKey));
+    expect(other.blocks.map((block) => block.hash)).not.toEqual(result.blocks.map((block) => block.hash));
+  });
+
+  it("finalizes every block when all providers vote", () => {
+    const result = runFinalitySimulation(EQUAL);
+    const count = (type: string) => result.events.filter((event) => event.type === type).length;
+
+    expect(count("commit_randomness")).toBe(4);
+    expect(count("vote")).toBe(16);
+    expect(count("finalize")).toBe(4);
+    expect(result.finalizedHeight).toBe(4);
+    expect(result.blocks.every((block) => block.votedPower === 100 && block.totalPower === 100 && block.forkHash === undefined)).toBe(true);
+    expect(result.events.map((event) => event.step)).toEqual(result.events.map((_, i) => i));
+    expect(result.evidence).toEqual([]);
+
+    // Every vote uses a fresh committed nonce
+    const nonces = result.events.filter((event) => event.type === "vote").map((event) => event.r);
+    expect(new Set(nonces).size).toBe(nonces.length);
+  });
+
+  it("extracts and slashes a provider that double signs", () => {
+    const result = runFinalitySimulation({ ...EQUAL, faults: [{ type: "double_sign", provider: 1, height: 2 }] });
+    const [slash] = result.events.filter((event) => event.type === "slash");
+    const provider = result.providers[1];
+
+    expect(slash).toMatchObject({ height: 2, provider: "fp-1", votingPower: 25 });
+    expect(bytesToHex(getSchnorrPublicKey(slash.privateKey!))).toBe(provider.publicKey);
+    expect(slash.taprootAddress).toBe(deriveTaprootAddress(slash.privateKey!));
+    expect(provider.slashedAtHeight).toBe(2);
+
+    expect(result.evidence).toHaveLength(1);
+    const evidence = evidenceFromJSON(result.evidence[0]);
+    expect(verifyEvidence(evidence).valid).toBe(true);
+    const block = result.blocks[1];
+    const signed = [block.hash, block.forkHash!].map((hash) => bytesToHex(finalityVoteHash({ chainId: "sim-chain", height: 2, hash }))).sort();
+    expect([evidence.messageHash1, evidence.messageHash2].map(bytesToHex)).toEqual(signed);
+
+    // The slashed vote no longer counts, and the provider is gone from later heights
+    expect(block).toMatchObject({ votedPower: 75, totalPower: 100, finalized: true });
+    expect(result.blocks[2]).toMatchObject({ votedPower: 75, totalPower: 75 });
+    expect(result.events.some((event) => event.provider === "fp-1" && event.height > 2)).toBe(false);
+    expect(result.finalizedHeight).toBe(4);
+  });
+
+  it("stalls when slashing or missed votes leave a block short of quorum", () => {
+    const slashed = runFinalitySimulation({ ...WEIGHTED, faults: [{ type: "double_sign", provider: 0, height: 2 }] });
+    expect(slashed.blocks.map((block) => block.finalized)).toEqual([true, false, false, false]);
+    expect(slashed.blocks[1]).toMatchObject({ votedPower: 60, totalPower: 100 });
+    // Later blocks reach quorum among the remaining providers but cannot skip the stalled one
+    expect(slashed.blocks[2]).toMatchObject({ votedPower: 60, totalPower: 60 });
+    expect(slashed.events.find((event) => event.type === "stall" && event.height === 3)?.message).toBe("Block 3 is not final: block 2 is not final");
+    expect(slashed.finalizedHeight).toBe(1);
+
+    const offline = { ...EQUAL, faults: [{ type: "offline" as const, provider: 3, height: 1 }] };
+    expect(runFinalitySimulation(offline).finalizedHeight).toBe(4);
+    expect(runFinalitySimulation({ ...offline, quorum: 0.75 }).finalizedHeight).toBe(0);
+    expect(runFinalitySimulation({ ...offline, quorum: 0.75 }).events.filter((event) => event.type === "missed_vote")).toHaveLength(1);
+  });
+
+  it("validates its configuration", () => {
+    expect(() => runFinalitySimulation({ ...EQUAL, seed: undefined as unknown as string })).toThrow(expect.objectContaining({ code: "missing", field: "seed" }));
+    expect(() => runFinalitySimulation({ ...EQUAL, providers: [] })).toThrow(expect.objectContaining({ field: "providers" }));
+    expect(() => runFinalitySimulation({ ...EQUAL, providers: [{ votingPower: 0 }] })).toThrow(expect.objectContaining({ field: "providers[0].votingPower", code: "out_of_range" }));
+    expect(() => runFinalitySimulation({ ...EQUAL, heights: 65 })).toThrow("heights must be between 1 and 64");
+    expect(() => runFinalitySimulation({ ...EQUAL, quorum: 1 })).toThrow(expect.objectContaining({ field: "quorum" }));
+    expect(() => runFinalitySimulation({ ...EQUAL, faults: [{ type: "double_sign", provider: 4, height: 1 }] })).toThrow(expect.objectContaining({ field: "faults[0].provider" }));
+    expect(() => runFinalitySimulation({ ...EQUAL, faults: [{ type: "offline", provider: 0, height: 5 }] })).toThrow("faults[0].height must be between 1 and 4");
+    const twice = [{ type: "offline" as const, provider: 0, height: 1 }, { type: "double_sign" as const, provider: 0, height: 1 }];
+    expect(() => runFinalitySimulation({ ...EQUAL, faults: twice })).toThrow("Provider 0 already has a fault at height 1");
+  });
+});
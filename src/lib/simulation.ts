@@ -0,0 +1,275 @@
+import { CURVE } from "@noble/secp256k1";
+import { BitcoinNetwork, FinalityVote, PublicRandomnessBatch, PublicRandomnessCommitment, SimulationBlock, SimulationConfig, SimulationEvent, SimulationFault, SimulationProvider, SimulationProviderConfig, SimulationResult } from "./types";
+import { bytesToHex, taggedHash } from "./utils";
+import { bytesToNumber, mod, numberToBytes } from "./math";
+import { getSchnorrPublicKey } from "./schnorr";
+import { signEOTS } from "./eots";
+import { getPublicRandomnessBatch } from "./randomness";
+import { commitPublicRandomness, getRandomnessProof, verifyCommittedSignature } from "./merkle";
+import { finalityVoteHash } from "./message";
+import { createEquivocationWatcher } from "./watcher";
+import { evidenceFromAlert, evidenceId, evidenceToJSON } from "./evidence";
+import { NETWORK_HRP } from "./taproot";
+import { InvalidFormatError, InvalidTypeError, MissingInputError, OutOfRangeError } from "./errors";
+
+/**
+ * Finality simulation
+ * Finality providers commit public randomness for every simulated height, then vote on each block with a
+ * Schnorr EOTS signature over a FinalityVote, using the nonce committed for that height. A block is final when
+ * the unslashed providers voting for it hold more than `quorum` of the voting power at that height and every
+ * earlier block is final. A provider scripted to double sign also votes for a fork with the same committed
+ * nonce; the watcher extracts its key from the two votes and the provider is slashed: its votes stop counting
+ * from that height on. Keys, randomness, block hashes, vote order and participation all derive from the seed.
+ */
+
+export const MAX_SIMULATION_PROVIDERS = 16;
+export const MAX_SIMULATION_HEIGHTS = 64;
+
+const DEFAULT_CHAIN_ID = "sim-chain";
+const DEFAULT_QUORUM = 2 / 3;
+
+type NormalizedConfig = Required<Omit<SimulationConfig, "providers">> & { providers: Required<SimulationProviderConfig>[] };
+
+interface ProviderState {
+  info: SimulationProvider;
+  privateKey: Uint8Array;
+  randomnessSeed: Uint8Array;
+  batch: PublicRandomnessBatch;
+  commitment: PublicRandomnessCommitment;
+}
+
+// Helper function to read an optional number that must lie in [min, max]
+function optionalNumber(value: unknown, field: string, fallback: number, min: number, max: number, integer: boolean): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    throw new InvalidTypeError(field, integer ? "an integer" : "a number");
+  }
+  if (value < min || value > max) {
+    throw new OutOfRangeError(field, `${field} must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Validate a simulation config and fill in defaults
+ * @param config - SimulationConfig, e.g. a parsed JSON request body
+ * @returns Config with every optional field set
+ */
+export function parseSimulationConfig(config: unknown): NormalizedConfig {
+  if (config === undefined || config === null) {
+    throw new MissingInputError("body");
+  }
+  if (typeof config !== "object" || Array.isArray(config)) {
+    throw new InvalidTypeError("body", "an object");
+  }
+  const input = config as Record<string, unknown>;
+
+  if (input.seed === undefined) {
+    throw new MissingInputError("seed");
+  }
+  if (typeof input.seed !== "string") {
+    throw new InvalidTypeError("seed", "a string");
+  }
+
+  if (input.providers === undefined) {
+    throw new MissingInputError("providers");
+  }
+  if (!Array.isArray(input.providers)) {
+    throw new InvalidTypeError("providers", "an array");
+  }
+  if (input.providers.length === 0 || input.providers.length > MAX_SIMULATION_PROVIDERS) {
+    throw new OutOfRangeError("providers", `providers must list 1 to ${MAX_SIMULATION_PROVIDERS} finality providers`);
+  }
+  const providers = input.providers.map((provider: unknown, i) => {
+    const entry = (provider ?? {}) as Record<string, unknown>;
+    if (entry.votingPower === undefined) {
+      throw new MissingInputError(`providers[${i}].votingPower`);
+    }
+    const votingPower = optionalNumber(entry.votingPower, `providers[${i}].votingPower`, 0, 1, Number.MAX_SAFE_INTEGER, true);
+    if (entry.name !== undefined && (typeof entry.name !== "string" || entry.name === "")) {
+      throw new InvalidTypeError(`providers[${i}].name`, "a non-empty string");
+    }
+    return { name: (entry.name as string | undefined) ?? `fp-${i}`, votingPower };
+  });
+  if (providers.reduce((total, provider) => total + provider.votingPower, 0) > Number.MAX_SAFE_INTEGER) {
+    throw new OutOfRangeError("providers", "Total voting power must not exceed 2^53 - 1");
+  }
+
+  if (input.heights === undefined) {
+    throw new MissingInputError("heights");
+  }
+  const heights = optionalNumber(input.heights, "heights", 0, 1, MAX_SIMULATION_HEIGHTS, true);
+  const startHeight = optionalNumber(input.startHeight, "startHeight", 1, 0, Number.MAX_SAFE_INTEGER - MAX_SIMULATION_HEIGHTS, true);
+
+  const chainId = input.chainId ?? DEFAULT_CHAIN_ID;
+  if (typeof chainId !== "string" || chainId === "") {
+    throw new InvalidTypeError("chainId", "a non-empty string");
+  }
+
+  const quorum = optionalNumber(input.quorum, "quorum", DEFAULT_QUORUM, 0, 1, false);
+  if (quorum === 1) {
+    throw new OutOfRangeError("quorum", "quorum must be below 1: a block needs more than quorum of the voting power");
+  }
+  const participation = optionalNumber(input.participation, "participation", 1, 0, 1, false);
+
+  const network = input.network ?? "mainnet";
+  if (typeof network !== "string" || !Object.keys(NETWORK_HRP).includes(network)) {
+    throw new OutOfRangeError("network", `network must be one of ${Object.keys(NETWORK_HRP).join(", ")}`);
+  }
+
+  if (input.faults !== undefined && !Array.isArray(input.faults)) {
+    throw new InvalidTypeError("faults", "an array");
+  }
+  const seen = new Set<string>();
+  const faults = ((input.faults ?? []) as unknown[]).map((fault, i): SimulationFault => {
+    const entry = (fault ?? {}) as Record<string, unknown>;
+    if (entry.type !== "double_sign" && entry.type !== "offline") {
+      throw new InvalidFormatError(`faults[${i}].type`, `faults[${i}].type must be "double_sign" or "offline"`);
+    }
+    if (entry.provider === undefined || entry.height === undefined) {
+      throw new MissingInputError(entry.provider === undefined ? `faults[${i}].provider` : `faults[${i}].height`);
+    }
+    const provider = optionalNumber(entry.provider, `faults[${i}].provider`, 0, 0, providers.length - 1, true);
+    const height = optionalNumber(entry.height, `faults[${i}].height`, 0, startHeight, startHeight + heights - 1, true);
+    if (seen.has(`${provider}:${height}`)) {
+      throw new InvalidFormatError(`faults[${i}]`, `Provider ${provider} already has a fault at height ${height}`);
+    }
+    seen.add(`${provider}:${height}`);
+    return { type: entry.type, provider, height };
+  });
+
+  return { seed: input.seed, providers, heights, startHeight, chainId, quorum, participation, faults, network: network as BitcoinNetwork };
+}
+
+// Helper function to hash the seed with a domain tag and further inputs
+function seeded(seed: string, tag: string, ...parts: (string | number)[]): Uint8Array {
+  const encoded = parts.map((part) => (typeof part === "number" ? numberToBytes(BigInt(part), 8) : new TextEncoder().encode(part)));
+  return taggedHash(`EOTS/simulation/${tag}`, new TextEncoder().encode(seed), ...encoded);
+}
+
+// Helper function to create a deterministic stream of floats in [0, 1) from the seed
+function createRandom(seed: string): () => number {
+  let counter = 0;
+  return () => Number(bytesToNumber(seeded(seed, "random", counter++).slice(0, 6))) / 2 ** 48;
+}
+
+/**
+ * Run a finality simulation
+ * @param config - SimulationConfig (validated with parseSimulationConfig)
+ * @returns SimulationResult with the provider set, per-height blocks, the event timeline and slashing evidence
+ */
+export function runFinalitySimulation(config: SimulationConfig): SimulationResult {
+  const { seed, providers: providerConfigs, heights, startHeight, chainId, quorum, participation, faults, network } = parseSimulationConfig(config);
+  const random = createRandom(seed);
+  const watcher = createEquivocationWatcher(network);
+  const events: SimulationEvent[] = [];
+  const blocks: SimulationBlock[] = [];
+  const evidence: SimulationResult["evidence"] = [];
+
+  const record = (event: Omit<SimulationEvent, "step">) => events.push({ step: events.length, ...event });
+  const faultAt = (provider: number, height: number) => faults.find((fault) => fault.provider === provider && fault.height === height)?.type;
+
+  const providers: ProviderState[] = providerConfigs.map(({ name, votingPower }, i) => {
+    const privateKey = numberToBytes(mod(bytesToNumber(seeded(seed, "key", i)), CURVE.n - BigInt(1)) + BigInt(1), 32);
+    const randomnessSeed = seeded(seed, "randomness", i);
+    const batch = getPublicRandomnessBatch(randomnessSeed, chainId, startHeight, heights);
+    const commitment = commitPublicRandomness(batch);
+    const info: SimulationProvider = { name, publicKey: bytesToHex(getSchnorrPublicKey(privateKey)), votingPower, randomnessRoot: bytesToHex(commitment.root) };
+    record({ height: startHeight, type: "commit_randomness", provider: name, message: `${name} commits public randomness for heights ${startHeight}-${startHeight + heights - 1}` });
+    return { info, privateKey, randomnessSeed, batch, commitment };
+  });
+
+  let parentHash = seeded(seed, "genesis", chainId);
+
+  for (let height = startHeight; height < startHeight + heights; height++) {
+    const hash = seeded(seed, "block", height, bytesToHex(parentHash));
+    const doubleSigners = providers.filter((_, i) => faultAt(i, height) === "double_sign");
+    const forkHash = doubleSigners.length > 0 ? seeded(seed, "fork", height, bytesToHex(parentHash)) : undefined;
+    record({ height, type: "propose", blockHash: bytesToHex(hash), message: `Block ${height} proposed` });
+    if (forkHash) {
+      record({ height, type: "propose", blockHash: bytesToHex(forkHash), fork: true, message: `Conflicting block ${height} proposed` });
+    }
+
+    const active = providers.map((_, i) => i).filter((i) => providers[i].info.slashedAtHeight === undefined);
+    const totalPower = active.reduce((total, i) => total + providers[i].info.votingPower, 0);
+    const voters = new Set<number>();
+
+    const castVote = (i: number, blockHash: Uint8Array, fork: boolean) => {
+      const provider = providers[i];
+      const vote: FinalityVote = { chainId, height, hash: blockHash };
+      const messageHash = finalityVoteHash(vote);
+      const signature = signEOTS(provider.privateKey, vote, { seed: provider.randomnessSeed, chainId, height }, "schnorr");
+
+      const check = verifyCommittedSignature(provider.info.publicKey, vote, signature, provider.commitment.root, getRandomnessProof(provider.batch, height), provider.commitment, height);
+      if (!check.valid) {
+        throw new Error(`Vote of ${provider.info.name} at height ${height} failed verification: ${check.message ?? check.reason}`);
+      }
+      if (!fork) {
+        voters.add(i);
+      }
+      record({ height, type: "vote", provider: provider.info.name, blockHash: bytesToHex(blockHash), fork: fork || undefined, r: bytesToHex(signature.r), message: `${provider.info.name} votes for ${fork ? "the conflicting " : ""}block ${height}` });
+
+      for (const alert of watcher.add({ publicKey: provider.info.publicKey, messageHash: bytesToHex(messageHash), signature })) {
+        if (!alert.compromised) {
+          record({ height, type: "equivocation", provider: provider.info.name, message: `${provider.info.name} reused a nonce but extraction failed: ${alert.error}` });
+          continue;
+        }
+        const proof = evidenceFromAlert(alert);
+        const id = evidenceId(proof);
+        evidence.push(evidenceToJSON(proof));
+        record({ height, type: "equivocation", provider: provider.info.name, r: alert.r, evidenceId: id, message: `${provider.info.name} signed two blocks at height ${height} with one committed nonce` });
+
+        provider.info.slashedAtHeight = height;
+        record({ height, type: "slash", provider: provider.info.name, votingPower: provider.info.votingPower, privateKey: alert.compromised.privateKey, taprootAddress: alert.compromised.taprootAddress, evidenceId: id, message: `${provider.info.name} is slashed: its key was extracted and its ${provider.info.votingPower} voting power no longer counts` });
+      }
+    };
+
+    // Providers vote in a seeded order; the participation draw is made for every provider so that faults do not shift the stream
+    const order = [...active];
+    for (let j = order.length - 1; j > 0; j--) {
+      const k = Math.floor(random() * (j + 1));
+      [order[j], order[k]] = [order[k], order[j]];
+    }
+    for (const i of order) {
+      const participates = random() < participation;
+      const fault = faultAt(i, height);
+      if (fault === "offline" || (!participates && fault !== "double_sign")) {
+        record({ height, type: "missed_vote", provider: providers[i].info.name, message: `${providers[i].info.name} ${fault === "offline" ? "is offline" : "did not vote"} at height ${height}` });
+        continue;
+      }
+      castVote(i, hash, false);
+      if (fault === "double_sign" && forkHash) {
+        castVote(i, forkHash, true);
+      }
+    }
+
+    const votedPower = [...voters].filter((i) => providers[i].info.slashedAtHeight === undefined).reduce((total, i) => total + providers[i].info.votingPower, 0);
+    const previousFinal = blocks.length === 0 || blocks[blocks.length - 1].finalized;
+    const quorumReached = votedPower > quorum * totalPower;
+    const finalized = quorumReached && previousFinal;
+    blocks.push({ height, hash: bytesToHex(hash), forkHash: forkHash && bytesToHex(forkHash), votedPower, totalPower, finalized });
+
+    if (finalized) {
+      record({ height, type: "finalize", blockHash: bytesToHex(hash), votingPower: votedPower, message: `Block ${height} is final with ${votedPower} of ${totalPower} voting power` });
+    } else {
+      const reason = quorumReached ? `block ${height - 1} is not final` : `only ${votedPower} of ${totalPower} voting power voted for it`;
+      record({ height, type: "stall", blockHash: bytesToHex(hash), votingPower: votedPower, message: `Block ${height} is not final: ${reason}` });
+    }
+
+    parentHash = hash;
+  }
+
+  const firstOpen = blocks.findIndex((block) => !block.finalized);
+  return {
+    seed,
+    chainId,
+    quorum,
+    providers: providers.map((provider) => provider.info),
+    blocks,
+    events,
+    evidence,
+    finalizedHeight: startHeight - 1 + (firstOpen === -1 ? blocks.length : firstOpen),
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { buildSlashingScript, buildStakingOutput, buildTimelockScript, buildUnbondingScript } from "./staking";
+import { NUMS_INTERNAL_KEY, buildTapTree, scriptToAsm, tapBranchHash, tapLeafHash } from "./tapscript";
+import { tweakPublicKey, taprootAddressFromPublicKey } from "./taproot";
+import { deriveTaprootAddress } from "./eots";
+import { getSchnorrPublicKey } from "./schnorr";
+import { bytesToHex } from "./utils";
+import { StakingLeaf } from "./types";
+
+const privateKey = (n: number) => n.toString(16).padStart(64, "0");
+const publicKey = (n: number) => bytesToHex(getSchnorrPublicKey(privateKey(n)));
+
+const STAKER = publicKey(1);
+const PROVIDER = publicKey(2);
+// Deliberately out of order: the scripts sort keys ascending
+const COVENANT = [publicKey(5), publicKey(3), publicKey(4)];
+const SORTED_COVENANT = [...COVENANT].sort();
+
+const params = { stakerKey: STAKER, finalityProviderKeys: [PROVIDER], covenantKeys: COVENANT, covenantQuorum: 2, stakingTime: 64000 };
+
+// Check a control block the way a node does: rebuild the output key from the revealed script and path
+function spendsOutput(outputKey: Uint8Array, leaf: StakingLeaf): boolean {
+  const internalKey = leaf.controlBlock.slice(1, 33);
+  const path = Array.from({ length: (leaf.controlBlock.length - 33) / 32 }, (_, i) => leaf.controlBlock.slice(33 + 32 * i, 65 + 32 * i));
+  const root = path.reduce((node, sibling) => tapBranchHash(node, sibling), tapLeafHash(leaf.script, leaf.controlBlock[0] & 0xfe));
+  const tweaked = tweakPublicKey(internalKey, root);
+  return bytesToHex(tweaked.outputKey) === bytesToHex(outputKey) && tweaked.parity === (leaf.controlBlock[0] & 1);
+}
+
+describe("staking scripts", () => {
+  it("builds the timelock leaf", () => {
+    expect(scriptToAsm(buildTimelockScript(STAKER, 64000))).toBe(`${STAKER} OP_CHECKSIGVERIFY 00fa00 OP_CHECKSEQUENCEVERIFY`);
+    expect(scriptToAsm(buildTimelockScript(`02${STAKER}`, 10))).toBe(`${STAKER} OP_CHECKSIGVERIFY OP_10 OP_CHECKSEQUENCEVERIFY`);
+  });
+
+  it("builds the unbonding leaf with a sorted covenant quorum", () => {
+    const [c1, c2, c3] = SORTED_COVENANT;
+    expect(scriptToAsm(buildUnbondingScript(STAKER, COVENANT, 2))).toBe(`${STAKER} OP_CHECKSIGVERIFY ${c1} OP_CHECKSIG ${c2} OP_CHECKSIGADD ${c3} OP_CHECKSIGADD OP_2 OP_NUMEQUAL`);
+    expect(scriptToAsm(buildUnbondingScript(STAKER, [c1], 1))).toBe(`${STAKER} OP_CHECKSIGVERIFY ${c1} OP_CHECKSIG`);
+  });
+
+  it("builds the slashing leaf for one or several finality providers", () => {
+    const [c1, c2, c3] = SORTED_COVENANT;
+    const covenant = `${c1} OP_CHECKSIG ${c2} OP_CHECKSIGADD ${c3} OP_CHECKSIGADD OP_2 OP_NUMEQUAL`;
+    expect(scriptToAsm(buildSlashingScript(STAKER, [PROVIDER], COVENANT, 2))).toBe(`${STAKER} OP_CHECKSIGVERIFY ${PROVIDER} OP_CHECKSIGVERIFY ${covenant}`);
+
+    const [p1, p2] = [publicKey(7), publicKey(6)].sort();
+    expect(scriptToAsm(buildSlashingScript(STAKER, [p2, p1], COVENANT, 2))).toBe(`${STAKER} OP_CHECKSIGVERIFY ${p1} OP_CHECKSIG ${p2} OP_CHECKSIGADD OP_1 OP_NUMEQUALVERIFY ${covenant}`);
+  });
+
+  it("validates keys, quorum and timelock", () => {
+    expect(() => buildTimelockScript(STAKER, 0)).toThrow("stakingTime must be between 1 and 65535");
+    expect(() => buildTimelockScript(STAKER, 65536)).toThrow(expect.objectContaining({ code: "out_of_range" }));
+    expect(() => buildUnbondingScript(STAKER, COVENANT, 4)).toThrow("covenantQuorum must be between 1 and 3");
+    expect(() => buildUnbondingScript(STAKER, [], 1)).toThrow("covenantKeys is required");
+    expect(() => buildUnbondingScript(STAKER, [COVENANT[0], `03${COVENANT[0]}`], 1)).toThrow(`covenantKeys contains ${COVENANT[0]} twice`);
+    expect(() => buildSlashingScript(STAKER, ["00".repeat(32)], COVENANT, 1)).toThrow(expect.objectContaining({ code: "invalid_point", field: "finalityProviderKeys[0]" }));
+  });
+});
+
+describe("buildStakingOutput", () => {
+  it("commits to ((timelock, unbonding), slashing) under the NUMS key", () => {
+    const output = buildStakingOutput(params);
+    const timelock = tapLeafHash(buildTimelockScript(STAKER, 64000));
+    const unbonding = tapLeafHash(buildUnbondingScript(STAKER, COVENANT, 2));
+    const slashing = tapLeafHash(buildSlashingScript(STAKER, [PROVIDER], COVENANT, 2));
+
+    expect(bytesToHex(output.internalKey)).toBe(NUMS_INTERNAL_KEY);
+    expect(bytesToHex(output.merkleRoot)).toBe(bytesToHex(tapBranchHash(tapBranchHash(timelock, unbonding), slashing)));
+    expect(output.address).toBe(taprootAddressFromPublicKey(NUMS_INTERNAL_KEY, "mainnet", output.merkleRoot));
+    expect(bytesToHex(output.scriptPubKey)).toBe("5120" + bytesToHex(output.outputKey));
+    expect(output.slashing.merklePath).toEqual([tapBranchHash(timelock, unbonding)]);
+  });
+
+  it("gives every leaf a control block that spends the output", () => {
+    const output = buildStakingOutput(params, "signet");
+    expect(output.address.startsWith("tb1p")).toBe(true);
+    for (const leaf of [output.timelock, output.unbonding, output.slashing]) {
+      expect(leaf.controlBlock.length).toBe(33 + 32 * leaf.merklePath.length);
+      expect(spendsOutput(output.outputKey, leaf)).toBe(true);
+    }
+    expect(spendsOutput(output.outputKey, { ...output.timelock, script: output.unbonding.script })).toBe(false);
+  });
+
+  it("plugs into deriveTaprootAddress when the staker holds the key path", () => {
+    const output = buildStakingOutput({ ...params, internalKey: STAKER }, "testnet");
+    expect(output.address).toBe(deriveTaprootAddress(privateKey(1), "testnet", output.merkleRoot));
+    expect(bytesToHex(output.merkleRoot)).toBe(bytesToHex(buildTapTree([output.timelock.script, output.unbonding.script, output.slashing.script]).merkleRoot));
+  });
+
+  it("does not depend on the order keys are given in", () => {
+    const reordered = buildStakingOutput({ ...params, covenantKeys: [...COVENANT].reverse() });
+    expect(reordered.address).toBe(buildStakingOutput(params).address);
+  });
+
+  it("rejects keys holding two roles", () => {
+    expect(() => buildStakingOutput({ ...params, finalityProviderKeys: [STAKER] })).toThrow("stakerKey cannot also be a finality provider key");
+    expect(() => buildStakingOutput({ ...params, covenantKeys: [...COVENANT, STAKER] })).toThrow("stakerKey cannot also be a covenant key");
+    expect(() => buildStakingOutput({ ...params, covenantKeys: [...COVENANT, PROVIDER] })).toThrow(`${PROVIDER} is both a finality provider and a covenant key`);
+  });
+});
@@ -0,0 +1,162 @@
+import { BitcoinNetwork, StakingLeaf, StakingOutput, StakingScriptParams, TapLeaf } from "./types";
+import { bytesToHex, concatBytes, hexToBytes } from "./utils";
+import { parsePublicKey } from "./parse";
+import { InvalidFormatError, InvalidTypeError, MissingInputError, OutOfRangeError } from "./errors";
+import { tweakPublicKey, taprootAddressFromPublicKey } from "./taproot";
+import { NUMS_INTERNAL_KEY, OP, buildTapTree, compileScript, encodeScriptNumber, taprootControlBlock } from "./tapscript";
+
+/**
+ * Staking scripts (Babylon-style Bitcoin staking)
+ * The stake sits in a Taproot output with three Tapscript leaves, all starting with the staker's signature:
+ *   timelock:  <staker> OP_CHECKSIGVERIFY <stakingTime> OP_CHECKSEQUENCEVERIFY
+ *   unbonding: <staker> OP_CHECKSIGVERIFY <covenant k-of-n>
+ *   slashing:  <staker> OP_CHECKSIGVERIFY <finality provider 1-of-n, verify> <covenant k-of-n>
+ * A k-of-n group is <pk1> OP_CHECKSIG <pk2> OP_CHECKSIGADD ... <k> OP_NUMEQUAL over keys in ascending order, or
+ * <pk> OP_CHECKSIG for a single key. The staker pre-signs the slashing transaction, so once a finality provider's
+ * EOTS key is extracted, its signature and the covenant's are all that is missing to slash.
+ */
+
+export const MAX_STAKING_TIME = 0xffff; // CHECKSEQUENCEVERIFY block counts are 16 bits
+
+// Helper function to parse a key as the 32-byte x-only form Tapscript signature checks use
+function parseXOnlyKey(input: Uint8Array | string | undefined, field: string): Uint8Array {
+  const key = parsePublicKey(input, field, ["xonly", "compressed"]);
+  return key.length === 33 ? key.slice(1) : key;
+}
+
+// Helper function to parse a non-empty key set, sorted ascending as the scripts require
+function parseKeySet(keys: (Uint8Array | string)[] | undefined, field: string): Uint8Array[] {
+  if (keys === undefined) {
+    throw new MissingInputError(field);
+  }
+  if (!Array.isArray(keys)) {
+    throw new InvalidTypeError(field, "an array of public keys");
+  }
+  if (keys.length === 0) {
+    throw new MissingInputError(field);
+  }
+
+  const sorted = keys.map((key, i) => bytesToHex(parseXOnlyKey(key, `${field}[${i}]`))).sort();
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] === sorted[i - 1]) {
+      throw new InvalidFormatError(field, `${field} contains ${sorted[i]} twice`);
+    }
+  }
+  return sorted.map((hex) => hexToBytes(hex));
+}
+
+// Helper function to validate an integer parameter against its range
+function parseRange(value: number, field: string, min: number, max: number): number {
+  if (value === undefined) {
+    throw new MissingInputError(field);
+  }
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    throw new InvalidTypeError(field, "an integer");
+  }
+  if (value < min || value > max) {
+    throw new OutOfRangeError(field, `${field} must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+// Helper function to compile the script chunks of a threshold signature check over sorted keys
+function multiKeyChunks(keys: Uint8Array[], threshold: number, verify: boolean): (number | Uint8Array)[] {
+  if (keys.length === 1) {
+    return [keys[0], verify ? OP.OP_CHECKSIGVERIFY : OP.OP_CHECKSIG];
+  }
+  const chunks: (number | Uint8Array)[] = [keys[0], OP.OP_CHECKSIG];
+  for (const key of keys.slice(1)) {
+    chunks.push(key, OP.OP_CHECKSIGADD);
+  }
+  chunks.push(encodeScriptNumber(threshold), verify ? OP.OP_NUMEQUALVERIFY : OP.OP_NUMEQUAL);
+  return chunks;
+}
+
+/**
+ * Build the timelock leaf: the staker alone, once the output is stakingTime blocks old
+ * @param stakerKey - Staker public key (x-only or compressed) as Uint8Array or hex string
+ * @param stakingTime - Relative timelock in blocks (1 to 65535)
+ * @returns Serialized script
+ */
+export function buildTimelockScript(stakerKey: Uint8Array | string, stakingTime: number): Uint8Array {
+  const staker = parseXOnlyKey(stakerKey, "stakerKey");
+  const blocks = parseRange(stakingTime, "stakingTime", 1, MAX_STAKING_TIME);
+  return compileScript([staker, OP.OP_CHECKSIGVERIFY, encodeScriptNumber(blocks), OP.OP_CHECKSEQUENCEVERIFY]);
+}
+
+/**
+ * Build the unbonding leaf: the staker together with covenantQuorum of the covenant keys
+ * @param stakerKey - Staker public key as Uint8Array or hex string
+ * @param covenantKeys - Covenant committee public keys (any order)
+ * @param covenantQuorum - Covenant signatures required
+ * @returns Serialized script
+ */
+export function buildUnbondingScript(stakerKey: Uint8Array | string, covenantKeys: (Uint8Array | string)[], covenantQuorum: number): Uint8Array {
+  const staker = parseXOnlyKey(stakerKey, "stakerKey");
+  const covenant = parseKeySet(covenantKeys, "covenantKeys");
+  const quorum = parseRange(covenantQuorum, "covenantQuorum", 1, covenant.length);
+  return compileScript([staker, OP.OP_CHECKSIGVERIFY, ...multiKeyChunks(covenant, quorum, false)]);
+}
+
+/**
+ * Build the slashing leaf: the staker, one of the finality providers and covenantQuorum of the covenant keys
+ * @param stakerKey - Staker public key as Uint8Array or hex string
+ * @param finalityProviderKeys - Finality provider (EOTS) public keys (any order)
+ * @param covenantKeys - Covenant committee public keys (any order)
+ * @param covenantQuorum - Covenant signatures required
+ * @returns Serialized script
+ */
+export function buildSlashingScript(stakerKey: Uint8Array | string, finalityProviderKeys: (Uint8Array | string)[], covenantKeys: (Uint8Array | string)[], covenantQuorum: number): Uint8Array {
+  const staker = parseXOnlyKey(stakerKey, "stakerKey");
+  const providers = parseKeySet(finalityProviderKeys, "finalityProviderKeys");
+  const covenant = parseKeySet(covenantKeys, "covenantKeys");
+  const quorum = parseRange(covenantQuorum, "covenantQuorum", 1, covenant.length);
+  return compileScript([staker, OP.OP_CHECKSIGVERIFY, ...multiKeyChunks(providers, 1, true), ...multiKeyChunks(covenant, quorum, false)]);
+}
+
+/**
+ * Build a staking output: the three leaves, the tap tree ((timelock, unbonding), slashing) and the address
+ * The merkle root is the one deriveTaprootAddress takes, so with internalKey set to the staker's key,
+ * deriveTaprootAddress(stakerPrivateKey, network, output.merkleRoot) gives the same address
+ * @param params - Staker, finality provider and covenant keys, covenant quorum and staking time
+ * @param network - Bitcoin network of the address (defaults to "mainnet")
+ * @returns StakingOutput with the leaves and their control blocks
+ */
+export function buildStakingOutput(params: StakingScriptParams, network: BitcoinNetwork = "mainnet"): StakingOutput {
+  const staker = bytesToHex(parseXOnlyKey(params.stakerKey, "stakerKey"));
+  const providers = parseKeySet(params.finalityProviderKeys, "finalityProviderKeys").map(bytesToHex);
+  const covenant = parseKeySet(params.covenantKeys, "covenantKeys").map(bytesToHex);
+
+  // One party holding two roles would let a single key satisfy checks meant for different signers
+  if (providers.includes(staker)) {
+    throw new InvalidFormatError("finalityProviderKeys", "stakerKey cannot also be a finality provider key");
+  }
+  if (covenant.includes(staker)) {
+    throw new InvalidFormatError("covenantKeys", "stakerKey cannot also be a covenant key");
+  }
+  const shared = providers.find((key) => covenant.includes(key));
+  if (shared) {
+    throw new InvalidFormatError("covenantKeys", `${shared} is both a finality provider and a covenant key`);
+  }
+
+  const tree = buildTapTree([
+    buildTimelockScript(staker, params.stakingTime),
+    buildUnbondingScript(staker, covenant, params.covenantQuorum),
+    buildSlashingScript(staker, providers, covenant, params.covenantQuorum),
+  ]);
+
+  const internalKey = parseXOnlyKey(params.internalKey ?? NUMS_INTERNAL_KEY, "internalKey");
+  const { outputKey } = tweakPublicKey(internalKey, tree.merkleRoot);
+  const withControlBlock = (leaf: TapLeaf): StakingLeaf => ({ ...leaf, controlBlock: taprootControlBlock(internalKey, leaf) });
+
+  return {
+    internalKey,
+    merkleRoot: tree.merkleRoot,
+    outputKey,
+    scriptPubKey: concatBytes(new Uint8Array([OP.OP_1, 0x20]), outputKey),
+    address: taprootAddressFromPublicKey(internalKey, network, tree.merkleRoot),
+    timelock: withControlBlock(tree.leaves[0]),
+    unbonding: withControlBlock(tree.leaves[1]),
+    slashing: withControlBlock(tree.leaves[2]),
+  };
+}
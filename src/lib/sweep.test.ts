@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { buildSweepTransaction, dustThreshold, parseUTXOList, taprootScriptPubKey } from "./sweep";
+import { decodeTransaction, encodeCompactSize, encodeTransaction, taprootSighash, transactionVsize } from "./transaction";
+import { getSchnorrPublicKey, verifySchnorrEOTS } from "./schnorr";
+import { deriveTaprootAddress } from "./eots";
+import { decodeTaprootAddress } from "./taproot";
+import { base64ToBytes, bytesToHex, hexToBytes } from "./utils";
+import { InvalidFormatError, OutOfRangeError, ParseError } from "./errors";
+import { UTXO } from "./types";
+
+const KEY = "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9";
+const DESTINATION = "bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr";
+const SCRIPT = bytesToHex(taprootScriptPubKey(KEY));
+
+const utxos: UTXO[] = [
+  { txid: "11".repeat(32), vout: 0, amount: 50000, scriptPubKey: SCRIPT },
+  { txid: "22".repeat(32), vout: 3, amount: 120000, scriptPubKey: SCRIPT },
+];
+
+describe("buildSweepTransaction", () => {
+  it("spends every UTXO to the destination with valid key-path signatures", () => {
+    const sweep = buildSweepTransaction(KEY, utxos, DESTINATION, 5);
+    const tx = decodeTransaction(sweep.hex);
+
+    expect(tx.inputs.map((input) => `${input.txid}:${input.vout}`)).toEqual(["11".repeat(32) + ":0", "22".repeat(32) + ":3"]);
+    expect(tx.inputs.every((input) => input.sequence === 0xfffffffd)).toBe(true);
+    expect(tx.outputs).toHaveLength(1);
+    expect(bytesToHex(tx.outputs[0].scriptPubKey)).toBe("5120a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c");
+
+    // Fee is exactly vsize × fee rate, and the output gets the rest
+    expect(sweep.vsize).toBe(transactionVsize(tx));
+    expect(sweep.fee).toBe(sweep.vsize * 5);
+    expect(sweep.outputAmount).toBe(170000 - sweep.fee);
+    expect(tx.outputs[0].amount).toBe(sweep.outputAmount);
+
+    const outputKey = decodeTaprootAddress(deriveTaprootAddress(KEY)).outputKey;
+    const prevouts = utxos.map((utxo) => ({ amount: utxo.amount, scriptPubKey: hexToBytes(utxo.scriptPubKey) }));
+    tx.inputs.forEach((input, i) => {
+      expect(input.witness).toHaveLength(1);
+      const signature = { r: input.witness[0].slice(0, 32), s: input.witness[0].slice(32), scheme: "schnorr" as const };
+      expect(verifySchnorrEOTS(outputKey, taprootSighash(tx, i, prevouts), signature)).toBe(true);
+    });
+  });
+
+  it("encodes a PSBT with the unsigned transaction and Taproot input fields", () => {
+    const sweep = buildSweepTransaction(KEY, utxos, DESTINATION, 2);
+    const hex = bytesToHex(base64ToBytes(sweep.psbt));
+    const tx = decodeTransaction(sweep.hex);
+    const unsigned = encodeTransaction({ ...tx, inputs: tx.inputs.map((input) => ({ ...input, witness: [] })) });
+
+    expect(sweep.psbt.startsWith("cHNidP8")).toBe(true);
+    expect(hex).toContain("0100" + bytesToHex(encodeCompactSize(unsigned.length)) + bytesToHex(unsigned));
+    // Each input carries its key signature (0x13) and internal key (0x17)
+    const internalKey = "0117" + "20" + bytesToHex(getSchnorrPublicKey(KEY));
+    for (const input of tx.inputs) {
+      expect(hex).toContain("0113" + "40" + bytesToHex(input.witness[0]));
+    }
+    expect(hex.split(internalKey)).toHaveLength(3);
+    // One empty map for the single output
+    expect(hex.endsWith("0000")).toBe(true);
+  });
+
+  it("supports outputs with a script tree", () => {
+    const merkleRoot = "5b75adecf53548f3ec6ad7d78383bf84cc57b55a3127c72b9a2481752dd88b21";
+    const script = bytesToHex(taprootScriptPubKey(KEY, merkleRoot));
+    expect(script).not.toBe(SCRIPT);
+
+    const sweep = buildSweepTransaction(KEY, [{ ...utxos[0], scriptPubKey: script }], DESTINATION, 1, { merkleRoot });
+    expect(bytesToHex(base64ToBytes(sweep.psbt))).toContain("0118" + "20" + merkleRoot);
+  });
+
+  it("honours the network, locktime and RBF options", () => {
+    const sweep = buildSweepTransaction(KEY, utxos, "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx", 1, { network: "testnet", locktime: 850000, rbf: false });
+    const tx = decodeTransaction(sweep.hex);
+    expect(tx.locktime).toBe(850000);
+    expect(tx.inputs[0].sequence).toBe(0xfffffffe);
+    expect(bytesToHex(tx.outputs[0].scriptPubKey)).toBe("0014751e76e8199196d454941c45d1b3a323f1433bd6");
+  });
+
+  it("rejects UTXOs that the key cannot spend", () => {
+    const foreign = { ...utxos[0], scriptPubKey: "5120" + "00".repeat(32) };
+    expect(() => buildSweepTransaction(KEY, [foreign], DESTINATION, 1)).toThrow("is not locked to this key's Taproot output");
+    expect(() => buildSweepTransaction(KEY, [utxos[0], utxos[0]], DESTINATION, 1)).toThrow("is listed twice");
+  });
+
+  it("refuses to create a dust output", () => {
+    const small = [{ ...utxos[0], amount: 500 }];
+    expect(() => buildSweepTransaction(KEY, small, DESTINATION, 2)).toThrow("below the dust limit of 330 sat");
+  });
+
+  it("validates its inputs", () => {
+    expect(() => buildSweepTransaction(KEY, [], DESTINATION, 1)).toThrow("utxos is required");
+    expect(() => buildSweepTransaction(KEY, utxos, DESTINATION, 0)).toThrow(OutOfRangeError);
+    expect(() => buildSweepTransaction(KEY, utxos, DESTINATION, 1, { network: "testnet" })).toThrow(InvalidFormatError);
+    expect(() => buildSweepTransaction(KEY, [{ ...utxos[0], txid: "abcd" }], DESTINATION, 1)).toThrow(expect.objectContaining({ field: "utxos[0].txid" }));
+    expect(() => buildSweepTransaction(KEY, [{ ...utxos[0], amount: 1.5 }], DESTINATION, 1)).toThrow(expect.objectContaining({ field: "utxos[0].amount", code: "invalid_type" }));
+    expect(() => buildSweepTransaction(KEY, [{ ...utxos[0], vout: -1 }], DESTINATION, 1)).toThrow(ParseError);
+  });
+});
+
+describe("parseUTXOList", () => {
+  it("reads JSON and CSV", () => {
+    expect(parseUTXOList(JSON.stringify(utxos))).toEqual(utxos);
+    const csv = ["txid,vout,amount,scriptPubKey", ...utxos.map((utxo) => `${utxo.txid},${utxo.vout},${utxo.amount},${utxo.scriptPubKey}`)].join("\n");
+    expect(parseUTXOList(csv)).toEqual(utxos);
+  });
+
+  it("reports empty CSV cells instead of reading them as zero", () => {
+    const [utxo] = parseUTXOList(`${"11".repeat(32)},,1000,${SCRIPT}`);
+    expect(() => buildSweepTransaction(KEY, [utxo], DESTINATION, 1)).toThrow(expect.objectContaining({ field: "utxos[0].vout" }));
+  });
+});
+
+describe("dustThreshold", () => {
+  it("matches Bitcoin Core's defaults", () => {
+    expect(dustThreshold(hexToBytes("76a914751e76e8199196d454941c45d1b3a323f1433bd688ac"))).toBe(546);
+    expect(dustThreshold(hexToBytes("0014751e76e8199196d454941c45d1b3a323f1433bd6"))).toBe(294);
+    expect(dustThreshold(hexToBytes(SCRIPT))).toBe(330);
+  });
+});
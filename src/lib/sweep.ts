@@ -0,0 +1,201 @@
+import { SweepOptions, SweepResult, Transaction, TransactionOutput, UTXO } from "./types";
+import { bytesToBase64, bytesToHex, concatBytes } from "./utils";
+import { parseBytes, parsePrivateKey } from "./parse";
+import { InvalidFormatError, InvalidTypeError, MissingInputError, OutOfRangeError } from "./errors";
+import { getSchnorrPublicKey, signBIP340 } from "./schnorr";
+import { tweakPrivateKey, tweakPublicKey } from "./taproot";
+import { SIGHASH_DEFAULT, addressToScriptPubKey, encodeCompactSize, encodeTransaction, taprootSighash, transactionId, transactionVsize } from "./transaction";
+import { encodeTaprootPSBT } from "./psbt";
+
+/**
+ * Sweep transactions
+ * Once a key has been extracted, the funds on its Taproot key-path outputs can be moved with one transaction:
+ * every UTXO is spent to a single destination, the fee is vsize × fee rate, and each input is signed with
+ * BIP-340 under the tweaked key (SIGHASH_DEFAULT). Everything happens offline; broadcasting is up to the caller.
+ */
+
+const MAX_MONEY = 21000000 * 100000000;
+const MAX_FEE_RATE = 10000; // sat/vB, far above any real fee market
+const SEQUENCE_RBF = 0xfffffffd;
+const SEQUENCE_FINAL = 0xffffffff;
+
+// Helper function to parse a non-negative integer field (UTXO vout and amount, locktime)
+function parseInteger(value: unknown, field: string, max: number): number {
+  if (value === undefined || value === "") {
+    throw new MissingInputError(field);
+  }
+  const num = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof num !== "number" || !Number.isInteger(num)) {
+    throw new InvalidTypeError(field, "an integer");
+  }
+  if (num < 0 || num > max) {
+    throw new OutOfRangeError(field, `${field} must be between 0 and ${max}`);
+  }
+  return num;
+}
+
+// Helper function to validate one UTXO, naming fields as utxos[i].field
+function parseUTXO(utxo: UTXO, index: number): { txid: string; vout: number; amount: number; scriptPubKey: Uint8Array } {
+  const field = `utxos[${index}]`;
+  const txid = bytesToHex(parseBytes(utxo?.txid, `${field}.txid`, 32));
+  const vout = parseInteger(utxo?.vout, `${field}.vout`, 0xffffffff);
+  const amount = parseInteger(utxo?.amount, `${field}.amount`, MAX_MONEY);
+  if (amount === 0) {
+    throw new OutOfRangeError(`${field}.amount`, `${field}.amount must be positive`);
+  }
+  return { txid, vout, amount, scriptPubKey: parseBytes(utxo?.scriptPubKey, `${field}.scriptPubKey`) };
+}
+
+/**
+ * Parse a UTXO list given as a JSON array of { txid, vout, amount, scriptPubKey } or as CSV rows txid,vout,amount,scriptPubKey
+ * A CSV header row naming the columns is optional; amounts are in satoshis
+ * @param text - JSON or CSV text
+ * @returns UTXOs (validated later by buildSweepTransaction)
+ */
+export function parseUTXOList(text: string): UTXO[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[")) {
+    const data = JSON.parse(trimmed);
+    if (!Array.isArray(data)) {
+      throw new Error("UTXO list JSON must be an array");
+    }
+    return data;
+  }
+
+  const rows = trimmed
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"))
+    .map((line) => line.split(",").map((cell) => cell.trim()));
+  if (rows.length > 0 && rows[0][0].toLowerCase() === "txid") {
+    rows.shift();
+  }
+  // Empty cells become NaN rather than 0, so a missing vout or amount is reported instead of silently used
+  const toNumber = (cell?: string) => (cell ? Number(cell) : NaN);
+  return rows.map(([txid, vout, amount, scriptPubKey]) => ({ txid, vout: toNumber(vout), amount: toNumber(amount), scriptPubKey }));
+}
+
+/**
+ * Smallest output value Bitcoin Core relays for a script (at its default dust relay fee of 3 sat/vB)
+ * @param scriptPubKey - Output script
+ * @returns Dust threshold in satoshis (e.g. 546 for P2PKH, 294 for P2WPKH, 330 for P2TR)
+ */
+export function dustThreshold(scriptPubKey: Uint8Array): number {
+  const outputSize = 8 + encodeCompactSize(scriptPubKey.length).length + scriptPubKey.length;
+  const isWitness = scriptPubKey.length >= 4 && scriptPubKey.length <= 42 && (scriptPubKey[0] === 0x00 || (scriptPubKey[0] >= 0x51 && scriptPubKey[0] <= 0x60)) && scriptPubKey[1] === scriptPubKey.length - 2;
+  // Size of the input that would later spend it: outpoint, sequence and a typical scriptSig or discounted witness
+  const spendSize = 32 + 4 + 1 + 4 + (isWitness ? 26 : 107);
+  return 3 * (outputSize + spendSize);
+}
+
+/**
+ * Sign a Taproot key-path input
+ * @param sighash - 32-byte BIP-341 signature hash (see taprootSighash)
+ * @param privateKey - Untweaked (internal) private key as Uint8Array or hex string
+ * @param hashType - Sighash type the hash was computed with (defaults to SIGHASH_DEFAULT)
+ * @param merkleRoot - Script tree merkle root of the output (optional)
+ * @param auxRand - BIP-340 auxiliary randomness (optional, random if omitted)
+ * @returns Witness signature: 64 bytes, or 65 with the sighash type appended when it is not SIGHASH_DEFAULT
+ */
+export function signTaprootKeyPath(sighash: Uint8Array, privateKey: Uint8Array | string, hashType: number = SIGHASH_DEFAULT, merkleRoot?: Uint8Array | string, auxRand?: Uint8Array | string): Uint8Array {
+  const signature = signBIP340(tweakPrivateKey(privateKey, merkleRoot), sighash, auxRand);
+  return hashType === SIGHASH_DEFAULT ? signature : concatBytes(signature, new Uint8Array([hashType]));
+}
+
+/**
+ * The scriptPubKey of a key's Taproot output, for looking up its UTXOs
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param merkleRoot - Script tree merkle root (optional)
+ * @returns 34-byte scriptPubKey OP_1 <32-byte output key>
+ */
+export function taprootScriptPubKey(privateKey: Uint8Array | string, merkleRoot?: Uint8Array | string): Uint8Array {
+  return concatBytes(new Uint8Array([0x51, 0x20]), tweakPublicKey(getSchnorrPublicKey(parsePrivateKey(privateKey)), merkleRoot).outputKey);
+}
+
+/**
+ * Build and sign a transaction moving every given UTXO of a key to one address
+ * @param privateKey - The (extracted) private key controlling the UTXOs, as Uint8Array or hex string
+ * @param utxos - Unspent outputs, each locked to the key's Taproot output
+ * @param destination - Address to receive the funds
+ * @param feeRate - Fee rate in sat/vB
+ * @param options - Network, script tree merkle root, locktime and RBF signalling
+ * @returns SweepResult with the signed transaction, its PSBT and the fee paid
+ */
+export function buildSweepTransaction(privateKey: Uint8Array | string, utxos: UTXO[], destination: string, feeRate: number, options: SweepOptions = {}): SweepResult {
+  const privKey = parsePrivateKey(privateKey);
+  if (!Array.isArray(utxos) || utxos.length === 0) {
+    throw new MissingInputError("utxos");
+  }
+  if (!Number.isFinite(feeRate) || feeRate <= 0 || feeRate > MAX_FEE_RATE) {
+    throw new OutOfRangeError("feeRate", `feeRate must be above 0 and at most ${MAX_FEE_RATE} sat/vB`);
+  }
+  if (!destination?.trim()) {
+    throw new MissingInputError("destination");
+  }
+  const merkleRoot = options.merkleRoot === undefined ? undefined : parseBytes(options.merkleRoot, "merkleRoot", 32);
+
+  let destinationScript: Uint8Array;
+  try {
+    destinationScript = addressToScriptPubKey(destination, options.network ?? "mainnet");
+  } catch (error) {
+    throw new InvalidFormatError("destination", `destination is not a valid ${options.network ?? "mainnet"} address: ${(error as Error).message}`);
+  }
+
+  // Every UTXO must be locked to this key's Taproot output, or the signatures would be worthless
+  const internalKey = getSchnorrPublicKey(privKey);
+  const expectedScript = bytesToHex(taprootScriptPubKey(privKey, merkleRoot));
+  const parsed = utxos.map(parseUTXO);
+  const outpoints = new Set<string>();
+  parsed.forEach((utxo, i) => {
+    if (bytesToHex(utxo.scriptPubKey) !== expectedScript) {
+      throw new Error(`UTXO ${i} (${utxo.txid}:${utxo.vout}) is not locked to this key's Taproot output ${expectedScript}`);
+    }
+    if (outpoints.has(`${utxo.txid}:${utxo.vout}`)) {
+      throw new Error(`UTXO ${utxo.txid}:${utxo.vout} is listed twice`);
+    }
+    outpoints.add(`${utxo.txid}:${utxo.vout}`);
+  });
+
+  // A final sequence would disable the locktime, so non-RBF sweeps with a locktime use 0xfffffffe
+  const locktime = options.locktime === undefined ? 0 : parseInteger(options.locktime, "locktime", 0xffffffff);
+  const sequence = options.rbf !== false ? SEQUENCE_RBF : locktime > 0 ? SEQUENCE_FINAL - 1 : SEQUENCE_FINAL;
+  const inputAmount = parsed.reduce((sum, utxo) => sum + utxo.amount, 0);
+  const tx: Transaction = {
+    version: 2,
+    // Placeholder 64-byte signatures make the size exact: SIGHASH_DEFAULT signatures are always 64 bytes
+    inputs: parsed.map((utxo) => ({ txid: utxo.txid, vout: utxo.vout, sequence, scriptSig: new Uint8Array(0), witness: [new Uint8Array(64)] })),
+    outputs: [{ amount: 0, scriptPubKey: destinationScript }],
+    locktime,
+  };
+
+  const vsize = transactionVsize(tx);
+  const fee = Math.ceil(vsize * feeRate);
+  const outputAmount = inputAmount - fee;
+  const dust = dustThreshold(destinationScript);
+  if (outputAmount < dust) {
+    throw new Error(`Swept amount ${outputAmount} sat is below the dust limit of ${dust} sat after a fee of ${fee} sat`);
+  }
+  tx.outputs[0].amount = outputAmount;
+
+  const prevouts: TransactionOutput[] = parsed.map((utxo) => ({ amount: utxo.amount, scriptPubKey: utxo.scriptPubKey }));
+  const signatures = tx.inputs.map((_, i) => signTaprootKeyPath(taprootSighash(tx, i, prevouts), privKey, SIGHASH_DEFAULT, merkleRoot));
+  tx.inputs.forEach((input, i) => {
+    input.witness = [signatures[i]];
+  });
+
+  const psbt = encodeTaprootPSBT(
+    tx,
+    prevouts.map((prevout, i) => ({ witnessUtxo: prevout, internalKey, merkleRoot, keySignature: signatures[i] })),
+  );
+
+  return {
+    transaction: tx,
+    hex: bytesToHex(encodeTransaction(tx)),
+    txid: transactionId(tx),
+    psbt: bytesToBase64(psbt),
+    inputAmount,
+    outputAmount,
+    fee,
+    vsize,
+  };
+}
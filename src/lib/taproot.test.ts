@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { tweakPublicKey, tweakPrivateKey, encodeTaprootAddress, decodeTaprootAddress, taprootAddressFromPublicKey } from "./taproot";
+import { decodeSegwitAddress } from "./bech32";
+import { getSchnorrPublicKey } from "./schnorr";
+import { bytesToHex } from "./utils";
+
+// BIP-350 valid segwit addresses
+const VALID_ADDRESSES = ["BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4", "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7", "bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y", "BC1SW50QGDZ25J", "bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs", "tb1qqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesrxh6hy", "tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c", "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0"];
+
+// BIP-350 invalid addresses (bad HRP, checksum variant, version, padding, length or case)
+const INVALID_ADDRESSES = ["tc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq5zuyut", "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd", "tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf", "BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL", "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh", "tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47", "bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4", "BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R", "bc1pw5dgrnzv", "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav", "BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P", "tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq47Zagq", "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v07qwwzcrf", "tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j", "bc1gmk9yu"];
+
+describe("taproot addresses", () => {
+  it("derives the BIP-86 key-path address", () => {
+    // m/86'/0'/0'/0/0 of the "abandon ... about" mnemonic
+    const internalKey = getSchnorrPublicKey("41f41d69260df4cf277826a9b65a3717e4eeddbeedf637f212ca096576479361");
+    expect(bytesToHex(internalKey)).toBe("cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115");
+    expect(bytesToHex(tweakPublicKey(internalKey).outputKey)).toBe("a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c");
+    expect(taprootAddressFromPublicKey(internalKey)).toBe("bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr");
+  });
+
+  it("derives the BIP-341 address for a single-leaf script tree", () => {
+    expect(taprootAddressFromPublicKey("187791b6f712a8ea41c8ecdd0ee77fab3e85263b37e1ec18a3651926b3a6cf27", "mainnet", "5b75adecf53548f3ec6ad7d78383bf84cc57b55a3127c72b9a2481752dd88b21")).toBe("bc1pz37fc4cn9ah8anwm4xqqhvxygjf9rjf2resrw8h8w4tmvcs0863sa2e586");
+  });
+
+  it("tweaks the private key consistently with the public key", () => {
+    const privateKey = "41f41d69260df4cf277826a9b65a3717e4eeddbeedf637f212ca096576479361";
+    const root = "5b75adecf53548f3ec6ad7d78383bf84cc57b55a3127c72b9a2481752dd88b21";
+    const tweaked = getSchnorrPublicKey(tweakPrivateKey(privateKey, root));
+    expect(bytesToHex(tweaked)).toBe(bytesToHex(tweakPublicKey(getSchnorrPublicKey(privateKey), root).outputKey));
+  });
+
+  it("round-trips addresses per network", () => {
+    const outputKey = "a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c";
+    const address = encodeTaprootAddress(outputKey, "regtest");
+    expect(address.startsWith("bcrt1p")).toBe(true);
+    expect(decodeTaprootAddress(address)).toEqual({ network: "regtest", outputKey: expect.any(Uint8Array) });
+    expect(bytesToHex(decodeTaprootAddress(address, "regtest").outputKey)).toBe(outputKey);
+    expect(() => decodeTaprootAddress(address, "mainnet")).toThrow("Address is not a mainnet address");
+  });
+
+  it("rejects bad tweak inputs", () => {
+    expect(() => tweakPublicKey("cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115", "00")).toThrow("Merkle root must be 32 bytes");
+    expect(() => tweakPrivateKey("00".repeat(32))).toThrow("Invalid private key");
+    expect(() => encodeTaprootAddress("00".repeat(20))).toThrow("Taproot output key must be 32 bytes");
+  });
+});
+
+describe("BIP-350 segwit addresses", () => {
+  it.each(VALID_ADDRESSES)("decodes %s", (address) => {
+    expect(() => decodeSegwitAddress(address)).not.toThrow();
+  });
+
+  it.each(INVALID_ADDRESSES)("rejects %s", (address) => {
+    expect(() => decodeTaprootAddress(address)).toThrow();
+  });
+
+  it("rejects a segwit v0 address as a taproot address", () => {
+    expect(() => decodeTaprootAddress(VALID_ADDRESSES[0])).toThrow("Address is not a taproot (witness v1, 32-byte) address");
+  });
+});
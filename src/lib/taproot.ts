@@ -0,0 +1,128 @@
+import { ProjectivePoint, CURVE } from "@noble/secp256k1";
+import { BitcoinNetwork, TaprootAddressInfo } from "./types";
+import { hexToBytes, taggedHash } from "./utils";
+import { bytesToNumber, numberToBytes, mod } from "./math";
+import { liftX } from "./schnorr";
+import { encodeSegwitAddress, decodeSegwitAddress } from "./bech32";
+
+export const NETWORK_HRP: Record<BitcoinNetwork, string> = {
+  mainnet: "bc",
+  testnet: "tb",
+  signet: "tb",
+  regtest: "bcrt",
+};
+
+// Helper function to compute the BIP-341 TapTweak scalar t = H_TapTweak(P || merkleRoot)
+function tapTweak(internalKey: Uint8Array, merkleRoot?: Uint8Array): bigint {
+  if (merkleRoot !== undefined && merkleRoot.length !== 32) {
+    throw new Error("Merkle root must be 32 bytes");
+  }
+  const t = bytesToNumber(merkleRoot ? taggedHash("TapTweak", internalKey, merkleRoot) : taggedHash("TapTweak", internalKey));
+  if (t >= CURVE.n) {
+    throw new Error("Invalid taproot tweak");
+  }
+  return t;
+}
+
+/**
+ * Apply the BIP-341 key tweak to an internal public key
+ * @param internalKey - 32-byte x-only internal key as Uint8Array or hex string
+ * @param merkleRoot - Script tree merkle root (optional, key-path only if omitted)
+ * @returns Tweaked x-only output key and the parity of its Y coordinate
+ */
+export function tweakPublicKey(internalKey: Uint8Array | string, merkleRoot?: Uint8Array | string): { outputKey: Uint8Array; parity: number } {
+  const key = typeof internalKey === "string" ? hexToBytes(internalKey) : internalKey;
+  const root = typeof merkleRoot === "string" ? hexToBytes(merkleRoot) : merkleRoot;
+
+  // Q = P + t * G
+  const t = tapTweak(key, root);
+  const Q = ProjectivePoint.BASE.mulAddQUns(liftX(key), t, BigInt(1));
+  if (Q.equals(ProjectivePoint.ZERO)) {
+    throw new Error("Tweaked output key is the point at infinity");
+  }
+
+  const { x, y } = Q.toAffine();
+  return { outputKey: numberToBytes(x, 32), parity: Number(y & BigInt(1)) };
+}
+
+/**
+ * Apply the BIP-341 key tweak to a private key, for key-path spending
+ * @param privateKey - Private key as Uint8Array or hex string
+ * @param merkleRoot - Script tree merkle root (optional)
+ * @returns Tweaked private key as Uint8Array
+ */
+export function tweakPrivateKey(privateKey: Uint8Array | string, merkleRoot?: Uint8Array | string): Uint8Array {
+  const privKey = typeof privateKey === "string" ? hexToBytes(privateKey) : privateKey;
+  const root = typeof merkleRoot === "string" ? hexToBytes(merkleRoot) : merkleRoot;
+
+  let d = bytesToNumber(privKey);
+  if (d === BigInt(0) || d >= CURVE.n) {
+    throw new Error("Invalid private key");
+  }
+
+  // The internal key is the even-Y point, so negate d if d * G has odd Y
+  const P = ProjectivePoint.BASE.mul(d);
+  if (P.y % BigInt(2) !== BigInt(0)) {
+    d = CURVE.n - d;
+  }
+
+  const tweaked = mod(d + tapTweak(numberToBytes(P.x, 32), root), CURVE.n);
+  if (tweaked === BigInt(0)) {
+    throw new Error("Tweaked private key is zero");
+  }
+  return numberToBytes(tweaked, 32);
+}
+
+/**
+ * Encode a taproot (witness v1) address from a tweaked output key
+ * @param outputKey - 32-byte x-only output key as Uint8Array or hex string
+ * @param network - Bitcoin network (defaults to "mainnet")
+ * @returns Bech32m address
+ */
+export function encodeTaprootAddress(outputKey: Uint8Array | string, network: BitcoinNetwork = "mainnet"): string {
+  const key = typeof outputKey === "string" ? hexToBytes(outputKey) : outputKey;
+  if (key.length !== 32) {
+    throw new Error("Taproot output key must be 32 bytes");
+  }
+  return encodeSegwitAddress(NETWORK_HRP[network], 1, key);
+}
+
+/**
+ * Decode and validate a taproot address
+ * @param address - Bech32m address
+ * @param network - Expected network (optional, any known network is accepted if omitted)
+ * @returns Network and 32-byte output key
+ */
+export function decodeTaprootAddress(address: string, network?: BitcoinNetwork): TaprootAddressInfo {
+  const { hrp, version, program } = decodeSegwitAddress(address);
+
+  const networks = (Object.keys(NETWORK_HRP) as BitcoinNetwork[]).filter((n) => NETWORK_HRP[n] === hrp);
+  if (networks.length === 0) {
+    throw new Error(`Unknown address prefix: ${hrp}`);
+  }
+  if (network !== undefined && !networks.includes(network)) {
+    throw new Error(`Address is not a ${network} address`);
+  }
+  if (version !== 1 || program.length !== 32) {
+    throw new Error("Address is not a taproot (witness v1, 32-byte) address");
+  }
+
+  liftX(program); // output key must be a valid x-only point
+
+  return { network: network ?? networks[0], outputKey: program };
+}
+
+/**
+ * Derive a taproot address from an x-only internal public key
+ * @param internalKey - 32-byte x-only internal key (or 33-byte compressed key) as Uint8Array or hex string
+ * @param network - Bitcoin network (defaults to "mainnet")
+ * @param merkleRoot - Script tree merkle root (optional)
+ * @returns Bech32m address
+ */
+export function taprootAddressFromPublicKey(internalKey: Uint8Array | string, network: BitcoinNetwork = "mainnet", merkleRoot?: Uint8Array | string): string {
+  let key = typeof internalKey === "string" ? hexToBytes(internalKey) : internalKey;
+  if (key.length === 33) {
+    key = key.slice(1);
+  }
+  return encodeTaprootAddress(tweakPublicKey(key, merkleRoot).outputKey, network);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { OP, buildTapTree, compileScript, encodeScriptNumber, scriptToAsm, tapBranchHash, tapLeafHash, taprootControlBlock } from "./tapscript";
+import { taprootAddressFromPublicKey } from "./taproot";
+import { bytesToHex, hexToBytes } from "./utils";
+
+// BIP-341 scriptPubKey test vectors with a single-leaf tree
+const SINGLE_LEAF_VECTORS = [
+  {
+    internalKey: "187791b6f712a8ea41c8ecdd0ee77fab3e85263b37e1ec18a3651926b3a6cf27",
+    script: "20d85a959b0290bf19bb89ed43c916be835475d013da4b362117393e25a48229b8ac",
+    leafHash: "5b75adecf53548f3ec6ad7d78383bf84cc57b55a3127c72b9a2481752dd88b21",
+    controlBlock: "c1187791b6f712a8ea41c8ecdd0ee77fab3e85263b37e1ec18a3651926b3a6cf27",
+    address: "bc1pz37fc4cn9ah8anwm4xqqhvxygjf9rjf2resrw8h8w4tmvcs0863sa2e586",
+  },
+  {
+    internalKey: "93478e9488f956df2396be2ce6c5cced75f900dfa18e7dabd2428aae78451820",
+    script: "20b617298552a72ade070667e86ca63b8f5789a9fe8731ef91202a91c9f3459007ac",
+    leafHash: "c525714a7f49c28aedbbba78c005931a81c234b2f6c99a73e4d06082adc8bf2b",
+    controlBlock: "c093478e9488f956df2396be2ce6c5cced75f900dfa18e7dabd2428aae78451820",
+    address: "bc1punvppl2stp38f7kwv2u2spltjuvuaayuqsthe34hd2dyy5w4g58qqfuag5",
+  },
+];
+
+describe("script compilation", () => {
+  it("encodes script numbers minimally", () => {
+    expect(encodeScriptNumber(0)).toBe(OP.OP_0);
+    expect(encodeScriptNumber(-1)).toBe(OP.OP_1NEGATE);
+    expect(encodeScriptNumber(16)).toBe(OP.OP_16);
+    expect(bytesToHex(encodeScriptNumber(17) as Uint8Array)).toBe("11");
+    expect(bytesToHex(encodeScriptNumber(127) as Uint8Array)).toBe("7f");
+    expect(bytesToHex(encodeScriptNumber(128) as Uint8Array)).toBe("8000");
+    expect(bytesToHex(encodeScriptNumber(150) as Uint8Array)).toBe("9600");
+    expect(bytesToHex(encodeScriptNumber(64000) as Uint8Array)).toBe("00fa00");
+    expect(bytesToHex(encodeScriptNumber(-255) as Uint8Array)).toBe("ff80");
+  });
+
+  it("compiles and disassembles pushes and opcodes", () => {
+    const key = hexToBytes("d85a959b0290bf19bb89ed43c916be835475d013da4b362117393e25a48229b8");
+    const script = compileScript([key, OP.OP_CHECKSIGVERIFY, encodeScriptNumber(1000), OP.OP_CHECKSEQUENCEVERIFY]);
+    expect(bytesToHex(script)).toBe("20" + bytesToHex(key) + "ad02e803b2");
+    expect(scriptToAsm(script)).toBe(`${bytesToHex(key)} OP_CHECKSIGVERIFY e803 OP_CHECKSEQUENCEVERIFY`);
+
+    const long = compileScript([new Uint8Array(80), OP.OP_1 + 1]);
+    expect(bytesToHex(long.slice(0, 2))).toBe("4c50");
+    expect(scriptToAsm(long)).toBe(`${"00".repeat(80)} OP_2`);
+    expect(scriptToAsm("00bb")).toBe("OP_0 OP_UNKNOWN<0xbb>");
+    expect(() => scriptToAsm("4c")).toThrow("Script is truncated");
+    expect(() => scriptToAsm("05aabb")).toThrow("Script is truncated");
+  });
+});
+
+describe("script trees", () => {
+  it.each(SINGLE_LEAF_VECTORS)("matches the BIP-341 vector for internal key $internalKey", ({ internalKey, script, leafHash, controlBlock, address }) => {
+    const tree = buildTapTree([script]);
+    expect(bytesToHex(tree.leaves[0].leafHash)).toBe(leafHash);
+    expect(bytesToHex(tree.merkleRoot)).toBe(leafHash);
+    expect(bytesToHex(taprootControlBlock(internalKey, tree.leaves[0]))).toBe(controlBlock);
+    expect(taprootAddressFromPublicKey(internalKey, "mainnet", tree.merkleRoot)).toBe(address);
+  });
+
+  it("pairs leaves level by level and records each leaf's path", () => {
+    const scripts = ["51", "52", "53"];
+    const [a, b, c] = scripts.map((script) => tapLeafHash(script));
+    const ab = tapBranchHash(a, b);
+    const tree = buildTapTree(scripts);
+
+    expect(bytesToHex(tree.merkleRoot)).toBe(bytesToHex(tapBranchHash(ab, c)));
+    expect(tree.leaves.map((leaf) => leaf.merklePath.map(bytesToHex))).toEqual([[b, c], [a, c], [ab]].map((path) => path.map(bytesToHex)));
+    // Branch hashes do not depend on the order of their children
+    expect(tapBranchHash(b, a)).toEqual(ab);
+  });
+
+  it("rejects invalid trees", () => {
+    expect(() => buildTapTree([])).toThrow("Script tree needs at least one leaf");
+    expect(() => tapLeafHash("51", 0xc1)).toThrow("Leaf version must be an even byte");
+  });
+});
@@ -0,0 +1,213 @@
+import { TapLeaf, TapTree } from "./types";
+import { bytesToHex, concatBytes, hexToBytes, taggedHash } from "./utils";
+import { parseBytes, parsePublicKey } from "./parse";
+import { encodeCompactSize } from "./transaction";
+import { tweakPublicKey } from "./taproot";
+
+/**
+ * Tapscript construction (BIP-341/BIP-342)
+ * Scripts are compiled from opcodes and data pushes, hashed into TapLeaf hashes and paired into a script tree
+ * whose merkle root is the tweak input of the Taproot output key. Spending a leaf reveals the script and its
+ * control block: leaf version and output key parity | internal key | sibling hashes from the leaf up to the root
+ */
+
+export const TAPSCRIPT_LEAF_VERSION = 0xc0;
+
+// BIP-341 "nothing up my sleeve" point H: lift_x(SHA256(G uncompressed)), for outputs without a usable key path
+export const NUMS_INTERNAL_KEY = "50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0";
+
+export const OP = {
+  OP_0: 0x00,
+  OP_PUSHDATA1: 0x4c,
+  OP_PUSHDATA2: 0x4d,
+  OP_PUSHDATA4: 0x4e,
+  OP_1NEGATE: 0x4f,
+  OP_1: 0x51,
+  OP_16: 0x60,
+  OP_VERIFY: 0x69,
+  OP_RETURN: 0x6a,
+  OP_DROP: 0x75,
+  OP_DUP: 0x76,
+  OP_EQUAL: 0x87,
+  OP_EQUALVERIFY: 0x88,
+  OP_NUMEQUAL: 0x9c,
+  OP_NUMEQUALVERIFY: 0x9d,
+  OP_HASH160: 0xa9,
+  OP_CHECKSIG: 0xac,
+  OP_CHECKSIGVERIFY: 0xad,
+  OP_CHECKMULTISIG: 0xae,
+  OP_CHECKLOCKTIMEVERIFY: 0xb1,
+  OP_CHECKSEQUENCEVERIFY: 0xb2,
+  OP_CHECKSIGADD: 0xba,
+} as const;
+
+const OPCODE_NAMES = new Map<number, string>(Object.entries(OP).map(([name, code]) => [code, name]));
+
+/**
+ * Encode an integer the way script pushes it: OP_0, OP_1NEGATE and OP_1..OP_16 for small values, otherwise
+ * minimal little-endian bytes with a sign bit (CScriptNum)
+ * @param value - Integer to push
+ * @returns Opcode (number) or data to push (Uint8Array), ready for compileScript
+ */
+export function encodeScriptNumber(value: number): number | Uint8Array {
+  if (!Number.isSafeInteger(value)) {
+    throw new Error("Script number must be a safe integer");
+  }
+  if (value === 0) return OP.OP_0;
+  if (value === -1) return OP.OP_1NEGATE;
+  if (value >= 1 && value <= 16) return OP.OP_1 + value - 1;
+
+  const bytes: number[] = [];
+  let magnitude = Math.abs(value);
+  while (magnitude > 0) {
+    bytes.push(magnitude & 0xff);
+    magnitude = Math.floor(magnitude / 256);
+  }
+  // The top bit of the last byte is the sign, so add a byte when the magnitude already uses it
+  if (bytes[bytes.length - 1] & 0x80) {
+    bytes.push(value < 0 ? 0x80 : 0x00);
+  } else if (value < 0) {
+    bytes[bytes.length - 1] |= 0x80;
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Compile a script from opcodes and data pushes
+ * @param chunks - Opcodes as numbers, data as Uint8Array (pushed with the smallest push opcode)
+ * @returns Serialized script
+ */
+export function compileScript(chunks: (number | Uint8Array)[]): Uint8Array {
+  const parts = chunks.map((chunk) => {
+    if (typeof chunk === "number") {
+      if (!Number.isInteger(chunk) || chunk < 0 || chunk > 0xff) {
+        throw new Error(`Invalid opcode ${chunk}`);
+      }
+      return new Uint8Array([chunk]);
+    }
+    const length = chunk.length;
+    if (length < OP.OP_PUSHDATA1) return concatBytes(new Uint8Array([length]), chunk);
+    if (length <= 0xff) return concatBytes(new Uint8Array([OP.OP_PUSHDATA1, length]), chunk);
+    if (length <= 0xffff) return concatBytes(new Uint8Array([OP.OP_PUSHDATA2, length & 0xff, length >> 8]), chunk);
+    return concatBytes(new Uint8Array([OP.OP_PUSHDATA4, length & 0xff, (length >> 8) & 0xff, (length >> 16) & 0xff, length >>> 24]), chunk);
+  });
+  return concatBytes(...parts);
+}
+
+/**
+ * Disassemble a script into opcode names and hex data pushes
+ * @param script - Serialized script as Uint8Array or hex string
+ * @returns Space-separated assembly, e.g. "<32-byte key hex> OP_CHECKSIGVERIFY 9600 OP_CHECKSEQUENCEVERIFY"
+ */
+export function scriptToAsm(script: Uint8Array | string): string {
+  const bytes = typeof script === "string" ? hexToBytes(script) : script;
+  const tokens: string[] = [];
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    const opcode = bytes[offset++];
+    let length = -1;
+    if (opcode > OP.OP_0 && opcode < OP.OP_PUSHDATA1) {
+      length = opcode;
+    } else if (opcode >= OP.OP_PUSHDATA1 && opcode <= OP.OP_PUSHDATA4) {
+      const size = opcode === OP.OP_PUSHDATA1 ? 1 : opcode === OP.OP_PUSHDATA2 ? 2 : 4;
+      if (offset + size > bytes.length) {
+        throw new Error("Script is truncated");
+      }
+      length = 0;
+      for (let i = size - 1; i >= 0; i--) {
+        length = length * 256 + bytes[offset + i];
+      }
+      offset += size;
+    }
+
+    if (length >= 0) {
+      if (offset + length > bytes.length) {
+        throw new Error("Script is truncated");
+      }
+      tokens.push(bytesToHex(bytes.slice(offset, offset + length)));
+      offset += length;
+    } else if (opcode >= OP.OP_1 && opcode <= OP.OP_16) {
+      tokens.push(`OP_${opcode - OP.OP_1 + 1}`);
+    } else {
+      tokens.push(OPCODE_NAMES.get(opcode) ?? `OP_UNKNOWN<0x${opcode.toString(16).padStart(2, "0")}>`);
+    }
+  }
+  return tokens.join(" ");
+}
+
+/**
+ * Hash a script into a TapLeaf: H_TapLeaf(leafVersion || compact size || script)
+ * @param script - Serialized script as Uint8Array or hex string
+ * @param leafVersion - Leaf version (defaults to 0xc0, Tapscript)
+ * @returns 32-byte leaf hash
+ */
+export function tapLeafHash(script: Uint8Array | string, leafVersion: number = TAPSCRIPT_LEAF_VERSION): Uint8Array {
+  const bytes = typeof script === "string" ? hexToBytes(script) : script;
+  if (!Number.isInteger(leafVersion) || leafVersion < 0 || leafVersion > 0xfe || (leafVersion & 1) !== 0) {
+    throw new Error("Leaf version must be an even byte");
+  }
+  return taggedHash("TapLeaf", new Uint8Array([leafVersion]), encodeCompactSize(bytes.length), bytes);
+}
+
+/**
+ * Combine two nodes of a script tree: H_TapBranch of the two hashes in lexicographic order
+ * @param a - 32-byte node hash
+ * @param b - 32-byte node hash
+ * @returns 32-byte branch hash
+ */
+export function tapBranchHash(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return bytesToHex(a) < bytesToHex(b) ? taggedHash("TapBranch", a, b) : taggedHash("TapBranch", b, a);
+}
+
+/**
+ * Build a script tree by pairing adjacent nodes level by level, carrying an odd last node up unchanged
+ * Three leaves give ((A, B), C), the layout btcd's AssembleTaprootScriptTree produces
+ * @param scripts - Leaf scripts as Uint8Array or hex string, in order
+ * @param leafVersion - Leaf version of every leaf (defaults to 0xc0, Tapscript)
+ * @returns TapTree with the merkle root and, per leaf, its hash and merkle path
+ */
+export function buildTapTree(scripts: (Uint8Array | string)[], leafVersion: number = TAPSCRIPT_LEAF_VERSION): TapTree {
+  if (scripts.length === 0) {
+    throw new Error("Script tree needs at least one leaf");
+  }
+
+  const leaves: TapLeaf[] = scripts.map((script) => {
+    const bytes = typeof script === "string" ? hexToBytes(script) : script;
+    return { script: bytes, leafVersion, leafHash: tapLeafHash(bytes, leafVersion), merklePath: [] };
+  });
+
+  let level = leaves.map((leaf, i) => ({ hash: leaf.leafHash, leafIndices: [i] }));
+  while (level.length > 1) {
+    const next: typeof level = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+        break;
+      }
+      const [left, right] = [level[i], level[i + 1]];
+      left.leafIndices.forEach((index) => leaves[index].merklePath.push(right.hash));
+      right.leafIndices.forEach((index) => leaves[index].merklePath.push(left.hash));
+      next.push({ hash: tapBranchHash(left.hash, right.hash), leafIndices: [...left.leafIndices, ...right.leafIndices] });
+    }
+    level = next;
+  }
+
+  return { merkleRoot: level[0].hash, leaves };
+}
+
+/**
+ * Build the control block that spends a leaf of a script tree
+ * @param internalKey - 32-byte x-only (or 33-byte compressed) internal key as Uint8Array or hex string
+ * @param leaf - Leaf of the tree, as returned by buildTapTree
+ * @returns Control block: (leafVersion | output key parity) || internal key || merkle path
+ */
+export function taprootControlBlock(internalKey: Uint8Array | string, leaf: TapLeaf): Uint8Array {
+  let key = parsePublicKey(internalKey, "internalKey", ["xonly", "compressed"]);
+  if (key.length === 33) {
+    key = key.slice(1);
+  }
+  const merkleRoot = leaf.merklePath.reduce((node, sibling) => tapBranchHash(node, parseBytes(sibling, "merklePath", 32)), leaf.leafHash);
+  const { parity } = tweakPublicKey(key, merkleRoot);
+  return concatBytes(new Uint8Array([leaf.leafVersion | parity]), key, ...leaf.merklePath);
+}
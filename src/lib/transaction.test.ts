@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { SIGHASH_DEFAULT, SIGHASH_SINGLE, addressToScriptPubKey, decodeTransaction, encodeCompactSize, encodeTransaction, taprootSighash, transactionId, transactionVsize } from "./transaction";
+import { signTaprootKeyPath } from "./sweep";
+import { base58CheckEncode } from "./base58";
+import { bytesToHex, hexToBytes } from "./utils";
+
+// BIP-341 wallet test vectors, keyPathSpending
+const RAW_UNSIGNED_TX =
+  "02000000097de20cbff686da83a54981d2b9bab3586f4ca7e48f57f5b55963115f3b334e9c010000000000000000d7b7cab57b1393ace2d064f4d4a2cb8af6def61273e127517d44759b6dafdd990000000000fffffffff8e1f583384333689228c5d28eac13366be082dc57441760d957275419a418420000000000fffffffff0689180aa63b30cb162a73c6d2a38b7eeda2a83ece74310fda0843ad604853b0100000000feffffffaa5202bdf6d8ccd2ee0f0202afbbb7461d9264a25e5bfd3c5a52ee1239e0ba6c0000000000feffffff956149bdc66faa968eb2be2d2faa29718acbfe3941215893a2a3446d32acd050000000000000000000e664b9773b88c09c32cb70a2a3e4da0ced63b7ba3b22f848531bbb1d5d5f4c94010000000000000000e9aa6b8e6c9de67619e6a3924ae25696bb7b694bb677a632a74ef7eadfd4eabf0000000000ffffffffa778eb6a263dc090464cd125c466b5a99667720b1c110468831d058aa1b82af10100000000ffffffff0200ca9a3b000000001976a91406afd46bcdfd22ef94ac122aa11f241244a37ecc88ac807840cb0000000020ac9a87f5594be208f8532db38cff670c450ed2fea8fcdefcc9a663f78bab962b0065cd1d";
+
+const UTXOS_SPENT: [string, number][] = [
+  ["512053a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343", 420000000],
+  ["5120147c9c57132f6e7ecddba9800bb0c4449251c92a1e60371ee77557b6620f3ea3", 462000000],
+  ["76a914751e76e8199196d454941c45d1b3a323f1433bd688ac", 294000000],
+  ["5120e4d810fd50586274face62b8a807eb9719cef49c04177cc6b76a9a4251d5450e", 504000000],
+  ["512091b64d5324723a985170e4dc5a0f84c041804f2cd12660fa5dec09fc21783605", 630000000],
+  ["00147dd65592d0ab2fe0d0257d571abf032cd9db93dc", 378000000],
+  ["512075169f4001aa68f15bbed28b218df1d0a62cbbcf1188c6665110c293c907b831", 672000000],
+  ["5120712447206d7a5238acc7ff53fbe94a3b64539ad291c7cdbc490b7577e4b17df5", 546000000],
+  ["512077e30a5522dd9f894c3f8b8bd4c4b2cf82ca7da8a3ea6a239655c39c050ab220", 588000000],
+];
+
+const INPUT_SPENDING: { index: number; hashType: number; sigHash: string }[] = [
+  { index: 0, hashType: 0x03, sigHash: "2514a6272f85cfa0f45eb907fcb0d121b808ed37c6ea160a5a9046ed5526d555" },
+  { index: 1, hashType: 0x83, sigHash: "325a644af47e8a5a2591cda0ab0723978537318f10e6a63d4eed783b96a71a4d" },
+  { index: 3, hashType: 0x01, sigHash: "bf013ea93474aa67815b1b6cc441d23b64fa310911d991e713cd34c7f5d46669" },
+  { index: 4, hashType: 0x00, sigHash: "4f900a0bae3f1446fd48490c2958b5a023228f01661cda3496a11da502a7f7ef" },
+  { index: 6, hashType: 0x02, sigHash: "15f25c298eb5cdc7eb1d638dd2d45c97c4c59dcaec6679cfc16ad84f30876b85" },
+  { index: 7, hashType: 0x82, sigHash: "cd292de50313804dabe4685e83f923d2969577191a3e1d2882220dca88cbeb10" },
+  { index: 8, hashType: 0x81, sigHash: "cccb739eca6c13a8a89e6e5cd317ffe55669bbda23f2fd37b0f18755e008edd2" },
+];
+
+const prevouts = UTXOS_SPENT.map(([script, amount]) => ({ scriptPubKey: hexToBytes(script), amount }));
+
+describe("taprootSighash", () => {
+  const tx = decodeTransaction(RAW_UNSIGNED_TX);
+
+  it.each(INPUT_SPENDING)("matches the BIP-341 vector for input $index (hash type $hashType)", ({ index, hashType, sigHash }) => {
+    expect(bytesToHex(taprootSighash(tx, index, prevouts, hashType))).toBe(sigHash);
+  });
+
+  it("reproduces the BIP-341 key-path witnesses", () => {
+    const zeros = new Uint8Array(32);
+    const witness0 = signTaprootKeyPath(taprootSighash(tx, 0, prevouts, SIGHASH_SINGLE), "6b973d88838f27366ed61c9ad6367663045cb456e28335c109e30717ae0c6baa", SIGHASH_SINGLE, undefined, zeros);
+    expect(bytesToHex(witness0)).toBe("ed7c1647cb97379e76892be0cacff57ec4a7102aa24296ca39af7541246d8ff14d38958d4cc1e2e478e4d4a764bbfd835b16d4e314b72937b29833060b87276c03");
+
+    const merkleRoot = "5b75adecf53548f3ec6ad7d78383bf84cc57b55a3127c72b9a2481752dd88b21";
+    const witness1 = signTaprootKeyPath(taprootSighash(tx, 1, prevouts, 0x83), "1e4da49f6aaf4e5cd175fe08a32bb5cb4863d963921255f33d3bc31e1343907f", 0x83, merkleRoot, zeros);
+    expect(bytesToHex(witness1)).toBe("052aedffc554b41f52b521071793a6b88d6dbca9dba94cf34c83696de0c1ec35ca9c5ed4ab28059bd606a4f3a657eec0bb96661d42921b5f50a95ad33675b54f83");
+  });
+
+  it("rejects invalid sighash requests", () => {
+    expect(() => taprootSighash(tx, 0, prevouts, 0x04)).toThrow("Invalid Taproot sighash type 0x4");
+    expect(() => taprootSighash(tx, 9, prevouts)).toThrow("Input index out of range");
+    expect(() => taprootSighash(tx, 0, prevouts.slice(1))).toThrow("One spent output is needed per input");
+    expect(() => taprootSighash(tx, 2, prevouts, SIGHASH_SINGLE)).toThrow("SIGHASH_SINGLE input has no matching output");
+    expect(taprootSighash(tx, 0, prevouts, SIGHASH_DEFAULT)).toHaveLength(32);
+  });
+});
+
+describe("transaction encoding", () => {
+  it("round-trips the BIP-341 transaction", () => {
+    const tx = decodeTransaction(RAW_UNSIGNED_TX);
+    expect(tx.version).toBe(2);
+    expect(tx.inputs).toHaveLength(9);
+    expect(tx.inputs[0]).toMatchObject({ txid: "9c4e333b5f116359b5f5578fe4a74c6f58b3bab9d28149a583da86f6bf0ce27d", vout: 1, sequence: 0 });
+    expect(tx.outputs.map((output) => output.amount)).toEqual([1000000000, 3410000000]);
+    expect(tx.locktime).toBe(500000000);
+    expect(bytesToHex(encodeTransaction(tx))).toBe(RAW_UNSIGNED_TX);
+  });
+
+  it("uses the witness serialization only when there are witnesses", () => {
+    const tx = decodeTransaction(RAW_UNSIGNED_TX);
+    const unsignedId = transactionId(tx);
+    const baseSize = encodeTransaction(tx).length;
+    tx.inputs[0].witness = [new Uint8Array(64)];
+
+    const signed = encodeTransaction(tx);
+    expect(bytesToHex(signed.slice(4, 6))).toBe("0001");
+    expect(decodeTransaction(signed).inputs[0].witness).toEqual([new Uint8Array(64)]);
+    expect(transactionId(tx)).toBe(unsignedId);
+    expect(transactionVsize(tx)).toBe(baseSize + Math.ceil((2 + 9 + 65) / 4));
+  });
+
+  it("rejects truncated and padded transactions", () => {
+    expect(() => decodeTransaction(RAW_UNSIGNED_TX.slice(0, -2))).toThrow("Transaction is truncated");
+    expect(() => decodeTransaction(RAW_UNSIGNED_TX + "00")).toThrow("Transaction has trailing bytes");
+  });
+
+  it("encodes CompactSize integers", () => {
+    expect(bytesToHex(encodeCompactSize(0xfc))).toBe("fc");
+    expect(bytesToHex(encodeCompactSize(0xfd))).toBe("fdfd00");
+    expect(bytesToHex(encodeCompactSize(0x10000))).toBe("fe00000100");
+    expect(bytesToHex(encodeCompactSize(2 ** 32))).toBe("ff0000000001000000");
+  });
+});
+
+describe("addressToScriptPubKey", () => {
+  it("builds segwit scripts", () => {
+    expect(bytesToHex(addressToScriptPubKey("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4"))).toBe("0014751e76e8199196d454941c45d1b3a323f1433bd6");
+    expect(bytesToHex(addressToScriptPubKey("bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr", "mainnet"))).toBe("5120a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c");
+  });
+
+  it("builds legacy scripts", () => {
+    const hash = hexToBytes("751e76e8199196d454941c45d1b3a323f1433bd6");
+    expect(bytesToHex(addressToScriptPubKey(base58CheckEncode(new Uint8Array([0x00, ...hash]))))).toBe("76a914751e76e8199196d454941c45d1b3a323f1433bd688ac");
+    expect(bytesToHex(addressToScriptPubKey(base58CheckEncode(new Uint8Array([0xc4, ...hash])), "testnet"))).toBe("a914751e76e8199196d454941c45d1b3a323f1433bd687");
+  });
+
+  it("checks the network", () => {
+    expect(() => addressToScriptPubKey("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4", "testnet")).toThrow("Address is not a testnet address");
+    expect(() => addressToScriptPubKey(base58CheckEncode(new Uint8Array(21)), "signet")).toThrow("Address is not a signet address");
+    expect(() => addressToScriptPubKey("not an address")).toThrow();
+  });
+});
@@ -0,0 +1,280 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { BitcoinNetwork, Transaction, TransactionOutput } from "./types";
+import { bytesToHex, concatBytes, hexToBytes, taggedHash } from "./utils";
+import { decodeSegwitAddress } from "./bech32";
+import { base58CheckDecode } from "./base58";
+import { NETWORK_HRP } from "./taproot";
+
+/**
+ * Bitcoin transaction serialization and BIP-341 signature hashes
+ * Layout: version (4) | [0x00 0x01 marker and flag] | inputs | outputs | [witnesses] | locktime (4), little-endian integers
+ */
+
+export const SIGHASH_DEFAULT = 0x00;
+export const SIGHASH_ALL = 0x01;
+export const SIGHASH_NONE = 0x02;
+export const SIGHASH_SINGLE = 0x03;
+export const SIGHASH_ANYONECANPAY = 0x80;
+
+// Base58 version bytes of legacy P2PKH and P2SH addresses
+const LEGACY_VERSIONS: Record<"mainnet" | "testnet", { p2pkh: number; p2sh: number }> = {
+  mainnet: { p2pkh: 0x00, p2sh: 0x05 },
+  testnet: { p2pkh: 0x6f, p2sh: 0xc4 },
+};
+
+// Helper function to encode a uint32 little-endian
+function uint32LE(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value, true);
+  return out;
+}
+
+// Helper function to encode a satoshi amount as a uint64 little-endian
+function uint64LE(value: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setBigUint64(0, BigInt(value), true);
+  return out;
+}
+
+// Helper function to convert between display-order txid hex and the byte order used on the wire
+function txidToBytes(txid: string): Uint8Array {
+  const bytes = hexToBytes(txid, "txid");
+  if (bytes.length !== 32) {
+    throw new Error("txid must be 32 bytes");
+  }
+  return bytes.reverse();
+}
+
+/**
+ * Encode a CompactSize unsigned integer (the variable-length integer used by transactions and PSBTs)
+ * @param value - Non-negative integer
+ * @returns 1, 3, 5 or 9 bytes
+ */
+export function encodeCompactSize(value: number): Uint8Array {
+  if (value < 0xfd) {
+    return new Uint8Array([value]);
+  }
+  if (value <= 0xffff) {
+    return new Uint8Array([0xfd, value & 0xff, value >> 8]);
+  }
+  if (value <= 0xffffffff) {
+    return concatBytes(new Uint8Array([0xfe]), uint32LE(value));
+  }
+  return concatBytes(new Uint8Array([0xff]), uint64LE(value));
+}
+
+// Helper function to prefix bytes with their CompactSize length
+function withLength(bytes: Uint8Array): Uint8Array {
+  return concatBytes(encodeCompactSize(bytes.length), bytes);
+}
+
+// Helper function to serialize an output: amount (8) | scriptPubKey with length
+function encodeOutput(output: TransactionOutput): Uint8Array {
+  return concatBytes(uint64LE(output.amount), withLength(output.scriptPubKey));
+}
+
+/**
+ * Serialize a transaction
+ * @param tx - Transaction
+ * @param includeWitness - Use the BIP-144 witness serialization when any input has a witness (defaults to true)
+ * @returns Raw transaction bytes
+ */
+export function encodeTransaction(tx: Transaction, includeWitness = true): Uint8Array {
+  const segwit = includeWitness && tx.inputs.some((input) => input.witness.length > 0);
+  const parts: Uint8Array[] = [uint32LE(tx.version)];
+  if (segwit) {
+    parts.push(new Uint8Array([0x00, 0x01]));
+  }
+
+  parts.push(encodeCompactSize(tx.inputs.length));
+  for (const input of tx.inputs) {
+    parts.push(txidToBytes(input.txid), uint32LE(input.vout), withLength(input.scriptSig), uint32LE(input.sequence));
+  }
+  parts.push(encodeCompactSize(tx.outputs.length));
+  for (const output of tx.outputs) {
+    parts.push(encodeOutput(output));
+  }
+
+  if (segwit) {
+    for (const input of tx.inputs) {
+      parts.push(encodeCompactSize(input.witness.length), ...input.witness.map(withLength));
+    }
+  }
+  parts.push(uint32LE(tx.locktime));
+  return concatBytes(...parts);
+}
+
+/**
+ * Parse a raw transaction (with or without witness data)
+ * @param raw - Raw transaction as Uint8Array or hex string
+ * @returns Transaction
+ */
+export function decodeTransaction(raw: Uint8Array | string): Transaction {
+  const data = typeof raw === "string" ? hexToBytes(raw.trim(), "transaction") : raw;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  let offset = 0;
+  const take = (length: number) => {
+    if (offset + length > data.length) {
+      throw new Error("Transaction is truncated");
+    }
+    return data.slice(offset, (offset += length));
+  };
+  const readUint32 = () => {
+    take(4);
+    return view.getUint32(offset - 4, true);
+  };
+  const readCompactSize = () => {
+    const first = take(1)[0];
+    if (first < 0xfd) return first;
+    if (first === 0xfd) return take(2).reduce((value, byte, i) => value + byte * 256 ** i, 0);
+    if (first === 0xfe) return readUint32();
+    take(8);
+    return Number(view.getBigUint64(offset - 8, true));
+  };
+
+  const version = readUint32();
+  const segwit = data[offset] === 0x00 && data[offset + 1] === 0x01;
+  if (segwit) {
+    offset += 2;
+  }
+
+  const inputs = Array.from({ length: readCompactSize() }, () => ({
+    txid: bytesToHex(take(32).reverse()),
+    vout: readUint32(),
+    scriptSig: take(readCompactSize()),
+    sequence: readUint32(),
+    witness: [] as Uint8Array[],
+  }));
+  const outputs = Array.from({ length: readCompactSize() }, () => {
+    take(8);
+    return { amount: Number(view.getBigUint64(offset - 8, true)), scriptPubKey: take(readCompactSize()) };
+  });
+
+  if (segwit) {
+    for (const input of inputs) {
+      input.witness = Array.from({ length: readCompactSize() }, () => take(readCompactSize()));
+    }
+  }
+  const locktime = readUint32();
+  if (offset !== data.length) {
+    throw new Error("Transaction has trailing bytes");
+  }
+
+  return { version, inputs, outputs, locktime };
+}
+
+/**
+ * Compute a transaction's txid: the double SHA-256 of its non-witness serialization, byte-reversed
+ * @param tx - Transaction
+ * @returns txid hex
+ */
+export function transactionId(tx: Transaction): string {
+  return bytesToHex(sha256(sha256(encodeTransaction(tx, false))).reverse());
+}
+
+/**
+ * Virtual size of a transaction (BIP-141 weight / 4, rounded up)
+ * @param tx - Transaction
+ * @returns vsize in vbytes
+ */
+export function transactionVsize(tx: Transaction): number {
+  const base = encodeTransaction(tx, false).length;
+  const total = encodeTransaction(tx, true).length;
+  return Math.ceil((base * 3 + total) / 4);
+}
+
+/**
+ * Build the output script paying to an address
+ * Supports segwit (bech32/bech32m) and legacy P2PKH/P2SH (Base58Check) addresses
+ * @param address - Bitcoin address
+ * @param network - Expected network (optional, any known network is accepted if omitted)
+ * @returns scriptPubKey bytes
+ */
+export function addressToScriptPubKey(address: string, network?: BitcoinNetwork): Uint8Array {
+  const trimmed = address.trim();
+  const separator = trimmed.lastIndexOf("1");
+  const prefix = trimmed.slice(0, separator).toLowerCase();
+  const hrps = Object.values(NETWORK_HRP);
+
+  if (separator > 0 && hrps.includes(prefix)) {
+    const { hrp, version, program } = decodeSegwitAddress(trimmed);
+    if (network !== undefined && hrp !== NETWORK_HRP[network]) {
+      throw new Error(`Address is not a ${network} address`);
+    }
+    // OP_0 or OP_1..OP_16, then a push of the witness program
+    return concatBytes(new Uint8Array([version === 0 ? 0x00 : 0x50 + version, program.length]), program);
+  }
+
+  const payload = base58CheckDecode(trimmed);
+  if (payload.length !== 21) {
+    throw new Error("Unsupported address format");
+  }
+  const matches = (Object.keys(LEGACY_VERSIONS) as ("mainnet" | "testnet")[]).filter((key) => network === undefined || key === (network === "mainnet" ? "mainnet" : "testnet"));
+  const hash = payload.slice(1);
+  for (const key of matches) {
+    if (payload[0] === LEGACY_VERSIONS[key].p2pkh) {
+      // OP_DUP OP_HASH160 <20> OP_EQUALVERIFY OP_CHECKSIG
+      return concatBytes(new Uint8Array([0x76, 0xa9, 0x14]), hash, new Uint8Array([0x88, 0xac]));
+    }
+    if (payload[0] === LEGACY_VERSIONS[key].p2sh) {
+      // OP_HASH160 <20> OP_EQUAL
+      return concatBytes(new Uint8Array([0xa9, 0x14]), hash, new Uint8Array([0x87]));
+    }
+  }
+  throw new Error(network === undefined ? "Unsupported address version" : `Address is not a ${network} address`);
+}
+
+/**
+ * Compute the BIP-341 signature hash for a Taproot key-path input (no annex)
+ * @param tx - Transaction being signed
+ * @param inputIndex - Index of the input to sign
+ * @param prevouts - The outputs spent by every input, in input order (amounts and scripts are committed to)
+ * @param hashType - SIGHASH_DEFAULT (default), SIGHASH_ALL, SIGHASH_NONE or SIGHASH_SINGLE, optionally | SIGHASH_ANYONECANPAY
+ * @returns 32-byte TapSighash
+ */
+export function taprootSighash(tx: Transaction, inputIndex: number, prevouts: TransactionOutput[], hashType: number = SIGHASH_DEFAULT): Uint8Array {
+  if (![0x00, 0x01, 0x02, 0x03, 0x81, 0x82, 0x83].includes(hashType)) {
+    throw new Error(`Invalid Taproot sighash type 0x${hashType.toString(16)}`);
+  }
+  if (!Number.isInteger(inputIndex) || inputIndex < 0 || inputIndex >= tx.inputs.length) {
+    throw new Error("Input index out of range");
+  }
+  if (prevouts.length !== tx.inputs.length) {
+    throw new Error("One spent output is needed per input");
+  }
+
+  const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) !== 0;
+  const outputType = hashType & 0x03;
+  if (outputType === SIGHASH_SINGLE && inputIndex >= tx.outputs.length) {
+    throw new Error("SIGHASH_SINGLE input has no matching output");
+  }
+
+  // Epoch 0, then hash_type | nVersion | nLockTime
+  const parts: Uint8Array[] = [new Uint8Array([0x00, hashType]), uint32LE(tx.version), uint32LE(tx.locktime)];
+  if (!anyoneCanPay) {
+    parts.push(
+      sha256(concatBytes(...tx.inputs.map((input) => concatBytes(txidToBytes(input.txid), uint32LE(input.vout))))),
+      sha256(concatBytes(...prevouts.map((prevout) => uint64LE(prevout.amount)))),
+      sha256(concatBytes(...prevouts.map((prevout) => withLength(prevout.scriptPubKey)))),
+      sha256(concatBytes(...tx.inputs.map((input) => uint32LE(input.sequence)))),
+    );
+  }
+  if (outputType !== SIGHASH_NONE && outputType !== SIGHASH_SINGLE) {
+    parts.push(sha256(concatBytes(...tx.outputs.map(encodeOutput))));
+  }
+
+  // spend_type: key path (ext_flag 0), no annex
+  parts.push(new Uint8Array([0x00]));
+  if (anyoneCanPay) {
+    const input = tx.inputs[inputIndex];
+    parts.push(txidToBytes(input.txid), uint32LE(input.vout), encodeOutput(prevouts[inputIndex]), uint32LE(input.sequence));
+  } else {
+    parts.push(uint32LE(inputIndex));
+  }
+  if (outputType === SIGHASH_SINGLE) {
+    parts.push(sha256(encodeOutput(tx.outputs[inputIndex])));
+  }
+
+  return taggedHash("TapSighash", ...parts);
+}
@@ -1,37 +1,593 @@
+/**
+ * Signature scheme: "ecdsa" is the original s = k^-1(h + r·x) construction,
+ * "schnorr" is BIP-340 style s = k + e·x with x-only keys (Babylon finality signatures)
+ */
+export type EOTSScheme = "ecdsa" | "schnorr";
+
 export interface EOTSKeyPair {
   privateKey: Uint8Array;
-  publicKey: Uint8Array;
+  publicKey: Uint8Array; // 33-byte compressed for "ecdsa", 32-byte x-only for "schnorr"
+  scheme?: EOTSScheme; // defaults to "ecdsa"
 }
 
 export interface EOTSSignature {
   r: Uint8Array;
   s: Uint8Array;
+  scheme?: EOTSScheme; // defaults to "ecdsa"
 }
 
-export interface SignatureInput {
-  privateKey: string;
-  messageHash: string;
-  nonce: string;
+/**
+ * Reference to a pre-committed nonce: the secret randomness for (chainId, height) derived from a master seed
+ */
+export interface CommittedNonce {
+  seed: Uint8Array | string; // master randomness seed
+  chainId: string;
+  height: number;
 }
 
-export interface VerificationInput {
+export interface RandomnessPair {
+  height: number;
+  secretNonce: Uint8Array; // 32-byte scalar k, normalized so that k·G has an even Y coordinate
+  publicNonce: Uint8Array; // 32-byte x-only R = k·G
+}
+
+export interface PublicRandomnessBatch {
+  chainId: string;
+  startHeight: number;
+  publicNonces: Uint8Array[]; // publicNonces[i] is committed for startHeight + i
+}
+
+/**
+ * Merkle inclusion proof; aunts are sibling hashes from the leaf up to the root
+ */
+export interface MerkleProof {
+  index: number;
+  total: number;
+  aunts: Uint8Array[];
+}
+
+export interface PublicRandomnessCommitment {
+  chainId: string;
+  startHeight: number;
+  count: number;
+  root: Uint8Array; // merkle root over the batch's public nonces
+}
+
+/**
+ * One signature a signer has released, keyed by (publicKey, slot)
+ * slot is "nonce:<r hex>"; a committed nonce is also recorded under "height:<chainId>:<height>"
+ */
+export interface SigningRecord {
   publicKey: string;
+  slot: string;
   messageHash: string;
   signature: {
     r: string;
     s: string;
+    scheme: EOTSScheme;
   };
+  signedAt: string; // ISO 8601
+}
+
+/**
+ * Pluggable persistence for signing records
+ */
+export interface SigningRecordStore {
+  get(publicKey: string, slot: string): Promise<SigningRecord | undefined>;
+  put(record: SigningRecord): Promise<void>;
+  list(): Promise<SigningRecord[]>;
+}
+
+/**
+ * Interchange format for migrating a signer's history between machines
+ */
+export interface SigningHistoryExport {
+  format: "eots-signing-history";
+  version: 1;
+  exportedAt: string;
+  records: SigningRecord[];
+}
+
+/**
+ * A signature seen on the wire, with the key and message it claims
+ */
+export interface ObservedSignature {
+  publicKey: string;
+  messageHash: string;
+  signature: EOTSSignature;
+}
+
+/**
+ * Two signatures from one key that share r but sign different messages
+ */
+export interface EquivocationAlert {
+  publicKey: string;
+  r: string;
+  evidence: [ObservedSignature, ObservedSignature];
+  compromised?: CompromisedKey; // set when extraction reproduced the claimed public key
+  error?: string; // why extraction failed or did not match
+}
+
+export interface CompromisedKey {
+  publicKey: string;
+  scheme: EOTSScheme;
+  privateKey: string;
+  taprootAddress: string;
+  evidence: [ObservedSignature, ObservedSignature];
+}
+
+/**
+ * Self-contained proof that a key signed two messages with the same nonce
+ * Canonical form orders the two signatures by message hash
+ */
+export interface EquivocationEvidence {
+  version: 1;
+  scheme: EOTSScheme;
+  publicKey: Uint8Array; // 33-byte compressed for "ecdsa", 32-byte x-only for "schnorr"
+  messageHash1: Uint8Array;
+  signature1: EOTSSignature;
+  messageHash2: Uint8Array;
+  signature2: EOTSSignature;
+  extractedPrivateKey: Uint8Array;
+}
+
+export interface EquivocationEvidenceJSON {
+  version: 1;
+  scheme: EOTSScheme;
+  publicKey: string;
+  messageHash1: string;
+  signature1: { r: string; s: string };
+  messageHash2: string;
+  signature2: { r: string; s: string };
+  extractedPrivateKey: string;
+}
+
+export type EvidenceFailureReason = "malformed" | "invalid_signature_1" | "invalid_signature_2" | "nonce_mismatch" | "same_message" | "key_mismatch";
+
+export interface EvidenceVerificationResult {
+  valid: boolean;
+  reason?: EvidenceFailureReason;
+  message?: string;
+}
+
+/**
+ * Bitcoin network, selects the bech32 human-readable part of addresses
+ */
+export type BitcoinNetwork = "mainnet" | "testnet" | "signet" | "regtest";
+
+export interface TaprootAddressInfo {
+  network: BitcoinNetwork; // signet addresses share the "tb" prefix and decode as "testnet" unless signet is requested
+  outputKey: Uint8Array; // 32-byte tweaked x-only key (witness program)
+}
+
+/**
+ * BIP-32 extended key; privateKey is only set for private (xprv) keys
+ */
+export interface ExtendedKey {
+  depth: number;
+  parentFingerprint: number; // first 4 bytes of the parent's hash160 as a uint32 (0 for the master key)
+  index: number; // child number, >= 0x80000000 for hardened children
+  chainCode: Uint8Array;
+  publicKey: Uint8Array; // 33-byte compressed
+  privateKey?: Uint8Array;
+}
+
+/**
+ * Everything a finality provider needs from one derivation path
+ */
+export interface DerivedEOTSKeys {
+  path: string;
+  keyPair: EOTSKeyPair;
+  randomnessSeed: Uint8Array; // master seed for committed public randomness
+  taprootAddress: string; // BIP-86 key-path address of the derived key
+  extendedPublicKey: string; // xpub/tpub of the derived node
+}
+
+/**
+ * Password-based key derivation for keystores; the salt is hex
+ */
+export type KeystoreKDF = { name: "scrypt"; n: number; r: number; p: number; salt: string } | { name: "pbkdf2"; iterations: number; hash: "sha256"; salt: string };
+
+/**
+ * Password-encrypted EOTS private key file
+ * The private key (followed by the randomness seed, if any) is encrypted with AES-256-GCM; the metadata is
+ * authenticated as additional data, so editing it makes decryption fail
+ */
+export interface EOTSKeystore {
+  format: "eots-keystore";
+  version: 1;
+  publicKey: string;
+  scheme: EOTSScheme;
+  createdAt: string; // ISO 8601
+  hasRandomnessSeed: boolean;
+  kdf: KeystoreKDF;
+  cipher: { name: "aes-256-gcm"; iv: string };
+  ciphertext: string; // hex, including the 16-byte authentication tag
+}
+
+export interface KeystoreOptions {
+  scheme?: EOTSScheme; // defaults to "ecdsa"
+  randomnessSeed?: Uint8Array | string; // encrypted together with the private key
+  kdf?: "scrypt" | "pbkdf2"; // defaults to "scrypt"
+  scryptN?: number; // defaults to 2^17
+  pbkdf2Iterations?: number; // defaults to 600000
+  createdAt?: Date; // defaults to now
+}
+
+export interface DecryptedKeystore {
+  keyPair: EOTSKeyPair;
+  randomnessSeed?: Uint8Array;
+  createdAt: string;
+}
+
+/**
+ * Bitcoin transactions; amounts are in satoshis and txids in the usual (byte-reversed) display order
+ */
+export interface TransactionInput {
+  txid: string;
+  vout: number;
+  sequence: number;
+  scriptSig: Uint8Array;
+  witness: Uint8Array[];
+}
+
+export interface TransactionOutput {
+  amount: number;
+  scriptPubKey: Uint8Array;
+}
+
+export interface Transaction {
+  version: number;
+  inputs: TransactionInput[];
+  outputs: TransactionOutput[];
+  locktime: number;
+}
+
+/**
+ * What a PSBT input records about a Taproot key-path spend
+ */
+export interface PSBTTaprootInput {
+  witnessUtxo: TransactionOutput;
+  internalKey: Uint8Array; // 32-byte x-only internal key
+  merkleRoot?: Uint8Array;
+  keySignature?: Uint8Array; // 64-byte signature, or 65 bytes with a non-default sighash type
+}
+
+/**
+ * An unspent output held by the key being swept
+ */
+export interface UTXO {
+  txid: string;
+  vout: number;
+  amount: number;
+  scriptPubKey: string;
+}
+
+export interface SweepOptions {
+  network?: BitcoinNetwork; // network of the destination address (defaults to "mainnet")
+  merkleRoot?: Uint8Array | string; // script tree of the spent outputs, if they commit to one
+  locktime?: number; // defaults to 0
+  rbf?: boolean; // signal replaceability (BIP-125), defaults to true
+}
+
+export interface SweepResult {
+  transaction: Transaction;
+  hex: string; // signed raw transaction
+  txid: string;
+  psbt: string; // base64 PSBT (BIP-174/BIP-371) carrying the UTXOs, internal key and key-path signatures
+  inputAmount: number;
+  outputAmount: number;
+  fee: number;
+  vsize: number;
+}
+
+/**
+ * What a finality vote commits to: the block hash, or the app hash of Cosmos-style chains
+ */
+export type FinalityVoteKind = "block" | "app";
+
+/**
+ * A finality provider's vote for a block; it is signed as taggedHash(tag, encoding) rather than as a bare hash
+ */
+export interface FinalityVote {
+  chainId: string;
+  height: number;
+  hash: Uint8Array | string; // 32 bytes
+  kind?: FinalityVoteKind; // defaults to "block"
+  tag?: string; // domain tag of the message hash, defaults to "EOTS/finality-vote"
+}
+
+/**
+ * Anything EOTS can sign: a 32-byte message hash or a structured finality vote
+ */
+export type EOTSMessage = Uint8Array | string | FinalityVote;
+
+/**
+ * Leaf of a Taproot script tree; merklePath holds the sibling hashes from the leaf up to the root
+ */
+export interface TapLeaf {
+  script: Uint8Array;
+  leafVersion: number; // 0xc0 for Tapscript
+  leafHash: Uint8Array;
+  merklePath: Uint8Array[];
+}
+
+export interface TapTree {
+  merkleRoot: Uint8Array;
+  leaves: TapLeaf[]; // in the order the scripts were given
+}
+
+/**
+ * Keys and parameters of a staking output; keys are 32-byte x-only or 33-byte compressed
+ */
+export interface StakingScriptParams {
+  stakerKey: Uint8Array | string;
+  finalityProviderKeys: (Uint8Array | string)[]; // any one of them can be slashed together with the staker
+  covenantKeys: (Uint8Array | string)[];
+  covenantQuorum: number; // covenant signatures required (k of n)
+  stakingTime: number; // relative timelock in blocks, 1 to 65535
+  internalKey?: Uint8Array | string; // defaults to the NUMS point, which disables the key path
+}
+
+export interface StakingLeaf extends TapLeaf {
+  controlBlock: Uint8Array;
+}
+
+/**
+ * Taproot staking output: the staker withdraws after the timelock, or earlier through unbonding with
+ * covenant approval; a finality provider's EOTS key (extracted after a double sign) plus the covenant
+ * committee can move the stake through the slashing leaf
+ */
+export interface StakingOutput {
+  internalKey: Uint8Array;
+  merkleRoot: Uint8Array;
+  outputKey: Uint8Array;
+  scriptPubKey: Uint8Array;
+  address: string;
+  timelock: StakingLeaf;
+  unbonding: StakingLeaf;
+  slashing: StakingLeaf;
+}
+
+/**
+ * A finality provider taking part in a simulation
+ */
+export interface SimulationProviderConfig {
+  name?: string; // defaults to "fp-<index>"
+  votingPower: number; // positive integer, e.g. staked satoshis
+}
+
+/**
+ * Scripted misbehaviour: "double_sign" votes for the block and for a fork at one height with the same
+ * committed nonce, "offline" skips the vote at that height
+ */
+export interface SimulationFault {
+  type: "double_sign" | "offline";
+  provider: number; // index into providers
+  height: number;
+}
+
+/**
+ * Simulation parameters; the same config (including the seed) always produces the same run
+ */
+export interface SimulationConfig {
+  seed: string;
+  providers: SimulationProviderConfig[];
+  heights: number; // number of blocks to simulate
+  startHeight?: number; // defaults to 1
+  chainId?: string; // defaults to "sim-chain"
+  quorum?: number; // fraction of voting power a block must exceed to be final, defaults to 2/3
+  participation?: number; // chance an honest provider votes at a height, defaults to 1
+  faults?: SimulationFault[];
+  network?: BitcoinNetwork; // for Taproot addresses of slashed keys, defaults to "mainnet"
+}
+
+export type SimulationEventType = "commit_randomness" | "propose" | "vote" | "missed_vote" | "equivocation" | "slash" | "finalize" | "stall";
+
+/**
+ * One entry of a simulation timeline; all byte fields are lowercase hex
+ */
+export interface SimulationEvent {
+  step: number;
+  height: number;
+  type: SimulationEventType;
+  provider?: string;
+  blockHash?: string;
+  fork?: boolean; // vote or proposal for the conflicting block
+  r?: string; // committed public nonce the vote was signed with
+  votingPower?: number; // power behind the block (finalize, stall) or power removed (slash)
+  privateKey?: string; // extracted key (slash)
+  taprootAddress?: string; // address of the extracted key (slash)
+  evidenceId?: string; // (equivocation, slash)
+  message: string;
+}
+
+export interface SimulationProvider {
+  name: string;
+  publicKey: string; // x-only
+  votingPower: number;
+  randomnessRoot: string; // merkle root of the committed public randomness
+  slashedAtHeight?: number;
+}
+
+export interface SimulationBlock {
+  height: number;
+  hash: string;
+  forkHash?: string; // conflicting block signed at a double-sign height
+  votedPower: number; // power of unslashed providers that voted for hash
+  totalPower: number; // power of unslashed providers at the start of the height
+  finalized: boolean;
+}
+
+export interface SimulationResult {
+  seed: string;
+  chainId: string;
+  quorum: number;
+  providers: SimulationProvider[];
+  blocks: SimulationBlock[];
+  events: SimulationEvent[];
+  evidence: EquivocationEvidenceJSON[];
+  finalizedHeight: number; // last finalized height, startHeight - 1 when nothing was finalized
+}
+
+/**
+ * What an attacker knows about a signing nonce: its top ("msb") or bottom ("lsb") `bits` bits equal `value`
+ * For Schnorr the nonce is the one in s = k + e·x, i.e. after even-Y normalization
+ */
+export interface NonceLeak {
+  position: "msb" | "lsb";
+  bits: number;
+  value: bigint;
+}
+
+export interface LeakySignature {
+  messageHash: Uint8Array | string;
+  signature: EOTSSignature;
+  leak: NonceLeak;
+}
+
+export interface LeakySignatureOptions {
+  bits: number; // leaked bits per nonce
+  position?: "msb" | "lsb"; // defaults to "msb"
+  biased?: boolean; // the leaked bits are always zero (a biased nonce generator) rather than random bits revealed by a side channel
+  scheme?: EOTSScheme; // defaults to "ecdsa"
+  seed?: Uint8Array | string; // makes nonces and messages reproducible, random when omitted
+}
+
+export interface HNPReportOptions {
+  leakedBits: number[];
+  signatureCounts: number[];
+  trials?: number; // attacks per (leakedBits, signatureCount) cell, defaults to 5
+  position?: "msb" | "lsb";
+  biased?: boolean;
+  scheme?: EOTSScheme;
+  seed?: string; // makes keys and signatures reproducible, random when omitted
+}
+
+/**
+ * One cell of a hidden number problem report: how often the lattice attack recovered the key
+ */
+export interface HNPReportEntry {
+  leakedBits: number;
+  signatures: number;
+  trials: number;
+  successes: number;
+  successRate: number;
+  averageMilliseconds: number;
+}
+
+/**
+ * Machine-readable reason an input was rejected by the parsing layer
+ */
+export type ParseErrorCode = "missing" | "invalid_type" | "invalid_hex" | "invalid_length" | "out_of_range" | "invalid_point" | "invalid_format";
+
+export type PublicKeyFormat = "compressed" | "uncompressed" | "xonly";
+
+/**
+ * Why a signature failed verification
+ */
+export type VerificationFailureReason = "r_out_of_range" | "s_out_of_range" | "invalid_public_key" | "point_at_infinity" | "mismatch" | "not_committed";
+
+export interface VerificationResult {
+  valid: boolean;
+  reason?: VerificationFailureReason; // set when valid is false
+  message?: string; // human-readable description of the failure
+}
+
+/**
+ * One (public key, message, signature) tuple checked by verifyBatch
+ */
+export interface BatchVerificationItem {
+  publicKey: Uint8Array | string;
+  messageHash: Uint8Array | string;
+  signature: EOTSSignature;
+}
+
+export interface BatchVerificationFailure {
+  index: number; // position of the failing item in the input
+  reason: VerificationFailureReason;
+  message?: string;
+}
+
+export interface BatchVerificationResult {
+  valid: boolean; // true when every item verifies
+  invalid: BatchVerificationFailure[]; // failing items in input order
+}
+
+/**
+ * Which signs of s1/s2 reproduced the public key during extraction ("-s" means n - s)
+ */
+export type SignCombination = "s1,s2" | "s1,-s2";
+
+export interface ExtractionResult {
+  privateKey: Uint8Array;
+  combination: SignCombination;
+}
+
+export type SignatureFormat = "der" | "compact" | "base64" | "json";
+
+/**
+ * JSON form of a signature, matching the signature field of VerificationInput/ExtractionInput
+ */
+export interface SignatureJSON {
+  r: string;
+  s: string;
+  scheme?: EOTSScheme;
+}
+
+export interface SignatureInput {
+  privateKey: string;
+  messageHash: string;
+  nonce?: string; // derived with RFC 6979 when omitted
+  scheme?: EOTSScheme;
+  auxRand?: string; // 32 bytes hex, mixed into the derived nonce
+}
+
+export interface VerificationInput {
+  publicKey: string;
+  messageHash: string;
+  signature: SignatureJSON;
 }
 
 export interface ExtractionInput {
-  signature1: {
-    r: string;
-    s: string;
-  };
-  signature2: {
-    r: string;
-    s: string;
-  };
+  signature1: SignatureJSON;
+  signature2: SignatureJSON;
   messageHash1: string;
   messageHash2: string;
+  publicKey?: string; // required for Schnorr, enables low-S handling for ECDSA
+}
+
+export interface KeyGenInput {
+  scheme?: EOTSScheme;
+  network?: BitcoinNetwork;
+}
+
+/**
+ * Response bodies of the HTTP API (all byte fields are lowercase hex)
+ */
+export interface KeyGenResponse {
+  privateKey: string;
+  publicKey: string;
+  scheme: EOTSScheme;
+  network: BitcoinNetwork;
+  taprootAddress: string;
+}
+
+export interface SignResponse {
+  signature: SignatureJSON;
+  publicKey: string;
+}
+
+export interface ExtractionResponse {
+  privateKey: string;
+  publicKey: string;
+  combination: SignCombination | null; // null when no public key was supplied
+}
+
+export interface ApiErrorResponse {
+  error: {
+    code: string; // a ParseErrorCode, "invalid_json", an operation failure such as "extraction_failed", or "internal_error"
+    message: string;
+    field?: string;
+  };
 }
@@ -1,12 +1,16 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { InvalidHexError } from "./errors";
+
 /**
  * Convert hex string to Uint8Array
+ * Accepts an optional 0x prefix; odd lengths and non-hex characters throw InvalidHexError
  */
-export function hexToBytes(hex: string): Uint8Array {
+export function hexToBytes(hex: string, field = "hex"): Uint8Array {
   if (hex.startsWith("0x")) {
     hex = hex.slice(2);
   }
-  if (hex.length % 2 !== 0) {
-    hex = "0" + hex;
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new InvalidHexError(field);
   }
   const bytes = new Uint8Array(hex.length / 2);
   for (let i = 0; i < hex.length; i += 2) {
@@ -24,6 +28,53 @@ export function bytesToHex(bytes: Uint8Array): string {
     .join("");
 }
 
+/**
+ * Concatenate multiple Uint8Arrays
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    result.set(a, offset);
+    offset += a.length;
+  }
+  return result;
+}
+
+/**
+ * BIP-340 tagged hash: sha256(sha256(tag) || sha256(tag) || msgs...)
+ */
+export function taggedHash(tag: string, ...messages: Uint8Array[]): Uint8Array {
+  const tagHash = sha256(new TextEncoder().encode(tag));
+  return sha256(concatBytes(tagHash, tagHash, ...messages));
+}
+
+/**
+ * Encode bytes as standard base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode standard base64 (padding required) to bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  if (!/^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(base64)) {
+    throw new Error("Invalid base64 string");
+  }
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 /**
  * Generate random 32-byte value as hex string
  */
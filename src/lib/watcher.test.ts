@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { CURVE, ProjectivePoint } from "@noble/secp256k1";
+import { createEquivocationWatcher, parseSignatureFeedJSON, parseSignatureFeedCSV } from "./watcher";
+import { signEOTS, getPublicKey, deriveTaprootAddress } from "./eots";
+import { bytesToHex } from "./utils";
+import { bytesToNumber, numberToBytes } from "./math";
+
+const KEY = "e91671c46231f833a6406ccbea0e3e392c76c167bac1cb013f6f1013980455c2";
+const NONCE = "1f4b84c23a86a221d233f2521be018d9318639d5b8bbd6374a8a59232d16ad3d";
+const HASH_A = "715fed1a834b02a62cb3cbfd9308a7c963c823905a2a80949f8036d5989b8581";
+const HASH_B = "9cfd1e7b0524d293af4243694088f6de1d76f3e727771c473ca3b10c21b7d83b";
+const HASH_C = "7e2d58d8b3bcdf1abadec7829054f90dda9805aab56c77333024b9d0a508b75c";
+const PUBLIC_KEY = bytesToHex(getPublicKey(KEY));
+
+// Helper function to render one CSV feed row
+function row(messageHash: string, nonce?: string, scheme = "ecdsa"): string {
+  const signature = signEOTS(KEY, messageHash, nonce, scheme as "ecdsa");
+  const publicKey = bytesToHex(getPublicKey(KEY, scheme as "ecdsa"));
+  return [publicKey, messageHash, bytesToHex(signature.r), bytesToHex(signature.s), scheme].join(",");
+}
+
+describe("createEquivocationWatcher", () => {
+  it("recovers the key when a nonce is reused", () => {
+    const watcher = createEquivocationWatcher("testnet");
+    expect(watcher.importCSV(row(HASH_A, NONCE))).toEqual([]);
+    const [alert] = watcher.importCSV(row(HASH_B, NONCE));
+
+    expect(alert.error).toBeUndefined();
+    expect(alert.compromised).toMatchObject({ publicKey: PUBLIC_KEY, scheme: "ecdsa", privateKey: KEY, taprootAddress: deriveTaprootAddress(KEY, "testnet") });
+    expect(watcher.getCompromisedKeys()).toHaveLength(1);
+  });
+
+  it("imports JSON feeds and keeps the evidence pair", () => {
+    const watcher = createEquivocationWatcher();
+    const [a, b] = [HASH_A, HASH_B].map((messageHash) => {
+      const signature = signEOTS(KEY, messageHash, NONCE);
+      return { publicKey: PUBLIC_KEY, messageHash, r: bytesToHex(signature.r), s: bytesToHex(signature.s) };
+    });
+    const [alert] = watcher.importJSON(JSON.stringify([a, b]));
+
+    expect(alert).toMatchObject({ publicKey: PUBLIC_KEY, r: a.r });
+    expect(alert.evidence.map((observed) => observed.messageHash)).toEqual([HASH_A, HASH_B]);
+    expect(watcher.getCompromisedKeys()[0].evidence).toEqual(alert.evidence);
+  });
+
+  it("indexes by public key as well as r", () => {
+    const other = "c90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b14e5c9";
+    const watcher = createEquivocationWatcher();
+    watcher.add({ publicKey: PUBLIC_KEY, messageHash: HASH_A, signature: signEOTS(KEY, HASH_A, NONCE) });
+    expect(watcher.add({ publicKey: bytesToHex(getPublicKey(other)), messageHash: HASH_B, signature: signEOTS(other, HASH_B, NONCE) })).toEqual([]);
+  });
+
+  it("raises one alert per earlier message and reports each key once", () => {
+    const watcher = createEquivocationWatcher();
+    const alerts = watcher.addAll([HASH_A, HASH_B, HASH_C].map((messageHash) => ({ publicKey: PUBLIC_KEY, messageHash, signature: signEOTS(KEY, messageHash, NONCE) })));
+
+    expect(alerts).toHaveLength(3);
+    expect(alerts.every((alert) => alert.compromised?.privateKey === KEY)).toBe(true);
+    expect(watcher.getCompromisedKeys()).toHaveLength(1);
+  });
+
+  it("recovers Schnorr keys", () => {
+    const watcher = createEquivocationWatcher();
+    const alerts = watcher.importCSV(["publicKey,messageHash,r,s,scheme", row(HASH_A, NONCE, "schnorr"), row(HASH_B, NONCE, "schnorr")].join("\n"));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].compromised?.scheme).toBe("schnorr");
+  });
+
+  it("matches a key across its public key encodings", () => {
+    const xOnly = bytesToHex(getPublicKey(KEY, "schnorr"));
+    const schnorr = createEquivocationWatcher();
+    schnorr.importCSV(row(HASH_A, NONCE, "schnorr"));
+    const alerts = schnorr.importCSV(row(HASH_B, NONCE, "schnorr").replace(xOnly, "02" + xOnly));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].compromised).toMatchObject({ publicKey: xOnly, scheme: "schnorr" });
+
+    const ecdsa = createEquivocationWatcher();
+    const uncompressed = bytesToHex(ProjectivePoint.fromHex(PUBLIC_KEY).toRawBytes(false));
+    ecdsa.importCSV(row(HASH_A, NONCE).replace(PUBLIC_KEY, uncompressed));
+    expect(ecdsa.importCSV(row(HASH_B, NONCE))[0].compromised).toMatchObject({ publicKey: PUBLIC_KEY, privateKey: KEY });
+  });
+
+  it("recovers the key from a low-S normalized signature", () => {
+    const watcher = createEquivocationWatcher();
+    const signature = signEOTS(KEY, HASH_B, NONCE);
+    watcher.add({ publicKey: PUBLIC_KEY, messageHash: HASH_A, signature: signEOTS(KEY, HASH_A, NONCE) });
+    const [alert] = watcher.add({ publicKey: PUBLIC_KEY, messageHash: HASH_B, signature: { ...signature, s: numberToBytes(CURVE.n - bytesToNumber(signature.s), 32) } });
+    expect(alert.compromised?.privateKey).toBe(KEY);
+  });
+
+  it("ignores fresh nonces and repeated messages", () => {
+    const watcher = createEquivocationWatcher();
+    watcher.importCSV([row(HASH_A), row(HASH_B), row(HASH_A, NONCE), row(HASH_A, NONCE)].join("\n"));
+    expect(watcher.getAlerts()).toEqual([]);
+  });
+
+  it("records an alert with an error when extraction fails", () => {
+    const watcher = createEquivocationWatcher();
+    const signature = signEOTS(KEY, HASH_A, NONCE);
+    const forged = { publicKey: PUBLIC_KEY, messageHash: HASH_B, signature: { ...signature, s: signature.s.map((byte) => byte ^ 1) } };
+    watcher.add({ publicKey: PUBLIC_KEY, messageHash: HASH_A, signature });
+    const [alert] = watcher.add(forged);
+    expect(alert.error).toBe("Neither s1,s2 nor s1,-s2 reproduces the public key");
+    expect(watcher.getCompromisedKeys()).toEqual([]);
+  });
+});
+
+describe("signature feeds", () => {
+  it("parses nested and flat JSON entries", () => {
+    const signature = signEOTS(KEY, HASH_A, NONCE);
+    const r = bytesToHex(signature.r);
+    const s = bytesToHex(signature.s);
+    const feed = parseSignatureFeedJSON(JSON.stringify([{ publicKey: PUBLIC_KEY, messageHash: HASH_A, signature: { r, s } }, { publicKey: PUBLIC_KEY, messageHash: HASH_A, r, s, scheme: "ecdsa" }]));
+    expect(feed).toHaveLength(2);
+    expect(feed[0]).toEqual(feed[1]);
+  });
+
+  it("rejects malformed feeds", () => {
+    expect(() => parseSignatureFeedJSON("{}")).toThrow("Signature feed JSON must be an array");
+    expect(() => parseSignatureFeedJSON(JSON.stringify([{ publicKey: PUBLIC_KEY }]))).toThrow("Each entry needs publicKey, messageHash, r and s");
+    expect(() => parseSignatureFeedCSV(`${PUBLIC_KEY},${HASH_A},zz,zz`)).toThrow("Signature feed entries must be hex encoded");
+    expect(() => parseSignatureFeedCSV(row(HASH_A, NONCE).replace(/ecdsa$/, "rsa"))).toThrow("Unknown scheme: rsa");
+  });
+});
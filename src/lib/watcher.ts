@@ -0,0 +1,145 @@
+import { BitcoinNetwork, CompromisedKey, EOTSScheme, EquivocationAlert, ObservedSignature } from "./types";
+import { hexToBytes, bytesToHex, isValidHex } from "./utils";
+import { extractPrivateKey, getPublicKey, deriveTaprootAddress } from "./eots";
+import { canonicalPublicKey, parsePublicKey } from "./parse";
+
+// Helper function to strip 0x and lowercase a hex string
+function normalizeHex(hex: string): string {
+  return (hex.startsWith("0x") ? hex.slice(2) : hex).toLowerCase();
+}
+
+// Helper function to give each key a single index entry whichever encoding verification would accept it in
+function normalizePublicKey(publicKey: string, scheme: EOTSScheme): string {
+  return bytesToHex(canonicalPublicKey(parsePublicKey(publicKey, "publicKey", scheme === "schnorr" ? ["xonly", "compressed"] : ["compressed", "uncompressed"]), scheme));
+}
+
+// Helper function to build one observed signature from loosely typed input
+function toObservedSignature(publicKey: unknown, messageHash: unknown, r: unknown, s: unknown, scheme: unknown): ObservedSignature {
+  if (typeof publicKey !== "string" || typeof messageHash !== "string" || typeof r !== "string" || typeof s !== "string") {
+    throw new Error("Each entry needs publicKey, messageHash, r and s");
+  }
+  if (!isValidHex(publicKey) || !isValidHex(messageHash) || !isValidHex(r, 32) || !isValidHex(s, 32)) {
+    throw new Error("Signature feed entries must be hex encoded");
+  }
+  if (scheme !== undefined && scheme !== "" && scheme !== "ecdsa" && scheme !== "schnorr") {
+    throw new Error(`Unknown scheme: ${scheme}`);
+  }
+  return {
+    publicKey,
+    messageHash,
+    signature: { r: hexToBytes(r), s: hexToBytes(s), scheme: (scheme || "ecdsa") as EOTSScheme },
+  };
+}
+
+/**
+ * Parse a JSON signature feed
+ * Accepts an array of { publicKey, messageHash, signature: { r, s }, scheme? } (the VerificationInput shape) or flat { publicKey, messageHash, r, s, scheme? }
+ * @param text - JSON text
+ * @returns Observed signatures
+ */
+export function parseSignatureFeedJSON(text: string): ObservedSignature[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error("Signature feed JSON must be an array");
+  }
+  return data.map((entry) => {
+    const sig = entry?.signature ?? entry;
+    return toObservedSignature(entry?.publicKey, entry?.messageHash, sig?.r, sig?.s, entry?.scheme ?? sig?.scheme);
+  });
+}
+
+/**
+ * Parse a CSV signature feed with columns publicKey,messageHash,r,s[,scheme]
+ * A header row naming the columns is optional
+ * @param text - CSV text
+ * @returns Observed signatures
+ */
+export function parseSignatureFeedCSV(text: string): ObservedSignature[] {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"))
+    .map((line) => line.split(",").map((cell) => cell.trim()));
+
+  if (rows.length > 0 && rows[0].some((cell) => cell.toLowerCase() === "publickey")) {
+    const header = rows.shift()!.map((cell) => cell.toLowerCase());
+    const column = (name: string) => header.indexOf(name.toLowerCase());
+    return rows.map((row) => toObservedSignature(row[column("publicKey")], row[column("messageHash")], row[column("r")], row[column("s")], column("scheme") >= 0 ? row[column("scheme")] : undefined));
+  }
+
+  return rows.map((row) => toObservedSignature(row[0], row[1], row[2], row[3], row[4]));
+}
+
+/**
+ * Create an equivocation watcher
+ * Signatures are indexed by (public key, r); a second signature with the same r over a different message
+ * triggers extraction, and the recovered key is checked against the claimed public key
+ * @param network - Network for derived Taproot addresses (defaults to "mainnet")
+ * @returns Watcher with incremental and bulk ingestion
+ */
+export function createEquivocationWatcher(network: BitcoinNetwork = "mainnet") {
+  const index = new Map<string, ObservedSignature[]>();
+  const alerts: EquivocationAlert[] = [];
+  const compromised = new Map<string, CompromisedKey>();
+
+  const check = (publicKey: string, a: ObservedSignature, b: ObservedSignature): EquivocationAlert => {
+    const alert: EquivocationAlert = { publicKey, r: bytesToHex(a.signature.r), evidence: [a, b] };
+    const scheme = a.signature.scheme ?? "ecdsa";
+
+    try {
+      if ((b.signature.scheme ?? "ecdsa") !== scheme) {
+        throw new Error("Signatures use different schemes");
+      }
+      const privateKey = extractPrivateKey(a.signature, b.signature, a.messageHash, b.messageHash, publicKey);
+      const derived = bytesToHex(getPublicKey(privateKey, scheme));
+      if (derived !== publicKey) {
+        throw new Error("Extracted key does not match the claimed public key");
+      }
+
+      alert.compromised = compromised.get(publicKey) ?? {
+        publicKey,
+        scheme,
+        privateKey: bytesToHex(privateKey),
+        taprootAddress: deriveTaprootAddress(privateKey, network),
+        evidence: [a, b],
+      };
+      compromised.set(publicKey, alert.compromised);
+    } catch (error) {
+      alert.error = error instanceof Error ? error.message : String(error);
+    }
+
+    alerts.push(alert);
+    return alert;
+  };
+
+  const add = (observed: ObservedSignature): EquivocationAlert[] => {
+    const publicKey = normalizePublicKey(observed.publicKey, observed.signature.scheme ?? "ecdsa");
+    const key = `${publicKey}|${bytesToHex(observed.signature.r)}`;
+    const messageHash = normalizeHex(observed.messageHash);
+    const entry = { ...observed, publicKey, messageHash };
+
+    const seen = index.get(key) ?? [];
+    if (seen.some((other) => other.messageHash === messageHash)) {
+      return [];
+    }
+
+    const raised = seen.map((other) => check(publicKey, other, entry));
+    index.set(key, [...seen, entry]);
+    return raised;
+  };
+
+  return {
+    /** Ingest one signature; returns alerts raised by it */
+    add,
+    /** Ingest many signatures; returns alerts raised by them */
+    addAll: (observed: ObservedSignature[]): EquivocationAlert[] => observed.flatMap(add),
+    /** Ingest a JSON feed (see parseSignatureFeedJSON) */
+    importJSON: (text: string): EquivocationAlert[] => parseSignatureFeedJSON(text).flatMap(add),
+    /** Ingest a CSV feed (see parseSignatureFeedCSV) */
+    importCSV: (text: string): EquivocationAlert[] => parseSignatureFeedCSV(text).flatMap(add),
+    /** All alerts raised so far, including pairs whose extraction failed */
+    getAlerts: (): EquivocationAlert[] => [...alerts],
+    /** Keys whose private key was recovered and matched */
+    getCompromisedKeys: (): CompromisedKey[] => Array.from(compromised.values()),
+  };
+}